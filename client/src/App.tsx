@@ -20,6 +20,7 @@ import History from "./pages/History";
 import Calendar from "./pages/Calendar";
 import Analytics from "./pages/Analytics";
 import Reminders from "./pages/Reminders";
+import ImportStatement from "./pages/ImportStatement";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminUserManagement from "./pages/AdminUserManagement";
 import AdminCreateUser from "./pages/AdminCreateUser";
@@ -27,6 +28,7 @@ import AdminSubscriptionManagement from "./pages/AdminSubscriptionManagement";
 import AdminSettings from "./pages/AdminSettings";
 import AdminNotifications from "./pages/AdminNotifications";
 import AdminApiKeys from "./pages/AdminApiKeys";
+import Login from "./pages/Login";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -35,10 +37,12 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/features" component={Features} />
+      <Route path="/login" component={Login} />
       <Route path="/calendar" component={Calendar} />
       <Route path="/history" component={History} />
       <Route path="/analytics" component={Analytics} />
       <Route path="/reminders" component={Reminders} />
+      <Route path="/import" component={ImportStatement} />
       <Route path="/docs" component={Documentation} />
       <Route path="/api-keys" component={ApiKeys} />
       <Route path="/profile" component={Profile} />
@@ -39,6 +39,7 @@ interface AIInsightsResponse {
   notifications: any[];
   summary: {
     totalCost: number;
+    currency: string;
     activeSubscriptions: number;
     upcomingRenewals: number;
     categoryCosts: Record<string, number>;
@@ -210,7 +211,7 @@ export default function AIInsightsDialog() {
                           <div>
                             <p className="text-sm font-medium">Total Cost</p>
                             <p className="text-lg font-bold">
-                              {formatCurrency(insightsData.summary.totalCost)}
+                              {formatCurrency(insightsData.summary.totalCost, insightsData.summary.currency)}
                             </p>
                           </div>
                         </div>
@@ -317,7 +318,7 @@ export default function AIInsightsDialog() {
                           .map(([category, cost]) => (
                             <div key={category} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
                               <span className="font-medium">{category}</span>
-                              <span className="text-lg font-bold">{formatCurrency(cost)}</span>
+                              <span className="text-lg font-bold">{formatCurrency(cost, insightsData.summary.currency)}</span>
                             </div>
                           ))}
                       </div>
@@ -19,6 +19,9 @@ import { z } from "zod";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format, differenceInDays } from "date-fns";
+import { SUPPORTED_CURRENCIES } from "@shared/currency";
+import { BILLING_CYCLES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from "@shared/recurrence";
+import { useCurrency } from "@/hooks/useCurrency";
 
 const formSchema = insertSubscriptionSchema.extend({
   nextBillingDate: z.string().optional(),
@@ -29,6 +32,7 @@ const formSchema = insertSubscriptionSchema.extend({
   email: z.string().email().optional().or(z.literal('')),
   paymentStatus: z.enum(['paid', 'pending', 'failed', 'overdue']).default('paid'),
 }).superRefine((data, ctx) => {
+  refineCustomCycle(data, ctx);
   // Conditional validation based on trial status
   if (!data.isTrial && (!data.nextBillingDate || data.nextBillingDate === '')) {
     ctx.addIssue({
@@ -76,14 +80,9 @@ const categories = [
   'Other'
 ];
 
-const billingCycles = [
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'yearly', label: 'Yearly' }
-];
-
 export default function AddSubscriptionForm({ onSubmit, isLoading = false, currentSubscriptionCount = 0 }: AddSubscriptionFormProps) {
   const [open, setOpen] = useState(false);
+  const { reportingCurrency } = useCurrency();
   
   // Fetch user status and plan information
   const { data: userStatus } = useQuery<UserStatus>({
@@ -96,13 +95,16 @@ export default function AddSubscriptionForm({ onSubmit, isLoading = false, curre
     defaultValues: {
       name: '',
       cost: '0.00',
+      currency: reportingCurrency,
       billingCycle: 'monthly',
+      customCycleCount: undefined,
+      customCycleUnit: undefined,
       category: 'Entertainment',
       nextBillingDate: '',
       description: '',
       email: '',
       paymentStatus: 'paid',
-      isActive: 1,
+      isActive: true,
       isTrial: false,
       trialDays: undefined,
       cardLast4: '',
@@ -260,7 +262,7 @@ export default function AddSubscriptionForm({ onSubmit, isLoading = false, curre
               )}
             />
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="cost"
@@ -282,6 +284,31 @@ export default function AddSubscriptionForm({ onSubmit, isLoading = false, curre
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-currency">
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency.code} value={currency.code}>
+                            {currency.code} - {currency.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="billingCycle"
@@ -295,7 +322,7 @@ export default function AddSubscriptionForm({ onSubmit, isLoading = false, curre
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {billingCycles.map((cycle) => (
+                        {BILLING_CYCLES.map((cycle) => (
                           <SelectItem key={cycle.value} value={cycle.value}>
                             {cycle.label}
                           </SelectItem>
@@ -308,6 +335,57 @@ export default function AddSubscriptionForm({ onSubmit, isLoading = false, curre
               />
             </div>
 
+            {form.watch('billingCycle') === 'custom' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="customCycleCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeat Every</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          placeholder="45"
+                          min="1"
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          data-testid="input-custom-cycle-count"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="customCycleUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value ?? undefined}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-custom-cycle-unit">
+                            <SelectValue placeholder="Select unit" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CUSTOM_CYCLE_UNITS.map((unit) => (
+                            <SelectItem key={unit} value={unit} className="capitalize">
+                              {unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -0,0 +1,134 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CalendarDays, Copy, ExternalLink, RefreshCw, Trash2, Info } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface CalendarFeed {
+  enabled: boolean;
+  url: string | null;
+  webcalUrl: string | null;
+}
+
+/**
+ * Secret ICS feed URL for Apple Calendar, Outlook, Thunderbird and other apps that subscribe by URL
+ */
+export default function CalendarFeedCard() {
+  const { toast } = useToast();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ['/api/calendar/feed'],
+  });
+
+  const updateFeed = (data: CalendarFeed) => {
+    queryClient.setQueryData(['/api/calendar/feed'], data);
+    queryClient.invalidateQueries({ queryKey: ['/api/reminders/preferences'] });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/feed');
+      return await response.json() as CalendarFeed;
+    },
+    onSuccess: (data) => {
+      const replaced = feed?.enabled;
+      updateFeed(data);
+      toast({
+        title: replaced ? 'Feed URL regenerated' : 'Calendar feed enabled',
+        description: replaced ? 'Calendars subscribed to the old URL will stop updating' : 'Add the URL to your calendar app to subscribe',
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to create the calendar feed', variant: 'destructive' });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/calendar/feed');
+      return await response.json() as CalendarFeed;
+    },
+    onSuccess: (data) => {
+      updateFeed(data);
+      toast({ title: 'Calendar feed turned off', description: 'The feed URL no longer works' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to turn off the calendar feed', variant: 'destructive' });
+    }
+  });
+
+  const copyUrl = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast({ title: 'Copied', description: 'Feed URL copied to clipboard' });
+  };
+
+  const confirmRegenerate = () => {
+    if (confirm('Regenerate the feed URL? Calendars subscribed to the current URL will stop updating.')) {
+      regenerateMutation.mutate();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed (Apple Calendar, Outlook)
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your renewals and trial end dates from any calendar app, with alerts on your reminder days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : feed?.enabled && feed.url ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Feed URL</Label>
+              <div className="flex gap-2">
+                <Input id="calendar-feed-url" value={feed.url} readOnly className="font-mono text-xs" data-testid="input-calendar-feed-url" />
+                <Button type="button" variant="outline" size="icon" onClick={() => copyUrl(feed.url!)} data-testid="button-copy-calendar-feed">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                Anyone with this URL can see your subscriptions. If it has been shared by mistake, regenerate it.
+              </AlertDescription>
+            </Alert>
+            <div className="flex flex-wrap gap-2">
+              {feed.webcalUrl && (
+                <Button type="button" variant="outline" asChild>
+                  <a href={feed.webcalUrl} data-testid="link-subscribe-calendar-feed">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open in calendar app
+                  </a>
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={confirmRegenerate} disabled={regenerateMutation.isPending} data-testid="button-regenerate-calendar-feed">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regenerate URL
+              </Button>
+              <Button type="button" variant="destructive" onClick={() => revokeMutation.mutate()} disabled={revokeMutation.isPending} data-testid="button-revoke-calendar-feed">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Turn off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button type="button" onClick={() => regenerateMutation.mutate()} disabled={regenerateMutation.isPending} data-testid="button-enable-calendar-feed">
+            <CalendarDays className="h-4 w-4 mr-2" />
+            {regenerateMutation.isPending ? 'Creating...' : 'Create feed URL'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
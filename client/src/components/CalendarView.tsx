@@ -4,9 +4,12 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ChevronLeft, ChevronRight, Calendar, DollarSign, Clock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, Clock } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isSameMonth, isToday, addMonths, subMonths, parseISO } from 'date-fns';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatBillingCycle, getRecurrence, occurrencesBetween } from '@shared/recurrence';
+import { isCancellationConfirmed } from '@shared/cancellation';
 import type { Subscription } from '@shared/schema';
 
 interface CalendarViewProps {
@@ -20,14 +23,6 @@ interface CalendarDay {
   subscriptions: Subscription[];
 }
 
-const formatCurrency = (amount: string) => {
-  const num = parseFloat(amount);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(num);
-};
-
 const getPaymentStatusColor = (status: string) => {
   switch (status.toLowerCase()) {
     case 'paid':
@@ -46,40 +41,56 @@ const getPaymentStatusColor = (status: string) => {
 export default function CalendarView({ subscriptions, onSelectSubscription }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const { convert, reportingCurrency } = useCurrency();
+
+  // Sum of renewals in the user's reporting currency
+  const totalFor = (subs: Subscription[]) =>
+    subs.reduce((sum, sub) => sum + convert(parseFloat(sub.cost), sub.currency), 0);
 
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
 
+  // Grid range: from the first day of the week containing the first day of the month
+  // to the last day of the week containing the last day of the month
+  const { calendarStart, calendarEnd } = useMemo(() => {
+    const start = new Date(monthStart);
+    start.setDate(start.getDate() - start.getDay());
+    const end = new Date(monthEnd);
+    end.setDate(end.getDate() + (6 - end.getDay()));
+    return { calendarStart: start, calendarEnd: end };
+  }, [currentDate]);
+
+  // Every renewal that falls inside the visible grid, following each billing cycle
+  const renewals = useMemo(() => {
+    const rangeEnd = new Date(calendarEnd);
+    rangeEnd.setHours(23, 59, 59, 999);
+
+    return subscriptions.flatMap(sub => {
+      // Paused, or cancelled with the provider: no renewals to show
+      if (sub.pausedAt || isCancellationConfirmed(sub)) return [];
+      const anchor = new Date(sub.nextBillingDate);
+      if (isNaN(anchor.getTime())) {
+        console.warn('Invalid date format for subscription:', sub.id, sub.nextBillingDate);
+        return [];
+      }
+      return occurrencesBetween(anchor, getRecurrence(sub), calendarStart, rangeEnd)
+        .map(date => ({ date, subscription: sub }));
+    });
+  }, [subscriptions, calendarStart, calendarEnd]);
+
+  const subscriptionsOn = (date: Date) =>
+    renewals.filter(renewal => isSameDay(renewal.date, date)).map(renewal => renewal.subscription);
+
   // Generate calendar days (including previous/next month days for complete grid)
   const calendarDays = useMemo(() => {
-    // Start from the first day of the week containing the first day of the month
-    const calendarStart = new Date(monthStart);
-    calendarStart.setDate(calendarStart.getDate() - calendarStart.getDay());
-    
-    // End at the last day of the week containing the last day of the month
-    const calendarEnd = new Date(monthEnd);
-    calendarEnd.setDate(calendarEnd.getDate() + (6 - calendarEnd.getDay()));
-
     const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
     
-    return days.map(date => {
-      const daySubscriptions = subscriptions.filter(sub => {
-        try {
-          const subDate = new Date(sub.nextBillingDate);
-          return isSameDay(subDate, date);
-        } catch (error) {
-          console.warn('Invalid date format for subscription:', sub.id, sub.nextBillingDate);
-          return false;
-        }
-      });
-
-      return {
-        date,
-        isCurrentMonth: isSameMonth(date, currentDate),
-        subscriptions: daySubscriptions,
-      };
-    });
-  }, [currentDate, subscriptions, monthStart, monthEnd]);
+    return days.map(date => ({
+      date,
+      isCurrentMonth: isSameMonth(date, currentDate),
+      subscriptions: subscriptionsOn(date),
+    }));
+  }, [currentDate, calendarStart, calendarEnd, renewals]);
 
   // Group calendar days into weeks
   const weeks = useMemo(() => {
@@ -105,29 +116,15 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
     setSelectedDate(day.date);
   };
 
-  const selectedDaySubscriptions = selectedDate 
-    ? subscriptions.filter(sub => {
-        try {
-          const subDate = new Date(sub.nextBillingDate);
-          return isSameDay(subDate, selectedDate);
-        } catch (error) {
-          return false;
-        }
-      })
-    : [];
+  const selectedDaySubscriptions = selectedDate ? subscriptionsOn(selectedDate) : [];
 
   const monthlyTotal = useMemo(() => {
-    const monthSubs = subscriptions.filter(sub => {
-      try {
-        const subDate = new Date(sub.nextBillingDate);
-        return isSameMonth(subDate, currentDate);
-      } catch (error) {
-        return false;
-      }
-    });
+    const monthSubs = renewals
+      .filter(renewal => isSameMonth(renewal.date, currentDate))
+      .map(renewal => renewal.subscription);
     
-    return monthSubs.reduce((total, sub) => total + parseFloat(sub.cost), 0);
-  }, [subscriptions, currentDate]);
+    return totalFor(monthSubs);
+  }, [renewals, currentDate, convert]);
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -147,7 +144,7 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
             
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
               <div className="text-sm text-muted-foreground text-center sm:text-left">
-                Monthly Total: <span className="font-medium text-foreground">{formatCurrency(monthlyTotal.toString())}</span>
+                Monthly Total: <span className="font-medium text-foreground">{formatCurrency(monthlyTotal, reportingCurrency)}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Button
@@ -235,7 +232,7 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
                               "text-xs px-0.5 sm:px-1 py-0.5 rounded border text-center truncate font-medium",
                               getPaymentStatusColor(subscription.paymentStatus || 'paid')
                             )}
-                            title={`${subscription.name} - ${formatCurrency(subscription.cost)}`}
+                            title={`${subscription.name} - ${formatCurrency(parseFloat(subscription.cost), subscription.currency)}`}
                           >
                             <span className="hidden sm:inline">{subscription.name}</span>
                             <span className="sm:hidden">{subscription.name.substring(0, 3)}</span>
@@ -252,14 +249,10 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
                       {day.subscriptions.length > 0 && (
                         <div className="absolute bottom-0.5 right-0.5 sm:bottom-1 sm:right-1 text-xs font-mono text-muted-foreground">
                           <span className="hidden sm:inline">
-                            {formatCurrency(
-                              day.subscriptions
-                                .reduce((sum, sub) => sum + parseFloat(sub.cost), 0)
-                                .toString()
-                            )}
+                            {formatCurrency(totalFor(day.subscriptions), reportingCurrency)}
                           </span>
                           <span className="sm:hidden">
-                            ${day.subscriptions.reduce((sum, sub) => sum + parseFloat(sub.cost), 0).toFixed(0)}
+                            {totalFor(day.subscriptions).toFixed(0)}
                           </span>
                         </div>
                       )}
@@ -294,7 +287,7 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
                     <div>
                       <h4 className="font-medium">{subscription.name}</h4>
                       <p className="text-sm text-muted-foreground">
-                        {subscription.category} • {subscription.billingCycle}
+                        {subscription.category} • {formatBillingCycle(subscription)}
                       </p>
                     </div>
                   </div>
@@ -306,9 +299,8 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
                       {subscription.paymentStatus || 'paid'}
                     </Badge>
                     <div className="text-right">
-                      <div className="font-medium flex items-center gap-1">
-                        <DollarSign className="h-4 w-4" />
-                        {formatCurrency(subscription.cost)}
+                      <div className="font-medium">
+                        {formatCurrency(parseFloat(subscription.cost), subscription.currency)}
                       </div>
                     </div>
                   </div>
@@ -318,11 +310,7 @@ export default function CalendarView({ subscriptions, onSelectSubscription }: Ca
                 <div className="flex justify-between items-center">
                   <span className="font-medium">Day Total:</span>
                   <span className="font-bold text-lg">
-                    {formatCurrency(
-                      selectedDaySubscriptions
-                        .reduce((sum, sub) => sum + parseFloat(sub.cost), 0)
-                        .toString()
-                    )}
+                    {formatCurrency(totalFor(selectedDaySubscriptions), reportingCurrency)}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { CalendarX, CheckCircle, Undo2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { defaultCancelBy, formatCancellationStatus } from "@shared/cancellation";
+import type { Subscription } from "@shared/schema";
+
+interface CancellationDialogProps {
+  subscription: Subscription;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+export default function CancellationDialog({ subscription, open, onOpenChange }: CancellationDialogProps) {
+  const { toast } = useToast();
+  const nextBilling = new Date(subscription.nextBillingDate);
+  const status = subscription.cancellationStatus;
+  const [cancelBy, setCancelBy] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCancelBy(toDateInput(subscription.cancelBy ?? defaultCancelBy(nextBilling)));
+    }
+  }, [open, subscription.cancelBy, subscription.nextBillingDate]);
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics/savings'] });
+    toast({ title });
+    onOpenChange(false);
+  };
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to update cancellation', variant: 'destructive' });
+  };
+
+  const planMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/subscriptions/${subscription.id}/cancellation`, { cancelBy });
+      return response.json();
+    },
+    onSuccess: onSuccess('Cancellation planned'),
+    onError
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (effective: 'end_of_period' | 'immediately') => {
+      const response = await apiRequest('POST', `/api/subscriptions/${subscription.id}/cancellation/confirm`, { effective });
+      return response.json();
+    },
+    onSuccess: onSuccess('Cancellation confirmed'),
+    onError
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/subscriptions/${subscription.id}/cancellation`);
+      return response.json();
+    },
+    onSuccess: onSuccess('Cancellation withdrawn'),
+    onError
+  });
+
+  const isPending = planMutation.isPending || confirmMutation.isPending || withdrawMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            Cancel {subscription.name}
+          </DialogTitle>
+          <DialogDescription>
+            Renews on {format(nextBilling, 'MMM dd, yyyy')} for {formatCurrency(parseFloat(subscription.cost), subscription.currency)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {status && (
+          <Badge variant="outline" className="w-fit" data-testid="badge-cancellation-status">
+            {formatCancellationStatus(status)}
+          </Badge>
+        )}
+
+        {status === 'active_until_end' ? (
+          <p className="text-sm text-muted-foreground">
+            You have cancelled with the provider. It stays active until {format(nextBilling, 'MMM dd, yyyy')} and will not renew.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cancelBy">Cancel by</Label>
+              <Input
+                id="cancelBy"
+                type="date"
+                value={cancelBy}
+                max={toDateInput(defaultCancelBy(nextBilling))}
+                onChange={(e) => setCancelBy(e.target.value)}
+                data-testid="input-cancel-by"
+              />
+              <p className="text-xs text-muted-foreground">
+                We'll remind you, more urgently as the date gets closer, until you confirm the cancellation.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={!cancelBy || isPending}
+              onClick={() => planMutation.mutate()}
+              data-testid="button-plan-cancellation"
+            >
+              {status === 'planned' ? 'Update cancel-by date' : 'Plan cancellation'}
+            </Button>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Already cancelled with the provider?</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button
+                  className="flex-1"
+                  disabled={isPending}
+                  onClick={() => confirmMutation.mutate('end_of_period')}
+                  data-testid="button-confirm-cancellation"
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Active until period end
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  disabled={isPending}
+                  onClick={() => confirmMutation.mutate('immediately')}
+                  data-testid="button-confirm-cancellation-now"
+                >
+                  Ended immediately
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {(status === 'planned' || status === 'active_until_end') && (
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              disabled={isPending}
+              onClick={() => withdrawMutation.mutate()}
+              data-testid="button-withdraw-cancellation"
+            >
+              <Undo2 className="mr-2 h-4 w-4" />
+              {status === 'planned' ? 'Keep subscription' : 'Undo cancellation'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ interface CountdownTimerProps {
   targetDate: Date;
   isActive?: boolean;
   isTrial?: boolean;
+  resumeDate?: Date | null; // automatic resume date of a paused subscription
   className?: string;
   compact?: boolean;
 }
@@ -77,6 +78,7 @@ export default function CountdownTimer({
   targetDate, 
   isActive = true, 
   isTrial = false, 
+  resumeDate = null,
   className, 
   compact = false 
 }: CountdownTimerProps) {
@@ -95,12 +97,18 @@ export default function CountdownTimer({
   const urgency = getUrgencyLevel(timeRemaining);
   const urgencyStyle = getUrgencyStyle(urgency, isTrial);
 
-  // Don't show timer for inactive subscriptions
+  // Don't show the renewal timer for inactive subscriptions; count down to the resume date instead
   if (!isActive) {
+    const untilResume = resumeDate ? calculateTimeRemaining(resumeDate) : null;
     return (
       <div className={cn("flex items-center gap-2 text-xs sm:text-sm text-muted-foreground", className)}>
         <Calendar className="h-4 w-4 flex-shrink-0" />
         <span>Paused</span>
+        {untilResume && (
+          <span className="tabular-nums" data-testid="text-resume-countdown">
+            · resumes {untilResume.total <= 0 ? 'shortly' : untilResume.days > 0 ? `in ${untilResume.days}d ${untilResume.hours}h` : `in ${untilResume.hours}h ${untilResume.minutes}m`}
+          </span>
+        )}
       </div>
     );
   }
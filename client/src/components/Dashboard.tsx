@@ -74,18 +74,18 @@ export default function Dashboard({
   };
 
 
-  const handleTogglePause = async (id: string) => {
+  const handleTogglePause = async (id: string, resumeAt?: string) => {
     console.log('Toggle pause for subscription:', id);
     try {
       const subscription = subscriptions.find(s => s.id === id);
       if (!subscription) return;
       
-      // Toggle the isActive status (send integer: 1 for active, 0 for inactive)
-      const updatedData = {
-        isActive: subscription.isActive ? 0 : 1
-      };
-      
-      await apiRequest('PUT', `/api/subscriptions/${id}`, updatedData);
+      // Paused subscriptions drop out of totals and reminders until resumed (automatically on resumeAt, if set)
+      if (subscription.isActive) {
+        await apiRequest('POST', `/api/subscriptions/${id}/pause`, { resumeAt: resumeAt || undefined });
+      } else {
+        await apiRequest('POST', `/api/subscriptions/${id}/resume`);
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
       
       // Show success feedback
@@ -104,6 +104,8 @@ export default function Dashboard({
       name: subscription.name,
       cost: subscription.cost,
       billingCycle: subscription.billingCycle,
+      customCycleCount: subscription.customCycleCount,
+      customCycleUnit: subscription.customCycleUnit,
       category: subscription.category,
       nextBillingDate: subscription.nextBillingDate,
       description: subscription.description,
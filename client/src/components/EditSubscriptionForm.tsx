@@ -15,6 +15,8 @@ import { z } from "zod";
 import { type Subscription } from "@shared/schema";
 import { format } from "date-fns";
 import { useEffect } from "react";
+import { SUPPORTED_CURRENCIES } from "@shared/currency";
+import { BILLING_CYCLES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from "@shared/recurrence";
 
 const formSchema = insertSubscriptionSchema.extend({
   nextBillingDate: z.string().optional(),
@@ -24,7 +26,10 @@ const formSchema = insertSubscriptionSchema.extend({
   bankName: z.string().optional(),
   email: z.string().email().optional().or(z.literal('')),
   paymentStatus: z.enum(['paid', 'pending', 'failed', 'overdue']).default('paid'),
+  // Only sent when the cost changes; dates the price_change history event
+  priceEffectiveDate: z.string().optional(),
 }).superRefine((data, ctx) => {
+  refineCustomCycle(data, ctx);
   // Conditional validation based on trial status
   if (!data.isTrial && (!data.nextBillingDate || data.nextBillingDate === '')) {
     ctx.addIssue({
@@ -62,12 +67,6 @@ const categories = [
   'Other'
 ];
 
-const billingCycles = [
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'yearly', label: 'Yearly' }
-];
-
 export default function EditSubscriptionForm({ 
   subscription, 
   open, 
@@ -80,7 +79,10 @@ export default function EditSubscriptionForm({
     defaultValues: subscription ? {
       name: subscription.name,
       cost: subscription.cost,
+      currency: subscription.currency,
       billingCycle: subscription.billingCycle,
+      customCycleCount: subscription.customCycleCount ?? undefined,
+      customCycleUnit: subscription.customCycleUnit ?? undefined,
       category: subscription.category,
       nextBillingDate: format(new Date(subscription.nextBillingDate), 'yyyy-MM-dd'),
       description: subscription.description || '',
@@ -91,16 +93,20 @@ export default function EditSubscriptionForm({
       trialDays: subscription.trialDays || undefined,
       cardLast4: subscription.cardLast4 || '',
       bankName: subscription.bankName || '',
+      priceEffectiveDate: format(new Date(), 'yyyy-MM-dd'),
     } : {
       name: '',
       cost: '',
+      currency: 'USD',
       billingCycle: 'monthly',
+      customCycleCount: undefined,
+      customCycleUnit: undefined,
       category: 'Entertainment',
       nextBillingDate: '',
       description: '',
       email: '',
       paymentStatus: 'paid',
-      isActive: 1,
+      isActive: true,
       isTrial: false,
       trialDays: undefined,
       cardLast4: '',
@@ -114,7 +120,10 @@ export default function EditSubscriptionForm({
       form.reset({
         name: subscription.name,
         cost: subscription.cost,
+        currency: subscription.currency,
         billingCycle: subscription.billingCycle,
+        customCycleCount: subscription.customCycleCount ?? undefined,
+        customCycleUnit: subscription.customCycleUnit ?? undefined,
         category: subscription.category,
         nextBillingDate: format(new Date(subscription.nextBillingDate), 'yyyy-MM-dd'),
         description: subscription.description || '',
@@ -125,10 +134,13 @@ export default function EditSubscriptionForm({
         trialDays: subscription.trialDays || undefined,
         cardLast4: subscription.cardLast4 || '',
         bankName: subscription.bankName || '',
+        priceEffectiveDate: format(new Date(), 'yyyy-MM-dd'),
       });
     }
   }, [subscription, open, form]);
 
+  const costChanged = !!subscription && parseFloat(form.watch('cost') || '0') !== parseFloat(subscription.cost);
+
   const handleSubmit = (data: FormData) => {
     if (!subscription) return;
     console.log('Form submitted:', data);
@@ -146,6 +158,9 @@ export default function EditSubscriptionForm({
       // Ensure cost has a default value when not in trial
       normalizedData.cost = '0.00';
     }
+    if (parseFloat(normalizedData.cost) === parseFloat(subscription.cost)) {
+      delete normalizedData.priceEffectiveDate;
+    }
     
     onSubmit(subscription.id, normalizedData);
     onOpenChange(false);
@@ -182,7 +197,7 @@ export default function EditSubscriptionForm({
               )}
             />
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="cost"
@@ -204,6 +219,31 @@ export default function EditSubscriptionForm({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-edit-currency">
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency.code} value={currency.code}>
+                            {currency.code} - {currency.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="billingCycle"
@@ -217,7 +257,7 @@ export default function EditSubscriptionForm({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {billingCycles.map((cycle) => (
+                        {BILLING_CYCLES.map((cycle) => (
                           <SelectItem key={cycle.value} value={cycle.value}>
                             {cycle.label}
                           </SelectItem>
@@ -230,6 +270,77 @@ export default function EditSubscriptionForm({
               />
             </div>
 
+            {costChanged && !form.watch('isTrial') && (
+              <FormField
+                control={form.control}
+                name="priceEffectiveDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New price effective from</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date"
+                        {...field}
+                        data-testid="input-edit-price-effective-date"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {form.watch('billingCycle') === 'custom' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="customCycleCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeat Every</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          placeholder="45"
+                          min="1"
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          data-testid="input-edit-custom-cycle-count"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="customCycleUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-edit-custom-cycle-unit">
+                            <SelectValue placeholder="Select unit" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CUSTOM_CYCLE_UNITS.map((unit) => (
+                            <SelectItem key={unit} value={unit} className="capitalize">
+                              {unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -358,8 +469,8 @@ export default function EditSubscriptionForm({
                   </div>
                   <FormControl>
                     <Switch
-                      checked={field.value === 1}
-                      onCheckedChange={(checked) => field.onChange(checked ? 1 : 0)}
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
                       data-testid="switch-edit-active"
                     />
                   </FormControl>
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Check, Eye, FileCode, Pencil, Plus, RotateCw, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { EMAIL_TEMPLATE_HELPERS, EMAIL_TEMPLATE_VARIABLES } from '@shared/email-templates';
+
+interface EmailTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  body: string;
+  shared: boolean;
+  editable: boolean;
+  updatedAt: string;
+}
+
+interface EmailTemplatesResponse {
+  templates: EmailTemplate[];
+  selectedTemplateId: string | null;
+  canShare: boolean;
+}
+
+const STARTER_TEMPLATE = `<h2>{{subscription.name}} renews {{timeframe daysBefore}}</h2>
+<p>{{formatCurrency subscription.cost subscription.currency}} on {{formatDate subscription.nextBillingDate}}</p>
+{{#if includeActionButtons}}
+<p>
+  <a href="{{actions.paidUrl}}">Mark as paid</a>
+  {{#if actions.snoozeUrl}} · <a href="{{actions.snoozeUrl}}">Snooze 3 days</a>{{/if}}
+  · <a href="{{actions.cancelledUrl}}">I cancelled this</a>
+</p>
+{{/if}}
+<p><a href="{{unsubscribeUrl}}">Unsubscribe</a></p>
+`;
+
+// The server answers "<status>: <json>"; show the template error rather than the whole body
+const errorMessage = (error: any, fallback: string) => {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message ?? '');
+  if (!match) return error?.message || fallback;
+  try {
+    const body = JSON.parse(match[1]);
+    return typeof body.details === 'string' ? body.details : body.error || fallback;
+  } catch {
+    return match[1];
+  }
+};
+
+/**
+ * Custom reminder email templates: write Handlebars HTML, preview it against your own subscriptions, pick one for reminders
+ */
+export default function EmailTemplatesCard() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const [shared, setShared] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<EmailTemplatesResponse>({
+    queryKey: ['/api/email-templates'],
+  });
+  const templates = data?.templates ?? [];
+
+  const startEditing = (template?: EmailTemplate) => {
+    setEditingId(template?.id ?? 'new');
+    setName(template?.name ?? '');
+    setBody(template?.body ?? STARTER_TEMPLATE);
+    setShared(template?.shared ?? false);
+    setPreviewHtml(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: { body: string } | { templateId: string }) => {
+      const response = await apiRequest('POST', '/api/email-templates/preview', request);
+      return await response.json() as { html: string };
+    },
+    onSuccess: ({ html }) => setPreviewHtml(html),
+    onError: (error: any) => {
+      setPreviewHtml(null);
+      toast({ title: 'Template error', description: errorMessage(error, 'Failed to render the preview'), variant: 'destructive' });
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editingId === 'new'
+        ? await apiRequest('POST', '/api/email-templates', { name, body, shared: shared || undefined })
+        : await apiRequest('PUT', `/api/email-templates/${editingId}`, { name, body });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      setEditingId(null);
+      toast({ title: 'Template saved' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save the template'), variant: 'destructive' });
+    }
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (templateId: string | null) => {
+      const response = await apiRequest('PUT', '/api/email-templates/selection', { templateId });
+      return await response.json();
+    },
+    onSuccess: (_, templateId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({
+        title: templateId ? 'Template in use' : 'Using the built-in template',
+        description: templateId ? 'Reminder emails will use this template' : 'Reminder emails will use your email template style'
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to choose the template'), variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/email-templates/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({ title: 'Template deleted' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to delete the template'), variant: 'destructive' });
+    }
+  });
+
+  const confirmDelete = (template: EmailTemplate) => {
+    const warning = template.shared ? ' Users who chose it go back to their built-in template.' : '';
+    if (confirm(`Delete "${template.name}"?${warning}`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Custom Email Templates
+        </CardTitle>
+        <CardDescription>
+          Write your own reminder emails in Handlebars HTML. If a custom template fails, the reminder is sent with your email template style instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : templates.length > 0 && (
+          <div className="space-y-3">
+            {templates.map((template) => {
+              const inUse = data?.selectedTemplateId === template.id;
+              return (
+                <div key={template.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3" data-testid={`email-template-${template.id}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{template.name}</span>
+                    {template.shared && <Badge variant="outline">Shared</Badge>}
+                    {inUse && <Badge>In use</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => { setEditingId(null); previewMutation.mutate({ templateId: template.id }); }} data-testid={`button-preview-email-template-${template.id}`}>
+                      <Eye className="h-3 w-3 mr-1" />
+                      Preview
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => selectMutation.mutate(inUse ? null : template.id)} disabled={selectMutation.isPending} data-testid={`button-use-email-template-${template.id}`}>
+                      <Check className="h-3 w-3 mr-1" />
+                      {inUse ? 'Stop using' : 'Use for reminders'}
+                    </Button>
+                    {template.editable && (
+                      <>
+                        <Button type="button" variant="outline" size="sm" onClick={() => startEditing(template)} data-testid={`button-edit-email-template-${template.id}`}>
+                          <Pencil className="h-3 w-3 mr-1" />
+                          Edit
+                        </Button>
+                        <Button type="button" variant="destructive" size="sm" onClick={() => confirmDelete(template)} disabled={deleteMutation.isPending} data-testid={`button-delete-email-template-${template.id}`}>
+                          <Trash2 className="h-3 w-3 mr-1" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {editingId ? (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-template-name">Name</Label>
+              <Input id="email-template-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-email-template-name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-template-body">Template</Label>
+              <Textarea
+                id="email-template-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={12}
+                className="font-mono text-xs"
+                data-testid="textarea-email-template-body"
+              />
+            </div>
+            <Alert>
+              <AlertDescription className="space-y-2 text-xs">
+                <p>
+                  <span className="font-medium">Variables: </span>
+                  {EMAIL_TEMPLATE_VARIABLES.map((variable, index) => (
+                    <span key={variable.name} title={variable.description}>
+                      {index > 0 && ', '}<code>{`{{${variable.name}}}`}</code>
+                    </span>
+                  ))}
+                </p>
+                <p>
+                  <span className="font-medium">Helpers: </span>
+                  {EMAIL_TEMPLATE_HELPERS.map((helper, index) => (
+                    <span key={helper.name} title={helper.description}>
+                      {index > 0 && ', '}<code>{helper.usage}</code>
+                    </span>
+                  ))}
+                </p>
+                <p>Blocks such as <code>{'{{#if}}'}</code> and <code>{'{{#each}}'}</code> work; other helpers and partials are not available.</p>
+              </AlertDescription>
+            </Alert>
+            {editingId === 'new' && data?.canShare && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={shared} onCheckedChange={(checked) => setShared(checked === true)} data-testid="checkbox-email-template-shared" />
+                Share with every user
+              </label>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" onClick={() => previewMutation.mutate({ body })} disabled={!body || previewMutation.isPending} data-testid="button-preview-email-template">
+                {previewMutation.isPending ? <RotateCw className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Preview
+              </Button>
+              <Button type="button" onClick={() => saveMutation.mutate()} disabled={!name || !body || saveMutation.isPending} data-testid="button-save-email-template">
+                <Save className="h-4 w-4 mr-2" />
+                Save template
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setEditingId(null); setPreviewHtml(null); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" onClick={() => startEditing()} data-testid="button-new-email-template">
+            <Plus className="h-4 w-4 mr-2" />
+            New template
+          </Button>
+        )}
+
+        {previewHtml !== null && (
+          <div className="space-y-2">
+            <Label>Preview (your next renewal; action links are disabled)</Label>
+            {/* Sandboxed with no permissions: template HTML can't run scripts or reach the page */}
+            <iframe
+              title="Email template preview"
+              sandbox=""
+              srcDoc={previewHtml}
+              className="h-96 w-full rounded-md border bg-white"
+              data-testid="iframe-email-template-preview"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
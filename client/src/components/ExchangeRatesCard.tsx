@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Coins, Upload, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@shared/currency';
+import type { ExchangeRate } from '@shared/schema';
+
+export default function ExchangeRatesCard() {
+  const { toast } = useToast();
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  const { data: ratesData, isLoading } = useQuery<{ success: boolean; data: ExchangeRate[] }>({
+    queryKey: ['/api/admin/exchange-rates'],
+  });
+  const rates = ratesData?.data || [];
+
+  const invalidateRates = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/currency'] });
+  };
+
+  const saveRateMutation = useMutation({
+    mutationFn: async ({ currency, rate }: { currency: string; rate: string }) => {
+      const response = await apiRequest('PUT', `/api/admin/exchange-rates/${currency}`, { rate });
+      return response.json();
+    },
+    onSuccess: (_data, { currency }) => {
+      invalidateRates();
+      setEdits(prev => {
+        const { [currency]: _, ...rest } = prev;
+        return rest;
+      });
+      setNewCurrency('');
+      setNewRate('');
+      toast({ title: 'Rate saved', description: `Exchange rate for ${currency} updated` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save rate', variant: 'destructive' });
+    }
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest('DELETE', `/api/admin/exchange-rates/${currency}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRates();
+      toast({ title: 'Rate deleted' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete rate', variant: 'destructive' });
+    }
+  });
+
+  const importRatesMutation = useMutation({
+    mutationFn: async (file: { format: 'json' | 'csv'; content: string }) => {
+      const response = await apiRequest('POST', '/api/admin/exchange-rates/import', file);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidateRates();
+      toast({ title: 'Import complete', description: data.message });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Import failed', description: error.message || 'Failed to import rates', variant: 'destructive' });
+    }
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const format = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    importRatesMutation.mutate({ format, content: await file.text() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Coins className="mr-2 h-5 w-5" />
+          Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Units of each currency per 1 {BASE_CURRENCY}. Used to convert totals into each user's reporting currency.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={newCurrency} onValueChange={setNewCurrency}>
+              <SelectTrigger className="w-full sm:w-48" data-testid="select-new-rate-currency">
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.filter(c => c.code !== BASE_CURRENCY).map(c => (
+                  <SelectItem key={c.code} value={c.code}>{c.code} - {c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newRate">Rate</Label>
+            <Input
+              id="newRate"
+              type="number"
+              step="any"
+              min="0"
+              placeholder="e.g. 0.92"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              data-testid="input-new-rate"
+            />
+          </div>
+          <Button
+            onClick={() => saveRateMutation.mutate({ currency: newCurrency, rate: newRate })}
+            disabled={!newCurrency || !newRate || saveRateMutation.isPending}
+            data-testid="button-add-rate"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save Rate
+          </Button>
+          <div className="sm:ml-auto">
+            <Input
+              id="ratesFile"
+              type="file"
+              accept=".json,.csv"
+              className="hidden"
+              onChange={handleImportFile}
+              data-testid="input-rates-file"
+            />
+            <Button variant="outline" asChild disabled={importRatesMutation.isPending}>
+              <label htmlFor="ratesFile" className="cursor-pointer">
+                <Upload className="mr-2 h-4 w-4" />
+                {importRatesMutation.isPending ? 'Importing...' : 'Import File'}
+              </label>
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Import accepts JSON (<code>{'{"EUR": 0.92}'}</code> or <code>{'{"base": "EUR", "rates": {...}}'}</code>) or CSV with <code>currency,rate</code> rows.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading rates...</p>
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-rates">
+            No exchange rates configured. Subscriptions in other currencies are shown unconverted.
+          </p>
+        ) : (
+          <Table data-testid="table-exchange-rates">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.currency} data-testid={`row-rate-${rate.currency}`}>
+                  <TableCell className="font-medium">{rate.currency}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="any"
+                      min="0"
+                      className="w-36"
+                      value={edits[rate.currency] ?? rate.rate}
+                      onChange={(e) => setEdits(prev => ({ ...prev, [rate.currency]: e.target.value }))}
+                      data-testid={`input-rate-${rate.currency}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{rate.source}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(rate.updatedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={edits[rate.currency] === undefined || saveRateMutation.isPending}
+                      onClick={() => saveRateMutation.mutate({ currency: rate.currency, rate: edits[rate.currency] })}
+                      data-testid={`button-save-rate-${rate.currency}`}
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={deleteRateMutation.isPending}
+                      onClick={() => deleteRateMutation.mutate(rate.currency)}
+                      data-testid={`button-delete-rate-${rate.currency}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Slider } from "@/components/ui/slider";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Search, Filter, X, ChevronDown, SortAsc, SortDesc } from "lucide-react";
 import { useState } from "react";
+import { BILLING_CYCLES } from "@shared/recurrence";
 
 interface FilterBarProps {
   searchTerm: string;
@@ -50,10 +51,7 @@ const paymentStatuses = [
 
 const billingCycles = [
   { value: 'all', label: 'All Cycles' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'quarterly', label: 'Quarterly' },
-  { value: 'yearly', label: 'Yearly' },
-  { value: 'weekly', label: 'Weekly' }
+  ...BILLING_CYCLES
 ];
 
 const sortOptions = [
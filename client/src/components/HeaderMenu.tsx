@@ -1,14 +1,15 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { User, Settings, LogOut, Crown, CreditCard, HelpCircle, Menu, Bell, Plus, Clock, Calendar as CalendarIcon, Home, Star, DollarSign, BarChart3, AlertCircle, Cog } from "lucide-react";
+import { User, Settings, LogOut, Crown, CreditCard, HelpCircle, Menu, Bell, Plus, Clock, Calendar as CalendarIcon, Home, Star, DollarSign, BarChart3, AlertCircle, Cog, FileUp } from "lucide-react";
 import { ThemeToggle } from "./ThemeToggle";
 import { NotificationCenter } from "./NotificationCenter";
 import { Link, useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
 
 interface UserStatus {
   id: string;
@@ -23,7 +24,8 @@ interface UserStatus {
 }
 
 export function HeaderMenu() {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const queryClient = useQueryClient();
   const [showMobileMenu, setShowMobileMenu] = useState(false);
 
   // Fetch user status
@@ -52,14 +54,19 @@ export function HeaderMenu() {
     { title: "Settings", url: "/settings", icon: AlertCircle, active: location === "/settings" },
     { title: "Reminder Settings", url: "/reminder-settings", icon: Cog, active: location === "/reminder-settings" },
     { title: "History", url: "/history", icon: Clock, active: location === "/history" },
+    { title: "Import Statement", url: "/import", icon: FileUp, active: location === "/import" },
     { title: "API Keys", url: "/api-keys", icon: CreditCard, active: location === "/api-keys" },
   ];
 
   const navigationItems = isMarketingPage ? marketingNavItems : dashboardNavItems;
 
-  const handleLogout = () => {
-    // Implement logout logic here
-    console.log("Logging out...");
+  const handleLogout = async () => {
+    try {
+      await apiRequest('POST', '/auth/logout');
+    } finally {
+      queryClient.clear();
+      setLocation('/login');
+    }
   };
 
   return (
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Pause } from "lucide-react";
+import type { Subscription } from "@shared/schema";
+
+interface PauseSubscriptionDialogProps {
+  subscription: Subscription;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPause: (id: string, resumeAt?: string) => void;
+}
+
+export default function PauseSubscriptionDialog({ subscription, open, onOpenChange, onPause }: PauseSubscriptionDialogProps) {
+  const [resumeAt, setResumeAt] = useState("");
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  useEffect(() => {
+    if (open) setResumeAt("");
+  }, [open]);
+
+  const handlePause = () => {
+    onPause(subscription.id, resumeAt || undefined);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pause className="h-5 w-5" />
+            Pause {subscription.name}
+          </DialogTitle>
+          <DialogDescription>
+            While paused it is left out of totals, reminders and projections. The billing date moves forward by the time it was paused.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="resumeAt">Resume automatically on (optional)</Label>
+          <Input
+            id="resumeAt"
+            type="date"
+            min={tomorrow}
+            value={resumeAt}
+            onChange={(e) => setResumeAt(e.target.value)}
+            data-testid="input-resume-at"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePause} data-testid="button-confirm-pause">
+            {resumeAt ? 'Pause until then' : 'Pause'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
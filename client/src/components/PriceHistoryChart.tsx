@@ -0,0 +1,72 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { formatCurrency } from "@/lib/utils";
+import type { Subscription, SubscriptionHistory } from "@shared/schema";
+
+interface PriceHistoryChartProps {
+  subscription: Subscription;
+  history: SubscriptionHistory[];
+}
+
+const chartConfig = {
+  price: { label: "Price", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+/**
+ * Step chart of a subscription's price over time, built from its price_change events
+ */
+export default function PriceHistoryChart({ subscription, history }: PriceHistoryChartProps) {
+  const points = useMemo(() => {
+    const changes = history
+      .filter(entry => entry.eventType === 'price_change' && entry.amount)
+      .sort((a, b) => new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime());
+    if (changes.length === 0) return [];
+
+    const created = new Date(subscription.createdAt).getTime();
+    const firstChange = new Date(changes[0].eventDate).getTime();
+    return [
+      { time: Math.min(created, firstChange), price: parseFloat(changes[0].previousAmount ?? changes[0].amount!) },
+      ...changes.map(change => ({ time: new Date(change.eventDate).getTime(), price: parseFloat(change.amount!) })),
+      { time: Math.max(Date.now(), firstChange), price: parseFloat(subscription.cost) },
+    ];
+  }, [history, subscription.createdAt, subscription.cost]);
+
+  if (points.length === 0) return null;
+
+  return (
+    <div className="space-y-2" data-testid="chart-price-history">
+      <h4 className="text-sm font-medium">Price history</h4>
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <LineChart data={points} margin={{ left: 8, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) => format(new Date(time), "MMM yy")}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            tickFormatter={(price) => formatCurrency(price, subscription.currency)}
+            tickLine={false}
+            axisLine={false}
+            width={72}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => format(new Date(payload?.[0]?.payload?.time ?? 0), "MMM dd, yyyy")}
+                formatter={(value) => formatCurrency(Number(value), subscription.currency)}
+              />
+            }
+          />
+          <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -1,38 +1,41 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { DollarSign, Calendar, TrendingUp, CreditCard } from "lucide-react";
+import { DollarSign, Calendar, TrendingUp, CreditCard, PiggyBank } from "lucide-react";
 import { type Subscription } from "@shared/schema";
+import { useCurrency } from "@/hooks/useCurrency";
+import { formatCurrency } from "@/lib/utils";
+import { toMonthlyCost } from "@shared/recurrence";
+import { isCancellationConfirmed, savedByCancelling } from "@shared/cancellation";
 
 interface StatsCardsProps {
   subscriptions: Subscription[];
 }
 
 export default function StatsCards({ subscriptions }: StatsCardsProps) {
+  const { convert, reportingCurrency } = useCurrency();
   const activeSubscriptions = subscriptions.filter(sub => sub.isActive);
   
-  const monthlyTotal = activeSubscriptions.reduce((total, sub) => {
-    const cost = parseFloat(sub.cost);
-    switch (sub.billingCycle) {
-      case 'monthly':
-        return total + cost;
-      case 'yearly':
-        return total + (cost / 12);
-      case 'weekly':
-        return total + (cost * 4.33); // Average weeks per month
-      default:
-        return total + cost;
-    }
+  // Totals are normalized into the user's reporting currency; confirmed cancellations will not bill again
+  const monthlyTotal = activeSubscriptions.filter(sub => !isCancellationConfirmed(sub)).reduce((total, sub) => {
+    const cost = convert(parseFloat(sub.cost), sub.currency);
+    return total + toMonthlyCost(cost, sub);
   }, 0);
 
   const yearlyTotal = monthlyTotal * 12;
   
+  // Running total of renewals skipped since each cancellation
+  const savedTotal = subscriptions.reduce((total, sub) => total + convert(savedByCancelling(sub), sub.currency), 0);
+  const cancelledCount = subscriptions.filter(sub => isCancellationConfirmed(sub)).length;
+  const pausedCount = subscriptions.filter(sub => sub.pausedAt).length;
+
   const upcomingRenewals = activeSubscriptions.filter(sub => {
+    if (isCancellationConfirmed(sub)) return false;
     const nextBilling = new Date(sub.nextBillingDate);
     const daysUntil = (nextBilling.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
     return daysUntil <= 7 && daysUntil >= 0;
   }).length;
 
   return (
-    <div className="grid gap-3 sm:gap-4 grid-cols-2 lg:grid-cols-4">
+    <div className="grid gap-3 sm:gap-4 grid-cols-2 lg:grid-cols-5">
       <Card data-testid="card-monthly-total">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <CardTitle className="text-sm font-medium">Monthly Total</CardTitle>
@@ -40,7 +43,7 @@ export default function StatsCards({ subscriptions }: StatsCardsProps) {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold" data-testid="text-monthly-total">
-            ${monthlyTotal.toFixed(2)}
+            {formatCurrency(monthlyTotal, reportingCurrency)}
           </div>
           <p className="text-xs text-muted-foreground">
             +2.1% from last month
@@ -55,7 +58,7 @@ export default function StatsCards({ subscriptions }: StatsCardsProps) {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold" data-testid="text-yearly-total">
-            ${yearlyTotal.toFixed(2)}
+            {formatCurrency(yearlyTotal, reportingCurrency)}
           </div>
           <p className="text-xs text-muted-foreground">
             Projected annual spending
@@ -74,6 +77,22 @@ export default function StatsCards({ subscriptions }: StatsCardsProps) {
           </div>
           <p className="text-xs text-muted-foreground">
             {subscriptions.length - activeSubscriptions.length} inactive
+            {pausedCount > 0 && ` (${pausedCount} paused)`}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-saved-by-cancelling">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Saved by Cancelling</CardTitle>
+          <PiggyBank className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-green-600 dark:text-green-400" data-testid="text-saved-total">
+            {formatCurrency(savedTotal, reportingCurrency)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {cancelledCount} cancelled
           </p>
         </CardContent>
       </Card>
@@ -2,12 +2,16 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Calendar, DollarSign, Crown, Copy, Heart, Pause, Play, FileText, ExternalLink, History } from "lucide-react";
+import { MoreHorizontal, Calendar, DollarSign, Crown, Copy, Heart, Pause, Play, FileText, ExternalLink, History, CalendarX } from "lucide-react";
 import { type Subscription } from "@shared/schema";
 import { format } from "date-fns";
 import CountdownTimer from "./CountdownTimer";
 import SubscriptionHistoryDialog from "./SubscriptionHistoryDialog";
+import CancellationDialog from "./CancellationDialog";
+import PauseSubscriptionDialog from "./PauseSubscriptionDialog";
 import { useState } from "react";
+import { formatCurrency } from "@/lib/utils";
+import { formatBillingCycle } from "@shared/recurrence";
 
 interface SubscriptionCardProps {
   subscription: Subscription;
@@ -15,7 +19,7 @@ interface SubscriptionCardProps {
   onDelete?: (id: string) => void;
   onViewDetails?: (subscription: Subscription) => void;
   onDuplicate?: (subscription: Subscription) => void;
-  onTogglePause?: (id: string) => void;
+  onTogglePause?: (id: string, resumeAt?: string) => void;
   onExport?: (subscription: Subscription) => void;
 }
 
@@ -31,6 +35,8 @@ const categoryColors: Record<string, string> = {
 
 export default function SubscriptionCard({ subscription, onEdit, onDelete, onViewDetails, onDuplicate, onTogglePause, onExport }: SubscriptionCardProps) {
   const [showHistory, setShowHistory] = useState(false);
+  const [showCancellation, setShowCancellation] = useState(false);
+  const [showPause, setShowPause] = useState(false);
   const nextBilling = new Date(subscription.nextBillingDate);
   const isUpcomingSoon = nextBilling.getTime() - Date.now() < 7 * 24 * 60 * 60 * 1000; // 7 days
   const paymentStatus = (subscription as any).paymentStatus || 'paid';
@@ -63,7 +69,12 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
   const handleTogglePause = (e: React.MouseEvent) => {
     e.stopPropagation();
     console.log('Toggle pause for:', subscription.id);
-    onTogglePause?.(subscription.id);
+    // Pausing asks for an optional resume date; resuming happens straight away
+    if (subscription.isActive) {
+      setShowPause(true);
+    } else {
+      onTogglePause?.(subscription.id);
+    }
   };
 
   const handleExport = (e: React.MouseEvent) => {
@@ -104,7 +115,17 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
             )}
             {!subscription.isActive && (
               <Badge variant="secondary" className="text-xs flex-shrink-0" data-testid={`badge-inactive-${subscription.id}`}>
-                Inactive
+                {subscription.pausedAt ? 'Paused' : subscription.cancellationStatus === 'cancelled' ? 'Cancelled' : 'Inactive'}
+              </Badge>
+            )}
+            {subscription.cancellationStatus === 'planned' && subscription.cancelBy && (
+              <Badge variant="outline" className="text-xs bg-red-50 text-red-600 border-red-200 flex-shrink-0" data-testid={`badge-cancel-by-${subscription.id}`}>
+                Cancel by {format(new Date(subscription.cancelBy), 'MMM d')}
+              </Badge>
+            )}
+            {subscription.cancellationStatus === 'active_until_end' && (
+              <Badge variant="outline" className="text-xs flex-shrink-0" data-testid={`badge-ends-${subscription.id}`}>
+                Ends {format(nextBilling, 'MMM d')}
               </Badge>
             )}
             {paymentStatus !== 'paid' && (
@@ -141,6 +162,12 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
                   <><Play className="mr-2 h-4 w-4" /><span>Resume subscription</span></>
                 )}
               </DropdownMenuItem>
+              {subscription.isActive && (
+                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setShowCancellation(true); }} data-testid={`menu-cancellation-${subscription.id}`}>
+                  <CalendarX className="mr-2 h-4 w-4" />
+                  <span>{subscription.cancellationStatus ? 'Manage cancellation' : 'Plan cancellation'}</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleExport} data-testid={`menu-export-${subscription.id}`}>
                 <FileText className="mr-2 h-4 w-4" />
@@ -168,10 +195,10 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
           <DollarSign className="h-4 w-4 text-muted-foreground flex-shrink-0" />
           <div className="flex flex-wrap items-baseline gap-1">
             <span className="text-xl sm:text-2xl font-bold" data-testid={`text-cost-${subscription.id}`}>
-              ${subscription.cost}
+              {formatCurrency(parseFloat(subscription.cost), subscription.currency)}
             </span>
             <span className="text-xs sm:text-sm text-muted-foreground whitespace-nowrap">
-              /{subscription.billingCycle}
+              /{formatBillingCycle(subscription).toLowerCase()}
             </span>
             {subscription.isTrial && subscription.trialDays && (
               <span className="text-xs text-orange-600 ml-1">
@@ -183,8 +210,9 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
 
         <CountdownTimer
           targetDate={nextBilling}
-          isActive={Boolean(subscription.isActive)}
+          isActive={subscription.isActive}
           isTrial={subscription.isTrial}
+          resumeDate={subscription.resumeAt ? new Date(subscription.resumeAt) : null}
           data-testid={`countdown-${subscription.id}`}
         />
 
@@ -220,6 +248,19 @@ export default function SubscriptionCard({ subscription, onEdit, onDelete, onVie
         open={showHistory}
         onOpenChange={setShowHistory}
       />
+
+      <CancellationDialog
+        subscription={subscription}
+        open={showCancellation}
+        onOpenChange={setShowCancellation}
+      />
+
+      <PauseSubscriptionDialog
+        subscription={subscription}
+        open={showPause}
+        onOpenChange={setShowPause}
+        onPause={(id, resumeAt) => onTogglePause?.(id, resumeAt)}
+      />
     </Card>
   );
 }
\ No newline at end of file
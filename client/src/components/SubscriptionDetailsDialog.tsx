@@ -17,7 +17,10 @@ import {
   Trash2
 } from "lucide-react";
 import { type Subscription } from "@shared/schema";
+import { formatBillingCycle, toYearlyCost } from "@shared/recurrence";
 import { format, differenceInDays } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import CountdownTimer from "./CountdownTimer";
 
 interface SubscriptionDetailsDialogProps {
   subscription: Subscription | null;
@@ -62,15 +65,7 @@ export default function SubscriptionDetailsDialog({
   };
 
   // Calculate yearly cost regardless of billing cycle
-  const yearlyValue = () => {
-    const cost = parseFloat(subscription.cost);
-    switch (subscription.billingCycle) {
-      case 'weekly': return cost * 52;
-      case 'monthly': return cost * 12;
-      case 'yearly': return cost;
-      default: return cost * 12;
-    }
-  };
+  const yearlyValue = () => toYearlyCost(parseFloat(subscription.cost), subscription);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -81,7 +76,7 @@ export default function SubscriptionDetailsDialog({
               {subscription.name}
               {!subscription.isActive && (
                 <Badge variant="secondary" data-testid="badge-details-inactive">
-                  Inactive
+                  {subscription.pausedAt ? 'Paused' : 'Inactive'}
                 </Badge>
               )}
             </div>
@@ -111,16 +106,16 @@ export default function SubscriptionDetailsDialog({
                   <div className="space-y-2">
                     <p className="text-sm font-medium text-muted-foreground">Current Cost</p>
                     <p className="text-3xl font-bold text-primary" data-testid="text-details-cost">
-                      ${subscription.cost}
+                      {formatCurrency(parseFloat(subscription.cost), subscription.currency)}
                       <span className="text-lg font-normal text-muted-foreground ml-2">
-                        / {subscription.billingCycle}
+                        / {formatBillingCycle(subscription)}
                       </span>
                     </p>
                   </div>
                   <div className="space-y-2">
                     <p className="text-sm font-medium text-muted-foreground">Annual Equivalent</p>
                     <p className="text-2xl font-semibold" data-testid="text-details-yearly-cost">
-                      ${yearlyValue().toFixed(2)}
+                      {formatCurrency(yearlyValue(), subscription.currency)}
                       <span className="text-sm font-normal text-muted-foreground ml-2">/ year</span>
                     </p>
                   </div>
@@ -177,9 +172,35 @@ export default function SubscriptionDetailsDialog({
                     variant={subscription.isActive ? "default" : "secondary"}
                     data-testid="badge-details-status"
                   >
-                    {subscription.isActive ? 'Active' : 'Inactive'}
+                    {subscription.isActive ? 'Active' : subscription.pausedAt ? 'Paused' : 'Inactive'}
                   </Badge>
                 </div>
+                {subscription.pausedAt && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">Paused Since</span>
+                      <span data-testid="text-details-paused-at">{format(new Date(subscription.pausedAt), 'MMM dd, yyyy')}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">Resumes</span>
+                      {subscription.resumeAt ? (
+                        <CountdownTimer
+                          targetDate={new Date(subscription.resumeAt)}
+                          compact
+                          className="justify-end"
+                          data-testid="countdown-details-resume"
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">When you resume it</span>
+                      )}
+                    </div>
+                    {subscription.resumeAt && (
+                      <p className="text-xs text-muted-foreground text-right" data-testid="text-details-resume-at">
+                        {format(new Date(subscription.resumeAt), 'MMM dd, yyyy')}
+                      </p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -292,7 +313,7 @@ export default function SubscriptionDetailsDialog({
                 <div className="flex justify-between">
                   <span className="font-medium">Billing Frequency</span>
                   <span className="capitalize" data-testid="text-details-billing-cycle">
-                    {subscription.billingCycle}
+                    {formatBillingCycle(subscription)}
                   </span>
                 </div>
                 <div className="flex justify-between">
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -18,10 +18,14 @@ import {
   AlertTriangle,
   CheckCircle,
   Clock,
+  TrendingUp,
   X
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, formatCurrency } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import type { SubscriptionHistory, Subscription } from "@shared/schema";
+import PriceHistoryChart from "./PriceHistoryChart";
 
 interface SubscriptionHistoryDialogProps {
   subscription: Subscription | null;
@@ -35,6 +39,8 @@ function getEventIcon(eventType: string) {
       return <DollarSign className="h-4 w-4" />;
     case 'renewal':
       return <RefreshCw className="h-4 w-4" />;
+    case 'price_change':
+      return <TrendingUp className="h-4 w-4" />;
     case 'trial_start':
     case 'trial_end':
       return <Crown className="h-4 w-4" />;
@@ -43,7 +49,12 @@ function getEventIcon(eventType: string) {
     case 'resume':
       return <Play className="h-4 w-4" />;
     case 'cancel':
+    case 'ended':
       return <X className="h-4 w-4" />;
+    case 'cancellation_planned':
+      return <AlertTriangle className="h-4 w-4" />;
+    case 'cancellation_withdrawn':
+      return <Play className="h-4 w-4" />;
     case 'refund':
       return <RefreshCw className="h-4 w-4" />;
     default:
@@ -71,7 +82,12 @@ function getEventColor(eventType: string, paymentStatus?: string | null) {
     case 'renewal':
       return 'text-green-600 dark:text-green-400';
     case 'cancel':
+    case 'ended':
       return 'text-red-600 dark:text-red-400';
+    case 'price_change':
+      return 'text-blue-600 dark:text-blue-400';
+    case 'cancellation_planned':
+      return 'text-orange-600 dark:text-orange-400';
     case 'pause':
       return 'text-orange-600 dark:text-orange-400';
     case 'resume':
@@ -113,11 +129,26 @@ export default function SubscriptionHistoryDialog({
   open, 
   onOpenChange 
 }: SubscriptionHistoryDialogProps) {
+  const { toast } = useToast();
   const { data: history, isLoading } = useQuery<SubscriptionHistory[]>({
     queryKey: ['/api/subscriptions', subscription?.id, 'history'],
     enabled: open && !!subscription?.id,
   });
 
+  // Lets the user record that a renewal charge did not go through (or has since cleared)
+  const chargeStatusMutation = useMutation({
+    mutationFn: async ({ historyId, status }: { historyId: string; status: 'paid' | 'pending' | 'failed' }) => {
+      const response = await apiRequest('PUT', `/api/subscriptions/${subscription?.id}/payments/${historyId}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update payment', variant: 'destructive' });
+    }
+  });
+
   if (!subscription) return null;
 
   return (
@@ -155,6 +186,7 @@ export default function SubscriptionHistoryDialog({
             </div>
           ) : (
             <div className="space-y-3">
+              <PriceHistoryChart subscription={subscription} history={history} />
               {history.map((entry, index) => (
                 <Card key={entry.id} className="border-l-4 border-l-muted">
                   <CardContent className="p-4">
@@ -184,7 +216,12 @@ export default function SubscriptionHistoryDialog({
                             {entry.amount && (
                               <div className="flex items-center gap-1">
                                 <DollarSign className="h-3 w-3" />
-                                ${entry.amount} {entry.currency || 'USD'}
+                                {entry.previousAmount && (
+                                  <span className="line-through mr-1">
+                                    {formatCurrency(parseFloat(entry.previousAmount), entry.previousCurrency || entry.currency || 'USD')}
+                                  </span>
+                                )}
+                                {formatCurrency(parseFloat(entry.amount), entry.currency || 'USD')}
                               </div>
                             )}
                             
@@ -195,6 +232,47 @@ export default function SubscriptionHistoryDialog({
                               </div>
                             )}
                           </div>
+
+                          {entry.eventType === 'payment' && entry.paymentStatus !== 'refunded' && (
+                            <div className="flex flex-wrap gap-2 pt-1">
+                              {entry.paymentStatus === 'paid' ? (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-7 text-xs"
+                                    disabled={chargeStatusMutation.isPending}
+                                    onClick={() => chargeStatusMutation.mutate({ historyId: entry.id, status: 'pending' })}
+                                    data-testid={`button-payment-pending-${entry.id}`}
+                                  >
+                                    Still pending
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-7 text-xs"
+                                    disabled={chargeStatusMutation.isPending}
+                                    onClick={() => chargeStatusMutation.mutate({ historyId: entry.id, status: 'failed' })}
+                                    data-testid={`button-payment-failed-${entry.id}`}
+                                  >
+                                    Didn't go through
+                                  </Button>
+                                </>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="h-7 text-xs"
+                                  disabled={chargeStatusMutation.isPending}
+                                  onClick={() => chargeStatusMutation.mutate({ historyId: entry.id, status: 'paid' })}
+                                  data-testid={`button-payment-paid-${entry.id}`}
+                                >
+                                  <CheckCircle className="h-3 w-3 mr-1" />
+                                  Mark as paid
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Copy, ExternalLink, Info, Link2, Send, TestTube, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface TelegramStatus {
+  botConnected: boolean;
+  chatLinked: boolean;
+  enabled: boolean;
+  linkPending: boolean;
+}
+
+interface TelegramLink {
+  url: string;
+  code: string;
+  expiresAt: string;
+}
+
+// The server answers "<status>: <json>"; show its error rather than the whole body
+const errorMessage = (error: any, fallback: string) => {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message ?? '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1];
+  }
+};
+
+/**
+ * Telegram reminders: connect a bot from @BotFather, then link a chat by opening a one-time link to the bot
+ */
+export default function TelegramCard() {
+  const { toast } = useToast();
+  const [botToken, setBotToken] = useState('');
+  const [link, setLink] = useState<TelegramLink | null>(null);
+
+  const { data: status, isLoading } = useQuery<TelegramStatus>({
+    queryKey: ['/api/telegram'],
+    // Watch for the chat being linked while a link is waiting to be opened
+    refetchInterval: (query) => query.state.data?.linkPending && !query.state.data?.chatLinked ? 3000 : false,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/telegram'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reminders/preferences'] });
+  };
+
+  const connectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/telegram/bot', { botToken: botToken.trim() });
+      return await response.json() as { botUsername: string };
+    },
+    onSuccess: ({ botUsername }) => {
+      setBotToken('');
+      setLink(null);
+      refresh();
+      toast({ title: 'Telegram bot connected', description: `Now link your chat with @${botUsername}` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to connect the bot'), variant: 'destructive' });
+    }
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/telegram/bot');
+      return await response.json();
+    },
+    onSuccess: () => {
+      setLink(null);
+      refresh();
+      toast({ title: 'Telegram bot disconnected' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to disconnect the bot'), variant: 'destructive' });
+    }
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/telegram/link');
+      return await response.json() as TelegramLink;
+    },
+    onSuccess: (data) => {
+      setLink(data);
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to create a link'), variant: 'destructive' });
+    }
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/telegram/link');
+      return await response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Telegram chat unlinked' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to unlink the chat'), variant: 'destructive' });
+    }
+  });
+
+  const enabledMutation = useMutation({
+    mutationFn: async (telegramEnabled: boolean) => {
+      const response = await apiRequest('PUT', '/api/reminders/preferences', { telegramEnabled });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to update Telegram reminders'), variant: 'destructive' });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/test-connection/telegram');
+      return await response.json() as { success: boolean; message: string };
+    },
+    onSuccess: ({ success, message }) => {
+      toast({ title: success ? 'Telegram connection successful' : 'Telegram connection failed', description: message, variant: success ? 'default' : 'destructive' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Telegram connection failed', description: errorMessage(error, 'Connection test failed'), variant: 'destructive' });
+    }
+  });
+
+  const copyCode = (code: string) => {
+    navigator.clipboard.writeText(`/start ${code}`);
+    toast({ title: 'Copied', description: 'Send it to your bot in Telegram' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Telegram
+          {status?.chatLinked && <Badge variant="outline">Linked</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Get reminders from your own Telegram bot, with buttons to mark a renewal paid or snooze it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !status?.botConnected ? (
+          <>
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                Create a bot with <a href="https://t.me/BotFather" target="_blank" rel="noopener noreferrer" className="underline">@BotFather</a> (send /newbot) and paste the token it gives you. The token is stored encrypted.
+              </AlertDescription>
+            </Alert>
+            <div>
+              <Label htmlFor="telegramBotToken">Bot token</Label>
+              <Input
+                id="telegramBotToken"
+                type="password"
+                autoComplete="off"
+                placeholder="123456789:AAE..."
+                value={botToken}
+                onChange={(e) => setBotToken(e.target.value)}
+                onKeyDown={(e) => {
+                  // Settings forms around this card would submit on Enter
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    if (botToken.trim()) connectMutation.mutate();
+                  }
+                }}
+                data-testid="input-telegram-bot-token"
+              />
+            </div>
+            <Button type="button" onClick={() => connectMutation.mutate()} disabled={!botToken.trim() || connectMutation.isPending} data-testid="button-connect-telegram">
+              {connectMutation.isPending ? 'Connecting...' : 'Connect bot'}
+            </Button>
+          </>
+        ) : (
+          <>
+            {status.chatLinked ? (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="telegramEnabled">Enable Telegram notifications</Label>
+                <Switch
+                  id="telegramEnabled"
+                  checked={status.enabled}
+                  onCheckedChange={(checked) => enabledMutation.mutate(checked)}
+                  disabled={enabledMutation.isPending}
+                  data-testid="switch-telegram-enabled"
+                />
+              </div>
+            ) : link ? (
+              <div className="space-y-2 rounded-lg border p-4">
+                <p className="text-sm">
+                  Open this link in Telegram and press <span className="font-medium">Start</span>. It works once and expires at {new Date(link.expiresAt).toLocaleTimeString()}.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" onClick={() => window.open(link.url, '_blank', 'noopener')} data-testid="button-open-telegram-link">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open in Telegram
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => copyCode(link.code)} data-testid="button-copy-telegram-code">
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy /start code
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">Waiting for the chat to be linked...</p>
+              </div>
+            ) : (
+              <Button type="button" onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending} data-testid="button-link-telegram">
+                <Link2 className="h-4 w-4 mr-2" />
+                Link a Telegram chat
+              </Button>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {status.chatLinked && (
+                <>
+                  <Button type="button" variant="outline" onClick={() => testMutation.mutate()} disabled={testMutation.isPending} data-testid="button-test-telegram">
+                    <TestTube className="h-4 w-4 mr-2" />
+                    {testMutation.isPending ? 'Testing...' : 'Test Telegram'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => unlinkMutation.mutate()} disabled={unlinkMutation.isPending} data-testid="button-unlink-telegram">
+                    Unlink chat
+                  </Button>
+                </>
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => { if (confirm('Disconnect your Telegram bot? Reminders stop until you connect it again.')) disconnectMutation.mutate(); }}
+                disabled={disconnectMutation.isPending}
+                data-testid="button-disconnect-telegram"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Disconnect bot
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
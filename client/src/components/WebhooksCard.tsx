@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Copy, Info, KeyRound, List, Plus, RotateCw, Send, Trash2, Webhook } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES, type WebhookDeliveryStatus, type WebhookEventType } from '@shared/webhooks';
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  delivered: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+/**
+ * Recent deliveries to one endpoint, with a button to send each again
+ */
+function DeliveryLog({ endpoint }: { endpoint: WebhookEndpoint }) {
+  const { toast } = useToast();
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ['/api/webhooks', endpoint.id, 'deliveries'],
+    refetchInterval: 10000,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const response = await apiRequest('POST', `/api/webhooks/${endpoint.id}/deliveries/${deliveryId}/redeliver`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks', endpoint.id, 'deliveries'] });
+      toast({ title: 'Redelivery queued', description: 'The event will be sent again shortly' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to redeliver the event', variant: 'destructive' });
+    }
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading deliveries...</p>;
+  if (deliveries.length === 0) return <p className="text-sm text-muted-foreground">No deliveries yet</p>;
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm" data-testid={`webhook-delivery-${delivery.id}`}>
+          <div className="min-w-0 space-y-0.5">
+            <div className="flex items-center gap-2">
+              <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+              <span className="font-mono text-xs">{delivery.eventType}</span>
+              {delivery.responseStatus !== null && (
+                <span className="text-xs text-muted-foreground">HTTP {delivery.responseStatus}</span>
+              )}
+            </div>
+            <p className="truncate text-xs text-muted-foreground">
+              {new Date(delivery.lastAttemptAt ?? delivery.createdAt).toLocaleString()}
+              {' · '}
+              {delivery.attempts === 1 ? '1 attempt' : `${delivery.attempts} attempts`}
+              {delivery.error && ` · ${delivery.error}`}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => redeliverMutation.mutate(delivery.id)}
+            disabled={!endpoint.isActive || redeliverMutation.isPending}
+            data-testid={`button-redeliver-${delivery.id}`}
+          >
+            <Send className="h-3 w-3 mr-1" />
+            Redeliver
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Outbound webhooks: endpoints that receive signed subscription and reminder events
+ */
+export default function WebhooksCard() {
+  const { toast } = useToast();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: ['/api/webhooks'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/webhooks', { url, description: description || undefined, events });
+      return await response.json() as { endpoint: WebhookEndpoint; secret: string };
+    },
+    onSuccess: ({ endpoint, secret }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+      setRevealedSecret({ endpointId: endpoint.id, secret });
+      setUrl('');
+      setDescription('');
+      setEvents([...WEBHOOK_EVENT_TYPES]);
+      toast({ title: 'Webhook added', description: 'Copy the signing secret now, it will not be shown again' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to add the webhook', variant: 'destructive' });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<WebhookEndpoint, 'isActive'>> }) => {
+      const response = await apiRequest('PUT', `/api/webhooks/${id}`, updates);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update the webhook', variant: 'destructive' });
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/webhooks/${id}/secret`);
+      return { endpointId: id, ...(await response.json() as { secret: string }) };
+    },
+    onSuccess: (data) => {
+      setRevealedSecret(data);
+      toast({ title: 'Secret rotated', description: 'Deliveries are now signed with the new secret' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to rotate the secret', variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/webhooks/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+      toast({ title: 'Webhook deleted' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete the webhook', variant: 'destructive' });
+    }
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast({ title: 'Copied', description: 'Signing secret copied to clipboard' });
+  };
+
+  const confirmRotate = (id: string) => {
+    if (confirm('Rotate the signing secret? Your receiver must switch to the new secret to keep verifying deliveries.')) {
+      rotateMutation.mutate(id);
+    }
+  };
+
+  const confirmDelete = (id: string) => {
+    if (confirm('Delete this webhook and its delivery log?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Send subscription and reminder events to your own services as signed JSON POSTs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Each delivery has an <code>X-SubTracker-Signature</code> header of the form <code>t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>,
+            an HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> keyed with the endpoint's secret.
+            Failed deliveries are retried with backoff for about an hour.
+          </AlertDescription>
+        </Alert>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : endpoints.length > 0 && (
+          <div className="space-y-4">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="space-y-3 rounded-lg border p-4" data-testid={`webhook-endpoint-${endpoint.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="truncate font-mono text-sm">{endpoint.url}</p>
+                    {endpoint.description && <p className="text-sm text-muted-foreground">{endpoint.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={endpoint.isActive}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: endpoint.id, updates: { isActive: checked } })}
+                    data-testid={`switch-webhook-active-${endpoint.id}`}
+                  />
+                </div>
+
+                {revealedSecret?.endpointId === endpoint.id && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`webhook-secret-${endpoint.id}`}>Signing secret (shown once)</Label>
+                    <div className="flex gap-2">
+                      <Input id={`webhook-secret-${endpoint.id}`} value={revealedSecret.secret} readOnly className="font-mono text-xs" />
+                      <Button type="button" variant="outline" size="icon" onClick={() => copySecret(revealedSecret.secret)} data-testid="button-copy-webhook-secret">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setOpenLog(openLog === endpoint.id ? null : endpoint.id)} data-testid={`button-webhook-log-${endpoint.id}`}>
+                    <List className="h-3 w-3 mr-1" />
+                    {openLog === endpoint.id ? 'Hide deliveries' : 'Deliveries'}
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => confirmRotate(endpoint.id)} disabled={rotateMutation.isPending} data-testid={`button-rotate-webhook-secret-${endpoint.id}`}>
+                    <KeyRound className="h-3 w-3 mr-1" />
+                    Rotate secret
+                  </Button>
+                  <Button type="button" variant="destructive" size="sm" onClick={() => confirmDelete(endpoint.id)} disabled={deleteMutation.isPending} data-testid={`button-delete-webhook-${endpoint.id}`}>
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+
+                {openLog === endpoint.id && <DeliveryLog endpoint={endpoint} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/hooks/subtracker"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              data-testid="input-webhook-url"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description (optional)</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-webhook-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEBHOOK_EVENT_TYPES.map((event) => (
+                <label key={event} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-webhook-event-${event}`}
+                  />
+                  <span>
+                    <span className="font-mono text-xs">{event}</span>
+                    <span className="block text-muted-foreground">{WEBHOOK_EVENT_LABELS[event]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button
+            type="button"
+            onClick={() => createMutation.mutate()}
+            disabled={!url || events.length === 0 || createMutation.isPending}
+            data-testid="button-add-webhook"
+          >
+            {createMutation.isPending ? <RotateCw className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add webhook
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
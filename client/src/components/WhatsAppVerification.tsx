@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface WhatsAppVerificationProps {
+  savedNumber: string | null;
+  verifiedNumber: string | null;
+  // The number field has changes that aren't saved yet
+  numberEdited: boolean;
+}
+
+// The server answers "<status>: <json>"; show its error rather than the whole body
+const errorMessage = (error: any, fallback: string) => {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message ?? '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1];
+  }
+};
+
+/**
+ * Confirm the saved WhatsApp number with a code sent to it. Replies (PAID, SNOOZE, ...) are only
+ * taken from a verified number.
+ */
+export default function WhatsAppVerification({ savedNumber, verifiedNumber, numberEdited }: WhatsAppVerificationProps) {
+  const { toast } = useToast();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/whatsapp/verification');
+      return await response.json();
+    },
+    onSuccess: () => {
+      setCodeSent(true);
+      setCode('');
+      toast({ title: 'Code sent', description: 'Check WhatsApp for a 6-digit code' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to send the code'), variant: 'destructive' });
+    }
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/whatsapp/verification/confirm', { code: code.trim() });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setCodeSent(false);
+      setCode('');
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders/preferences'] });
+      toast({ title: 'WhatsApp number verified', description: 'You can now reply to reminders from WhatsApp' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to verify the code'), variant: 'destructive' });
+    }
+  });
+
+  if (!savedNumber) return null;
+  if (numberEdited) {
+    return <p className="text-xs text-muted-foreground">Save your settings, then verify the new number.</p>;
+  }
+  if (verifiedNumber) {
+    return (
+      <Badge variant="outline" className="gap-1" data-testid="badge-whatsapp-verified">
+        <ShieldCheck className="h-3 w-3" />
+        Verified
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Verify this number to manage subscriptions by replying to reminders.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {codeSent && (
+          <Input
+            className="w-40"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="6-digit code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              // The reminder settings form around this would submit on Enter
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                if (code.trim()) confirmMutation.mutate();
+              }
+            }}
+            data-testid="input-whatsapp-verification-code"
+          />
+        )}
+        {codeSent && (
+          <Button type="button" onClick={() => confirmMutation.mutate()} disabled={!code.trim() || confirmMutation.isPending} data-testid="button-confirm-whatsapp-code">
+            {confirmMutation.isPending ? 'Verifying...' : 'Verify'}
+          </Button>
+        )}
+        <Button type="button" variant="outline" onClick={() => sendMutation.mutate()} disabled={sendMutation.isPending} data-testid="button-send-whatsapp-code">
+          {sendMutation.isPending ? 'Sending...' : codeSent ? 'Send a new code' : 'Send verification code'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ const mockSubscriptions = [
     category: 'Entertainment',
     nextBillingDate: new Date('2024-01-15'),
     description: 'Premium streaming plan with 4K content',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-12-01'),
   },
   {
@@ -21,7 +21,7 @@ const mockSubscriptions = [
     category: 'Entertainment',
     nextBillingDate: new Date('2024-01-20'),
     description: 'Music streaming service',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-11-01'),
   },
   {
@@ -32,7 +32,7 @@ const mockSubscriptions = [
     category: 'Productivity',
     nextBillingDate: new Date('2024-06-15'),
     description: 'Design and creative software suite',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-06-15'),
   },
   {
@@ -43,7 +43,7 @@ const mockSubscriptions = [
     category: 'Health',
     nextBillingDate: new Date('2024-01-10'),
     description: 'Local fitness center membership',
-    isActive: 0,
+    isActive: false,
     createdAt: new Date('2023-10-01'),
   },
   {
@@ -54,7 +54,7 @@ const mockSubscriptions = [
     category: 'News',
     nextBillingDate: new Date('2024-01-25'),
     description: 'Digital subscription',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-09-01'),
   }
 ];
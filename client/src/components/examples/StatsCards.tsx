@@ -9,7 +9,7 @@ const mockSubscriptions = [
     category: 'Entertainment',
     nextBillingDate: new Date('2024-01-15'),
     description: 'Premium streaming plan',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-12-01'),
   },
   {
@@ -20,7 +20,7 @@ const mockSubscriptions = [
     category: 'Entertainment',
     nextBillingDate: new Date('2024-01-20'),
     description: 'Music streaming',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-11-01'),
   },
   {
@@ -31,7 +31,7 @@ const mockSubscriptions = [
     category: 'Productivity',
     nextBillingDate: new Date('2024-06-15'),
     description: 'Design software suite',
-    isActive: 1,
+    isActive: true,
     createdAt: new Date('2023-06-15'),
   }
 ];
@@ -8,7 +8,7 @@ const mockSubscription = {
   category: 'Entertainment',
   nextBillingDate: new Date('2024-01-15'),
   description: 'Premium streaming plan with 4K content',
-  isActive: 1,
+  isActive: true,
   createdAt: new Date('2023-12-01'),
 };
 
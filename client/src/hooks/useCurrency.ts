@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BASE_CURRENCY, convertAmount, type ExchangeRates } from '@shared/currency';
+
+export interface CurrencySettings {
+  baseCurrency: string;
+  reportingCurrency: string;
+  rates: ExchangeRates;
+  supportedCurrencies: { code: string; name: string }[];
+}
+
+export function useCurrency() {
+  const { data, isLoading } = useQuery<CurrencySettings>({
+    queryKey: ['/api/currency'],
+  });
+
+  const reportingCurrency = data?.reportingCurrency ?? BASE_CURRENCY;
+
+  // Convert into the reporting currency; amounts without a known rate are left as-is
+  const convert = useMemo(() => {
+    const rates = data?.rates ?? {};
+    return (amount: number, fromCurrency?: string | null) =>
+      convertAmount(amount, fromCurrency || BASE_CURRENCY, reportingCurrency, rates) ?? amount;
+  }, [reportingCurrency, data?.rates]);
+
+  return {
+    reportingCurrency,
+    rates: data?.rates ?? {},
+    supportedCurrencies: data?.supportedCurrencies ?? [],
+    convert,
+    isLoading,
+  };
+}
@@ -9,10 +9,11 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Settings, Key, Mail, Database, Globe, AlertTriangle, Save, RefreshCw } from 'lucide-react';
+import { Settings, Key, Mail, Database, Globe, AlertTriangle, Save, RefreshCw, Download, Archive } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Link } from 'wouter';
+import ExchangeRatesCard from '@/components/ExchangeRatesCard';
 
 interface AdminSettings {
   siteName: string;
@@ -29,14 +30,34 @@ interface AdminSettings {
 
 interface SystemHealth {
   databaseStatus: 'healthy' | 'warning' | 'error';
+  databaseLatencyMs: number | null;
+  storageDriver: string;
   apiKeysStatus: 'configured' | 'missing' | 'error';
   emailServiceStatus: 'active' | 'inactive' | 'error';
-  diskUsagePercentage: number;
+  diskUsagePercentage: number | null;
   memoryUsagePercentage: number;
+  memory: { rssBytes: number; heapUsedBytes: number; heapTotalBytes: number };
   uptime: string;
   lastBackup: string | null;
 }
 
+interface BackupFile {
+  fileName: string;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+interface BackupList {
+  backups: BackupFile[];
+  retention: { keepDays: number; keepMin: number };
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export default function AdminSettings() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('general');
@@ -54,6 +75,13 @@ export default function AdminSettings() {
     refetchInterval: 30000 // Refresh every 30 seconds
   });
 
+  // Fetch backups (super admins only; others get a 403 and the card stays hidden)
+  const { data: backupsData } = useQuery<{ success: boolean; data: BackupList }>({
+    queryKey: ['/api/admin/system/backups'],
+    queryFn: () => fetch('/api/admin/system/backups').then(res => res.json()),
+    refetchInterval: 30000
+  });
+
   // Form state
   const [formData, setFormData] = useState<AdminSettings>({
     siteName: '',
@@ -104,9 +132,11 @@ export default function AdminSettings() {
     }).then(res => res.json()),
     onSuccess: (data, action) => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/system-health'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/system/backups'] });
       toast({
-        title: 'Success',
-        description: `${action} completed successfully`
+        title: data.success ? 'Success' : 'Error',
+        description: data.message || `${action} completed successfully`,
+        variant: data.success ? 'default' : 'destructive'
       });
     },
     onError: (error: any, action) => {
@@ -166,6 +196,7 @@ export default function AdminSettings() {
             <TabsTrigger value="system">System</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
             <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+            <TabsTrigger value="currency">Currency</TabsTrigger>
           </TabsList>
 
           {/* General Settings Tab */}
@@ -296,9 +327,15 @@ export default function AdminSettings() {
                   <div className="grid gap-4 md:grid-cols-2" data-testid="system-health-grid">
                     <div className="space-y-2">
                       <Label>Database Status</Label>
-                      <Badge className={getStatusColor(healthData.data.databaseStatus)}>
-                        {healthData.data.databaseStatus}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge className={getStatusColor(healthData.data.databaseStatus)}>
+                          {healthData.data.databaseStatus}
+                        </Badge>
+                        <span className="text-sm text-muted-foreground">
+                          {healthData.data.storageDriver}
+                          {healthData.data.databaseLatencyMs !== null && ` • ${healthData.data.databaseLatencyMs} ms`}
+                        </span>
+                      </div>
                     </div>
                     
                     <div className="space-y-2">
@@ -320,16 +357,25 @@ export default function AdminSettings() {
                       <p className="text-sm font-mono">{healthData.data.uptime}</p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label>Last Backup</Label>
+                      <p className="text-sm font-mono" data-testid="text-last-backup">
+                        {healthData.data.lastBackup ? new Date(healthData.data.lastBackup).toLocaleString() : 'Never'}
+                      </p>
+                    </div>
+
                     <div className="space-y-2">
                       <Label>Disk Usage</Label>
                       <div className="flex items-center space-x-2">
                         <div className="flex-1 bg-gray-200 rounded-full h-2">
                           <div 
                             className="bg-blue-600 h-2 rounded-full" 
-                            style={{ width: `${healthData.data.diskUsagePercentage}%` }}
+                            style={{ width: `${healthData.data.diskUsagePercentage ?? 0}%` }}
                           ></div>
                         </div>
-                        <span className="text-sm">{healthData.data.diskUsagePercentage}%</span>
+                        <span className="text-sm">
+                          {healthData.data.diskUsagePercentage === null ? 'n/a' : `${healthData.data.diskUsagePercentage}%`}
+                        </span>
                       </div>
                     </div>
 
@@ -344,6 +390,9 @@ export default function AdminSettings() {
                         </div>
                         <span className="text-sm">{healthData.data.memoryUsagePercentage}%</span>
                       </div>
+                      <p className="text-xs text-muted-foreground">
+                        RSS {formatBytes(healthData.data.memory.rssBytes)} • heap {formatBytes(healthData.data.memory.heapUsedBytes)} of {formatBytes(healthData.data.memory.heapTotalBytes)}
+                      </p>
                     </div>
                   </div>
                 ) : (
@@ -378,6 +427,49 @@ export default function AdminSettings() {
                 </div>
               </CardContent>
             </Card>
+
+            {backupsData?.success && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Archive className="mr-2 h-5 w-5" />
+                    Backups
+                  </CardTitle>
+                  <CardDescription>
+                    Compressed snapshots of every table. Backups older than {backupsData.data.retention.keepDays} days are
+                    pruned, keeping at least the newest {backupsData.data.retention.keepMin}.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {backupsData.data.backups.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No backups yet.</p>
+                  ) : (
+                    <div className="space-y-2" data-testid="backup-list">
+                      {backupsData.data.backups.map(backup => (
+                        <div key={backup.fileName} className="flex items-center justify-between rounded-lg border p-3">
+                          <div>
+                            <p className="text-sm font-medium">{new Date(backup.createdAt).toLocaleString()}</p>
+                            <p className="text-xs text-muted-foreground font-mono">
+                              {backup.fileName} • {formatBytes(backup.sizeBytes)}
+                            </p>
+                          </div>
+                          <Button variant="outline" size="sm" asChild>
+                            <a
+                              href={`/api/admin/system/backups/${encodeURIComponent(backup.fileName)}/download`}
+                              download
+                              data-testid={`link-download-backup-${backup.fileName}`}
+                            >
+                              <Download className="mr-2 h-4 w-4" />
+                              Download
+                            </a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Security Tab */}
@@ -481,6 +573,11 @@ export default function AdminSettings() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Currency Tab */}
+          <TabsContent value="currency" className="space-y-4">
+            <ExchangeRatesCard />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
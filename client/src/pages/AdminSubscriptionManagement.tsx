@@ -7,15 +7,21 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { CreditCard, Search, Eye, DollarSign, Calendar, Plus } from 'lucide-react';
 import { Link } from 'wouter';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatCurrency } from '@/lib/utils';
+import { BILLING_CYCLES, formatBillingCycle, toMonthlyCost } from '@shared/recurrence';
 
 interface Subscription {
   id: string;
   name: string;
   cost: number;
+  currency: string;
   billingCycle: string;
+  customCycleCount: number | null;
+  customCycleUnit: string | null;
   category: string;
   nextBillingDate: string;
-  isActive: number;
+  isActive: boolean;
   paymentStatus: string;
   createdAt: string;
   userId: string;
@@ -41,6 +47,7 @@ interface SubscriptionsResponse {
 export default function AdminSubscriptionManagement() {
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
+  const { convert, reportingCurrency } = useCurrency();
 
   // Fetch all subscriptions
   const { data: subscriptionsData, isLoading } = useQuery<SubscriptionsResponse>({
@@ -51,18 +58,11 @@ export default function AdminSubscriptionManagement() {
   const subscriptions = subscriptionsData?.data.subscriptions || [];
   const pagination = subscriptionsData?.data.pagination;
 
-  // Calculate summary stats
+  // Calculate summary stats (normalized into the admin's reporting currency)
   const totalMonthlyRevenue = subscriptions.reduce((sum, sub) => {
     if (!sub.isActive) return sum;
-    const cost = parseFloat(sub.cost.toString()) || 0;
-    switch (sub.billingCycle) {
-      case 'yearly':
-        return sum + (cost / 12);
-      case 'weekly':
-        return sum + (cost * 52 / 12);
-      default: // monthly
-        return sum + cost;
-    }
+    const cost = convert(parseFloat(sub.cost.toString()) || 0, sub.currency);
+    return sum + toMonthlyCost(cost, sub);
   }, 0);
 
   const activeSubscriptions = subscriptions.filter(sub => sub.isActive).length;
@@ -72,13 +72,6 @@ export default function AdminSubscriptionManagement() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
-
   return (
     <div className="min-h-screen bg-background" data-testid="admin-subscription-management">
       {/* Header */}
@@ -113,7 +106,7 @@ export default function AdminSubscriptionManagement() {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{formatCurrency(totalMonthlyRevenue)}</div>
+              <div className="text-2xl font-bold">{formatCurrency(totalMonthlyRevenue, reportingCurrency)}</div>
               <p className="text-xs text-muted-foreground">
                 Estimated monthly recurring revenue
               </p>
@@ -202,11 +195,11 @@ export default function AdminSubscriptionManagement() {
                         </div>
                       </TableCell>
                       <TableCell className="font-semibold">
-                        {formatCurrency(parseFloat(subscription.cost.toString()) || 0)}
+                        {formatCurrency(parseFloat(subscription.cost.toString()) || 0, subscription.currency)}
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">
-                          {subscription.billingCycle}
+                          {formatBillingCycle(subscription)}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -310,27 +303,21 @@ export default function AdminSubscriptionManagement() {
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-3" data-testid="billing-analysis">
-              {['monthly', 'yearly', 'weekly'].map(cycle => {
-                const cycleSubs = subscriptions.filter(sub => sub.billingCycle === cycle && sub.isActive);
+              {BILLING_CYCLES.map(cycle => {
+                const cycleSubs = subscriptions.filter(sub => sub.billingCycle === cycle.value && sub.isActive);
+                if (cycleSubs.length === 0) return null;
                 const revenue = cycleSubs.reduce((sum, sub) => {
-                  const cost = parseFloat(sub.cost.toString()) || 0;
-                  switch (cycle) {
-                    case 'yearly':
-                      return sum + (cost / 12);
-                    case 'weekly':
-                      return sum + (cost * 52 / 12);
-                    default:
-                      return sum + cost;
-                  }
+                  const cost = convert(parseFloat(sub.cost.toString()) || 0, sub.currency);
+                  return sum + toMonthlyCost(cost, sub);
                 }, 0);
 
                 return (
-                  <div key={cycle} className="text-center p-4 border rounded-lg">
-                    <div className="text-lg font-semibold capitalize">{cycle}</div>
+                  <div key={cycle.value} className="text-center p-4 border rounded-lg">
+                    <div className="text-lg font-semibold">{cycle.label}</div>
                     <div className="text-2xl font-bold">{cycleSubs.length}</div>
                     <div className="text-sm text-muted-foreground">subscriptions</div>
                     <div className="text-lg font-semibold text-green-600 mt-2">
-                      {formatCurrency(revenue)}/mo
+                      {formatCurrency(revenue, reportingCurrency)}/mo
                     </div>
                   </div>
                 );
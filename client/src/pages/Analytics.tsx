@@ -14,8 +14,10 @@ import {
   PieChart,
   ArrowUp,
   ArrowDown,
-  Target
+  Target,
+  PiggyBank
 } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
 
 export default function Analytics() {
   const [selectedTimeframe, setSelectedTimeframe] = useState("12months");
@@ -50,6 +52,36 @@ export default function Analytics() {
     }
   });
 
+  // Fetch money saved by cancelling
+  const { data: savingsData, isLoading: savingsLoading } = useQuery({
+    queryKey: ["/api/analytics/savings"],
+    queryFn: async () => {
+      const response = await fetch("/api/analytics/savings");
+      if (!response.ok) throw new Error("Failed to fetch cancellation savings");
+      return response.json();
+    }
+  });
+
+  // Fetch price increases over the last year
+  const { data: priceIncreasesData, isLoading: priceIncreasesLoading } = useQuery({
+    queryKey: ["/api/analytics/price-increases"],
+    queryFn: async () => {
+      const response = await fetch("/api/analytics/price-increases");
+      if (!response.ok) throw new Error("Failed to fetch price increases");
+      return response.json();
+    }
+  });
+
+  // All analytics amounts are normalized into the user's reporting currency
+  const currency: string = categoryData?.currency ?? peakMonthsData?.currency ?? trendsData?.currency ?? "USD";
+  const missingRates: string[] = Array.from(new Set([
+    ...(categoryData?.missingRates ?? []),
+    ...(peakMonthsData?.missingRates ?? []),
+    ...(trendsData?.missingRates ?? []),
+    ...(savingsData?.missingRates ?? []),
+    ...(priceIncreasesData?.missingRates ?? []),
+  ]));
+
   const handleExportAnalytics = async () => {
     try {
       const response = await fetch("/api/export/analytics/csv");
@@ -69,7 +101,7 @@ export default function Analytics() {
     }
   };
 
-  if (categoryLoading || peakMonthsLoading || trendsLoading) {
+  if (categoryLoading || peakMonthsLoading || trendsLoading || savingsLoading || priceIncreasesLoading) {
     return (
       <div className="min-h-screen p-8">
         <div className="max-w-6xl mx-auto">
@@ -92,6 +124,11 @@ export default function Analytics() {
             <p className="text-gray-600 dark:text-gray-400">
               Analyze your spending patterns and peak payment months
             </p>
+            {missingRates.length > 0 && (
+              <p className="text-sm text-orange-600 mt-1" data-testid="text-missing-rates">
+                No exchange rate for {missingRates.join(", ")}; those amounts are shown unconverted.
+              </p>
+            )}
           </div>
           <Button 
             onClick={handleExportAnalytics}
@@ -104,7 +141,7 @@ export default function Analytics() {
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
           <Card data-testid="card-total-categories">
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
@@ -124,7 +161,7 @@ export default function Analytics() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Monthly Spending</p>
-                  <p className="text-2xl font-bold">${categoryData?.summary?.totalMonthlyCost?.toFixed(2) || "0.00"}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(categoryData?.summary?.totalMonthlyCost ?? 0, currency)}</p>
                 </div>
                 <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-full">
                   <DollarSign className="h-6 w-6 text-green-600 dark:text-green-400" />
@@ -138,7 +175,7 @@ export default function Analytics() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Yearly Projection</p>
-                  <p className="text-2xl font-bold">${categoryData?.summary?.totalYearlyCost?.toFixed(2) || "0.00"}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(categoryData?.summary?.totalYearlyCost ?? 0, currency)}</p>
                 </div>
                 <div className="p-3 bg-purple-100 dark:bg-purple-900/30 rounded-full">
                   <TrendingUp className="h-6 w-6 text-purple-600 dark:text-purple-400" />
@@ -152,7 +189,7 @@ export default function Analytics() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Peak Month</p>
-                  <p className="text-2xl font-bold">${peakMonthsData?.summary?.highestMonth?.totalAmount?.toFixed(2) || "0.00"}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(peakMonthsData?.summary?.highestMonth?.totalAmount ?? 0, currency)}</p>
                   <p className="text-xs text-gray-500">{peakMonthsData?.summary?.highestMonth?.monthName}</p>
                 </div>
                 <div className="p-3 bg-orange-100 dark:bg-orange-900/30 rounded-full">
@@ -161,14 +198,29 @@ export default function Analytics() {
               </div>
             </CardContent>
           </Card>
+          <Card data-testid="card-saved-by-cancelling">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Saved by Cancelling</p>
+                  <p className="text-2xl font-bold">{formatCurrency(savingsData?.summary?.totalSaved ?? 0, currency)}</p>
+                  <p className="text-xs text-gray-500">{formatCurrency(savingsData?.summary?.monthlySaving ?? 0, currency)}/month</p>
+                </div>
+                <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 rounded-full">
+                  <PiggyBank className="h-6 w-6 text-emerald-600 dark:text-emerald-400" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Main Analytics */}
         <Tabs defaultValue="categories" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="categories" data-testid="tab-categories">Categories</TabsTrigger>
             <TabsTrigger value="peak-months" data-testid="tab-peak-months">Peak Months</TabsTrigger>
             <TabsTrigger value="trends" data-testid="tab-trends">Trends</TabsTrigger>
+            <TabsTrigger value="savings" data-testid="tab-savings">Savings</TabsTrigger>
           </TabsList>
 
           {/* Categories Tab */}
@@ -195,8 +247,8 @@ export default function Analytics() {
                             <Badge variant="secondary">{category.count} subscriptions</Badge>
                           </div>
                           <div className="text-right">
-                            <div className="font-bold">${category.totalMonthlyCost.toFixed(2)}/month</div>
-                            <div className="text-sm text-gray-500">${category.totalYearlyCost.toFixed(2)}/year</div>
+                            <div className="font-bold">{formatCurrency(category.totalMonthlyCost, currency)}/month</div>
+                            <div className="text-sm text-gray-500">{formatCurrency(category.totalYearlyCost, currency)}/year</div>
                           </div>
                         </div>
                         <Progress value={percentage} className="h-2" />
@@ -234,7 +286,7 @@ export default function Analytics() {
                             </div>
                             <div className="text-lg font-bold">{month.monthName}</div>
                             <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                              ${month.totalAmount.toFixed(2)}
+                              {formatCurrency(month.totalAmount, currency)}
                             </div>
                             <div className="text-sm text-gray-500 mt-2">
                               {month.payments.length} payments
@@ -255,7 +307,7 @@ export default function Analytics() {
                           <div className="text-sm text-gray-500">{month.payments.length} payments due</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-bold">${month.totalAmount.toFixed(2)}</div>
+                          <div className="font-bold">{formatCurrency(month.totalAmount, currency)}</div>
                           {month.totalAmount > peakMonthsData.summary.averageMonthly && (
                             <Badge variant="destructive" className="text-xs">Above Average</Badge>
                           )}
@@ -285,13 +337,13 @@ export default function Analytics() {
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                     <div className="text-center p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
                       <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                        ${trendsData?.summary?.totalSpent?.toFixed(2) || "0.00"}
+                        {formatCurrency(trendsData?.summary?.totalSpent ?? 0, currency)}
                       </div>
                       <div className="text-sm text-gray-500">Total Historical Spend</div>
                     </div>
                     <div className="text-center p-4 bg-green-50 dark:bg-green-900/30 rounded-lg">
                       <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                        ${trendsData?.summary?.averageMonthlySpend?.toFixed(2) || "0.00"}
+                        {formatCurrency(trendsData?.summary?.averageMonthlySpend ?? 0, currency)}
                       </div>
                       <div className="text-sm text-gray-500">Average Monthly</div>
                     </div>
@@ -314,7 +366,7 @@ export default function Analytics() {
                           </div>
                         </div>
                         <div className="text-right">
-                          <div className="font-bold">${trend.totalSpent.toFixed(2)}</div>
+                          <div className="font-bold">{formatCurrency(trend.totalSpent, currency)}</div>
                           <div className="text-sm text-gray-500">{trend.events.length} events</div>
                         </div>
                       </div>
@@ -324,6 +376,113 @@ export default function Analytics() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Price increases (last 12 months), shown under Trends */}
+          <TabsContent value="trends" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ArrowUp className="h-5 w-5" />
+                  Price Increases
+                </CardTitle>
+                <CardDescription>
+                  {priceIncreasesData?.summary?.totalIncreases ?? 0} increases in the last 12 months, adding {formatCurrency(priceIncreasesData?.summary?.totalYearlyIncrease ?? 0, currency)} a year
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {priceIncreasesData?.increases?.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">No price increases recorded in the last year.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {priceIncreasesData?.increases?.map((increase: any, index: number) => (
+                      <div key={increase.id} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`price-increase-${index}`}>
+                        <div>
+                          <div className="font-medium">{increase.name}</div>
+                          <div className="text-sm text-gray-500">
+                            {formatCurrency(increase.oldPrice, currency)} → {formatCurrency(increase.newPrice, currency)} on {new Date(increase.effectiveDate).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-bold text-red-600 dark:text-red-400">
+                            +{increase.percentIncrease !== null ? `${increase.percentIncrease.toFixed(1)}%` : formatCurrency(increase.increase, currency)}
+                          </div>
+                          {increase.yearlyIncrease !== null && (
+                            <div className="text-sm text-gray-500">+{formatCurrency(increase.yearlyIncrease, currency)}/year</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Savings Tab */}
+          <TabsContent value="savings" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PiggyBank className="h-5 w-5" />
+                  Money Saved by Cancelling
+                </CardTitle>
+                <CardDescription>
+                  Renewals you have avoided since confirming each cancellation
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="text-center p-4 bg-emerald-50 dark:bg-emerald-900/30 rounded-lg">
+                      <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
+                        {formatCurrency(savingsData?.summary?.totalSaved ?? 0, currency)}
+                      </div>
+                      <div className="text-sm text-gray-500">Saved So Far</div>
+                    </div>
+                    <div className="text-center p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+                      <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                        {formatCurrency(savingsData?.summary?.monthlySaving ?? 0, currency)}
+                      </div>
+                      <div className="text-sm text-gray-500">Saving per Month</div>
+                    </div>
+                    <div className="text-center p-4 bg-orange-50 dark:bg-orange-900/30 rounded-lg">
+                      <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                        {formatCurrency(savingsData?.summary?.plannedMonthlySaving ?? 0, currency)}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        More per Month from {savingsData?.summary?.plannedCount ?? 0} Planned
+                      </div>
+                    </div>
+                  </div>
+
+                  {savingsData?.cancelled?.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">
+                      No cancellations yet. Plan one from a subscription's menu to start tracking savings.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {savingsData?.cancelled?.map((item: any, index: number) => (
+                        <div key={item.subscriptionId} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`savings-${index}`}>
+                          <div>
+                            <div className="font-medium">{item.name}</div>
+                            <div className="text-sm text-gray-500">
+                              {item.status === 'active_until_end'
+                                ? `Active until ${new Date(item.activeUntil).toLocaleDateString()}`
+                                : `${item.skippedRenewals} renewals skipped`}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className="font-bold text-emerald-600 dark:text-emerald-400">{formatCurrency(item.totalSaved, currency)}</div>
+                            <div className="text-sm text-gray-500">{formatCurrency(item.monthlySaving, currency)}/month</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
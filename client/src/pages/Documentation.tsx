@@ -209,7 +209,7 @@ export default function Documentation() {
     "category": "Entertainment",
     "nextBillingDate": "2025-01-15T00:00:00.000Z",
     "description": "Streaming service",
-    "isActive": 1
+    "isActive": true
   }'`)}
                         data-testid="button-copy-create-sub"
                       >
@@ -242,7 +242,7 @@ export default function Documentation() {
         "billingCycle": "monthly",
         "category": "Entertainment",
         "nextBillingDate": "2025-02-01T00:00:00.000Z",
-        "isActive": 1
+        "isActive": true
       }
     ]
   }'`)}
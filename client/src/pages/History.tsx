@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,8 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { Calendar, Search, Filter, DollarSign, Clock, AlertTriangle, CheckCircle, XCircle, Download, TrendingUp, Activity, BarChart3, FileText, Archive } from 'lucide-react';
+import { Calendar, Search, Filter, DollarSign, Clock, AlertTriangle, CheckCircle, XCircle, Download, TrendingUp, Activity, BarChart3, FileText, Archive, History as HistoryIcon, RotateCcw } from 'lucide-react';
 import { format, isToday, isYesterday, isThisWeek, isThisMonth } from 'date-fns';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatAuditedField, formatAuditValue, type SubscriptionChanges } from '@shared/subscription-audit';
 
 interface HistoryEntry {
   id: string;
@@ -18,6 +21,8 @@ interface HistoryEntry {
   action: string;
   oldValue: string | null;
   newValue: string | null;
+  changes: SubscriptionChanges | null;
+  restorable: boolean;
   createdAt: string;
 }
 
@@ -28,6 +33,8 @@ const getActionIcon = (action: string) => {
       return <CheckCircle className="h-4 w-4 text-green-500" />;
     case 'updated':
       return <Clock className="h-4 w-4 text-blue-500" />;
+    case 'restored':
+      return <HistoryIcon className="h-4 w-4 text-purple-500" />;
     case 'deleted':
       return <XCircle className="h-4 w-4 text-red-500" />;
     case 'payment_failed':
@@ -48,6 +55,8 @@ const getActionColor = (action: string) => {
       return 'bg-green-50 text-green-700 border-green-200';
     case 'updated':
       return 'bg-blue-50 text-blue-700 border-blue-200';
+    case 'restored':
+      return 'bg-purple-50 text-purple-700 border-purple-200';
     case 'deleted':
       return 'bg-red-50 text-red-700 border-red-200';
     case 'payment_failed':
@@ -82,6 +91,8 @@ const formatActionDescription = (entry: HistoryEntry) => {
         return `Updated "${subscriptionName}" from "${oldValue}" to "${newValue}"`;
       }
       return `Updated subscription "${subscriptionName}"`;
+    case 'restored':
+      return `Restored "${subscriptionName}" to an earlier version`;
     case 'deleted':
       return `Deleted subscription "${subscriptionName}"`;
     case 'payment_failed':
@@ -167,12 +178,35 @@ export default function History() {
   const [actionFilter, setActionFilter] = useState('all');
   const [timeFilter, setTimeFilter] = useState('all');
   const [viewMode, setViewMode] = useState('timeline'); // 'timeline' | 'analytics' | 'summary'
+  const { toast } = useToast();
 
   const { data: history = [], isLoading } = useQuery<HistoryEntry[]>({
     queryKey: ['/api/subscriptions/history/all'],
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async (entry: HistoryEntry) => {
+      const response = await apiRequest('POST', `/api/subscriptions/${entry.subscriptionId}/history/${entry.id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/history/all'] });
+      toast({ title: 'Subscription restored' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to restore subscription', variant: 'destructive' });
+    }
+  });
+
+  const handleRestore = (entry: HistoryEntry) => {
+    const when = format(new Date(entry.createdAt), 'MMM dd, yyyy h:mm a');
+    if (confirm(`Restore "${entry.subscriptionName}" to how it was on ${when}?`)) {
+      restoreMutation.mutate(entry);
+    }
+  };
+
   // Filter history entries
   const filteredHistory = history.filter((entry) => {
     const matchesSearch = searchTerm === '' || 
@@ -459,13 +493,41 @@ export default function History() {
                                       {format(new Date(entry.createdAt), 'MMM dd, yyyy \'at\' h:mm a')}
                                     </p>
                                   </div>
-                                  <Badge 
-                                    variant="secondary" 
-                                    className={`text-xs border ${getActionColor(entry.action)} flex-shrink-0`}
-                                  >
-                                    {(entry.action || 'unknown').replace('_', ' ').toUpperCase()}
-                                  </Badge>
+                                  <div className="flex items-center gap-2 flex-shrink-0">
+                                    {entry.restorable && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        disabled={restoreMutation.isPending}
+                                        onClick={() => handleRestore(entry)}
+                                        data-testid={`button-restore-${entry.id}`}
+                                      >
+                                        <RotateCcw className="h-3 w-3 mr-1" />
+                                        Restore
+                                      </Button>
+                                    )}
+                                    <Badge 
+                                      variant="secondary" 
+                                      className={`text-xs border ${getActionColor(entry.action)}`}
+                                    >
+                                      {(entry.action || 'unknown').replace('_', ' ').toUpperCase()}
+                                    </Badge>
+                                  </div>
                                 </div>
+                                {entry.changes && Object.keys(entry.changes).length > 0 && (
+                                  <div className="mt-3 rounded-md border bg-muted/40 text-xs divide-y" data-testid={`history-changes-${entry.id}`}>
+                                    {Object.entries(entry.changes).map(([field, change]) => change && (
+                                      <div key={field} className="grid grid-cols-[8rem_1fr] gap-2 px-3 py-1.5">
+                                        <span className="font-medium text-muted-foreground">{formatAuditedField(field)}</span>
+                                        <span className="break-words">
+                                          <span className="line-through text-red-600 dark:text-red-400">{formatAuditValue(field, change.from)}</span>
+                                          {' → '}
+                                          <span className="text-green-700 dark:text-green-400">{formatAuditValue(field, change.to)}</span>
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { FileUp, Search, Check, Info } from "lucide-react";
+import { format } from "date-fns";
+import type { Subscription } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { formatBillingCycle } from "@shared/recurrence";
+import {
+  STATEMENT_DATE_FORMATS,
+  SUBSCRIPTION_CATEGORIES,
+  type CsvColumnMapping,
+  type RecurringCharge,
+  type StatementAnalysis,
+  type StatementApplyResult,
+  type StatementFormat,
+} from "@shared/statement-import";
+
+// Select items cannot have an empty value
+const NO_COLUMN = "__none__";
+const NEW_SUBSCRIPTION = "__new__";
+
+interface ChargeDecision {
+  accepted: boolean;
+  target: string; // NEW_SUBSCRIPTION or an existing subscription id
+  name: string;
+  category: string;
+}
+
+const MAPPING_FIELDS: { field: keyof Omit<CsvColumnMapping, "dateFormat">; label: string; required?: boolean }[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "description", label: "Description", required: true },
+  { field: "amount", label: "Amount (signed)" },
+  { field: "debit", label: "Debit / money out" },
+  { field: "credit", label: "Credit / money in" },
+  { field: "currency", label: "Currency" },
+];
+
+const DATE_FORMAT_LABELS: Record<(typeof STATEMENT_DATE_FORMATS)[number], string> = {
+  auto: "Detect automatically",
+  YMD: "Year-month-day (2026-01-31)",
+  DMY: "Day/month/year (31/01/2026)",
+  MDY: "Month/day/year (01/31/2026)",
+};
+
+export default function ImportStatement() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [statement, setStatement] = useState<{ format: StatementFormat; content: string } | null>(null);
+  const [analysis, setAnalysis] = useState<StatementAnalysis | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, ChargeDecision>>({});
+
+  const { data: subscriptions = [] } = useQuery<Subscription[]>({
+    queryKey: ["/api/subscriptions"],
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (body: { format: StatementFormat; content: string; mapping?: CsvColumnMapping }) => {
+      const response = await apiRequest("POST", "/api/import/statement/analyze", body);
+      return await response.json() as StatementAnalysis;
+    },
+    onSuccess: (data) => {
+      setAnalysis(data);
+      setMapping(data.mapping);
+      // Confident detections start ticked; matches default to the existing subscription
+      setDecisions(Object.fromEntries(data.charges.map((charge) => [charge.key, {
+        accepted: charge.confidence >= 0.5,
+        target: charge.match?.subscriptionId ?? NEW_SUBSCRIPTION,
+        name: charge.merchant,
+        category: charge.category,
+      }])));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not read statement",
+        description: error.message || "Failed to analyze the statement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (charges: RecurringCharge[]) => {
+      const body = {
+        charges: charges.map((charge) => {
+          const decision = decisions[charge.key];
+          const transactions = charge.transactions.map(({ date, amount }) => ({ date, amount }));
+          return decision.target === NEW_SUBSCRIPTION
+            ? {
+                action: "create",
+                name: decision.name.trim() || charge.merchant,
+                cost: charge.amount,
+                currency: charge.currency,
+                billingCycle: charge.billingCycle,
+                customCycleCount: charge.customCycleCount,
+                customCycleUnit: charge.customCycleUnit,
+                category: decision.category,
+                nextBillingDate: charge.nextBillingDate,
+                transactions,
+              }
+            : { action: "match", subscriptionId: decision.target, transactions };
+        }),
+      };
+      const response = await apiRequest("POST", "/api/import/statement/apply", body);
+      return await response.json() as StatementApplyResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/history/all"] });
+      const payments = [...result.created, ...result.matched].reduce((sum, item) => sum + item.payments, 0);
+      toast({
+        title: "Statement imported",
+        description: `${result.created.length} subscriptions added, ${payments} payments recorded` +
+          (result.paymentsSkipped > 0 ? ` (${result.paymentsSkipped} already recorded)` : ""),
+      });
+      setLocation("/dashboard");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import the statement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    const statementFormat: StatementFormat = /\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(content) ? "ofx" : "csv";
+    setFileName(file.name);
+    setStatement({ format: statementFormat, content });
+    setAnalysis(null);
+    analyzeMutation.mutate({ format: statementFormat, content });
+  };
+
+  const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NO_COLUMN ? undefined : value });
+  };
+
+  const updateDecision = (key: string, changes: Partial<ChargeDecision>) => {
+    setDecisions((current) => ({ ...current, [key]: { ...current[key], ...changes } }));
+  };
+
+  const accepted = analysis?.charges.filter((charge) => decisions[charge.key]?.accepted) ?? [];
+
+  return (
+    <div className="container mx-auto px-3 sm:px-6 py-4 sm:py-6 space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight" data-testid="text-page-title">Import Bank Statement</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Find recurring charges in a CSV or OFX/QFX statement and add them as subscriptions
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Statement
+          </CardTitle>
+          <CardDescription>
+            Export a few months of transactions from your bank or card provider. The file is analyzed on our server
+            and is not stored or sent anywhere else.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement-file">Statement file</Label>
+            <Input
+              id="statement-file"
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-statement-file"
+            />
+            {fileName && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}
+                {analysis && ` - ${analysis.transactionCount} payments read` +
+                  (analysis.skippedRows > 0 ? `, ${analysis.skippedRows} rows skipped` : "")}
+              </p>
+            )}
+          </div>
+
+          {statement?.format === "csv" && analysis && mapping && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {MAPPING_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label>{label}</Label>
+                    <Select value={mapping[field] ?? NO_COLUMN} onValueChange={(value) => updateMapping(field, value)}>
+                      <SelectTrigger data-testid={`select-column-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!required && <SelectItem value={NO_COLUMN}>Not in this file</SelectItem>}
+                        {analysis.columns.filter(Boolean).map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label>Date format</Label>
+                  <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping("dateFormat", value)}>
+                    <SelectTrigger data-testid="select-date-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATEMENT_DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>{DATE_FORMAT_LABELS[dateFormat]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => analyzeMutation.mutate({ ...statement, mapping })}
+                disabled={analyzeMutation.isPending}
+                data-testid="button-reanalyze"
+              >
+                <Search className="mr-2 h-4 w-4" />
+                Analyze again with these columns
+              </Button>
+            </div>
+          )}
+
+          {analyzeMutation.isPending && (
+            <p className="text-sm text-muted-foreground">Looking for recurring charges...</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {analysis && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recurring charges</CardTitle>
+            <CardDescription>
+              Tick the charges to import. Each one becomes a new subscription or is added to an existing one,
+              and its statement charges are recorded as payments.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {analysis.charges.length === 0 ? (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  No recurring charges found. Statements covering at least three months work best; for CSV files,
+                  check that the columns above are mapped correctly.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Name</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Charges</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Import as</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.charges.map((charge) => {
+                      const decision = decisions[charge.key];
+                      if (!decision) return null;
+                      const last = charge.transactions[charge.transactions.length - 1];
+                      return (
+                        <TableRow key={charge.key} data-testid={`row-charge-${charge.key}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={decision.accepted}
+                              onCheckedChange={(checked) => updateDecision(charge.key, { accepted: checked === true })}
+                              data-testid={`checkbox-charge-${charge.key}`}
+                            />
+                          </TableCell>
+                          <TableCell className="min-w-48">
+                            <Input
+                              value={decision.name}
+                              onChange={(e) => updateDecision(charge.key, { name: e.target.value })}
+                              disabled={decision.target !== NEW_SUBSCRIPTION}
+                            />
+                            <p className="text-xs text-muted-foreground mt-1 truncate" title={charge.descriptions.join("\n")}>
+                              {charge.descriptions[0]}
+                            </p>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            <div>{formatMoney(charge.amount, charge.currency)}</div>
+                            <div className="text-xs text-muted-foreground">{formatBillingCycle(charge)}</div>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            <div>{charge.transactions.length}, last {format(new Date(last.date), "MMM d, yyyy")}</div>
+                            <Badge variant={charge.confidence >= 0.75 ? "default" : "secondary"} className="text-xs mt-1">
+                              {Math.round(charge.confidence * 100)}% sure
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="min-w-36">
+                            <Select
+                              value={decision.category}
+                              onValueChange={(value) => updateDecision(charge.key, { category: value })}
+                              disabled={decision.target !== NEW_SUBSCRIPTION}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SUBSCRIPTION_CATEGORIES.map((category) => (
+                                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="min-w-48">
+                            <Select value={decision.target} onValueChange={(value) => updateDecision(charge.key, { target: value })}>
+                              <SelectTrigger data-testid={`select-target-${charge.key}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NEW_SUBSCRIPTION}>New subscription</SelectItem>
+                                {subscriptions.map((subscription) => (
+                                  <SelectItem key={subscription.id} value={subscription.id}>
+                                    Payments on {subscription.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {analysis.charges.length > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => applyMutation.mutate(accepted)}
+                  disabled={accepted.length === 0 || applyMutation.isPending}
+                  data-testid="button-import-charges"
+                >
+                  <Check className="mr-2 h-4 w-4" />
+                  {applyMutation.isPending ? "Importing..." : `Import ${accepted.length} selected`}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Crown, LogIn } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function Login() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [credentials, setCredentials] = useState({
+    email: '',
+    password: ''
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (data: { email: string; password: string }) => {
+      const response = await apiRequest('POST', '/auth/login', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous (anonymous) user
+      queryClient.clear();
+      setLocation('/dashboard');
+    },
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid email or password.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!credentials.email.trim() || !credentials.password) {
+      toast({
+        title: "Validation error",
+        description: "Email and password are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    loginMutation.mutate(credentials);
+  };
+
+  return (
+    <div className="container mx-auto p-6 flex justify-center">
+      <Card className="w-full max-w-md mt-12">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Crown className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle>Sign in to SubTracker</CardTitle>
+          <CardDescription>
+            Enter your email and password to access your subscriptions
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={credentials.email}
+                onChange={(e) => setCredentials(prev => ({ ...prev, email: e.target.value }))}
+                data-testid="input-login-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={credentials.password}
+                onChange={(e) => setCredentials(prev => ({ ...prev, password: e.target.value }))}
+                data-testid="input-login-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending}
+              data-testid="button-login"
+            >
+              <LogIn className="h-4 w-4 mr-2" />
+              {loginMutation.isPending ? 'Signing in...' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,10 +14,12 @@ import {
   Crown, 
   CreditCard,
   Save,
-  Edit2
+  Edit2,
+  LogOut
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useLocation } from "wouter";
 
 interface UserProfile {
   user: {
@@ -38,6 +40,7 @@ interface UserProfile {
 export default function Profile() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   
   const [isEditing, setIsEditing] = useState(false);
   const [profileData, setProfileData] = useState({
@@ -83,6 +86,29 @@ export default function Profile() {
     },
   });
 
+  // End every session of this account, including the current one
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/auth/logout-all');
+      return response.json();
+    },
+    onSuccess: (data: { sessionsEnded: number }) => {
+      toast({
+        title: "Logged out everywhere",
+        description: `Ended ${data.sessionsEnded} active session(s).`,
+      });
+      queryClient.clear();
+      setLocation('/login');
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error logging out",
+        description: error.message || "Failed to log out of all devices.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSaveProfile = () => {
     if (!profileData.name.trim() || !profileData.email.trim()) {
       toast({
@@ -344,6 +370,31 @@ export default function Profile() {
           </Button>
         </CardContent>
       </Card>
+
+      {/* Security Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LogOut className="h-5 w-5" />
+            Sessions
+          </CardTitle>
+          <CardDescription>
+            Sign out of SubTracker on every browser and device where you are logged in
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => logoutAllMutation.mutate()}
+            disabled={logoutAllMutation.isPending}
+            data-testid="button-logout-all"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {logoutAllMutation.isPending ? 'Logging out...' : 'Log out all devices'}
+          </Button>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,6 +10,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import {
   Bell,
@@ -22,12 +25,24 @@ import {
   Plus,
   Trash2,
   Clock,
-  Globe
+  Globe,
+  BarChart3,
+  Eye
 } from "lucide-react";
 
+// The browser's own zone, used until the user picks one
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// IANA zone names for the timezone picker (not every browser can list them)
+const TIME_ZONES: string[] = typeof (Intl as any).supportedValuesOf === "function"
+  ? (Intl as any).supportedValuesOf("timeZone")
+  : [];
+
 export default function Reminders() {
   const { toast } = useToast();
   const [preferencesChanged, setPreferencesChanged] = useState(false);
+  const [digestFrequency, setDigestFrequency] = useState<string | null>(null);
+  const [digestPreview, setDigestPreview] = useState<{ subject: string; html: string } | null>(null);
 
   // Fetch notification preferences
   const { data: preferences, isLoading: preferencesLoading } = useQuery({
@@ -102,6 +117,25 @@ export default function Reminders() {
     }
   });
 
+  // Preview the next digest at the chosen frequency (weekly while digests are off)
+  const previewDigestMutation = useMutation({
+    mutationFn: async (frequency: string) => {
+      const response = await fetch(`/api/reminders/digest/preview?frequency=${frequency === "monthly" ? "monthly" : "weekly"}`);
+      if (!response.ok) throw new Error("Failed to preview the digest");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setDigestPreview({ subject: data.subject, html: data.html });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the digest",
+        variant: "destructive"
+      });
+    }
+  });
+
   const handlePreferenceChange = (field: string, value: any) => {
     setPreferencesChanged(true);
     // Update local state if needed
@@ -115,14 +149,17 @@ export default function Reminders() {
       emailAddress: formData.get("emailAddress"),
       googleCalendarEnabled: formData.get("googleCalendarEnabled") === "on",
       googleCalendarId: formData.get("googleCalendarId"),
-      appleCalendarEnabled: formData.get("appleCalendarEnabled") === "on",
       chromeExtensionEnabled: formData.get("chromeExtensionEnabled") === "on",
       browserNotificationEnabled: formData.get("browserNotificationEnabled") === "on",
       whatsappEnabled: formData.get("whatsappEnabled") === "on",
       whatsappNumber: formData.get("whatsappNumber"),
       reminderDaysBefore: [7, 3, 1], // Default values
       reminderTime: formData.get("reminderTime") || "09:00",
-      timezone: formData.get("timezone") || "UTC"
+      timezone: formData.get("timezone") || BROWSER_TIME_ZONE,
+      quietHoursEnabled: formData.get("quietHoursEnabled") === "on",
+      quietHoursStart: formData.get("quietHoursStart") || "22:00",
+      quietHoursEnd: formData.get("quietHoursEnd") || "07:00",
+      digestFrequency: formData.get("digestFrequency") || "off"
     };
     
     updatePreferencesMutation.mutate(updates);
@@ -208,6 +245,54 @@ export default function Reminders() {
                 </CardContent>
               </Card>
 
+              {/* Spending Digest */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="h-5 w-5" />
+                    Spending Digest
+                  </CardTitle>
+                  <CardDescription>
+                    A summary email of upcoming renewals, trials ending, price changes and how your spending compares with last time
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="digestFrequency">Send a digest</Label>
+                    <Select
+                      name="digestFrequency"
+                      defaultValue={preferences?.preferences?.digestFrequency || "off"}
+                      onValueChange={(value) => {
+                        setDigestFrequency(value);
+                        handlePreferenceChange("digestFrequency", value);
+                      }}
+                    >
+                      <SelectTrigger id="digestFrequency" data-testid="select-digest-frequency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Never</SelectItem>
+                        <SelectItem value="weekly">Weekly, on Mondays</SelectItem>
+                        <SelectItem value="monthly">Monthly, on the 1st</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Sent by email at your reminder time, in your timezone
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => previewDigestMutation.mutate(digestFrequency ?? preferences?.preferences?.digestFrequency ?? "weekly")}
+                    disabled={previewDigestMutation.isPending}
+                    data-testid="button-preview-digest"
+                  >
+                    <Eye className="mr-2 h-4 w-4" />
+                    {previewDigestMutation.isPending ? "Loading..." : "Preview Digest"}
+                  </Button>
+                </CardContent>
+              </Card>
+
               {/* Calendar Sync */}
               <Card>
                 <CardHeader>
@@ -243,14 +328,10 @@ export default function Reminders() {
                   </div>
                   
                   <div className="flex items-center justify-between">
-                    <Label htmlFor="appleCalendarEnabled">Apple Calendar</Label>
-                    <Switch 
-                      id="appleCalendarEnabled"
-                      name="appleCalendarEnabled"
-                      defaultChecked={preferences?.preferences?.appleCalendarEnabled}
-                      onCheckedChange={(checked) => handlePreferenceChange("appleCalendarEnabled", checked)}
-                      data-testid="switch-apple-calendar"
-                    />
+                    <Label>Apple Calendar, Outlook & others</Label>
+                    <Link href="/settings" className="text-sm text-primary hover:underline" data-testid="link-calendar-feed">
+                      {preferences?.preferences?.appleCalendarEnabled ? "Calendar feed on - manage" : "Set up a calendar feed"}
+                    </Link>
                   </div>
                 </CardContent>
               </Card>
@@ -357,13 +438,60 @@ export default function Reminders() {
                     <Input 
                       id="timezone"
                       name="timezone"
-                      placeholder="UTC"
-                      defaultValue={preferences?.preferences?.timezone || "UTC"}
+                      list="timezone-options"
+                      placeholder={BROWSER_TIME_ZONE}
+                      defaultValue={preferences?.preferences?.timezone || BROWSER_TIME_ZONE}
                       onChange={() => setPreferencesChanged(true)}
                       data-testid="input-timezone"
                     />
+                    <datalist id="timezone-options">
+                      {TIME_ZONES.map((zone) => (
+                        <option key={zone} value={zone} />
+                      ))}
+                    </datalist>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Reminders go out at the reminder time in this timezone, including across daylight saving changes
+                    </p>
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="quietHoursEnabled">Quiet Hours</Label>
+                    <Switch 
+                      id="quietHoursEnabled"
+                      name="quietHoursEnabled"
+                      defaultChecked={preferences?.preferences?.quietHoursEnabled}
+                      onCheckedChange={(checked) => handlePreferenceChange("quietHoursEnabled", checked)}
+                      data-testid="switch-quiet-hours"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="quietHoursStart">From</Label>
+                      <Input 
+                        id="quietHoursStart"
+                        name="quietHoursStart"
+                        type="time"
+                        defaultValue={preferences?.preferences?.quietHoursStart || "22:00"}
+                        onChange={() => setPreferencesChanged(true)}
+                        data-testid="input-quiet-hours-start"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="quietHoursEnd">Until</Label>
+                      <Input 
+                        id="quietHoursEnd"
+                        name="quietHoursEnd"
+                        type="time"
+                        defaultValue={preferences?.preferences?.quietHoursEnd || "07:00"}
+                        onChange={() => setPreferencesChanged(true)}
+                        data-testid="input-quiet-hours-end"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    WhatsApp and browser reminders that fall in quiet hours are held until they end
+                  </p>
+
                   <div>
                     <Label>Reminder Schedule</Label>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
@@ -429,6 +557,23 @@ export default function Reminders() {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <Dialog open={digestPreview !== null} onOpenChange={(open) => !open && setDigestPreview(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Digest Preview</DialogTitle>
+              <DialogDescription>{digestPreview?.subject}</DialogDescription>
+            </DialogHeader>
+            {/* Sandboxed with no permissions: the email HTML can't run scripts or reach the page */}
+            <iframe
+              title="Spending digest preview"
+              sandbox=""
+              srcDoc={digestPreview?.html}
+              className="h-[32rem] w-full rounded-md border bg-white"
+              data-testid="iframe-digest-preview"
+            />
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -37,11 +37,21 @@ import {
   Link2,
   Smartphone,
   Globe,
-  Zap
+  Zap,
+  Coins,
+  MessagesSquare
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useCurrency } from "@/hooks/useCurrency";
+import { BASE_CURRENCY } from "@shared/currency";
+import { CHAT_CHANNELS, CHAT_CHANNEL_FIELDS, CHAT_CHANNEL_LABELS, CHAT_WEBHOOK_URL_EXAMPLES, type ChatChannel } from "@shared/chat-channels";
+import CalendarFeedCard from "@/components/CalendarFeedCard";
+import WebhooksCard from "@/components/WebhooksCard";
+import EmailTemplatesCard from "@/components/EmailTemplatesCard";
+import TelegramCard from "@/components/TelegramCard";
+import WhatsAppVerification from "@/components/WhatsAppVerification";
 
 const reminderSettingsSchema = z.object({
   // Email settings
@@ -66,6 +76,14 @@ const reminderSettingsSchema = z.object({
   whatsappPhoneNumberId: z.string().optional(),
   whatsappAccessToken: z.string().optional(),
 
+  // Chat apps (webhook URLs are write-only: saved encrypted, never sent back)
+  slackEnabled: z.boolean(),
+  slackWebhookUrl: z.string().optional(),
+  discordEnabled: z.boolean(),
+  discordWebhookUrl: z.string().optional(),
+  teamsEnabled: z.boolean(),
+  teamsWebhookUrl: z.string().optional(),
+
   // General reminder settings
   reminderDaysBefore: z.array(z.number()),
   reminderTime: z.string(),
@@ -135,6 +153,39 @@ export default function Settings() {
     }
   });
 
+  // Reporting currency (totals and analytics are converted into it)
+  const { reportingCurrency, rates, supportedCurrencies } = useCurrency();
+  const reportingCurrencyOptions = [BASE_CURRENCY, ...Object.keys(rates)].map(code => ({
+    code,
+    name: supportedCurrencies.find(c => c.code === code)?.name ?? code,
+  }));
+
+  const saveReportingCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest('PUT', '/api/currency/reporting', { reportingCurrency: currency });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/currency'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/peak-months'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/trends'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/savings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/price-increases'] });
+      toast({
+        title: "Reporting currency updated",
+        description: `Totals will now be shown in ${data.reportingCurrency}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reporting currency",
+        variant: "destructive",
+      });
+    },
+  });
+
   // API Key form states
   const [geminiApiKey, setGeminiApiKey] = useState('');
   const [isShowingGeminiKey, setIsShowingGeminiKey] = useState(false);
@@ -194,6 +245,9 @@ export default function Settings() {
       emailTemplate: 'professional',
       googleCalendarEnabled: false,
       whatsappEnabled: false,
+      slackEnabled: false,
+      discordEnabled: false,
+      teamsEnabled: false,
       reminderDaysBefore: [7, 3, 1],
       reminderTime: '09:00',
       timezone: 'UTC',
@@ -223,6 +277,10 @@ export default function Settings() {
         whatsappNumber: prefs.whatsappNumber || '',
         whatsappBusinessAccountId: prefs.whatsappBusinessAccountId || '',
         whatsappPhoneNumberId: prefs.whatsappPhoneNumberId || '',
+
+        slackEnabled: prefs.slackEnabled || false,
+        discordEnabled: prefs.discordEnabled || false,
+        teamsEnabled: prefs.teamsEnabled || false,
         
         reminderDaysBefore: prefs.reminderDaysBefore || [7, 3, 1],
         reminderTime: prefs.reminderTime || '09:00',
@@ -273,7 +331,16 @@ export default function Settings() {
           service: 'WhatsApp',
           connected: prefs.whatsappEnabled && !!prefs.whatsappAccessTokenEncrypted,
           error: !prefs.whatsappAccessTokenEncrypted && prefs.whatsappEnabled ? 'WhatsApp Business API not configured' : undefined
-        }
+        },
+        ...CHAT_CHANNELS.map((channel) => {
+          const enabled = !!prefs[CHAT_CHANNEL_FIELDS[channel].enabled];
+          const hasUrl = !!prefs[CHAT_CHANNEL_FIELDS[channel].webhookUrl];
+          return {
+            service: CHAT_CHANNEL_LABELS[channel],
+            connected: enabled && hasUrl,
+            error: enabled && !hasUrl ? 'Webhook URL not configured' : undefined
+          };
+        })
       ];
       setConnectionStatuses(statuses);
     }
@@ -313,10 +380,31 @@ export default function Settings() {
     }
   });
 
+  const removeChatWebhookMutation = useMutation({
+    mutationFn: async (channel: ChatChannel) => {
+      return apiRequest('PUT', '/api/reminders/preferences', { [`${channel}WebhookUrl`]: null });
+    },
+    onSuccess: (_, channel) => {
+      reminderForm.setValue(`${channel}WebhookUrl`, '');
+      toast({
+        title: `${CHAT_CHANNEL_LABELS[channel]} webhook removed`,
+        description: 'Reminders are no longer posted there.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders/preferences'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error removing webhook',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
   // Test connection mutation
   const testConnectionMutation = useMutation({
-    mutationFn: async ({ service, settings }: { service: string; settings: any }) => {
-      const response = await apiRequest('POST', `/api/test-connection/${service.toLowerCase()}`, settings);
+    mutationFn: async ({ service, settings, path }: { service: string; settings: any; path?: string }) => {
+      const response = await apiRequest('POST', `/api/test-connection/${path ?? service.toLowerCase()}`, settings);
       const data = await response.json();
       
       if (!data.success) {
@@ -419,7 +507,12 @@ export default function Settings() {
   };
 
   const onSubmitReminders = (data: ReminderSettingsForm) => {
-    saveReminderSettingsMutation.mutate(data);
+    // A blank webhook URL field keeps the saved URL; the server would take '' as removing it
+    const payload = { ...data };
+    for (const channel of CHAT_CHANNELS) {
+      if (!payload[`${channel}WebhookUrl`]?.trim()) delete payload[`${channel}WebhookUrl`];
+    }
+    saveReminderSettingsMutation.mutate(payload);
   };
 
   const handleTestConnection = (service: string) => {
@@ -455,6 +548,17 @@ export default function Settings() {
     testConnectionMutation.mutate({ service, settings });
   };
 
+  // Tests the URL typed in, or the saved one when the field is empty
+  const handleTestChatConnection = (channel: ChatChannel) => {
+    const service = CHAT_CHANNEL_LABELS[channel];
+    setIsTestingConnection(service);
+    testConnectionMutation.mutate({
+      service,
+      path: channel,
+      settings: { webhookUrl: reminderForm.getValues(`${channel}WebhookUrl`) }
+    });
+  };
+
   const getConnectionIcon = (connected: boolean, error?: string) => {
     if (error) return <XCircle className="h-4 w-4 text-red-500" />;
     if (connected) return <CheckCircle className="h-4 w-4 text-green-500" />;
@@ -610,6 +714,42 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Coins className="h-5 w-5" />
+                Currency
+              </CardTitle>
+              <CardDescription>
+                Dashboard totals and analytics are converted into this currency
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Reporting Currency</Label>
+                <Select
+                  value={reportingCurrency}
+                  onValueChange={(value) => saveReportingCurrencyMutation.mutate(value)}
+                  disabled={saveReportingCurrencyMutation.isPending}
+                >
+                  <SelectTrigger data-testid="select-reporting-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reportingCurrencyOptions.map((currency) => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} - {currency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Only currencies with an exchange rate configured by an administrator are available.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -972,6 +1112,9 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            {/* ICS feed */}
+            <CalendarFeedCard />
+
             {/* WhatsApp */}
             <Card>
               <CardHeader>
@@ -1030,6 +1173,12 @@ export default function Settings() {
                       />
                     </div>
 
+                    <WhatsAppVerification
+                      savedNumber={(reminderPreferences as any)?.preferences?.whatsappNumber || null}
+                      verifiedNumber={(reminderPreferences as any)?.preferences?.whatsappVerifiedNumber || null}
+                      numberEdited={(reminderForm.watch('whatsappNumber') || '') !== ((reminderPreferences as any)?.preferences?.whatsappNumber || '')}
+                    />
+
                     <div className="flex gap-2">
                       <Button
                         type="button"
@@ -1056,6 +1205,92 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            {/* Slack, Discord and Microsoft Teams */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessagesSquare className="h-5 w-5" />
+                  Chat Apps
+                </CardTitle>
+                <CardDescription>
+                  Post reminders to a Slack, Discord or Microsoft Teams channel through an incoming webhook
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {CHAT_CHANNELS.map((channel) => {
+                  const label = CHAT_CHANNEL_LABELS[channel];
+                  const prefs = (reminderPreferences as any)?.preferences;
+                  const hasSavedUrl = !!prefs?.[CHAT_CHANNEL_FIELDS[channel].webhookUrl];
+                  return (
+                    <div key={channel} className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`${channel}Enabled`}>Enable {label} notifications</Label>
+                        <Switch
+                          id={`${channel}Enabled`}
+                          checked={reminderForm.watch(`${channel}Enabled`)}
+                          onCheckedChange={(checked) => reminderForm.setValue(`${channel}Enabled`, checked)}
+                          data-testid={`switch-${channel}-enabled`}
+                        />
+                      </div>
+
+                      {reminderForm.watch(`${channel}Enabled`) && (
+                        <div className="space-y-4 pl-6 border-l-2 border-indigo-200">
+                          <div>
+                            <Label htmlFor={`${channel}WebhookUrl`}>Incoming webhook URL</Label>
+                            <Input
+                              id={`${channel}WebhookUrl`}
+                              type="password"
+                              autoComplete="off"
+                              placeholder={hasSavedUrl ? 'Saved. Enter a new URL to replace it' : CHAT_WEBHOOK_URL_EXAMPLES[channel]}
+                              {...reminderForm.register(`${channel}WebhookUrl`)}
+                              data-testid={`input-${channel}-webhook-url`}
+                            />
+                          </div>
+
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => handleTestChatConnection(channel)}
+                              disabled={testConnectionMutation.isPending || isTestingConnection === label}
+                              data-testid={`button-test-${channel}`}
+                            >
+                              {isTestingConnection === label ? (
+                                <>
+                                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent mr-2" />
+                                  Testing...
+                                </>
+                              ) : (
+                                <>
+                                  <TestTube className="h-4 w-4 mr-2" />
+                                  Test {label}
+                                </>
+                              )}
+                            </Button>
+                            {hasSavedUrl && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => removeChatWebhookMutation.mutate(channel)}
+                                disabled={removeChatWebhookMutation.isPending}
+                                data-testid={`button-remove-${channel}-webhook`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Remove saved URL
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Telegram bot */}
+            <TelegramCard />
+
             {/* Reminder Timing */}
             <Card>
               <CardHeader>
@@ -1158,6 +1393,8 @@ export default function Settings() {
             </Card>
 
           </form>
+
+          <EmailTemplatesCard />
         </TabsContent>
 
         {/* Payments Settings */}
@@ -1511,6 +1748,9 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Outbound webhooks */}
+          <WebhooksCard />
         </TabsContent>
 
         {/* Privacy Settings */}
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Versioned migrations (server/db/migrations) track themselves here
+  tablesFilter: ["!schema_migrations"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
@@ -0,0 +1,61 @@
+/**
+ * Backups of the configured STORAGE_DRIVER database (see services/backup.service.ts).
+ *
+ *   npm run db:backup                       snapshot every table into BACKUP_DIR
+ *   npm run db:backup -- list               list backups, newest first
+ *   npm run db:backup -- prune              delete backups outside the retention policy
+ *   npm run db:backup -- restore <file>     load a backup into an empty database
+ *
+ * Restore before the first server start (which seeds default plans) or into a freshly created
+ * database; it refuses to write into tables that already have rows.
+ */
+import 'dotenv/config';
+import { backupService } from './services/backup.service';
+import { migrate } from './db/migrate';
+import { prepareStorage } from './storage';
+
+async function main() {
+  const [command = 'create', file] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      const backup = await backupService.createBackup();
+      console.log(`Created ${backup.fileName} (${backup.sizeBytes} bytes)`);
+      for (const [table, count] of Object.entries(backup.rowCounts)) {
+        console.log(`  ${table.padEnd(30)} ${count}`);
+      }
+      break;
+    }
+    case 'list':
+      for (const backup of await backupService.listBackups()) {
+        console.log(`${backup.fileName}  ${backup.sizeBytes} bytes`);
+      }
+      break;
+    case 'prune': {
+      const pruned = await backupService.pruneBackups();
+      console.log(pruned.length > 0 ? `Deleted ${pruned.join(', ')}` : 'Nothing to prune');
+      break;
+    }
+    case 'restore': {
+      if (!file) {
+        throw new Error('Usage: npm run db:backup -- restore <file>');
+      }
+      await prepareStorage();
+      await migrate();
+      const rowCounts = await backupService.restoreBackup(backupService.resolveBackupPath(file) ?? file);
+      const total = Object.values(rowCounts).reduce((sum, count) => sum + count, 0);
+      console.log(`Restored ${total} rows from ${file}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected create, list, prune or restore)`);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Backup failed:', error);
+    process.exit(1);
+  }
+);
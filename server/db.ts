@@ -4,11 +4,43 @@ import * as schema from "@shared/schema";
 
 const { Pool } = pg;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export const STORAGE_DRIVERS = ['postgres', 'sqlite', 'memory'] as const;
+
+export type StorageConfig =
+  | { driver: 'postgres' }
+  | { driver: 'sqlite'; url: string; authToken?: string }
+  | { driver: 'memory' };
+
+/**
+ * Storage backend from the environment: STORAGE_DRIVER=postgres (default, DATABASE_URL),
+ * sqlite (TURSO_DATABASE_URL as libsql://... or file:path.db, TURSO_AUTH_TOKEN) or memory
+ */
+export function storageConfigFromEnv(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const driver = env.STORAGE_DRIVER || 'postgres';
+
+  switch (driver) {
+    case 'postgres':
+      if (!env.DATABASE_URL) {
+        throw new Error(
+          "DATABASE_URL must be set. Did you forget to provision a database?",
+        );
+      }
+      return { driver };
+    case 'sqlite':
+      if (!env.TURSO_DATABASE_URL) {
+        throw new Error("TURSO_DATABASE_URL must be set when STORAGE_DRIVER is sqlite");
+      }
+      return { driver, url: env.TURSO_DATABASE_URL, authToken: env.TURSO_AUTH_TOKEN };
+    case 'memory':
+      return { driver };
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected one of ${STORAGE_DRIVERS.join(', ')})`);
+  }
 }
 
+export const storageConfig = storageConfigFromEnv();
+
+// The pool only connects on first use, so it is harmless when another driver is configured.
+// Admin statistics and activity logs (admin.service.ts, middleware/admin.ts) still query it directly.
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
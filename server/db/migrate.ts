@@ -0,0 +1,216 @@
+import type { Client, InValue } from '@libsql/client';
+import { pool, storageConfig as configuredStorage, type StorageConfig } from '../db';
+import { createSqliteDatabase } from './turso';
+import { migrations } from './migrations';
+
+export type MigrationDialect = 'postgres' | 'sqlite';
+
+export interface MigrationContext {
+  dialect: MigrationDialect;
+  // Placeholders are $1, $2... on Postgres and ? on SQLite
+  query<T = Record<string, unknown>>(statement: string, params?: unknown[]): Promise<T[]>;
+}
+
+/**
+ * A versioned schema change or data backfill. Each step runs in its own transaction;
+ * `down` must undo `up` so the step can be rolled back with `npm run db:migrate -- down`.
+ */
+export interface Migration {
+  version: string; // zero-padded, applied in ascending order: '0001', '0002', ...
+  name: string;
+  up(ctx: MigrationContext): Promise<void>;
+  down(ctx: MigrationContext): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  appliedAt: Date | null;
+}
+
+interface MigrationConnection {
+  dialect: MigrationDialect;
+  query: MigrationContext['query'];
+  transaction(run: (ctx: MigrationContext) => Promise<void>): Promise<void>;
+  close(): Promise<void>;
+}
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+// Arbitrary key for pg_advisory_lock so only one server instance migrates at a time
+const POSTGRES_LOCK_KEY = 726_010_013;
+
+async function connectPostgres(): Promise<MigrationConnection> {
+  const client = await pool.connect();
+  const query: MigrationContext['query'] = async (statement, params) =>
+    (await client.query(statement, params)).rows;
+
+  await query('SELECT pg_advisory_lock($1)', [POSTGRES_LOCK_KEY]);
+  return {
+    dialect: 'postgres',
+    query,
+    async transaction(run) {
+      await query('BEGIN');
+      try {
+        await run({ dialect: 'postgres', query });
+        await query('COMMIT');
+      } catch (error) {
+        await query('ROLLBACK');
+        throw error;
+      }
+    },
+    async close() {
+      try {
+        await query('SELECT pg_advisory_unlock($1)', [POSTGRES_LOCK_KEY]);
+      } finally {
+        client.release();
+      }
+    }
+  };
+}
+
+function connectSqlite(client: Client): MigrationConnection {
+  return {
+    dialect: 'sqlite',
+    query: async (statement, params = []) =>
+      (await client.execute({ sql: statement, args: params as InValue[] })).rows as any[],
+    async transaction(run) {
+      // Write transactions are exclusive, which also serializes concurrent migrators
+      const tx = await client.transaction('write');
+      try {
+        await run({
+          dialect: 'sqlite',
+          query: async (statement, params = []) =>
+            (await tx.execute({ sql: statement, args: params as InValue[] })).rows as any[]
+        });
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      } finally {
+        tx.close();
+      }
+    },
+    async close() {
+      client.close();
+    }
+  };
+}
+
+async function connect(config: StorageConfig): Promise<MigrationConnection | undefined> {
+  switch (config.driver) {
+    case 'postgres':
+      return await connectPostgres();
+    case 'sqlite':
+      return connectSqlite(createSqliteDatabase(config).client);
+    case 'memory':
+      return undefined; // Always starts empty with the current schema
+  }
+}
+
+async function withConnection<T>(config: StorageConfig, run: (connection: MigrationConnection) => Promise<T>, fallback: T): Promise<T> {
+  const connection = await connect(config);
+  if (!connection) return fallback;
+
+  try {
+    await connection.query(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        version varchar(32) PRIMARY KEY,
+        name text NOT NULL,
+        applied_at ${connection.dialect === 'postgres' ? 'timestamp DEFAULT now()' : 'integer'} NOT NULL
+      )`
+    );
+    return await run(connection);
+  } finally {
+    await connection.close();
+  }
+}
+
+async function appliedVersions(ctx: Pick<MigrationContext, 'query'>): Promise<Map<string, Date>> {
+  const rows = await ctx.query<{ version: string; applied_at: Date | number }>(
+    `SELECT version, applied_at FROM ${MIGRATIONS_TABLE}`
+  );
+  return new Map(rows.map(row => [row.version, new Date(row.applied_at)]));
+}
+
+function sortedMigrations(): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version.localeCompare(b.version));
+  const duplicate = sorted.find((migration, i) => i > 0 && sorted[i - 1].version === migration.version);
+  if (duplicate) {
+    throw new Error(`Duplicate migration version ${duplicate.version}`);
+  }
+  return sorted;
+}
+
+/** The schema version this build expects once every migration has run */
+export function latestMigrationVersion(): string | null {
+  return sortedMigrations().at(-1)?.version ?? null;
+}
+
+/**
+ * Apply every pending migration in version order. Called on server start before seeding.
+ * Returns the versions that were applied.
+ */
+export async function migrate(config: StorageConfig = configuredStorage): Promise<string[]> {
+  return await withConnection(config, async (connection) => {
+    const applied: string[] = [];
+    const known = new Set(migrations.map(m => m.version));
+    const existing = await appliedVersions(connection);
+    const unknown = Array.from(existing.keys()).filter(version => !known.has(version));
+    if (unknown.length > 0) {
+      console.warn(`Database has migrations this build does not know about: ${unknown.join(', ')}`);
+    }
+
+    for (const migration of sortedMigrations()) {
+      if (existing.has(migration.version)) continue;
+
+      await connection.transaction(async (ctx) => {
+        // Another instance may have applied it since we listed them (SQLite has no advisory lock)
+        if ((await appliedVersions(ctx)).has(migration.version)) return;
+
+        console.log(`Applying migration ${migration.version} ${migration.name}...`);
+        await migration.up(ctx);
+        await ctx.query(
+          ctx.dialect === 'postgres'
+            ? `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`
+            : `INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`,
+          ctx.dialect === 'postgres' ? [migration.version, migration.name] : [migration.version, migration.name, Date.now()]
+        );
+        applied.push(migration.version);
+      });
+    }
+
+    return applied;
+  }, []);
+}
+
+/**
+ * Roll back the most recently applied migrations, newest first. Returns the versions rolled back.
+ */
+export async function rollback(steps = 1, config: StorageConfig = configuredStorage): Promise<string[]> {
+  return await withConnection(config, async (connection) => {
+    const existing = await appliedVersions(connection);
+    const targets = sortedMigrations().filter(m => existing.has(m.version)).reverse().slice(0, steps);
+    const rolledBack: string[] = [];
+
+    for (const migration of targets) {
+      await connection.transaction(async (ctx) => {
+        console.log(`Rolling back migration ${migration.version} ${migration.name}...`);
+        await migration.down(ctx);
+        await ctx.query(
+          `DELETE FROM ${MIGRATIONS_TABLE} WHERE version = ${ctx.dialect === 'postgres' ? '$1' : '?'}`,
+          [migration.version]
+        );
+        rolledBack.push(migration.version);
+      });
+    }
+
+    return rolledBack;
+  }, []);
+}
+
+export async function getMigrationStatus(config: StorageConfig = configuredStorage): Promise<MigrationStatus[]> {
+  return await withConnection(config, async (connection) => {
+    const existing = await appliedVersions(connection);
+    return sortedMigrations().map(m => ({ version: m.version, name: m.name, appliedAt: existing.get(m.version) ?? null }));
+  }, sortedMigrations().map(m => ({ version: m.version, name: m.name, appliedAt: null })));
+}
@@ -0,0 +1,126 @@
+import type { Migration, MigrationContext, MigrationDialect } from '../migrate';
+
+type ColumnType = Record<MigrationDialect, string>;
+
+const sameType = (definition: string): ColumnType => ({ postgres: definition, sqlite: definition });
+const TEXT = sameType('text');
+const INTEGER = sameType('integer');
+const TIMESTAMP: ColumnType = { postgres: 'timestamp', sqlite: 'integer' };
+// SQLite keeps decimals as text, the way node-postgres returns them
+const DECIMAL: ColumnType = { postgres: 'numeric(10, 2)', sqlite: 'text' };
+const BOOLEAN_FALSE: ColumnType = { postgres: 'boolean DEFAULT false NOT NULL', sqlite: 'integer DEFAULT 0 NOT NULL' };
+
+// Columns added to the original tables before migrations existed (multi-currency, recurrence,
+// pausing, cancellation, price history, field diffs and local reminder times)
+const COLUMNS: Record<string, [string, ColumnType][]> = {
+  users: [
+    ['reporting_currency', sameType(`text DEFAULT 'USD' NOT NULL`)],
+  ],
+  subscriptions: [
+    ['currency', sameType(`text DEFAULT 'USD' NOT NULL`)],
+    ['custom_cycle_count', INTEGER],
+    ['custom_cycle_unit', TEXT],
+    ['paused_at', TIMESTAMP],
+    ['resume_at', TIMESTAMP],
+    ['cancellation_status', TEXT],
+    ['cancel_by', TIMESTAMP],
+    ['cancelled_at', TIMESTAMP],
+  ],
+  subscription_history: [
+    ['previous_amount', DECIMAL],
+    ['previous_currency', TEXT],
+    ['changes', TEXT],
+    ['snapshot', TEXT],
+  ],
+  user_notification_preferences: [
+    ['reminder_time', sameType(`text DEFAULT '09:00' NOT NULL`)],
+    ['timezone', sameType(`text DEFAULT 'UTC' NOT NULL`)],
+    ['quiet_hours_enabled', BOOLEAN_FALSE],
+    ['quiet_hours_start', sameType(`text DEFAULT '22:00' NOT NULL`)],
+    ['quiet_hours_end', sameType(`text DEFAULT '07:00' NOT NULL`)],
+  ],
+};
+
+async function existingColumns(ctx: MigrationContext, table: string): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1`,
+        [table]
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info(?)`, [table]);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * Everything the schema gained before numbered migrations: the columns above, plus the
+ * exchange_rates and jobs tables on Postgres (SQLite gets new tables from ensureSqliteSchema).
+ * Ordered first so databases pushed from the original schema catch up before 0001 runs;
+ * databases created from the current schema already have all of it.
+ */
+export const baselineColumns: Migration = {
+  version: '0000',
+  name: 'baseline_columns',
+
+  async up(ctx) {
+    for (const [table, definitions] of Object.entries(COLUMNS)) {
+      const columns = await existingColumns(ctx, table);
+      // No columns at all: the table doesn't exist yet and will be created with them
+      if (columns.size === 0) continue;
+
+      for (const [column, type] of definitions) {
+        if (!columns.has(column)) {
+          await ctx.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${type[ctx.dialect]}`);
+        }
+      }
+    }
+
+    if (ctx.dialect === 'sqlite') return;
+    await ctx.query(
+      `CREATE TABLE IF NOT EXISTS exchange_rates (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        currency text NOT NULL,
+        rate numeric(18, 8) NOT NULL,
+        source text DEFAULT 'manual' NOT NULL,
+        updated_by varchar,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT exchange_rates_currency_unique UNIQUE (currency)
+      )`
+    );
+    await ctx.query(
+      `CREATE TABLE IF NOT EXISTS jobs (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        name text NOT NULL,
+        payload text DEFAULT '{}' NOT NULL,
+        status text DEFAULT 'pending' NOT NULL,
+        idempotency_key text,
+        attempts integer DEFAULT 0 NOT NULL,
+        max_attempts integer DEFAULT 5 NOT NULL,
+        run_at timestamp DEFAULT now() NOT NULL,
+        locked_by text,
+        locked_until timestamp,
+        last_error text,
+        completed_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT jobs_idempotency_key_unique UNIQUE (idempotency_key)
+      )`
+    );
+  },
+
+  async down(ctx) {
+    if (ctx.dialect === 'postgres') {
+      await ctx.query('DROP TABLE IF EXISTS jobs');
+      await ctx.query('DROP TABLE IF EXISTS exchange_rates');
+    }
+
+    for (const [table, definitions] of Object.entries(COLUMNS)) {
+      const columns = await existingColumns(ctx, table);
+      for (const [column] of definitions) {
+        if (columns.has(column)) {
+          await ctx.query(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function isActiveColumnType(ctx: MigrationContext): Promise<string | undefined> {
+  const [column] = await ctx.query<{ data_type: string }>(
+    `SELECT data_type FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = 'subscriptions' AND column_name = 'is_active'`
+  );
+  return column?.data_type;
+}
+
+/**
+ * subscriptions.is_active was the only integer flag (1/0) in a schema of booleans.
+ * Databases created with `drizzle-kit push` after this change already have a boolean column.
+ */
+export const subscriptionsIsActiveBoolean: Migration = {
+  version: '0001',
+  name: 'subscriptions_is_active_boolean',
+
+  async up(ctx) {
+    if (ctx.dialect === 'sqlite') {
+      // SQLite stores booleans as 0/1 already; just normalize any other truthy values
+      await ctx.query('UPDATE subscriptions SET is_active = 1 WHERE is_active NOT IN (0, 1)');
+      return;
+    }
+
+    if (await isActiveColumnType(ctx) !== 'integer') return;
+    await ctx.query(
+      `ALTER TABLE subscriptions
+        ALTER COLUMN is_active DROP DEFAULT,
+        ALTER COLUMN is_active TYPE boolean USING is_active <> 0,
+        ALTER COLUMN is_active SET DEFAULT true`
+    );
+  },
+
+  async down(ctx) {
+    if (ctx.dialect === 'sqlite') return;
+
+    if (await isActiveColumnType(ctx) !== 'boolean') return;
+    await ctx.query(
+      `ALTER TABLE subscriptions
+        ALTER COLUMN is_active DROP DEFAULT,
+        ALTER COLUMN is_active TYPE integer USING CASE WHEN is_active THEN 1 ELSE 0 END,
+        ALTER COLUMN is_active SET DEFAULT 1`
+    );
+  }
+};
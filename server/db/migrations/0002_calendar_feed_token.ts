@@ -0,0 +1,37 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function hasColumn(ctx: MigrationContext): Promise<boolean> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT 1 FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences' AND column_name = 'calendar_feed_token'`
+      )
+    : await ctx.query(`SELECT 1 FROM pragma_table_info('user_notification_preferences') WHERE name = 'calendar_feed_token'`);
+  return rows.length > 0;
+}
+
+async function hasTable(ctx: MigrationContext): Promise<boolean> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(`SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`)
+    : await ctx.query(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'user_notification_preferences'`);
+  return rows.length > 0;
+}
+
+/**
+ * Secret token for the per-user ICS feed. Databases created from the current schema
+ * (drizzle-kit push, or a fresh SQLite file) already have the column.
+ */
+export const calendarFeedToken: Migration = {
+  version: '0002',
+  name: 'calendar_feed_token',
+
+  async up(ctx) {
+    if (!await hasTable(ctx) || await hasColumn(ctx)) return;
+    await ctx.query('ALTER TABLE user_notification_preferences ADD COLUMN calendar_feed_token text');
+  },
+
+  async down(ctx) {
+    if (!await hasTable(ctx) || !await hasColumn(ctx)) return;
+    await ctx.query('ALTER TABLE user_notification_preferences DROP COLUMN calendar_feed_token');
+  }
+};
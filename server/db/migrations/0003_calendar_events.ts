@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Maps subscriptions and reminder days to the Google Calendar events created for them.
+ * SQLite databases get new tables from ensureSqliteSchema on startup, so only Postgres needs this.
+ */
+export const calendarEvents: Migration = {
+  version: '0003',
+  name: 'calendar_events',
+
+  async up(ctx) {
+    if (ctx.dialect === 'sqlite') return;
+    await ctx.query(
+      `CREATE TABLE IF NOT EXISTS calendar_events (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id varchar NOT NULL,
+        subscription_id varchar NOT NULL,
+        days_before integer NOT NULL,
+        calendar_id text NOT NULL,
+        event_id text NOT NULL,
+        renewal_date timestamp NOT NULL,
+        starts_at timestamp NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )`
+    );
+  },
+
+  async down(ctx) {
+    if (ctx.dialect === 'sqlite') return;
+    await ctx.query('DROP TABLE IF EXISTS calendar_events');
+  }
+};
@@ -0,0 +1,52 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Outbound webhook endpoints and their delivery log. SQLite databases get new tables from
+ * ensureSqliteSchema on startup, so only Postgres needs this.
+ */
+export const webhooks: Migration = {
+  version: '0004',
+  name: 'webhooks',
+
+  async up(ctx) {
+    if (ctx.dialect === 'sqlite') return;
+    await ctx.query(
+      `CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id varchar NOT NULL,
+        url text NOT NULL,
+        description text,
+        secret_encrypted text NOT NULL,
+        events text[] NOT NULL,
+        is_active boolean DEFAULT true NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )`
+    );
+    await ctx.query(
+      `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        endpoint_id varchar NOT NULL,
+        user_id varchar NOT NULL,
+        event_id varchar NOT NULL,
+        event_type text NOT NULL,
+        payload text NOT NULL,
+        status text DEFAULT 'pending' NOT NULL,
+        attempts integer DEFAULT 0 NOT NULL,
+        response_status integer,
+        response_body text,
+        error text,
+        last_attempt_at timestamp,
+        delivered_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )`
+    );
+  },
+
+  async down(ctx) {
+    if (ctx.dialect === 'sqlite') return;
+    await ctx.query('DROP TABLE IF EXISTS webhook_deliveries');
+    await ctx.query('DROP TABLE IF EXISTS webhook_endpoints');
+  }
+};
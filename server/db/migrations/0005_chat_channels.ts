@@ -0,0 +1,50 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+const BOOLEAN_COLUMNS = ['slack_enabled', 'discord_enabled', 'teams_enabled'];
+const TEXT_COLUMNS = ['slack_webhook_url_encrypted', 'discord_webhook_url_encrypted', 'teams_webhook_url_encrypted'];
+
+async function existingColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('user_notification_preferences')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * Slack, Discord and Microsoft Teams reminder channels on notification preferences. Databases
+ * created from the current schema (drizzle-kit push, or a fresh SQLite file) already have the columns.
+ */
+export const chatChannels: Migration = {
+  version: '0005',
+  name: 'chat_channels',
+
+  async up(ctx) {
+    const columns = await existingColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with them
+    if (columns.size === 0) return;
+
+    const booleanType = ctx.dialect === 'postgres' ? 'boolean DEFAULT false' : 'integer DEFAULT 0';
+    for (const column of BOOLEAN_COLUMNS) {
+      if (!columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN ${column} ${booleanType} NOT NULL`);
+      }
+    }
+    for (const column of TEXT_COLUMNS) {
+      if (!columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN ${column} text`);
+      }
+    }
+  },
+
+  async down(ctx) {
+    const columns = await existingColumns(ctx);
+    for (const column of [...BOOLEAN_COLUMNS, ...TEXT_COLUMNS]) {
+      if (columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences DROP COLUMN ${column}`);
+      }
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function preferenceColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('user_notification_preferences')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * User-editable email templates, and the preference column that picks one. SQLite databases get
+ * the new table from ensureSqliteSchema on startup; databases created from the current schema
+ * already have the column.
+ */
+export const emailTemplates: Migration = {
+  version: '0006',
+  name: 'email_templates',
+
+  async up(ctx) {
+    if (ctx.dialect === 'postgres') {
+      await ctx.query(
+        `CREATE TABLE IF NOT EXISTS email_templates (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id varchar,
+          name text NOT NULL,
+          description text,
+          body text NOT NULL,
+          created_at timestamp DEFAULT now() NOT NULL,
+          updated_at timestamp DEFAULT now() NOT NULL
+        )`
+      );
+    }
+
+    const columns = await preferenceColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with the column
+    if (columns.size > 0 && !columns.has('email_template_id')) {
+      await ctx.query('ALTER TABLE user_notification_preferences ADD COLUMN email_template_id varchar');
+    }
+  },
+
+  async down(ctx) {
+    if ((await preferenceColumns(ctx)).has('email_template_id')) {
+      await ctx.query('ALTER TABLE user_notification_preferences DROP COLUMN email_template_id');
+    }
+    if (ctx.dialect === 'postgres') {
+      await ctx.query('DROP TABLE IF EXISTS email_templates');
+    }
+  }
+};
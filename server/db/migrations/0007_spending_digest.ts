@@ -0,0 +1,34 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function preferenceColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('user_notification_preferences')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * Weekly or monthly spending digest emails, off unless a user opts in. Databases created from the
+ * current schema already have the column.
+ */
+export const spendingDigest: Migration = {
+  version: '0007',
+  name: 'spending_digest',
+
+  async up(ctx) {
+    const columns = await preferenceColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with the column
+    if (columns.size > 0 && !columns.has('digest_frequency')) {
+      await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN digest_frequency text DEFAULT 'off' NOT NULL`);
+    }
+  },
+
+  async down(ctx) {
+    if ((await preferenceColumns(ctx)).has('digest_frequency')) {
+      await ctx.query('ALTER TABLE user_notification_preferences DROP COLUMN digest_frequency');
+    }
+  }
+};
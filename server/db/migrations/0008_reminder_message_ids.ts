@@ -0,0 +1,34 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function reminderColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'subscription_reminders'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('subscription_reminders')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * The provider's message id on sent reminders, so WhatsApp delivery statuses and replies can be
+ * matched to them. Databases created from the current schema already have the column.
+ */
+export const reminderMessageIds: Migration = {
+  version: '0008',
+  name: 'reminder_message_ids',
+
+  async up(ctx) {
+    const columns = await reminderColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with the column
+    if (columns.size > 0 && !columns.has('external_message_id')) {
+      await ctx.query('ALTER TABLE subscription_reminders ADD COLUMN external_message_id text');
+    }
+  },
+
+  async down(ctx) {
+    if ((await reminderColumns(ctx)).has('external_message_id')) {
+      await ctx.query('ALTER TABLE subscription_reminders DROP COLUMN external_message_id');
+    }
+  }
+};
@@ -0,0 +1,51 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+const TEXT_COLUMNS = ['telegram_chat_id', 'telegram_link_code'];
+
+async function preferenceColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('user_notification_preferences')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * Telegram reminder channel: the linked chat and the pending link code on notification preferences.
+ * Databases created from the current schema already have the columns.
+ */
+export const telegramChannel: Migration = {
+  version: '0009',
+  name: 'telegram_channel',
+
+  async up(ctx) {
+    const columns = await preferenceColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with them
+    if (columns.size === 0) return;
+
+    if (!columns.has('telegram_enabled')) {
+      const booleanType = ctx.dialect === 'postgres' ? 'boolean DEFAULT false' : 'integer DEFAULT 0';
+      await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN telegram_enabled ${booleanType} NOT NULL`);
+    }
+    for (const column of TEXT_COLUMNS) {
+      if (!columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN ${column} text`);
+      }
+    }
+    if (!columns.has('telegram_link_code_expires_at')) {
+      const timestampType = ctx.dialect === 'postgres' ? 'timestamp' : 'integer';
+      await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN telegram_link_code_expires_at ${timestampType}`);
+    }
+  },
+
+  async down(ctx) {
+    const columns = await preferenceColumns(ctx);
+    for (const column of ['telegram_enabled', ...TEXT_COLUMNS, 'telegram_link_code_expires_at']) {
+      if (columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences DROP COLUMN ${column}`);
+      }
+    }
+  }
+};
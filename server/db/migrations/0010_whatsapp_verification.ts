@@ -0,0 +1,61 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+const TEXT_COLUMNS = ['whatsapp_verified_number', 'whatsapp_verification_code'];
+const VERIFIED_NUMBER_INDEX = 'user_notification_preferences_whatsapp_verified_number_unique';
+
+async function preferenceColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'user_notification_preferences'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('user_notification_preferences')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * WhatsApp number verification: the confirmed number (unique) and the pending code on notification
+ * preferences. Databases created from the current schema already have the columns.
+ */
+export const whatsappVerification: Migration = {
+  version: '0010',
+  name: 'whatsapp_verification',
+
+  async up(ctx) {
+    const columns = await preferenceColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with them
+    if (columns.size === 0) return;
+
+    for (const column of TEXT_COLUMNS) {
+      if (!columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN ${column} text`);
+      }
+    }
+    // Tables created from the current schema declare the column unique already
+    if (!columns.has('whatsapp_verified_number')) {
+      await ctx.query(
+        `CREATE UNIQUE INDEX ${VERIFIED_NUMBER_INDEX} ON user_notification_preferences (whatsapp_verified_number)`
+      );
+    }
+    if (!columns.has('whatsapp_verification_code_expires_at')) {
+      const timestampType = ctx.dialect === 'postgres' ? 'timestamp' : 'integer';
+      await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN whatsapp_verification_code_expires_at ${timestampType}`);
+    }
+    if (!columns.has('whatsapp_verification_attempts')) {
+      await ctx.query(`ALTER TABLE user_notification_preferences ADD COLUMN whatsapp_verification_attempts integer DEFAULT 0 NOT NULL`);
+    }
+  },
+
+  async down(ctx) {
+    const columns = await preferenceColumns(ctx);
+    // Postgres drops the index along with the column; SQLite won't drop an indexed column
+    if (ctx.dialect === 'sqlite') {
+      await ctx.query(`DROP INDEX IF EXISTS ${VERIFIED_NUMBER_INDEX}`);
+    }
+    for (const column of [...TEXT_COLUMNS, 'whatsapp_verification_code_expires_at', 'whatsapp_verification_attempts']) {
+      if (columns.has(column)) {
+        await ctx.query(`ALTER TABLE user_notification_preferences DROP COLUMN ${column}`);
+      }
+    }
+  }
+};
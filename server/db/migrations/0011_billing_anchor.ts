@@ -0,0 +1,40 @@
+import type { Migration, MigrationContext } from '../migrate';
+
+async function subscriptionColumns(ctx: MigrationContext): Promise<Set<string>> {
+  const rows = ctx.dialect === 'postgres'
+    ? await ctx.query(
+        `SELECT column_name AS name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'subscriptions'`
+      )
+    : await ctx.query(`SELECT name FROM pragma_table_info('subscriptions')`);
+  return new Set(rows.map(row => String(row.name)));
+}
+
+/**
+ * The date a subscription's billing schedule counts from, so month-end dates clamped short
+ * don't drift. Existing subscriptions count from their next billing date, which is the best
+ * record left of their schedule.
+ */
+export const billingAnchor: Migration = {
+  version: '0011',
+  name: 'billing_anchor',
+
+  async up(ctx) {
+    const columns = await subscriptionColumns(ctx);
+    // No columns at all: the table doesn't exist yet and will be created with them
+    if (columns.size === 0) return;
+
+    if (!columns.has('billing_anchor_date')) {
+      const timestampType = ctx.dialect === 'postgres' ? 'timestamp' : 'integer';
+      await ctx.query(`ALTER TABLE subscriptions ADD COLUMN billing_anchor_date ${timestampType}`);
+    }
+    await ctx.query('UPDATE subscriptions SET billing_anchor_date = next_billing_date WHERE billing_anchor_date IS NULL');
+  },
+
+  async down(ctx) {
+    const columns = await subscriptionColumns(ctx);
+    if (columns.has('billing_anchor_date')) {
+      await ctx.query('ALTER TABLE subscriptions DROP COLUMN billing_anchor_date');
+    }
+  }
+};
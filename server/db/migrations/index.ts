@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate';
+import { baselineColumns } from './0000_baseline_columns';
+import { subscriptionsIsActiveBoolean } from './0001_subscriptions_is_active_boolean';
+import { calendarFeedToken } from './0002_calendar_feed_token';
+import { calendarEvents } from './0003_calendar_events';
+import { webhooks } from './0004_webhooks';
+import { chatChannels } from './0005_chat_channels';
+import { emailTemplates } from './0006_email_templates';
+import { spendingDigest } from './0007_spending_digest';
+import { reminderMessageIds } from './0008_reminder_message_ids';
+import { telegramChannel } from './0009_telegram_channel';
+import { whatsappVerification } from './0010_whatsapp_verification';
+import { billingAnchor } from './0011_billing_anchor';
+
+// Add new migrations here as NNNN_description.ts. They are listed explicitly (not read from
+// disk) so they end up in the bundled server build.
+export const migrations: Migration[] = [
+  baselineColumns,
+  subscriptionsIsActiveBoolean,
+  calendarFeedToken,
+  calendarEvents,
+  webhooks,
+  chatChannels,
+  emailTemplates,
+  spendingDigest,
+  reminderMessageIds,
+  telegramChannel,
+  whatsappVerification,
+  billingAnchor,
+];
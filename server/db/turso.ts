@@ -1,26 +1,27 @@
-import 'dotenv/config';
 import { drizzle } from 'drizzle-orm/libsql';
 import { createClient } from '@libsql/client';
 import * as schema from '../../shared/schema.turso';
+import { sqliteCreateStatements } from '../../shared/schema-dialects';
 
-// Create Turso client
-const client = createClient({
-  url: process.env.TURSO_DATABASE_URL!,
-  authToken: process.env.TURSO_AUTH_TOKEN!,
-});
+export interface SqliteConfig {
+  url: string; // libsql://... for Turso, file:path.db for a local SQLite file
+  authToken?: string;
+}
 
-// Create Drizzle database instance
-export const db = drizzle(client, { schema });
+/**
+ * Open a Turso / SQLite database with the tables generated from shared/schema.ts
+ */
+export function createSqliteDatabase(config: SqliteConfig) {
+  const client = createClient({ url: config.url, authToken: config.authToken });
+  return { client, db: drizzle(client, { schema }) };
+}
 
-// Connection helper
-export async function connectTurso() {
-  try {
-    // Test the connection
-    await db.select().from(schema.users).limit(1);
-    console.log('✅ Connected to Turso database successfully');
-    return true;
-  } catch (error) {
-    console.error('❌ Failed to connect to Turso database:', error);
-    return false;
+/**
+ * Create any missing tables. Changes to existing tables still go through drizzle-kit
+ * (drizzle.config.turso.ts).
+ */
+export async function ensureSqliteSchema(client: ReturnType<typeof createClient>) {
+  for (const statement of sqliteCreateStatements(schema)) {
+    await client.execute(statement);
   }
-}
\ No newline at end of file
+}
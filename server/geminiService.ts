@@ -1,5 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import type { Subscription } from "@shared/schema";
+import type { CurrencyConverter } from "@shared/currency";
+import { toMonthlyCost } from "@shared/recurrence";
 import { getDecryptedApiKey } from "./routes/userExternalApiKeys";
 
 // DON'T DELETE THIS COMMENT
@@ -7,7 +9,7 @@ import { getDecryptedApiKey } from "./routes/userExternalApiKeys";
 // Using the newest Gemini model series "gemini-2.5-flash" or "gemini-2.5-pro"
 
 // Create Gemini AI instance with dynamic API key
-async function createGeminiAI(userId: string = "dev-user-1"): Promise<GoogleGenAI> {
+async function createGeminiAI(userId: string): Promise<GoogleGenAI> {
   // Try to get user-specific API key first
   let apiKey = await getDecryptedApiKey(userId, 'gemini');
   
@@ -32,7 +34,7 @@ export interface SubscriptionInsight {
   data?: any;
 }
 
-export async function analyzeSubscriptions(subscriptions: Subscription[], userId: string = "dev-user-1"): Promise<SubscriptionInsight[]> {
+export async function analyzeSubscriptions(subscriptions: Subscription[], userId: string): Promise<SubscriptionInsight[]> {
   try {
     const ai = await createGeminiAI(userId);
     
@@ -40,6 +42,7 @@ export async function analyzeSubscriptions(subscriptions: Subscription[], userId
       id: sub.id,
       name: sub.name,
       cost: parseFloat(sub.cost),
+      currency: sub.currency,
       billingCycle: sub.billingCycle,
       category: sub.category,
       nextBillingDate: sub.nextBillingDate,
@@ -124,8 +127,8 @@ Provide insights focusing on:
   }
 }
 
-// Generate structured summary for AI insights dialog
-export function calculateSubscriptionSummary(subscriptions: Subscription[]) {
+// Generate structured summary for AI insights dialog (costs in the converter's reporting currency)
+export function calculateSubscriptionSummary(subscriptions: Subscription[], converter: CurrencyConverter) {
   console.log('Generating insights for userId:', subscriptions[0]?.userId || 'unknown');
   console.log('All subscriptions for insights:', subscriptions);
 
@@ -133,7 +136,7 @@ export function calculateSubscriptionSummary(subscriptions: Subscription[]) {
   const activeSubscriptions = subscriptions.filter(sub => {
     const isActive = sub.isActive;
     console.log(`Checking subscription ${sub.id} (${sub.name}): isActive = ${isActive}, type: ${typeof isActive}`);
-    return Boolean(isActive && isActive !== 0 && (typeof isActive !== 'string' || isActive !== '0'));
+    return isActive;
   });
 
   console.log('Checking isActive values:', activeSubscriptions.map(sub => ({
@@ -147,17 +150,8 @@ export function calculateSubscriptionSummary(subscriptions: Subscription[]) {
 
   // Calculate total monthly cost
   const totalCost = activeSubscriptions.reduce((sum, sub) => {
-    const cost = parseFloat(sub.cost) || 0;
-    switch (sub.billingCycle) {
-      case 'monthly': 
-        return sum + cost;
-      case 'yearly': 
-        return sum + (cost / 12);
-      case 'weekly': 
-        return sum + (cost * 4.33);
-      default: 
-        return sum + cost;
-    }
+    const cost = converter.convert(parseFloat(sub.cost) || 0, sub.currency);
+    return sum + toMonthlyCost(cost, sub);
   }, 0);
 
   // Calculate upcoming renewals (next 30 days)
@@ -170,35 +164,30 @@ export function calculateSubscriptionSummary(subscriptions: Subscription[]) {
 
   // Calculate category costs
   const categoryCosts = activeSubscriptions.reduce((acc, sub) => {
-    const cost = parseFloat(sub.cost) || 0;
-    const monthlyCost = sub.billingCycle === 'yearly' ? cost / 12 : 
-                      sub.billingCycle === 'weekly' ? cost * 4.33 : cost;
+    const cost = converter.convert(parseFloat(sub.cost) || 0, sub.currency);
+    const monthlyCost = toMonthlyCost(cost, sub);
     acc[sub.category] = (acc[sub.category] || 0) + monthlyCost;
     return acc;
   }, {} as Record<string, number>);
 
   return {
     totalCost,
+    currency: converter.reportingCurrency,
     activeSubscriptions: activeSubscriptions.length,
     upcomingRenewals,
     categoryCosts
   };
 }
 
-export async function generateSubscriptionSummary(subscriptions: Subscription[], userId: string = "dev-user-1"): Promise<string> {
+export async function generateSubscriptionSummary(subscriptions: Subscription[], userId: string, converter: CurrencyConverter): Promise<string> {
   try {
     const ai = await createGeminiAI(userId);
     
     const totalMonthly = subscriptions
       .filter(sub => sub.isActive)
       .reduce((sum, sub) => {
-        const cost = parseFloat(sub.cost);
-        switch (sub.billingCycle) {
-          case 'monthly': return sum + cost;
-          case 'yearly': return sum + (cost / 12);
-          case 'weekly': return sum + (cost * 4.33);
-          default: return sum + cost;
-        }
+        const cost = converter.convert(parseFloat(sub.cost), sub.currency);
+        return sum + toMonthlyCost(cost, sub);
       }, 0);
 
     const categories = subscriptions.reduce((acc, sub) => {
@@ -208,7 +197,7 @@ export async function generateSubscriptionSummary(subscriptions: Subscription[],
 
     const prompt = `Generate a concise, friendly summary of this subscription portfolio:
 - Total active subscriptions: ${subscriptions.filter(sub => sub.isActive).length}
-- Estimated monthly cost: $${totalMonthly.toFixed(2)}
+- Estimated monthly cost: ${totalMonthly.toFixed(2)} ${converter.reportingCurrency}
 - Categories: ${Object.entries(categories).map(([cat, count]) => `${cat} (${count})`).join(', ')}
 
 Provide a 2-3 sentence summary that's encouraging and includes one actionable tip.`;
@@ -226,7 +215,7 @@ Provide a 2-3 sentence summary that's encouraging and includes one actionable ti
   }
 }
 
-export async function suggestCategory(subscriptionName: string, description?: string, userId: string = "dev-user-1"): Promise<string> {
+export async function suggestCategory(subscriptionName: string, description: string | undefined, userId: string): Promise<string> {
   try {
     const ai = await createGeminiAI(userId);
     
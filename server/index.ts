@@ -2,6 +2,7 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { loadSession } from "./middleware/session";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -43,9 +44,17 @@ app.use(cors({
   exposedHeaders: ['X-Total-Count', 'X-Rate-Limit-Remaining']
 }));
 
+// Account archives can be larger than the default 100kb body limit
+app.use('/api/import', express.json({ limit: '20mb' }));
+// WhatsApp webhook signatures are computed over the exact request body, so it stays a Buffer
+// here (express.json() below then skips it) and the route parses it once the signature checks out
+app.use('/api/whatsapp/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Resolve the session cookie (if any) into req.user for every request
+app.use(loadSession);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -77,13 +86,23 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Create missing tables when running on SQLite / Turso
+  const { prepareStorage } = await import("./storage");
+  await prepareStorage();
+
+  // Apply pending versioned migrations (server/db/migrations) before anything reads the data
+  const { migrate } = await import("./db/migrate");
+  await migrate();
+
   // Seed database with initial data
   const { seedDatabase } = await import("./seed");
   await seedDatabase();
   
-  // Initialize notification service and start reminder scheduler
-  const { notificationService } = await import("./services/notification.service");
-  notificationService.startReminderScheduler();
+  // Register background jobs (renewals, reminders, trials, calendar sync) and start the queue worker
+  const { registerJobs } = await import("./jobs");
+  const { jobQueue } = await import("./services/job-queue.service");
+  registerJobs();
+  jobQueue.start();
   
   const server = await registerRoutes(app);
 
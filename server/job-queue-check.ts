@@ -0,0 +1,72 @@
+/**
+ * Job queue check: runs jobs through JobQueueService with a short lease and checks who can
+ * claim them.
+ *
+ *   npm run check:jobs
+ *
+ * A job whose worker stopped renewing its lease is taken over by another worker; one whose
+ * handler is still running is not, however long the handler takes. Uses memory storage.
+ */
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const LEASE_MS = 300;
+
+async function main() {
+  process.env.STORAGE_DRIVER = 'memory';
+
+  const { storage } = await import('./storage');
+  const { JobQueueService } = await import('./services/job-queue.service');
+
+  const checks: Record<string, () => Promise<void>> = {
+    async 'an expired lease is claimed by another worker'() {
+      const job = await storage.enqueueJob({ name: 'check.abandoned', payload: '{}' });
+      assert.equal((await storage.claimNextJob('stopped-worker', LEASE_MS))?.id, job!.id);
+
+      await sleep(LEASE_MS * 2);
+      const reclaimed = await storage.claimNextJob('other-worker', LEASE_MS);
+      assert.equal(reclaimed?.id, job!.id);
+      assert.equal(reclaimed?.attempts, 2);
+      assert.equal(await storage.completeJob(job!.id, 'other-worker'), true);
+    },
+
+    async 'a job is not claimed again while its handler runs past the lease'() {
+      const queue = new JobQueueService({ leaseMs: LEASE_MS });
+      let runs = 0;
+      queue.register('check.slow', async () => {
+        runs++;
+        await sleep(LEASE_MS * 4);
+      });
+      const job = await queue.enqueue('check.slow');
+
+      const running = queue.runDueJobs();
+      // Well past the original lease, several renewals in
+      await sleep(LEASE_MS * 2);
+      assert.equal(await storage.claimNextJob('other-worker', LEASE_MS), undefined);
+      assert.equal((await storage.getJob(job!.id))?.lockedBy, queue.workerId);
+
+      await running;
+      const finished = await storage.getJob(job!.id);
+      assert.equal(finished?.status, 'completed');
+      assert.equal(finished?.attempts, 1);
+      assert.equal(runs, 1);
+    },
+  };
+
+  let failures = 0;
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check();
+      console.log(`  ✓ ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log(failures === 0 ? '\nJob leases hold while handlers run' : `\n${failures} check(s) failed`);
+  return failures;
+}
+
+main().then(failures => process.exit(failures === 0 ? 0 : 1));
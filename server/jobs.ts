@@ -0,0 +1,80 @@
+import { jobQueue } from './services/job-queue.service';
+import { notificationService, type CancellationReminderJobPayload, type ReminderJobPayload } from './services/notification.service';
+import { renewalService } from './services/renewal.service';
+import { calendarSyncService } from './services/calendar-sync.service';
+import { pauseService } from './services/pause.service';
+import { secretVault } from './services/secret-vault.service';
+import { backupService } from './services/backup.service';
+import { webhookService, type WebhookDeliveryJobPayload } from './services/webhook.service';
+import { digestService, type DigestJobPayload } from './services/digest.service';
+import { processAllTrials } from './trialService';
+import { storage } from './storage';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Register every named background job and its schedule with the queue
+ */
+export function registerJobs() {
+  // Bring back paused subscriptions whose resume date has arrived, ahead of renewals
+  jobQueue.register('subscriptions.resume', () => pauseService.processDueResumes());
+  jobQueue.every('subscriptions.resume', HOUR);
+
+  // Roll due subscriptions forward before reminders are worked out for the hour
+  jobQueue.register('renewals.process', () => renewalService.processDueRenewals());
+  jobQueue.every('renewals.process', HOUR);
+
+  // Find reminders due now and fan out one 'reminder.send' (or 'cancellation.remind') job per channel
+  jobQueue.register('reminders.scan', () => notificationService.processScheduledReminders());
+  jobQueue.every('reminders.scan', HOUR, { offsetMs: 5 * MINUTE });
+
+  jobQueue.register('reminder.send', (payload: ReminderJobPayload, job) => notificationService.sendQueuedReminder(payload, job), { maxAttempts: 6 });
+  jobQueue.register('cancellation.remind', (payload: CancellationReminderJobPayload, job) => notificationService.sendQueuedCancellationReminder(payload, job), { maxAttempts: 6 });
+
+  // Weekly (Mondays) and monthly (the 1st) spending digests, queued for each user's reminder time
+  jobQueue.register('digests.scan', () => digestService.processDueDigests());
+  jobQueue.every('digests.scan', HOUR, { offsetMs: 15 * MINUTE });
+
+  jobQueue.register('digest.send', (payload: DigestJobPayload) => digestService.sendQueuedDigest(payload), { maxAttempts: 6 });
+
+  jobQueue.register('trials.check', () => processAllTrials());
+  jobQueue.every('trials.check', HOUR, { offsetMs: 10 * MINUTE });
+
+  // Daily Google Calendar reconciliation, one job per connected user
+  jobQueue.register('calendar.sync', () => notificationService.queueCalendarSyncs());
+  jobQueue.every('calendar.sync', DAY, { offsetMs: 2 * HOUR });
+
+  jobQueue.register('calendar.sync.user', ({ userId }: { userId: string }) => notificationService.syncUserCalendar(userId));
+
+  // Update or remove one subscription's calendar events; enqueued whenever a subscription changes
+  jobQueue.register('calendar.sync.subscription', ({ userId, subscriptionId }: { userId: string; subscriptionId: string }) =>
+    calendarSyncService.syncSubscription(userId, subscriptionId), { maxAttempts: 6 });
+
+  // One attempt per run; failures back off 30s, 1m, 2m, ... so eight attempts span about an hour
+  jobQueue.register('webhook.deliver', (payload: WebhookDeliveryJobPayload, job) => webhookService.deliver(payload, job), { maxAttempts: 8 });
+
+  // Keep a month of finished webhook deliveries for the delivery log
+  jobQueue.register('webhooks.cleanup', () => storage.deleteWebhookDeliveriesBefore(new Date(Date.now() - 30 * DAY)));
+  jobQueue.every('webhooks.cleanup', DAY, { offsetMs: 3 * HOUR + 30 * MINUTE });
+
+  // Remove sign-in sessions past their expiry; they no longer authenticate anyone
+  jobQueue.register('sessions.cleanup', () => storage.deleteExpiredUserSessions());
+  jobQueue.every('sessions.cleanup', DAY, { offsetMs: 4 * HOUR });
+
+  // Re-encrypt stored credentials with the primary key; enqueued from the admin API after a key rotation
+  jobQueue.register('secrets.reencrypt', () => secretVault.reencryptAll(), { maxAttempts: 3 });
+
+  // Keep a week of completed jobs for inspection; dead jobs are kept until retried
+  jobQueue.register('jobs.cleanup', () => storage.deleteCompletedJobs(new Date(Date.now() - 7 * DAY)));
+  jobQueue.every('jobs.cleanup', DAY, { offsetMs: 3 * HOUR });
+
+  // Snapshot every table and prune by retention; also enqueued from the admin API.
+  // Scheduled only when BACKUP_INTERVAL_HOURS is set, since not every host has a writable disk.
+  jobQueue.register('system.backup', () => backupService.runScheduledBackup(), { maxAttempts: 3 });
+  const backupIntervalHours = parseInt(process.env.BACKUP_INTERVAL_HOURS || '0', 10);
+  if (backupIntervalHours > 0) {
+    jobQueue.every('system.backup', backupIntervalHours * HOUR);
+  }
+}
@@ -0,0 +1,725 @@
+import { getTableColumns } from "drizzle-orm";
+import { getTableConfig, type PgColumn, type PgTable } from "drizzle-orm/pg-core";
+import {
+  subscriptions, users, apiKeys, plans, notifications, userExternalApiKeys, subscriptionHistory,
+  userNotificationPreferences, subscriptionReminders, calendarEvents, userSessions, exchangeRates, jobs,
+  adminActivityLogs, adminSettings, webhookEndpoints, webhookDeliveries, emailTemplates,
+  type Subscription, type InsertSubscription,
+  type User, type InsertUser,
+  type ApiKey, type InsertApiKey, type UpdateApiKey,
+  type Plan, type InsertPlan,
+  type Notification, type InsertNotification, type UpdateNotification,
+  type UserExternalApiKey, type InsertUserExternalApiKey,
+  type SubscriptionHistory, type InsertSubscriptionHistory,
+  type UserNotificationPreferences, type InsertUserNotificationPreferences, type UpdateUserNotificationPreferences,
+  type SubscriptionReminder, type InsertSubscriptionReminder,
+  type CalendarEvent, type InsertCalendarEvent,
+  type WebhookEndpoint, type InsertWebhookEndpoint,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type EmailTemplate, type InsertEmailTemplate,
+  type UserSession, type InsertUserSession,
+  type ExchangeRate, type InsertExchangeRate,
+  type Job, type InsertJob,
+  type AdminActivityLog, type AdminSetting
+} from "@shared/schema";
+import { columnDefault } from "@shared/schema-dialects";
+import { BILLING_SCHEDULE_FIELDS, rescheduledAnchor } from "@shared/recurrence";
+import { PREFERENCE_SECRET_COLUMNS, type IStorage, type StorageTableName, type StoredSecret, type TableSnapshot } from "./storage";
+
+type Row = { id: string };
+
+/**
+ * One table held in a Map. Inserts apply the column defaults and unique constraints from
+ * shared/schema.ts, and rows are copied in and out so callers cannot mutate stored state.
+ */
+class MemoryTable<T extends Row> {
+  private rows = new Map<string, T>();
+  private columns: [string, PgColumn][];
+  private name: string;
+
+  constructor(table: PgTable) {
+    this.columns = Object.entries(getTableColumns(table)) as [string, PgColumn][];
+    this.name = getTableConfig(table).name;
+  }
+
+  all(): T[] {
+    return Array.from(this.rows.values(), row => structuredClone(row));
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return this.all().filter(predicate);
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    return this.filter(predicate)[0];
+  }
+
+  insert(values: object): T {
+    const row: Record<string, unknown> = {};
+    for (const [key, column] of this.columns) {
+      const value = (values as Record<string, unknown>)[key];
+      row[key] = value !== undefined ? value : columnDefault(column)?.() ?? null;
+    }
+    this.checkUnique(row as T);
+    this.rows.set((row as T).id, structuredClone(row as T));
+    return structuredClone(row as T);
+  }
+
+  update(predicate: (row: T) => boolean, patch: object): T[] {
+    const updated: T[] = [];
+    for (const row of Array.from(this.rows.values())) {
+      if (!predicate(row)) continue;
+      // Like drizzle's .set(), undefined values leave the column unchanged
+      const changes = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+      const next = { ...row, ...structuredClone(changes) } as T;
+      this.checkUnique(next, row.id);
+      this.rows.set(row.id, next);
+      updated.push(structuredClone(next));
+    }
+    return updated;
+  }
+
+  delete(predicate: (row: T) => boolean): number {
+    let deleted = 0;
+    for (const [id, row] of Array.from(this.rows.entries())) {
+      if (predicate(row)) {
+        this.rows.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private checkUnique(row: T, ignoreId?: string) {
+    for (const [key, column] of this.columns) {
+      if (!column.primary && !column.isUnique) continue;
+      const value = (row as Record<string, unknown>)[key];
+      if (value === null || value === undefined) continue;
+      for (const other of Array.from(this.rows.values())) {
+        if (other.id !== ignoreId && (other as Record<string, unknown>)[key] === value) {
+          throw new Error(`duplicate key value violates unique constraint "${this.name}_${column.name}_unique"`);
+        }
+      }
+    }
+  }
+}
+
+const time = (date: Date | null | undefined) => (date ? new Date(date).getTime() : 0);
+const newestFirst = <T>(key: keyof T) => (a: T, b: T) => time(b[key] as Date) - time(a[key] as Date);
+const oldestFirst = <T>(key: keyof T) => (a: T, b: T) => time(a[key] as Date) - time(b[key] as Date);
+
+/**
+ * Non-persistent storage for tests and demos (STORAGE_DRIVER=memory). It follows the same
+ * contract as DatabaseStorage, which the storage conformance script checks.
+ */
+export class MemoryStorage implements IStorage {
+  private subscriptions = new MemoryTable<Subscription>(subscriptions);
+  private users = new MemoryTable<User>(users);
+  private apiKeys = new MemoryTable<ApiKey>(apiKeys);
+  private plans = new MemoryTable<Plan>(plans);
+  private notifications = new MemoryTable<Notification>(notifications);
+  private userExternalApiKeys = new MemoryTable<UserExternalApiKey>(userExternalApiKeys);
+  private subscriptionHistory = new MemoryTable<SubscriptionHistory>(subscriptionHistory);
+  private userNotificationPreferences = new MemoryTable<UserNotificationPreferences>(userNotificationPreferences);
+  private subscriptionReminders = new MemoryTable<SubscriptionReminder>(subscriptionReminders);
+  private calendarEvents = new MemoryTable<CalendarEvent>(calendarEvents);
+  private userSessions = new MemoryTable<UserSession>(userSessions);
+  private exchangeRates = new MemoryTable<ExchangeRate>(exchangeRates);
+  private jobs = new MemoryTable<Job>(jobs);
+  private adminActivityLogs = new MemoryTable<AdminActivityLog>(adminActivityLogs);
+  private adminSettings = new MemoryTable<AdminSetting>(adminSettings);
+  private webhookEndpoints = new MemoryTable<WebhookEndpoint>(webhookEndpoints);
+  private webhookDeliveries = new MemoryTable<WebhookDelivery>(webhookDeliveries);
+  private emailTemplates = new MemoryTable<EmailTemplate>(emailTemplates);
+
+  private get tables(): Record<StorageTableName, MemoryTable<Row>> {
+    const {
+      subscriptions, users, apiKeys, plans, notifications, userExternalApiKeys, subscriptionHistory,
+      userNotificationPreferences, subscriptionReminders, calendarEvents, userSessions, exchangeRates, jobs,
+      adminActivityLogs, adminSettings, webhookEndpoints, webhookDeliveries, emailTemplates
+    } = this;
+    return {
+      subscriptions, users, apiKeys, plans, notifications, userExternalApiKeys, subscriptionHistory,
+      userNotificationPreferences, subscriptionReminders, calendarEvents, userSessions, exchangeRates, jobs,
+      adminActivityLogs, adminSettings, webhookEndpoints, webhookDeliveries, emailTemplates
+    } as Record<StorageTableName, MemoryTable<Row>>;
+  }
+
+  // Subscription methods
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return this.subscriptions.all();
+  }
+
+  async getSubscriptionsByUserId(userId: string): Promise<Subscription[]> {
+    return this.subscriptions.filter(s => s.userId === userId);
+  }
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    return this.subscriptions.find(s => s.id === id);
+  }
+
+  async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    return this.subscriptions.insert({
+      ...insertSubscription,
+      description: insertSubscription.description ?? null,
+      isActive: insertSubscription.isActive ?? true,
+      billingAnchorDate: insertSubscription.billingAnchorDate ?? insertSubscription.nextBillingDate,
+    });
+  }
+
+  async updateSubscription(id: string, updates: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    if (updates.billingAnchorDate === undefined && BILLING_SCHEDULE_FIELDS.some(field => updates[field] !== undefined)) {
+      const current = await this.getSubscription(id);
+      const billingAnchorDate = current && rescheduledAnchor(current, updates);
+      if (billingAnchorDate) updates = { ...updates, billingAnchorDate };
+    }
+    return this.subscriptions.update(s => s.id === id, updates)[0];
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    return this.subscriptions.delete(s => s.id === id) > 0;
+  }
+
+  async getDueSubscriptions(asOf: Date): Promise<Subscription[]> {
+    return this.subscriptions.filter(s => s.isActive && !s.isTrial && time(s.nextBillingDate) <= asOf.getTime());
+  }
+
+  async advanceSubscriptionBillingDate(id: string, from: Date, to: Date): Promise<Subscription | undefined> {
+    return this.subscriptions.update(s => s.id === id && time(s.nextBillingDate) === from.getTime(), { nextBillingDate: to })[0];
+  }
+
+  async getSubscriptionsDueToResume(asOf: Date): Promise<Subscription[]> {
+    return this.subscriptions.filter(s => s.pausedAt !== null && s.resumeAt !== null && time(s.resumeAt) <= asOf.getTime());
+  }
+
+  // User methods
+  async getAllUsers(): Promise<User[]> {
+    return this.users.all();
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.find(u => u.id === id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.users.find(u => u.email === email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.users.insert(insertUser);
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    return this.users.update(u => u.id === id, updates)[0];
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(u => u.id === id) > 0;
+  }
+
+  // API Key methods
+  async getApiKeysByUserId(userId: string): Promise<ApiKey[]> {
+    return this.apiKeys.filter(k => k.userId === userId);
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.find(k => k.id === id);
+  }
+
+  async getApiKeyByKeyHash(keyHash: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.find(k => k.keyHash === keyHash);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    return this.apiKeys.insert(insertApiKey);
+  }
+
+  async updateApiKey(id: string, updates: UpdateApiKey): Promise<ApiKey | undefined> {
+    return this.apiKeys.update(k => k.id === id, updates)[0];
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    return this.apiKeys.delete(k => k.id === id) > 0;
+  }
+
+  async getAllApiKeys(): Promise<ApiKey[]> {
+    return this.apiKeys.all();
+  }
+
+  // Plan methods
+  async getAllPlans(): Promise<Plan[]> {
+    return this.plans.all();
+  }
+
+  async getActivePlans(): Promise<Plan[]> {
+    return this.plans.filter(p => p.isActive);
+  }
+
+  async getPlan(id: string): Promise<Plan | undefined> {
+    return this.plans.find(p => p.id === id);
+  }
+
+  async createPlan(insertPlan: InsertPlan): Promise<Plan> {
+    return this.plans.insert(insertPlan);
+  }
+
+  async updatePlan(id: string, updates: Partial<InsertPlan>): Promise<Plan | undefined> {
+    return this.plans.update(p => p.id === id, updates)[0];
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    return this.plans.delete(p => p.id === id) > 0;
+  }
+
+  // Notification methods
+  async getNotificationsByUserId(userId: string): Promise<Notification[]> {
+    return this.notifications.filter(n => n.userId === userId).sort(newestFirst('createdAt'));
+  }
+
+  async getUnreadNotificationsByUserId(userId: string): Promise<Notification[]> {
+    return this.notifications.filter(n => n.userId === userId && !n.isRead).sort(newestFirst('createdAt'));
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.find(n => n.id === id);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    return this.notifications.insert(insertNotification);
+  }
+
+  async updateNotification(id: string, updates: UpdateNotification): Promise<Notification | undefined> {
+    return this.notifications.update(n => n.id === id, updates)[0];
+  }
+
+  async markNotificationAsRead(id: string, userId: string): Promise<Notification | undefined> {
+    return this.notifications.update(n => n.id === id && n.userId === userId, { isRead: true, readAt: new Date() })[0];
+  }
+
+  async markAllNotificationsAsRead(userId: string): Promise<boolean> {
+    return this.notifications.update(n => n.userId === userId && !n.isRead, { isRead: true, readAt: new Date() }).length > 0;
+  }
+
+  async deleteNotification(id: string): Promise<boolean> {
+    return this.notifications.delete(n => n.id === id) > 0;
+  }
+
+  async deleteNotificationsByUserId(userId: string): Promise<boolean> {
+    return this.notifications.delete(n => n.userId === userId) > 0;
+  }
+
+  // User External API Key methods
+  async getUserExternalApiKeys(userId: string): Promise<UserExternalApiKey[]> {
+    return this.userExternalApiKeys.filter(k => k.userId === userId);
+  }
+
+  async getUserExternalApiKey(userId: string, service: string): Promise<UserExternalApiKey | undefined> {
+    return this.userExternalApiKeys.find(k => k.userId === userId && k.service === service);
+  }
+
+  async createUserExternalApiKey(insertApiKey: InsertUserExternalApiKey): Promise<UserExternalApiKey> {
+    return this.userExternalApiKeys.insert({ ...insertApiKey, updatedAt: new Date() });
+  }
+
+  async updateUserExternalApiKey(userId: string, service: string, keyValue: string): Promise<UserExternalApiKey | undefined> {
+    return this.userExternalApiKeys.update(k => k.userId === userId && k.service === service, { keyValue, updatedAt: new Date() })[0];
+  }
+
+  async deleteUserExternalApiKey(userId: string, service: string): Promise<boolean> {
+    return this.userExternalApiKeys.delete(k => k.userId === userId && k.service === service) > 0;
+  }
+
+  async getStoredSecrets(): Promise<StoredSecret[]> {
+    const secrets: StoredSecret[] = this.userExternalApiKeys.all()
+      .map(k => ({ table: 'user_external_api_keys', id: k.id, column: 'keyValue', value: k.keyValue }));
+
+    for (const row of this.userNotificationPreferences.all()) {
+      for (const column of PREFERENCE_SECRET_COLUMNS) {
+        const value = row[column];
+        if (value) secrets.push({ table: 'user_notification_preferences', id: row.id, column, value });
+      }
+    }
+
+    for (const endpoint of this.webhookEndpoints.all()) {
+      secrets.push({ table: 'webhook_endpoints', id: endpoint.id, column: 'secretEncrypted', value: endpoint.secretEncrypted });
+    }
+    return secrets;
+  }
+
+  async replaceStoredSecret(secret: StoredSecret, value: string): Promise<boolean> {
+    if (secret.table === 'user_external_api_keys') {
+      return this.userExternalApiKeys.update(k => k.id === secret.id && k.keyValue === secret.value, { keyValue: value, updatedAt: new Date() }).length > 0;
+    }
+    if (secret.table === 'webhook_endpoints') {
+      return this.webhookEndpoints.update(e => e.id === secret.id && e.secretEncrypted === secret.value, { secretEncrypted: value, updatedAt: new Date() }).length > 0;
+    }
+    return this.userNotificationPreferences.update(p => p.id === secret.id && p[secret.column] === secret.value, { [secret.column]: value }).length > 0;
+  }
+
+  // Subscription History methods
+  async getSubscriptionHistory(subscriptionId: string): Promise<SubscriptionHistory[]> {
+    return this.subscriptionHistory.filter(h => h.subscriptionId === subscriptionId).sort(newestFirst('createdAt'));
+  }
+
+  async getSubscriptionHistoryByUserId(userId: string): Promise<SubscriptionHistory[]> {
+    return this.subscriptionHistory.filter(h => h.userId === userId).sort(newestFirst('createdAt'));
+  }
+
+  async deleteSubscriptionHistoryByUserId(userId: string): Promise<number> {
+    return this.subscriptionHistory.delete(h => h.userId === userId);
+  }
+
+  async getPriceChangesByUserId(userId: string, since: Date): Promise<SubscriptionHistory[]> {
+    return this.subscriptionHistory
+      .filter(h => h.userId === userId && h.eventType === 'price_change' && time(h.eventDate) >= since.getTime())
+      .sort(newestFirst('eventDate'));
+  }
+
+  async createSubscriptionHistoryEntry(historyEntry: InsertSubscriptionHistory): Promise<SubscriptionHistory> {
+    return this.subscriptionHistory.insert(historyEntry);
+  }
+
+  async getSubscriptionHistoryEntry(id: string): Promise<SubscriptionHistory | undefined> {
+    return this.subscriptionHistory.find(h => h.id === id);
+  }
+
+  async updateSubscriptionHistoryEntry(id: string, updates: Partial<InsertSubscriptionHistory>): Promise<SubscriptionHistory | undefined> {
+    return this.subscriptionHistory.update(h => h.id === id, updates)[0];
+  }
+
+  // User Subscriptions (alias method)
+  async getUserSubscriptions(userId: string): Promise<Subscription[]> {
+    return await this.getSubscriptionsByUserId(userId);
+  }
+
+  // User Notification Preferences methods
+  async getUserNotificationPreferences(userId: string): Promise<UserNotificationPreferences | undefined> {
+    return this.userNotificationPreferences.find(p => p.userId === userId);
+  }
+
+  async createUserNotificationPreferences(preferences: InsertUserNotificationPreferences): Promise<UserNotificationPreferences> {
+    return this.userNotificationPreferences.insert(preferences);
+  }
+
+  async updateUserNotificationPreferences(userId: string, preferences: UpdateUserNotificationPreferences): Promise<UserNotificationPreferences | undefined> {
+    const existing = await this.getUserNotificationPreferences(userId);
+    if (!existing) {
+      return await this.createUserNotificationPreferences({ userId, ...preferences });
+    }
+    return this.userNotificationPreferences.update(p => p.userId === userId, { ...preferences, updatedAt: new Date() })[0];
+  }
+
+  async getUserNotificationPreferencesByCalendarToken(token: string): Promise<UserNotificationPreferences | undefined> {
+    return this.userNotificationPreferences.find(p => p.calendarFeedToken === token);
+  }
+
+  async setCalendarFeedToken(userId: string, token: string | null): Promise<UserNotificationPreferences> {
+    const values = { calendarFeedToken: token, appleCalendarEnabled: token !== null };
+    if (!await this.getUserNotificationPreferences(userId)) {
+      return await this.createUserNotificationPreferences({ userId, ...values });
+    }
+    return this.userNotificationPreferences.update(p => p.userId === userId, { ...values, updatedAt: new Date() })[0];
+  }
+
+  async getUserNotificationPreferencesByWhatsAppNumber(number: string): Promise<UserNotificationPreferences | undefined> {
+    return this.userNotificationPreferences.find(p => p.whatsappVerifiedNumber === number);
+  }
+
+  async setWhatsAppVerifiedNumber(userId: string, number: string | null): Promise<UserNotificationPreferences> {
+    const values = {
+      whatsappVerifiedNumber: number,
+      whatsappVerificationCode: null,
+      whatsappVerificationCodeExpiresAt: null,
+      whatsappVerificationAttempts: 0
+    };
+    if (number !== null) {
+      this.userNotificationPreferences.update(p => p.whatsappVerifiedNumber === number && p.userId !== userId, { whatsappVerifiedNumber: null, updatedAt: new Date() });
+    }
+    if (!await this.getUserNotificationPreferences(userId)) {
+      return await this.createUserNotificationPreferences({ userId, ...values });
+    }
+    return this.userNotificationPreferences.update(p => p.userId === userId, { ...values, updatedAt: new Date() })[0];
+  }
+
+  async setEmailTemplateId(userId: string, templateId: string | null): Promise<UserNotificationPreferences> {
+    if (!await this.getUserNotificationPreferences(userId)) {
+      return await this.createUserNotificationPreferences({ userId, emailTemplateId: templateId });
+    }
+    return this.userNotificationPreferences.update(p => p.userId === userId, { emailTemplateId: templateId, updatedAt: new Date() })[0];
+  }
+
+  // Subscription Reminders methods
+  async getUpcomingReminders(userId: string): Promise<SubscriptionReminder[]> {
+    return this.subscriptionReminders.filter(r => r.userId === userId && r.status === 'pending').sort(oldestFirst('scheduledFor'));
+  }
+
+  async createSubscriptionReminder(reminder: InsertSubscriptionReminder): Promise<SubscriptionReminder> {
+    return this.subscriptionReminders.insert(reminder);
+  }
+
+  async deleteSubscriptionReminder(reminderId: string, userId: string): Promise<boolean> {
+    return this.subscriptionReminders.delete(r => r.id === reminderId && r.userId === userId) > 0;
+  }
+
+  async getReminderForSubscriptionAndDay(subscriptionId: string, daysBefore: number, since?: Date): Promise<SubscriptionReminder | undefined> {
+    return this.subscriptionReminders.find(r =>
+      r.subscriptionId === subscriptionId &&
+      r.daysBefore === daysBefore &&
+      (!since || time(r.createdAt) >= since.getTime())
+    );
+  }
+
+  async deleteSubscriptionReminders(subscriptionId: string): Promise<boolean> {
+    return this.subscriptionReminders.delete(r => r.subscriptionId === subscriptionId) > 0;
+  }
+
+  async getUserReminderStats(userId: string): Promise<SubscriptionReminder[]> {
+    return this.subscriptionReminders.filter(r => r.userId === userId).sort(newestFirst('createdAt'));
+  }
+
+  async getSubscriptionReminderByExternalMessageId(messageId: string): Promise<SubscriptionReminder | undefined> {
+    return this.subscriptionReminders.find(r => r.externalMessageId === messageId);
+  }
+
+  async updateSubscriptionReminder(id: string, updates: Partial<InsertSubscriptionReminder>): Promise<SubscriptionReminder | undefined> {
+    return this.subscriptionReminders.update(r => r.id === id, updates)[0];
+  }
+
+  async getAllUsersWithPreferences(): Promise<Array<{id: string; preferences: UserNotificationPreferences}>> {
+    return this.users.all().flatMap(user => {
+      const preferences = this.userNotificationPreferences.find(p => p.userId === user.id);
+      return preferences ? [{ id: user.id, preferences }] : [];
+    });
+  }
+
+  // Google Calendar event methods
+  async getCalendarEventsByUserId(userId: string): Promise<CalendarEvent[]> {
+    return this.calendarEvents.filter(e => e.userId === userId).sort(oldestFirst('startsAt'));
+  }
+
+  async getCalendarEventsBySubscriptionId(subscriptionId: string): Promise<CalendarEvent[]> {
+    return this.calendarEvents.filter(e => e.subscriptionId === subscriptionId).sort((a, b) => a.daysBefore - b.daysBefore);
+  }
+
+  async saveCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent> {
+    const matches = (e: CalendarEvent) => e.subscriptionId === event.subscriptionId && e.daysBefore === event.daysBefore;
+    if (!this.calendarEvents.find(matches)) {
+      return this.calendarEvents.insert(event);
+    }
+    return this.calendarEvents.update(matches, { ...event, updatedAt: new Date() })[0];
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    return this.calendarEvents.delete(e => e.id === id) > 0;
+  }
+
+  // User Session methods
+  async createUserSession(session: InsertUserSession): Promise<UserSession> {
+    return this.userSessions.insert(session);
+  }
+
+  async getUserSessionByToken(sessionToken: string): Promise<UserSession | undefined> {
+    return this.userSessions.find(s => s.sessionToken === sessionToken);
+  }
+
+  async getUserSessionsByUserId(userId: string): Promise<UserSession[]> {
+    return this.userSessions.filter(s => s.userId === userId).sort(newestFirst('createdAt'));
+  }
+
+  async deleteUserSession(sessionToken: string): Promise<boolean> {
+    return this.userSessions.delete(s => s.sessionToken === sessionToken) > 0;
+  }
+
+  async deleteUserSessionsByUserId(userId: string): Promise<number> {
+    return this.userSessions.delete(s => s.userId === userId);
+  }
+
+  async deleteExpiredUserSessions(): Promise<number> {
+    const now = Date.now();
+    return this.userSessions.delete(s => time(s.expiresAt) < now);
+  }
+
+  // Exchange Rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return this.exchangeRates.all().sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  async getExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    return this.exchangeRates.find(r => r.currency === currency);
+  }
+
+  async upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [updated] = this.exchangeRates.update(r => r.currency === rate.currency, {
+      rate: rate.rate,
+      source: rate.source,
+      updatedBy: rate.updatedBy,
+      updatedAt: new Date()
+    });
+    return updated ?? this.exchangeRates.insert(rate);
+  }
+
+  async deleteExchangeRate(currency: string): Promise<boolean> {
+    return this.exchangeRates.delete(r => r.currency === currency) > 0;
+  }
+
+  // Job Queue methods
+  async enqueueJob(job: InsertJob): Promise<Job | undefined> {
+    if (job.idempotencyKey && this.jobs.find(j => j.idempotencyKey === job.idempotencyKey)) {
+      return undefined;
+    }
+    return this.jobs.insert(job);
+  }
+
+  async claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const [candidate] = this.jobs
+      .filter(j =>
+        (j.status === 'pending' && time(j.runAt) <= now.getTime()) ||
+        (j.status === 'running' && j.lockedUntil !== null && time(j.lockedUntil) < now.getTime())
+      )
+      .sort(oldestFirst('runAt'));
+    if (!candidate) return undefined;
+
+    return this.jobs.update(j => j.id === candidate.id, {
+      status: 'running',
+      lockedBy: workerId,
+      lockedUntil: new Date(now.getTime() + leaseMs),
+      attempts: candidate.attempts + 1,
+      updatedAt: now
+    })[0];
+  }
+
+  async renewJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    return this.jobs.update(j => j.id === id && j.status === 'running' && j.lockedBy === workerId, {
+      lockedUntil: new Date(now.getTime() + leaseMs), updatedAt: now
+    }).length > 0;
+  }
+
+  async completeJob(id: string, workerId: string): Promise<boolean> {
+    return this.jobs.update(j => j.id === id && j.lockedBy === workerId, {
+      status: 'completed', completedAt: new Date(), lockedBy: null, lockedUntil: null, updatedAt: new Date()
+    }).length > 0;
+  }
+
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    return this.jobs.update(j => j.id === id && j.lockedBy === workerId, {
+      status: retryAt ? 'pending' : 'dead',
+      runAt: retryAt ?? undefined,
+      lastError: error,
+      lockedBy: null,
+      lockedUntil: null,
+      updatedAt: new Date()
+    }).length > 0;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.find(j => j.id === id);
+  }
+
+  async getJobs(filter: { status?: string; name?: string; limit?: number } = {}): Promise<Job[]> {
+    return this.jobs
+      .filter(j => (!filter.status || j.status === filter.status) && (!filter.name || j.name === filter.name))
+      .sort(newestFirst('createdAt'))
+      .slice(0, filter.limit ?? 100);
+  }
+
+  async retryJob(id: string): Promise<Job | undefined> {
+    return this.jobs.update(j => j.id === id && j.status === 'dead', { status: 'pending', attempts: 0, runAt: new Date(), updatedAt: new Date() })[0];
+  }
+
+  async deleteCompletedJobs(before: Date): Promise<number> {
+    return this.jobs.delete(j => j.status === 'completed' && j.completedAt !== null && time(j.completedAt) < before.getTime());
+  }
+
+  // Webhook methods
+  async getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    return this.webhookEndpoints.filter(e => e.userId === userId).sort(oldestFirst('createdAt'));
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    return this.webhookEndpoints.find(e => e.id === id);
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    return this.webhookEndpoints.insert(endpoint);
+  }
+
+  async updateWebhookEndpoint(id: string, updates: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    return this.webhookEndpoints.update(e => e.id === id, { ...updates, updatedAt: new Date() })[0];
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    this.webhookDeliveries.delete(d => d.endpointId === id);
+    return this.webhookEndpoints.delete(e => e.id === id) > 0;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    return this.webhookDeliveries.insert(delivery);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.find(d => d.id === id);
+  }
+
+  async getWebhookDeliveryByEvent(endpointId: string, eventId: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.find(d => d.endpointId === endpointId && d.eventId === eventId);
+  }
+
+  async getWebhookDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveries.filter(d => d.endpointId === endpointId).sort(newestFirst('createdAt')).slice(0, limit);
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.update(d => d.id === id, { ...updates, updatedAt: new Date() })[0];
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date): Promise<number> {
+    return this.webhookDeliveries.delete(d => d.status !== 'pending' && time(d.createdAt) < before.getTime());
+  }
+
+  // Email template methods
+  async getEmailTemplatesForUser(userId: string): Promise<EmailTemplate[]> {
+    return this.emailTemplates.filter(t => t.userId === userId || t.userId === null).sort(oldestFirst('createdAt'));
+  }
+
+  async getEmailTemplate(id: string): Promise<EmailTemplate | undefined> {
+    return this.emailTemplates.find(t => t.id === id);
+  }
+
+  async createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    return this.emailTemplates.insert(template);
+  }
+
+  async updateEmailTemplate(id: string, updates: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    return this.emailTemplates.update(t => t.id === id, { ...updates, updatedAt: new Date() })[0];
+  }
+
+  async deleteEmailTemplate(id: string): Promise<boolean> {
+    this.userNotificationPreferences.update(p => p.emailTemplateId === id, { emailTemplateId: null, updatedAt: new Date() });
+    return this.emailTemplates.delete(t => t.id === id) > 0;
+  }
+
+  // Backup and restore
+  async checkConnection(): Promise<void> {}
+
+  async snapshotTables(): Promise<TableSnapshot> {
+    const tables = this.tables;
+    return Object.fromEntries(
+      Object.entries(tables).map(([name, table]) => [name, table.all()])
+    ) as unknown as TableSnapshot;
+  }
+
+  async restoreTables(snapshot: TableSnapshot): Promise<void> {
+    const tables = Object.entries(this.tables) as [StorageTableName, MemoryTable<Row>][];
+    for (const [name, table] of tables) {
+      const count = table.all().length;
+      if (count > 0) {
+        throw new Error(`Cannot restore into a database that already has data (${name} has ${count} rows)`);
+      }
+    }
+    for (const [name, table] of tables) {
+      for (const row of snapshot[name] ?? []) table.insert(row);
+    }
+  }
+}
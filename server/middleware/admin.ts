@@ -1,19 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { db } from '../db';
-import { users, adminActivityLogs } from '@shared/schema';
+import { users, adminActivityLogs, type User } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 
 // Extend Express Request type to include user and admin info
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        name: string;
-        role: string;
-        isActive: boolean;
-      };
+      user?: User;
       isAdmin?: boolean;
       isSuperAdmin?: boolean;
     }
@@ -71,6 +71,50 @@ export async function authenticateApiKey(req: AuthenticatedRequest, res: Respons
   }
 }
 
+// Development-only stand-in user so the web app works without logging in locally
+async function getDevelopmentUser(): Promise<User> {
+  const email = process.env.DEV_USER_EMAIL || 'test@example.com';
+  const existingUser = await storage.getUserByEmail(email);
+  if (existingUser) {
+    return existingUser;
+  }
+
+  const user = await storage.createUser({
+    email,
+    name: 'Test User',
+    password: 'dev-password-hash',
+    subscriptionStatus: 'trial',
+    planId: null,
+    trialEndsAt: null
+  });
+  console.log('Created development user:', user.id);
+  return user;
+}
+
+// Shared authentication for web routes: session cookie first, then API key,
+// then (development only) a stand-in user. Expects loadSession to have run.
+export async function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    if (req.user && req.session) {
+      return next();
+    }
+
+    if (req.headers.authorization?.startsWith('Bearer ')) {
+      return authenticateApiKey(req, res, next);
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      req.user = await getDevelopmentUser();
+      return next();
+    }
+
+    return res.status(401).json({ error: 'Authentication required' });
+  } catch (error) {
+    console.error('Auth middleware error:', error);
+    return res.status(500).json({ error: 'Authentication error' });
+  }
+}
+
 // Rate limiting by plan (simple in-memory implementation)
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
 
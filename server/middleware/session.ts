@@ -0,0 +1,156 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { type UserSession } from '@shared/schema';
+
+// Extend Express Request type with the server-side session loaded from the cookie
+declare global {
+  namespace Express {
+    interface Request {
+      session?: {
+        id: string;
+        userId: string;
+        adminUserId: string | null;
+        isImpersonation: boolean;
+        expiresAt: Date;
+      };
+    }
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'subtracker.sid';
+
+// Sessions last 7 days unless SESSION_TTL_HOURS overrides it
+const SESSION_TTL_MS = (parseInt(process.env.SESSION_TTL_HOURS || '', 10) || 24 * 7) * 60 * 60 * 1000;
+
+/**
+ * Read a single cookie value from the raw Cookie header
+ */
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+
+    if (part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function setSessionCookie(res: Response, sessionToken: string, expiresAt: Date) {
+  res.cookie(SESSION_COOKIE_NAME, sessionToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt
+  });
+}
+
+function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
+}
+
+function toRequestSession(session: UserSession): NonNullable<Request['session']> {
+  return {
+    id: session.id,
+    userId: session.userId,
+    adminUserId: session.adminUserId,
+    isImpersonation: session.isImpersonation,
+    expiresAt: session.expiresAt
+  };
+}
+
+/**
+ * Create a persisted session for the user and send the session cookie
+ */
+export async function createSession(req: Request, res: Response, userId: string): Promise<UserSession> {
+  const sessionToken = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  const session = await storage.createUserSession({
+    userId,
+    sessionToken,
+    isImpersonation: false,
+    ipAddress: req.ip || null,
+    userAgent: req.get('User-Agent') || null,
+    expiresAt
+  });
+
+  setSessionCookie(res, sessionToken, expiresAt);
+  req.session = toRequestSession(session);
+  return session;
+}
+
+/**
+ * Delete the session belonging to the current request and clear its cookie
+ */
+export async function destroySession(req: Request, res: Response): Promise<void> {
+  const sessionToken = readCookie(req, SESSION_COOKIE_NAME);
+  if (sessionToken) {
+    await storage.deleteUserSession(sessionToken);
+  }
+
+  clearSessionCookie(res);
+  req.session = undefined;
+  req.user = undefined;
+}
+
+/**
+ * Delete every session of a user (log out all devices)
+ */
+export async function destroyAllSessions(req: Request, res: Response, userId: string): Promise<number> {
+  const removed = await storage.deleteUserSessionsByUserId(userId);
+
+  clearSessionCookie(res);
+  req.session = undefined;
+  req.user = undefined;
+  return removed;
+}
+
+/**
+ * Resolve the session cookie into req.session and req.user.
+ * Never rejects a request - routes decide whether authentication is required.
+ */
+export async function loadSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sessionToken = readCookie(req, SESSION_COOKIE_NAME);
+    if (!sessionToken) {
+      return next();
+    }
+
+    const session = await storage.getUserSessionByToken(sessionToken);
+    if (!session) {
+      clearSessionCookie(res);
+      return next();
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await storage.deleteUserSession(sessionToken);
+      clearSessionCookie(res);
+      return next();
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user || !user.isActive) {
+      await storage.deleteUserSession(sessionToken);
+      clearSessionCookie(res);
+      return next();
+    }
+
+    req.session = toRequestSession(session);
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Session middleware error:', error);
+    next();
+  }
+}
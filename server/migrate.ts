@@ -0,0 +1,48 @@
+/**
+ * Database migrations for the configured STORAGE_DRIVER (see server/db/migrations).
+ *
+ *   npm run db:migrate               apply pending migrations (also done on server start)
+ *   npm run db:migrate -- down [n]   roll back the last n migrations (default 1)
+ *   npm run db:migrate -- status     list migrations and when they were applied
+ */
+import 'dotenv/config';
+import { getMigrationStatus, migrate, rollback } from './db/migrate';
+import { prepareStorage } from './storage';
+
+async function main() {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      await prepareStorage();
+      const applied = await migrate();
+      console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = arg === undefined ? 1 : parseInt(arg, 10);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps "${arg}"`);
+      }
+      const rolledBack = await rollback(steps);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.join(', ')}` : 'Nothing to roll back');
+      break;
+    }
+    case 'status':
+      for (const migration of await getMigrationStatus()) {
+        const applied = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`${migration.version} ${migration.name.padEnd(40)} ${applied}`);
+      }
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+);
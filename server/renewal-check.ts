@@ -0,0 +1,102 @@
+/**
+ * Renewal schedule check: renews and resumes subscriptions at month ends and checks the billing
+ * dates they land on.
+ *
+ *   npm run check:renewal
+ *
+ * A subscription billed on the 31st is charged on the last day of shorter months and goes back
+ * to the 31st after them. Uses memory storage.
+ */
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+
+const DAY = 24 * 60 * 60 * 1000;
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+const isoDay = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+async function main() {
+  // Services read their configuration from the environment when imported
+  process.env.STORAGE_DRIVER = 'memory';
+  process.env.ENCRYPTION_KEY ??= randomBytes(32).toString('hex');
+
+  const { storage } = await import('./storage');
+  const { renewalService } = await import('./services/renewal.service');
+  const { pauseService } = await import('./services/pause.service');
+
+  const user = await storage.createUser({ email: 'renewal@check.test', name: 'Renewal Check', password: 'x' });
+  const createMonthly = (name: string, nextBillingDate: Date) => storage.createSubscription({
+    userId: user.id,
+    name,
+    cost: '9.99',
+    currency: 'USD',
+    billingCycle: 'monthly',
+    category: 'Software',
+    nextBillingDate
+  });
+  // Run renewals just after the subscription's billing date, the way the daily job would
+  const renewOnce = async (id: string) => {
+    const before = await storage.getSubscription(id);
+    await renewalService.processDueRenewals(new Date(new Date(before!.nextBillingDate).getTime() + DAY / 2));
+    return (await storage.getSubscription(id))!;
+  };
+
+  const checks: Record<string, () => Promise<void>> = {
+    async 'a subscription billed on Jan 31 renews on Feb 28, Mar 31 and Apr 30'() {
+      const subscription = await createMonthly('Month End', utc(2025, 1, 31));
+      const dates: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        dates.push(isoDay((await renewOnce(subscription.id)).nextBillingDate));
+      }
+      assert.deepEqual(dates, ['2025-02-28', '2025-03-31', '2025-04-30']);
+
+      const charges = (await storage.getSubscriptionHistory(subscription.id))
+        .filter(entry => entry.eventType === 'renewal')
+        .map(entry => isoDay(entry.eventDate))
+        .sort();
+      assert.deepEqual(charges, ['2025-01-31', '2025-02-28', '2025-03-31']);
+    },
+
+    async 'a renewal that catches up several months keeps the month end'() {
+      const subscription = await createMonthly('Catch Up', utc(2025, 1, 31));
+      await renewalService.processDueRenewals(utc(2025, 4, 15));
+      const renewed = (await storage.getSubscription(subscription.id))!;
+      assert.equal(isoDay(renewed.nextBillingDate), '2025-04-30');
+    },
+
+    async 'changing the billing date starts the schedule from the new date'() {
+      const subscription = await createMonthly('Moved', utc(2025, 1, 31));
+      await storage.updateSubscription(subscription.id, { nextBillingDate: utc(2025, 2, 15) });
+      const renewed = await renewOnce(subscription.id);
+      assert.equal(isoDay(renewed.nextBillingDate), '2025-03-15');
+    },
+
+    async 'resuming after a pause moves the schedule, not the clamped date'() {
+      const subscription = await createMonthly('Paused', utc(2025, 1, 31));
+      const renewed = await renewOnce(subscription.id);
+      assert.equal(isoDay(renewed.nextBillingDate), '2025-02-28');
+
+      // Paused for one day: the schedule moves from the 31st to the 1st
+      const paused = await pauseService.pauseSubscription(renewed, null, utc(2025, 2, 10));
+      const resumed = await pauseService.resumeSubscription(paused!, utc(2025, 2, 11));
+      assert.equal(isoDay(resumed!.nextBillingDate), '2025-03-01');
+      assert.equal(isoDay((await renewOnce(subscription.id)).nextBillingDate), '2025-04-01');
+    },
+  };
+
+  let failures = 0;
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check();
+      console.log(`  ✓ ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log(failures === 0 ? '\nBilling dates follow the schedule' : `\n${failures} check(s) failed`);
+  return failures;
+}
+
+main().then(failures => process.exit(failures === 0 ? 0 : 1));
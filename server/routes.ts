@@ -14,9 +14,20 @@ import accountRouter from "./routes/account";
 import { remindersRouter } from "./routes/reminders";
 import { analyticsRouter } from "./routes/analytics";
 import { exportRouter } from "./routes/export";
+import { importRouter } from "./routes/import";
+import { calendarRouter } from "./routes/calendar";
+import { webhooksRouter } from "./routes/webhooks";
+import { emailActionsRouter } from "./routes/email-actions";
+import { emailTemplatesRouter } from "./routes/email-templates";
+import { whatsappWebhookRouter } from "./routes/whatsapp-webhook";
+import { whatsappRouter } from "./routes/whatsapp";
+import { telegramRouter } from "./routes/telegram";
+import { telegramWebhookRouter } from "./routes/telegram-webhook";
 import { testConnectionsRouter } from "./routes/test-connections";
 import { googleAuthRouter } from "./routes/google-auth";
 import { adminRouter } from "./routes/admin";
+import { currencyRouter } from "./routes/currency";
+import { requireAuth } from "./middleware/auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
 
@@ -32,16 +43,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/account', accountRouter);
   app.use('/api/reminders', remindersRouter);
   app.use('/api/analytics', analyticsRouter);
+  app.use('/api/currency', currencyRouter);
   app.use('/api/export', exportRouter);
+  app.use('/api/import', importRouter);
+  app.use('/api/calendar', calendarRouter);
+  app.use('/api/webhooks', webhooksRouter);
+  app.use('/api/email-actions', emailActionsRouter);
+  app.use('/api/email-templates', emailTemplatesRouter);
+  // Webhooks before the authenticated routes that share their prefix
+  app.use('/api/whatsapp/webhook', whatsappWebhookRouter);
+  app.use('/api/whatsapp', whatsappRouter);
+  app.use('/api/telegram/webhook', telegramWebhookRouter);
+  app.use('/api/telegram', telegramRouter);
   app.use('/api/test-connection', testConnectionsRouter);
   app.use('/api/admin', adminRouter);
   app.use('/api/v1', apiRouter);
 
   // API Keys management page
-  app.get("/api-keys", async (req, res) => {
+  app.get("/api-keys", requireAuth, async (req, res) => {
     try {
       // Get user's external API keys
-      const userId = "dev-user-1"; // Mock user ID for development
+      const userId = req.user!.id;
       const userApiKeys = await storage.getUserExternalApiKeys(userId);
       
       const geminiKey = userApiKeys.find(key => key.service === 'gemini');
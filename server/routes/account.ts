@@ -1,50 +1,11 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import type { AuthenticatedRequest } from "../middleware/auth";
-
-// Session authentication middleware that allows both session and API key auth
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  try {
-    // First try session authentication
-    if (req.session?.userId) {
-      const user = await storage.getUser(req.session.userId);
-      if (user) {
-        req.user = user;
-        return next();
-      }
-    }
-
-    // Development fallback - create a stub user
-    if (process.env.NODE_ENV === 'development') {
-      let user = await storage.getUser('1');
-      if (!user) {
-        // Create the development user in the database
-        user = await storage.createUser({
-          email: 'test@example.com',
-          name: 'Test User',
-          password: 'dev-password-hash',
-          subscriptionStatus: 'trial',
-          planId: null,
-          trialEndsAt: null
-        });
-        console.log('Created development user:', user.id);
-      }
-      req.user = user;
-      return next();
-    }
-
-    // Production: require proper authentication
-    return res.status(401).json({ error: 'Authentication required' });
-  } catch (error) {
-    console.error('Auth middleware error:', error);
-    return res.status(500).json({ error: 'Authentication error' });
-  }
-}
+import { requireAuth, type AuthenticatedRequest } from "../middleware/auth";
 
 const accountRouter = Router();
 
 // Get user account information (session-based for web frontend)
-accountRouter.get('/', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+accountRouter.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -77,7 +38,7 @@ accountRouter.get('/', trySessionOrApiKey, async (req: AuthenticatedRequest, res
       } : null,
       stats: {
         totalSubscriptions: subscriptions.length,
-        activeSubscriptions: subscriptions.filter(s => s.isActive === 1).length,
+        activeSubscriptions: subscriptions.filter(s => s.isActive).length,
         totalApiKeys: apiKeys.length,
         activeApiKeys: apiKeys.filter(k => k.isActive).length
       }
@@ -2,47 +2,19 @@ import { Router } from 'express';
 import { AdminService } from '../services/admin.service';
 import { requireAdmin, requireSuperAdmin, logAdminActivity } from '../middleware/admin';
 import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
 import { z } from 'zod';
 import { createHmac } from 'crypto';
-
-// Session authentication middleware that allows both session and API key auth
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  try {
-    // First try session authentication
-    if (req.session?.userId) {
-      const user = await storage.getUser(req.session.userId);
-      if (user) {
-        req.user = user;
-        return next();
-      }
-    }
-
-    // Development fallback - create a stub user
-    if (process.env.NODE_ENV === 'development') {
-      let user = await storage.getUser('1');
-      if (!user) {
-        // Create the development user in the database
-        user = await storage.createUser({
-          email: 'test@example.com',
-          name: 'Test User',
-          password: 'dev-password-hash',
-          subscriptionStatus: 'trial',
-          planId: null,
-          trialEndsAt: null
-        });
-        console.log('Created development user:', user.id);
-      }
-      req.user = user;
-      return next();
-    }
-
-    // Production: require proper authentication
-    return res.status(401).json({ error: 'Authentication required' });
-  } catch (error) {
-    console.error('Auth middleware error:', error);
-    return res.status(500).json({ error: 'Authentication error' });
-  }
-}
+import { currencyService } from '../services/currency.service';
+import { secretVault } from '../services/secret-vault.service';
+import { jobQueue } from '../services/job-queue.service';
+import { backupService } from '../services/backup.service';
+import { calendarSyncService } from '../services/calendar-sync.service';
+import { auditService } from '../services/audit.service';
+import { storageConfig } from '../db';
+import { promises as fs } from 'fs';
+import { totalmem } from 'os';
+import { BASE_CURRENCY, isValidCurrencyCode } from '@shared/currency';
 
 const router = Router();
 const adminService = new AdminService();
@@ -63,11 +35,20 @@ const updateUserSchema = z.object({
   subscriptionStatus: z.enum(['trial', 'active', 'expired', 'cancelled']).optional()
 });
 
+const updateExchangeRateSchema = z.object({
+  rate: z.coerce.number().positive()
+});
+
+const importExchangeRatesSchema = z.object({
+  format: z.enum(['json', 'csv']),
+  content: z.string().min(1)
+});
+
 /**
  * GET /api/admin/dashboard
  * Get dashboard statistics
  */
-router.get('/dashboard', trySessionOrApiKey, requireAdmin, logAdminActivity('view_dashboard'), async (req, res) => {
+router.get('/dashboard', requireAuth, requireAdmin, logAdminActivity('view_dashboard'), async (req, res) => {
   try {
     const stats = await adminService.getDashboardStats();
     res.json({
@@ -87,7 +68,7 @@ router.get('/dashboard', trySessionOrApiKey, requireAdmin, logAdminActivity('vie
  * GET /api/admin/users
  * Get all users with pagination and search
  */
-router.get('/users', trySessionOrApiKey, requireAdmin, logAdminActivity('list_users', 'user'), async (req, res) => {
+router.get('/users', requireAuth, requireAdmin, logAdminActivity('list_users', 'user'), async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -112,7 +93,7 @@ router.get('/users', trySessionOrApiKey, requireAdmin, logAdminActivity('list_us
  * GET /api/admin/users/:userId
  * Get user by ID with details
  */
-router.get('/users/:userId', trySessionOrApiKey, requireAdmin, logAdminActivity('view_user', 'user'), async (req, res) => {
+router.get('/users/:userId', requireAuth, requireAdmin, logAdminActivity('view_user', 'user'), async (req, res) => {
   try {
     const { userId } = req.params;
     const user = await adminService.getUserById(userId);
@@ -137,7 +118,7 @@ router.get('/users/:userId', trySessionOrApiKey, requireAdmin, logAdminActivity(
  * POST /api/admin/users
  * Create new user (admin only)
  */
-router.post('/users', trySessionOrApiKey, requireAdmin, logAdminActivity('create_user', 'user'), async (req, res) => {
+router.post('/users', requireAuth, requireAdmin, logAdminActivity('create_user', 'user'), async (req, res) => {
   try {
     const validatedData = createUserSchema.parse(req.body);
     
@@ -181,7 +162,7 @@ router.post('/users', trySessionOrApiKey, requireAdmin, logAdminActivity('create
  * PUT /api/admin/users/:userId
  * Update user
  */
-router.put('/users/:userId', trySessionOrApiKey, requireAdmin, logAdminActivity('update_user', 'user'), async (req, res) => {
+router.put('/users/:userId', requireAuth, requireAdmin, logAdminActivity('update_user', 'user'), async (req, res) => {
   try {
     const { userId } = req.params;
     const validatedData = updateUserSchema.parse(req.body);
@@ -237,7 +218,7 @@ router.put('/users/:userId', trySessionOrApiKey, requireAdmin, logAdminActivity(
  * DELETE /api/admin/users/:userId
  * Delete user (super admin only)
  */
-router.delete('/users/:userId', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('delete_user', 'user'), async (req, res) => {
+router.delete('/users/:userId', requireAuth, requireSuperAdmin, logAdminActivity('delete_user', 'user'), async (req, res) => {
   try {
     const { userId } = req.params;
 
@@ -273,7 +254,7 @@ router.delete('/users/:userId', trySessionOrApiKey, requireSuperAdmin, logAdminA
  * POST /api/admin/users/:userId/extend-trial
  * Extend user's trial period by 7 days
  */
-router.post('/users/:userId/extend-trial', trySessionOrApiKey, requireAdmin, logAdminActivity('extend_trial', 'user'), async (req, res) => {
+router.post('/users/:userId/extend-trial', requireAuth, requireAdmin, logAdminActivity('extend_trial', 'user'), async (req, res) => {
   try {
     const { userId } = req.params;
 
@@ -336,7 +317,7 @@ router.post('/users/:userId/extend-trial', trySessionOrApiKey, requireAdmin, log
  * GET /api/admin/subscriptions
  * Get all subscriptions (admin view)
  */
-router.get('/subscriptions', trySessionOrApiKey, requireAdmin, logAdminActivity('list_all_subscriptions', 'subscription'), async (req, res) => {
+router.get('/subscriptions', requireAuth, requireAdmin, logAdminActivity('list_all_subscriptions', 'subscription'), async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -361,7 +342,7 @@ router.get('/subscriptions', trySessionOrApiKey, requireAdmin, logAdminActivity(
  * POST /api/admin/impersonate/:userId
  * Create impersonation session to login as user
  */
-router.post('/impersonate/:userId', trySessionOrApiKey, requireAdmin, logAdminActivity('login_as_user', 'user'), async (req, res) => {
+router.post('/impersonate/:userId', requireAuth, requireAdmin, logAdminActivity('login_as_user', 'user'), async (req, res) => {
   try {
     const { userId } = req.params;
     const adminUserId = req.user!.id;
@@ -389,7 +370,7 @@ router.post('/impersonate/:userId', trySessionOrApiKey, requireAdmin, logAdminAc
  * GET /api/admin/activity-logs
  * Get admin activity logs
  */
-router.get('/activity-logs', trySessionOrApiKey, requireAdmin, logAdminActivity('view_activity_logs'), async (req, res) => {
+router.get('/activity-logs', requireAuth, requireAdmin, logAdminActivity('view_activity_logs'), async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
@@ -413,7 +394,7 @@ router.get('/activity-logs', trySessionOrApiKey, requireAdmin, logAdminActivity(
  * GET /api/admin/settings
  * Get admin settings
  */
-router.get('/settings', trySessionOrApiKey, requireAdmin, logAdminActivity('view_settings'), async (req, res) => {
+router.get('/settings', requireAuth, requireAdmin, logAdminActivity('view_settings'), async (req, res) => {
   try {
     // In a real implementation, these would come from a database
     const settings = {
@@ -446,7 +427,7 @@ router.get('/settings', trySessionOrApiKey, requireAdmin, logAdminActivity('view
  * PUT /api/admin/settings
  * Update admin settings
  */
-router.put('/settings', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('update_settings'), async (req, res) => {
+router.put('/settings', requireAuth, requireSuperAdmin, logAdminActivity('update_settings'), async (req, res) => {
   try {
     // In a real implementation, this would update the database
     // For now, we'll just acknowledge the update
@@ -466,23 +447,60 @@ router.put('/settings', trySessionOrApiKey, requireSuperAdmin, logAdminActivity(
   }
 });
 
+// A database round trip slower than this is reported as a warning
+const SLOW_DATABASE_MS = 500;
+
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'}, ${hours} hour${hours === 1 ? '' : 's'}`;
+  if (hours > 0) return `${hours} hour${hours === 1 ? '' : 's'}, ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
 /**
  * GET /api/admin/system-health
- * Get system health information
+ * Database round trip, process memory and uptime, backup disk usage and the latest backup
  */
-router.get('/system-health', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/system-health', requireAuth, requireAdmin, async (req, res) => {
   try {
-    // In a real implementation, these would be actual system checks
+    let databaseStatus: 'healthy' | 'warning' | 'error' = 'healthy';
+    let databaseLatencyMs: number | null = null;
+    const started = performance.now();
+    try {
+      await storage.checkConnection();
+      databaseLatencyMs = Math.round(performance.now() - started);
+      if (databaseLatencyMs > SLOW_DATABASE_MS) databaseStatus = 'warning';
+    } catch (error) {
+      console.error('Database health check error:', error);
+      databaseStatus = 'error';
+    }
+
+    const memory = process.memoryUsage();
+    const [lastBackup, diskUsagePercentage] = await Promise.all([
+      backupService.getLastBackup(),
+      backupService.getDiskUsagePercentage()
+    ]);
+
     const health = {
-      databaseStatus: 'healthy' as const,
+      databaseStatus,
+      databaseLatencyMs,
+      storageDriver: storageConfig.driver,
       apiKeysStatus: 'configured' as const,
       emailServiceStatus: 'active' as const,
-      diskUsagePercentage: Math.floor(Math.random() * 30) + 20, // 20-50%
-      memoryUsagePercentage: Math.floor(Math.random() * 40) + 30, // 30-70%
-      uptime: '5 days, 12 hours',
-      lastBackup: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() // 24 hours ago
+      diskUsagePercentage,
+      memoryUsagePercentage: Math.round((memory.rss / totalmem()) * 100),
+      memory: {
+        rssBytes: memory.rss,
+        heapUsedBytes: memory.heapUsed,
+        heapTotalBytes: memory.heapTotal
+      },
+      uptime: formatUptime(process.uptime()),
+      uptimeSeconds: Math.floor(process.uptime()),
+      lastBackup: lastBackup?.createdAt.toISOString() ?? null
     };
-    
+
     res.json({
       success: true,
       data: health
@@ -498,27 +516,46 @@ router.get('/system-health', trySessionOrApiKey, requireAdmin, async (req, res)
 
 /**
  * POST /api/admin/system/:action
- * Perform system actions (backup, cleanup, etc.)
+ * backup: queue a 'system.backup' job (snapshot all tables, then prune by retention).
+ * cleanup: prune backups outside the retention policy and delete expired sessions.
  */
-router.post('/system/:action', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('system_action'), async (req, res) => {
+router.post('/system/:action', requireAuth, requireSuperAdmin, logAdminActivity('system_action'), async (req, res) => {
   try {
     const { action } = req.params;
     
     switch (action) {
-      case 'backup':
-        // In a real implementation, this would trigger a backup
-        res.json({
+      case 'backup': {
+        const [pending, running] = await Promise.all([
+          storage.getJobs({ status: 'pending', name: 'system.backup', limit: 1 }),
+          storage.getJobs({ status: 'running', name: 'system.backup', limit: 1 })
+        ]);
+        if (pending.length > 0 || running.length > 0) {
+          return res.status(409).json({
+            success: false,
+            message: 'A backup is already queued or running'
+          });
+        }
+
+        const job = await jobQueue.enqueue('system.backup');
+        res.status(202).json({
           success: true,
-          message: 'Backup started successfully'
+          data: { job },
+          message: 'Backup queued'
         });
         break;
-      case 'cleanup':
-        // In a real implementation, this would perform cleanup tasks
+      }
+      case 'cleanup': {
+        const [prunedBackups, expiredSessions] = await Promise.all([
+          backupService.pruneBackups(),
+          storage.deleteExpiredUserSessions()
+        ]);
         res.json({
           success: true,
-          message: 'System cleanup completed successfully'
+          data: { prunedBackups, expiredSessions },
+          message: `Pruned ${prunedBackups.length} backups and ${expiredSessions} expired sessions`
         });
         break;
+      }
       default:
         res.status(400).json({
           success: false,
@@ -534,11 +571,56 @@ router.post('/system/:action', trySessionOrApiKey, requireSuperAdmin, logAdminAc
   }
 });
 
+/**
+ * GET /api/admin/system/backups
+ * Backups in the backup directory, newest first, with the retention policy
+ */
+router.get('/system/backups', requireAuth, requireSuperAdmin, async (req, res) => {
+  try {
+    const backups = await backupService.listBackups();
+    res.json({
+      success: true,
+      data: { backups, retention: backupService.retention }
+    });
+  } catch (error) {
+    console.error('List backups error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list backups'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/system/backups/:fileName/download
+ * Download a backup file (gzipped JSON)
+ */
+router.get('/system/backups/:fileName/download', requireAuth, requireSuperAdmin, logAdminActivity('download_backup', 'setting'), async (req, res) => {
+  try {
+    const filePath = backupService.resolveBackupPath(req.params.fileName);
+    const exists = filePath && await fs.access(filePath).then(() => true, () => false);
+    if (!filePath || !exists) {
+      return res.status(404).json({
+        success: false,
+        message: 'Backup not found'
+      });
+    }
+
+    res.download(filePath, req.params.fileName);
+  } catch (error) {
+    console.error('Download backup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download backup'
+    });
+  }
+});
+
 /**
  * GET /api/admin/notifications
  * Get admin notifications with pagination and filtering
  */
-router.get('/notifications', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/notifications', requireAuth, requireAdmin, async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -607,7 +689,7 @@ router.get('/notifications', trySessionOrApiKey, requireAdmin, async (req, res)
  * POST /api/admin/notifications
  * Send a new notification
  */
-router.post('/notifications', trySessionOrApiKey, requireAdmin, logAdminActivity('send_notification'), async (req, res) => {
+router.post('/notifications', requireAuth, requireAdmin, logAdminActivity('send_notification'), async (req, res) => {
   try {
     const { type, title, message, targetType, priority } = req.body;
     
@@ -651,7 +733,7 @@ router.post('/notifications', trySessionOrApiKey, requireAdmin, logAdminActivity
  * DELETE /api/admin/notifications/:notificationId
  * Delete a notification
  */
-router.delete('/notifications/:notificationId', trySessionOrApiKey, requireAdmin, logAdminActivity('delete_notification'), async (req, res) => {
+router.delete('/notifications/:notificationId', requireAuth, requireAdmin, logAdminActivity('delete_notification'), async (req, res) => {
   try {
     const { notificationId } = req.params;
     
@@ -673,7 +755,7 @@ router.delete('/notifications/:notificationId', trySessionOrApiKey, requireAdmin
  * GET /api/admin/notification-templates
  * Get notification templates
  */
-router.get('/notification-templates', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/notification-templates', requireAuth, requireAdmin, async (req, res) => {
   try {
     // In a real implementation, these would come from a database
     const templates = [
@@ -724,7 +806,7 @@ router.get('/notification-templates', trySessionOrApiKey, requireAdmin, async (r
  * GET /api/admin/api-keys
  * Get all API keys with user information
  */
-router.get('/api-keys', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/api-keys', requireAuth, requireAdmin, async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -782,7 +864,7 @@ router.get('/api-keys', trySessionOrApiKey, requireAdmin, async (req, res) => {
  * POST /api/admin/api-keys
  * Create API key for a user (admin only)
  */
-router.post('/api-keys', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('create_api_key'), async (req, res) => {
+router.post('/api-keys', requireAuth, requireSuperAdmin, logAdminActivity('create_api_key'), async (req, res) => {
   try {
     const { userId, name } = req.body;
 
@@ -839,7 +921,7 @@ router.post('/api-keys', trySessionOrApiKey, requireSuperAdmin, logAdminActivity
  * PUT /api/admin/api-keys/:keyId
  * Update API key status
  */
-router.put('/api-keys/:keyId', trySessionOrApiKey, requireAdmin, logAdminActivity('update_api_key'), async (req, res) => {
+router.put('/api-keys/:keyId', requireAuth, requireAdmin, logAdminActivity('update_api_key'), async (req, res) => {
   try {
     const { keyId } = req.params;
     const { isActive } = req.body;
@@ -871,7 +953,7 @@ router.put('/api-keys/:keyId', trySessionOrApiKey, requireAdmin, logAdminActivit
  * DELETE /api/admin/api-keys/:keyId
  * Delete API key
  */
-router.delete('/api-keys/:keyId', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('delete_api_key'), async (req, res) => {
+router.delete('/api-keys/:keyId', requireAuth, requireSuperAdmin, logAdminActivity('delete_api_key'), async (req, res) => {
   try {
     const { keyId } = req.params;
 
@@ -901,7 +983,7 @@ router.delete('/api-keys/:keyId', trySessionOrApiKey, requireSuperAdmin, logAdmi
  * GET /api/admin/users/:userId/details
  * Get detailed user information including subscriptions, usage, and analytics
  */
-router.get('/users/:userId/details', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/users/:userId/details', requireAuth, requireAdmin, async (req, res) => {
   try {
     const { userId } = req.params;
 
@@ -981,7 +1063,7 @@ router.get('/users/:userId/details', trySessionOrApiKey, requireAdmin, async (re
  * PUT /api/admin/users/:userId/permissions
  * Update user permissions and feature access
  */
-router.put('/users/:userId/permissions', trySessionOrApiKey, requireAdmin, logAdminActivity('update_user_permissions'), async (req, res) => {
+router.put('/users/:userId/permissions', requireAuth, requireAdmin, logAdminActivity('update_user_permissions'), async (req, res) => {
   try {
     const { userId } = req.params;
     const permissions = req.body;
@@ -1015,7 +1097,7 @@ router.put('/users/:userId/permissions', trySessionOrApiKey, requireAdmin, logAd
  * PUT /api/admin/users/:userId/plan
  * Update user's subscription plan
  */
-router.put('/users/:userId/plan', trySessionOrApiKey, requireAdmin, logAdminActivity('update_user_plan'), async (req, res) => {
+router.put('/users/:userId/plan', requireAuth, requireAdmin, logAdminActivity('update_user_plan'), async (req, res) => {
   try {
     const { userId } = req.params;
     const { planId, subscriptionStatus } = req.body;
@@ -1071,7 +1153,7 @@ router.put('/users/:userId/plan', trySessionOrApiKey, requireAdmin, logAdminActi
  * GET /api/admin/subscriptions
  * Get all user subscriptions with pagination and search
  */
-router.get('/subscriptions', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/subscriptions', requireAuth, requireAdmin, async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -1135,9 +1217,10 @@ router.get('/subscriptions', trySessionOrApiKey, requireAdmin, async (req, res)
  * GET /api/admin/subscriptions/stats
  * Get subscription analytics and statistics
  */
-router.get('/subscriptions/stats', trySessionOrApiKey, requireAdmin, async (req, res) => {
+router.get('/subscriptions/stats', requireAuth, requireAdmin, async (req, res) => {
   try {
     const subscriptions = await storage.getAllSubscriptions();
+    const converter = await currencyService.getConverterForUser(req.user!);
     
     const stats = {
       totalSubscriptions: subscriptions.length,
@@ -1152,7 +1235,8 @@ router.get('/subscriptions/stats', trySessionOrApiKey, requireAdmin, async (req,
       }, {}),
       totalRevenue: subscriptions
         .filter(s => s.isActive)
-        .reduce((sum: number, sub: any) => sum + parseFloat(sub.cost || '0'), 0)
+        .reduce((sum: number, sub: any) => sum + converter.convert(parseFloat(sub.cost || '0'), sub.currency), 0),
+      currency: converter.reportingCurrency
     };
     
     res.json({
@@ -1172,7 +1256,7 @@ router.get('/subscriptions/stats', trySessionOrApiKey, requireAdmin, async (req,
  * PUT /api/admin/subscriptions/:subscriptionId
  * Update subscription details
  */
-router.put('/subscriptions/:subscriptionId', trySessionOrApiKey, requireAdmin, logAdminActivity('update_subscription'), async (req, res) => {
+router.put('/subscriptions/:subscriptionId', requireAuth, requireAdmin, logAdminActivity('update_subscription'), async (req, res) => {
   try {
     const { subscriptionId } = req.params;
     const updates = req.body;
@@ -1186,6 +1270,8 @@ router.put('/subscriptions/:subscriptionId', trySessionOrApiKey, requireAdmin, l
       });
     }
 
+    await calendarSyncService.queueSubscriptionSync(updatedSubscription.userId, subscriptionId);
+
     res.json({
       success: true,
       data: updatedSubscription,
@@ -1204,10 +1290,19 @@ router.put('/subscriptions/:subscriptionId', trySessionOrApiKey, requireAdmin, l
  * DELETE /api/admin/subscriptions/:subscriptionId
  * Delete a subscription (admin only)
  */
-router.delete('/subscriptions/:subscriptionId', trySessionOrApiKey, requireSuperAdmin, logAdminActivity('delete_subscription'), async (req, res) => {
+router.delete('/subscriptions/:subscriptionId', requireAuth, requireSuperAdmin, logAdminActivity('delete_subscription'), async (req, res) => {
   try {
     const { subscriptionId } = req.params;
 
+    const subscription = await storage.getSubscription(subscriptionId);
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subscription not found'
+      });
+    }
+
+    await auditService.recordDeleted(subscription);
     const deleted = await storage.deleteSubscription(subscriptionId);
     
     if (!deleted) {
@@ -1217,6 +1312,9 @@ router.delete('/subscriptions/:subscriptionId', trySessionOrApiKey, requireSuper
       });
     }
 
+    // Removes its Google Calendar events
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscriptionId);
+
     res.json({
       success: true,
       message: 'Subscription deleted successfully'
@@ -1230,4 +1328,240 @@ router.delete('/subscriptions/:subscriptionId', trySessionOrApiKey, requireSuper
   }
 });
 
+/**
+ * GET /api/admin/exchange-rates
+ * List stored exchange rates (units per 1 USD)
+ */
+router.get('/exchange-rates', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const rates = await storage.getExchangeRates();
+    res.json({
+      success: true,
+      data: rates
+    });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch exchange rates'
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/exchange-rates/:currency
+ * Create or update a single exchange rate
+ */
+router.put('/exchange-rates/:currency', requireAuth, requireAdmin, logAdminActivity('update_exchange_rate', 'setting'), async (req, res) => {
+  const parsed = updateExchangeRateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid exchange rate',
+      errors: parsed.error.errors
+    });
+  }
+
+  const currency = req.params.currency.toUpperCase();
+  if (!isValidCurrencyCode(currency) || currency === BASE_CURRENCY) {
+    return res.status(400).json({
+      success: false,
+      message: currency === BASE_CURRENCY
+        ? `${BASE_CURRENCY} is the base currency and always has a rate of 1`
+        : `Invalid currency code: ${req.params.currency}`
+    });
+  }
+
+  try {
+    const rate = await currencyService.setRate(currency, parsed.data.rate, req.user!.id);
+    res.json({
+      success: true,
+      data: rate,
+      message: `Exchange rate for ${rate.currency} updated`
+    });
+  } catch (error) {
+    console.error('Update exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update exchange rate'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/exchange-rates/import
+ * Import exchange rates from the contents of a local JSON or CSV file
+ */
+router.post('/exchange-rates/import', requireAuth, requireAdmin, logAdminActivity('import_exchange_rates', 'setting'), async (req, res) => {
+  const parsed = importExchangeRatesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid import request',
+      errors: parsed.error.errors
+    });
+  }
+
+  let rates;
+  try {
+    rates = currencyService.parseRatesFile(parsed.data.content, parsed.data.format);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Invalid rates file'
+    });
+  }
+
+  try {
+    const saved = await currencyService.importRates(rates, req.user!.id);
+    res.json({
+      success: true,
+      data: saved,
+      message: `Imported ${saved.length} exchange rates`
+    });
+  } catch (error) {
+    console.error('Import exchange rates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import exchange rates'
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/exchange-rates/:currency
+ * Remove an exchange rate
+ */
+router.delete('/exchange-rates/:currency', requireAuth, requireAdmin, logAdminActivity('delete_exchange_rate', 'setting'), async (req, res) => {
+  try {
+    const deleted = await storage.deleteExchangeRate(req.params.currency.toUpperCase());
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Exchange rate not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete exchange rate'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/jobs
+ * List background jobs, optionally filtered by status ('pending', 'running', 'completed', 'dead') or name
+ */
+router.get('/jobs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const jobs = await storage.getJobs({
+      status: req.query.status as string | undefined,
+      name: req.query.name as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+    res.json({
+      success: true,
+      data: jobs
+    });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch jobs'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:jobId/retry
+ * Move a dead-lettered job back into the queue
+ */
+router.post('/jobs/:jobId/retry', requireAuth, requireAdmin, logAdminActivity('retry_job', 'setting'), async (req, res) => {
+  try {
+    const job = await storage.retryJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dead-lettered job not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job queued for retry'
+    });
+  } catch (error) {
+    console.error('Retry job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retry job'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/secrets/status
+ * Encryption keyring (ids only) and how many stored secrets still need re-encrypting
+ */
+router.get('/secrets/status', requireAuth, requireSuperAdmin, async (req, res) => {
+  try {
+    const status = await secretVault.getStatus();
+    res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Get secrets status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch secrets status'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/secrets/reencrypt
+ * Queue a background job that rotates every stored secret to the primary key.
+ * Secrets stay readable throughout because every key in the keyring can still decrypt.
+ */
+router.post('/secrets/reencrypt', requireAuth, requireSuperAdmin, logAdminActivity('reencrypt_secrets', 'setting'), async (req, res) => {
+  try {
+    const [pending, running] = await Promise.all([
+      storage.getJobs({ status: 'pending', name: 'secrets.reencrypt', limit: 1 }),
+      storage.getJobs({ status: 'running', name: 'secrets.reencrypt', limit: 1 })
+    ]);
+    if (pending.length > 0 || running.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'A re-encryption job is already queued or running'
+      });
+    }
+
+    const { primaryKeyId, pendingRotation } = await secretVault.getStatus();
+    const job = await jobQueue.enqueue('secrets.reencrypt', { primaryKeyId });
+
+    res.status(202).json({
+      success: true,
+      data: { job, primaryKeyId, pendingRotation },
+      message: `Re-encryption of ${pendingRotation} secrets to key "${primaryKeyId}" queued`
+    });
+  } catch (error) {
+    console.error('Queue secrets re-encryption error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to queue re-encryption'
+    });
+  }
+});
+
 export { router as adminRouter };
\ No newline at end of file
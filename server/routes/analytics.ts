@@ -1,28 +1,23 @@
 import { Router } from "express";
 import { storage } from "../storage";
-
-// Extend Express Request to include session
-declare global {
-  namespace Express {
-    interface Request {
-      session?: {
-        user?: {
-          id: string;
-          email: string;
-          name: string;
-        };
-      };
-    }
-  }
-}
+import { requireAuth } from "../middleware/auth";
+import { currencyService } from "../services/currency.service";
+import { getRecurrence, occurrencesBetween, toMonthlyCost, toYearlyCost } from "@shared/recurrence";
+import { isCancellationConfirmed, skippedRenewals } from "@shared/cancellation";
 
 const router = Router();
 
+// All routes require an authenticated user
+router.use(requireAuth);
+
 // Get subscription analytics by category
 router.get("/categories", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
-    const subscriptions = await storage.getUserSubscriptions(userId);
+    const userId = req.user!.id;
+    // Only what's still being paid for: paused, inactive and cancelled subscriptions cost nothing
+    const subscriptions = (await storage.getUserSubscriptions(userId))
+      .filter(sub => sub.isActive && !sub.pausedAt && !isCancellationConfirmed(sub));
+    const converter = await currencyService.getConverterForUser(req.user!);
     
     // Group subscriptions by category and calculate totals
     const categoryData = subscriptions.reduce((acc, sub) => {
@@ -40,15 +35,8 @@ router.get("/categories", async (req, res) => {
       acc[category].count += 1;
       acc[category].subscriptions.push(sub);
       
-      // Calculate monthly cost based on billing cycle
-      let monthlyCost = 0;
-      if (sub.billingCycle === 'monthly') {
-        monthlyCost = parseFloat(sub.cost);
-      } else if (sub.billingCycle === 'yearly') {
-        monthlyCost = parseFloat(sub.cost) / 12;
-      } else if (sub.billingCycle === 'weekly') {
-        monthlyCost = parseFloat(sub.cost) * 4.33; // ~4.33 weeks per month
-      }
+      // Average monthly cost for the billing cycle, in the reporting currency
+      const monthlyCost = toMonthlyCost(converter.convert(parseFloat(sub.cost), sub.currency), sub);
       
       acc[category].totalMonthlyCost += monthlyCost;
       acc[category].totalYearlyCost += monthlyCost * 12;
@@ -63,6 +51,8 @@ router.get("/categories", async (req, res) => {
     
     res.json({
       success: true,
+      currency: converter.reportingCurrency,
+      missingRates: converter.missingRates(),
       categories: categoriesArray,
       summary: {
         totalCategories: categoriesArray.length,
@@ -83,54 +73,47 @@ router.get("/categories", async (req, res) => {
 // Get peak payment months analysis
 router.get("/peak-months", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const subscriptions = await storage.getUserSubscriptions(userId);
+    const converter = await currencyService.getConverterForUser(req.user!);
     
-    // Calculate payments by month for the next 12 months
+    // Calculate payments by month for the next 12 months (starting with the current month)
+    const now = new Date();
+    const windowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const windowEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 12, 1) - 1);
     const monthlyPayments = Array.from({ length: 12 }, (_, i) => {
-      const date = new Date();
-      date.setMonth(date.getMonth() + i);
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + i, 1));
       return {
         month: date.toISOString().slice(0, 7), // YYYY-MM format
-        monthName: date.toLocaleString('default', { month: 'long', year: 'numeric' }),
+        monthName: date.toLocaleString('default', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
         payments: [] as any[],
         totalAmount: 0
       };
     });
     
-    // Calculate when each subscription will charge in the next 12 months
+    // Place every charge of each subscription that falls inside the window
     subscriptions.forEach(sub => {
-      const nextBilling = new Date(sub.nextBillingDate);
-      let currentBilling = new Date(nextBilling);
-      
-      // Calculate billing frequency in days
-      let billingIntervalDays = 30; // default monthly
-      if (sub.billingCycle === 'weekly') billingIntervalDays = 7;
-      else if (sub.billingCycle === 'yearly') billingIntervalDays = 365;
+      // Paused, or cancelled with the provider: no further charges
+      if (sub.pausedAt || isCancellationConfirmed(sub)) return;
+
+      const cost = converter.convert(parseFloat(sub.cost), sub.currency);
+      const billingDates = occurrencesBetween(new Date(sub.nextBillingDate), getRecurrence(sub), windowStart, windowEnd);
       
-      // Find all billing dates in the next 12 months
-      for (let i = 0; i < 24; i++) { // Check up to 24 iterations to cover all scenarios
-        const monthKey = currentBilling.toISOString().slice(0, 7);
-        const monthData = monthlyPayments.find(m => m.month === monthKey);
+      for (const billingDate of billingDates) {
+        const monthData = monthlyPayments.find(m => m.month === billingDate.toISOString().slice(0, 7));
         
         if (monthData) {
           monthData.payments.push({
             subscriptionId: sub.id,
             name: sub.name,
-            cost: parseFloat(sub.cost),
-            billingDate: currentBilling.toISOString(),
+            cost,
+            originalCost: parseFloat(sub.cost),
+            originalCurrency: sub.currency,
+            billingDate: billingDate.toISOString(),
             category: sub.category
           });
-          monthData.totalAmount += parseFloat(sub.cost);
+          monthData.totalAmount += cost;
         }
-        
-        // Move to next billing date
-        currentBilling = new Date(currentBilling.getTime() + (billingIntervalDays * 24 * 60 * 60 * 1000));
-        
-        // Stop if we're beyond 12 months from now
-        const oneYearFromNow = new Date();
-        oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
-        if (currentBilling > oneYearFromNow) break;
       }
     });
     
@@ -139,6 +122,8 @@ router.get("/peak-months", async (req, res) => {
     
     res.json({
       success: true,
+      currency: converter.reportingCurrency,
+      missingRates: converter.missingRates(),
       monthlyPayments,
       peakMonths: sortedMonths.slice(0, 3), // Top 3 peak months
       summary: {
@@ -160,8 +145,9 @@ router.get("/peak-months", async (req, res) => {
 // Get spending trends over time
 router.get("/trends", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
-    const history = await storage.getSubscriptionHistory(userId);
+    const userId = req.user!.id;
+    const history = await storage.getSubscriptionHistoryByUserId(userId);
+    const converter = await currencyService.getConverterForUser(req.user!);
     
     // Group by month for trend analysis
     const monthlyTrends = history.reduce((acc, record) => {
@@ -181,7 +167,7 @@ router.get("/trends", async (req, res) => {
       acc[monthKey].events.push(record);
       
       if (record.eventType === 'payment' && record.amount) {
-        acc[monthKey].totalSpent += parseFloat(record.amount);
+        acc[monthKey].totalSpent += converter.convert(parseFloat(record.amount), record.currency);
       }
       if (record.eventType === 'renewal') acc[monthKey].renewals += 1;
       if (record.eventType === 'cancel') acc[monthKey].cancelledSubscriptions += 1;
@@ -195,6 +181,8 @@ router.get("/trends", async (req, res) => {
     
     res.json({
       success: true,
+      currency: converter.reportingCurrency,
+      missingRates: converter.missingRates(),
       trends: trendsArray,
       summary: {
         totalMonths: trendsArray.length,
@@ -211,4 +199,118 @@ router.get("/trends", async (req, res) => {
   }
 });
 
+// Get money saved by cancelling subscriptions
+router.get("/savings", async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const subscriptions = await storage.getUserSubscriptions(userId);
+    const converter = await currencyService.getConverterForUser(req.user!);
+    const now = new Date();
+
+    // Every renewal skipped since a cancellation was confirmed counts as money saved
+    const cancelled = subscriptions
+      .filter(sub => isCancellationConfirmed(sub))
+      .map(sub => {
+        const cost = converter.convert(parseFloat(sub.cost), sub.currency);
+        const skipped = skippedRenewals(sub, now);
+        return {
+          subscriptionId: sub.id,
+          name: sub.name,
+          category: sub.category,
+          status: sub.cancellationStatus,
+          cancelledAt: sub.cancelledAt,
+          activeUntil: sub.nextBillingDate,
+          skippedRenewals: skipped.length,
+          totalSaved: skipped.length * cost,
+          monthlySaving: toMonthlyCost(cost, sub)
+        };
+      })
+      .sort((a, b) => b.totalSaved - a.totalSaved);
+
+    const planned = subscriptions.filter(sub => sub.isActive && sub.cancellationStatus === 'planned');
+
+    res.json({
+      success: true,
+      currency: converter.reportingCurrency,
+      missingRates: converter.missingRates(),
+      cancelled,
+      summary: {
+        totalSaved: cancelled.reduce((sum, c) => sum + c.totalSaved, 0),
+        monthlySaving: cancelled.reduce((sum, c) => sum + c.monthlySaving, 0),
+        cancelledCount: cancelled.length,
+        plannedCount: planned.length,
+        plannedMonthlySaving: planned.reduce((sum, sub) =>
+          sum + toMonthlyCost(converter.convert(parseFloat(sub.cost), sub.currency), sub), 0)
+      }
+    });
+  } catch (error) {
+    console.error("Get cancellation savings error:", error);
+    res.status(500).json({ 
+      success: false, 
+      error: "Failed to fetch cancellation savings" 
+    });
+  }
+});
+
+// Get price increases across the user's subscriptions over the last year
+router.get("/price-increases", async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const since = new Date();
+    since.setUTCFullYear(since.getUTCFullYear() - 1);
+
+    const [priceChanges, subscriptions] = await Promise.all([
+      storage.getPriceChangesByUserId(userId, since),
+      storage.getUserSubscriptions(userId)
+    ]);
+    const converter = await currencyService.getConverterForUser(req.user!);
+    const subscriptionsById = new Map(subscriptions.map(sub => [sub.id, sub]));
+
+    const increases = priceChanges
+      .map(change => {
+        const subscription = subscriptionsById.get(change.subscriptionId);
+        const oldPrice = converter.convert(parseFloat(change.previousAmount ?? "0"), change.previousCurrency ?? change.currency);
+        const newPrice = converter.convert(parseFloat(change.amount ?? "0"), change.currency);
+        // Yearly impact at the subscription's current billing cycle
+        const yearlyIncrease = subscription ? toYearlyCost(newPrice - oldPrice, subscription) : null;
+
+        return {
+          id: change.id,
+          subscriptionId: change.subscriptionId,
+          name: subscription?.name ?? change.description.match(/"([^"]+)"/)?.[1] ?? "Unknown Subscription",
+          effectiveDate: change.eventDate,
+          previousAmount: change.previousAmount,
+          previousCurrency: change.previousCurrency,
+          amount: change.amount,
+          currency: change.currency,
+          oldPrice,
+          newPrice,
+          increase: newPrice - oldPrice,
+          percentIncrease: oldPrice > 0 ? ((newPrice - oldPrice) / oldPrice) * 100 : null,
+          yearlyIncrease
+        };
+      })
+      .filter(change => change.increase > 0);
+
+    res.json({
+      success: true,
+      currency: converter.reportingCurrency,
+      missingRates: converter.missingRates(),
+      since: since.toISOString(),
+      increases,
+      summary: {
+        totalIncreases: increases.length,
+        subscriptionsAffected: new Set(increases.map(i => i.subscriptionId)).size,
+        totalYearlyIncrease: increases.reduce((sum, i) => sum + (i.yearlyIncrease ?? 0), 0)
+      }
+    });
+  } catch (error) {
+    console.error("Get price increases error:", error);
+    res.status(500).json({ 
+      success: false, 
+      error: "Failed to fetch price increases" 
+    });
+  }
+});
+
 export { router as analyticsRouter };
\ No newline at end of file
@@ -1,9 +1,15 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
-import { insertSubscriptionSchema, insertNotificationSchema } from '@shared/schema';
+import { insertSubscriptionSchema, insertNotificationSchema, subscriptionActiveFlagSchema } from '@shared/schema';
 import { authenticateApiKey, rateLimitByPlan, type AuthenticatedRequest } from '../middleware/auth';
 import { analyzeSubscriptions, generateSubscriptionSummary, calculateSubscriptionSummary, suggestCategory } from '../geminiService';
+import { currencyService } from '../services/currency.service';
+import { priceChangeService } from '../services/price-change.service';
+import { auditService } from '../services/audit.service';
+import { calendarSyncService } from '../services/calendar-sync.service';
+import { currencyCodeSchema } from '@shared/currency';
+import { BILLING_CYCLE_VALUES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from '@shared/recurrence';
 
 const apiRouter = Router();
 
@@ -61,10 +67,16 @@ apiRouter.get('/subscriptions/:id', async (req: AuthenticatedRequest, res) => {
 });
 
 // Create subscription via API
-const createSubscriptionApiSchema = insertSubscriptionSchema.extend({
+const subscriptionApiFields = insertSubscriptionSchema.extend({
+  currency: currencyCodeSchema.optional(),
+  billingCycle: z.enum(BILLING_CYCLE_VALUES),
+  customCycleUnit: z.enum(CUSTOM_CYCLE_UNITS).nullable().optional(),
+  isActive: subscriptionActiveFlagSchema.optional(),
   nextBillingDate: z.string().transform(val => new Date(val))
 });
 
+const createSubscriptionApiSchema = subscriptionApiFields.superRefine(refineCustomCycle);
+
 apiRouter.post('/subscriptions', async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
@@ -89,6 +101,8 @@ apiRouter.post('/subscriptions', async (req: AuthenticatedRequest, res) => {
       ...validatedData,
       userId: req.user.id
     });
+    await auditService.recordCreated(subscription, `Subscription "${subscription.name}" was created via the API`);
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscription.id);
 
     res.status(201).json({
       message: 'Subscription created successfully',
@@ -107,7 +121,7 @@ apiRouter.post('/subscriptions', async (req: AuthenticatedRequest, res) => {
 });
 
 // Update subscription via API
-const updateSubscriptionApiSchema = createSubscriptionApiSchema.partial();
+const updateSubscriptionApiSchema = subscriptionApiFields.partial().superRefine(refineCustomCycle);
 
 apiRouter.put('/subscriptions/:id', async (req: AuthenticatedRequest, res) => {
   try {
@@ -134,6 +148,10 @@ apiRouter.put('/subscriptions/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
+    await priceChangeService.recordPriceChange(existingSubscription, updatedSubscription);
+    await auditService.recordUpdate(existingSubscription, updatedSubscription);
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscriptionId);
+
     res.json({
       message: 'Subscription updated successfully',
       subscription: updatedSubscription
@@ -169,12 +187,16 @@ apiRouter.delete('/subscriptions/:id', async (req: AuthenticatedRequest, res) =>
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    await auditService.recordDeleted(existingSubscription);
     const deleted = await storage.deleteSubscription(subscriptionId);
     
     if (!deleted) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
+    // Removes its Google Calendar events
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscriptionId);
+
     res.json({ message: 'Subscription deleted successfully' });
   } catch (error) {
     console.error('Delete subscription API error:', error);
@@ -203,7 +225,9 @@ apiRouter.post('/subscriptions/sync', async (req: AuthenticatedRequest, res) =>
     if (operation === 'replace') {
       // Delete all existing subscriptions for this user
       for (const sub of currentSubscriptions) {
+        await auditService.recordDeleted(sub);
         await storage.deleteSubscription(sub.id);
+        await calendarSyncService.queueSubscriptionSync(req.user.id, sub.id);
       }
     }
 
@@ -224,6 +248,8 @@ apiRouter.post('/subscriptions/sync', async (req: AuthenticatedRequest, res) =>
         ...subData,
         userId: req.user.id
       });
+      await auditService.recordCreated(subscription, `Subscription "${subscription.name}" was created by an API sync`);
+      await calendarSyncService.queueSubscriptionSync(req.user.id, subscription.id);
       createdSubscriptions.push(subscription);
     }
 
@@ -276,7 +302,7 @@ apiRouter.get('/account', async (req: AuthenticatedRequest, res) => {
       } : null,
       stats: {
         totalSubscriptions: subscriptions.length,
-        activeSubscriptions: subscriptions.filter(s => s.isActive === 1).length,
+        activeSubscriptions: subscriptions.filter(s => s.isActive).length,
         totalApiKeys: apiKeys.length,
         activeApiKeys: apiKeys.filter(k => k.isActive).length
       }
@@ -415,7 +441,7 @@ apiRouter.post('/insights/generate', async (req: AuthenticatedRequest, res) => {
 
     // Get user's active subscriptions
     const subscriptions = await storage.getSubscriptionsByUserId(req.user.id);
-    const activeSubscriptions = subscriptions.filter(sub => sub.isActive === 1);
+    const activeSubscriptions = subscriptions.filter(sub => sub.isActive);
 
     if (activeSubscriptions.length === 0) {
       return res.json({
@@ -426,7 +452,7 @@ apiRouter.post('/insights/generate', async (req: AuthenticatedRequest, res) => {
     }
 
     // Generate AI insights
-    const insights = await analyzeSubscriptions(activeSubscriptions);
+    const insights = await analyzeSubscriptions(activeSubscriptions, req.user.id);
     
     // Create notifications from insights
     const createdNotifications = [];
@@ -447,7 +473,7 @@ apiRouter.post('/insights/generate', async (req: AuthenticatedRequest, res) => {
       message: 'AI insights generated successfully',
       insights: insights.length,
       notifications: createdNotifications,
-      summary: calculateSubscriptionSummary(subscriptions)
+      summary: calculateSubscriptionSummary(subscriptions, await currencyService.getConverterForUser(req.user))
     });
   } catch (error) {
     console.error('Generate insights API error:', error);
@@ -471,7 +497,7 @@ apiRouter.post('/insights/suggest-category', async (req: AuthenticatedRequest, r
     }
 
     const { name, description } = categorySuggestionSchema.parse(req.body);
-    const suggestedCategory = await suggestCategory(name, description);
+    const suggestedCategory = await suggestCategory(name, description, req.user.id);
     
     res.json({
       name,
@@ -3,30 +3,12 @@ import { z } from 'zod';
 import { storage } from '../storage';
 import { generateApiKey, hashApiKey } from '../utils/apiKeys';
 import { insertApiKeySchema, updateApiKeySchema } from '@shared/schema';
-import { authenticateApiKey, type AuthenticatedRequest } from '../middleware/auth';
-
-// Composite middleware: try session/JWT first, then API key, then dev fallback
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  // In production: require either session/JWT or API key authentication
-  if (process.env.NODE_ENV === 'production') {
-    // TODO: Add real session/JWT authentication here
-    // For now, fall back to API key authentication only
-    return authenticateApiKey(req, res, next);
-  }
-  
-  // Development only: simulate a logged-in user for testing
-  req.user = {
-    id: '1',
-    email: 'test@example.com', 
-    name: 'Test User'
-  };
-  next();
-}
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
 
 const apiKeysRouter = Router();
 
 // Get all API keys for authenticated user
-apiKeysRouter.get('/', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+apiKeysRouter.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -59,7 +41,7 @@ const createApiKeySchema = z.object({
   expiresAt: z.string().datetime().optional().transform(val => val ? new Date(val) : null)
 });
 
-apiKeysRouter.post('/', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+apiKeysRouter.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -118,7 +100,7 @@ apiKeysRouter.post('/', trySessionOrApiKey, async (req: AuthenticatedRequest, re
 });
 
 // Update API key (name, active status, expiration)
-apiKeysRouter.put('/:id', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+apiKeysRouter.put('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -168,7 +150,7 @@ apiKeysRouter.put('/:id', trySessionOrApiKey, async (req: AuthenticatedRequest,
 });
 
 // Delete API key
-apiKeysRouter.delete('/:id', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+apiKeysRouter.delete('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { storage } from '../storage';
 import { hashPassword, verifyPassword, generateApiKey, calculateTrialEndDate } from '../utils/apiKeys';
 import { insertUserSchema } from '@shared/schema';
+import { createSession, destroySession, destroyAllSessions } from '../middleware/session';
 
 const authRouter = Router();
 
@@ -57,7 +58,7 @@ authRouter.post('/register', async (req, res) => {
   }
 });
 
-// Login endpoint (simplified - in production, use proper JWT or session management)
+// Login endpoint - verifies credentials and starts a cookie-backed server session
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
@@ -77,12 +78,20 @@ authRouter.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    if (!user.isActive) {
+      return res.status(403).json({ error: 'Account is disabled' });
+    }
+
+    const session = await createSession(req, res, user.id);
+    const loggedInUser = await storage.updateUser(user.id, { lastLoginAt: new Date() }) || user;
+
     // Remove password from response
-    const { password: _, ...userResponse } = user;
+    const { password: _, ...userResponse } = loggedInUser;
     
     res.json({
       message: 'Login successful',
-      user: userResponse
+      user: userResponse,
+      expiresAt: session.expiresAt
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -96,4 +105,44 @@ authRouter.post('/login', async (req, res) => {
   }
 });
 
+// Logout endpoint - ends the current session only
+authRouter.post('/logout', async (req, res) => {
+  try {
+    await destroySession(req, res);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Logout from all devices - ends every session belonging to the user
+authRouter.post('/logout-all', async (req, res) => {
+  try {
+    if (!req.user || !req.session) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const sessionsEnded = await destroyAllSessions(req, res, req.user.id);
+    res.json({ message: 'Logged out from all devices', sessionsEnded });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Current session info
+authRouter.get('/session', async (req, res) => {
+  if (!req.user || !req.session) {
+    return res.status(401).json({ error: 'Not logged in' });
+  }
+
+  const { password, ...userResponse } = req.user;
+  res.json({
+    user: userResponse,
+    expiresAt: req.session.expiresAt,
+    isImpersonation: req.session.isImpersonation
+  });
+});
+
 export { authRouter };
\ No newline at end of file
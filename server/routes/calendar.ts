@@ -0,0 +1,80 @@
+import { Router, type Request } from "express";
+import { storage } from "../storage";
+import { requireAuth, type AuthenticatedRequest } from "../middleware/auth";
+import { calendarFeedService } from "../services/calendar-feed.service";
+
+const router = Router();
+
+const appUrl = (req: Request) => process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+
+// https:// for copying, webcal:// so Apple Calendar and Outlook offer to subscribe on click
+const feedUrls = (req: Request, token: string | null) => {
+  if (!token) return { enabled: false, url: null, webcalUrl: null };
+  const url = `${appUrl(req)}/api/calendar/${token}.ics`;
+  return { enabled: true, url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+// Feed URL for the signed-in user
+router.get("/feed", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const preferences = await storage.getUserNotificationPreferences(req.user.id);
+    res.json(feedUrls(req, preferences?.calendarFeedToken ?? null));
+  } catch (error) {
+    console.error("Get calendar feed error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a feed URL, or replace it so the old URL stops working
+router.post("/feed", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const token = await calendarFeedService.regenerateToken(req.user.id);
+    res.status(201).json(feedUrls(req, token));
+  } catch (error) {
+    console.error("Regenerate calendar feed error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Turn the feed off
+router.delete("/feed", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await calendarFeedService.revokeToken(req.user.id);
+    res.json(feedUrls(req, null));
+  } catch (error) {
+    console.error("Revoke calendar feed error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The feed itself. Calendar apps cannot log in, so the token in the URL is the only credential.
+router.get("/:token.ics", async (req, res) => {
+  try {
+    const feed = await calendarFeedService.getFeed(req.params.token, appUrl(req));
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="subtracker.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(feed);
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as calendarRouter };
@@ -1,12 +1,13 @@
 import { Router } from "express";
 import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
 
 export const configStatusRouter = Router();
 
 // Get configuration status for external services
-configStatusRouter.get("/", async (req, res) => {
+configStatusRouter.get("/", requireAuth, async (req, res) => {
   try {
-    const userId = "dev-user-1"; // Mock user ID for development
+    const userId = req.user!.id;
     
     // Get user's external API keys
     const userApiKeys = await storage.getUserExternalApiKeys(userId);
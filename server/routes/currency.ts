@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
+import { currencyService } from '../services/currency.service';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, currencyCodeSchema, normalizeCurrencyCode } from '@shared/currency';
+
+const reportingCurrencySchema = z.object({
+  reportingCurrency: currencyCodeSchema
+});
+
+export const currencyRouter = Router();
+
+currencyRouter.use(requireAuth);
+
+// Get exchange rates and the user's reporting currency (used by the dashboard to normalize totals)
+currencyRouter.get('/', async (req: any, res) => {
+  try {
+    const rates = await currencyService.getRates();
+
+    res.json({
+      baseCurrency: BASE_CURRENCY,
+      reportingCurrency: normalizeCurrencyCode(req.user.reportingCurrency),
+      rates,
+      supportedCurrencies: SUPPORTED_CURRENCIES
+    });
+  } catch (error) {
+    console.error('Get currency settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update the user's reporting currency
+currencyRouter.put('/reporting', async (req: any, res) => {
+  try {
+    const result = reportingCurrencySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid reporting currency',
+        details: result.error.errors
+      });
+    }
+
+    const { reportingCurrency } = result.data;
+    if (reportingCurrency !== BASE_CURRENCY && !(await storage.getExchangeRate(reportingCurrency))) {
+      return res.status(400).json({
+        error: `No exchange rate is configured for ${reportingCurrency}`
+      });
+    }
+
+    const user = await storage.updateUser(req.user.id, { reportingCurrency });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ reportingCurrency: user.reportingCurrency });
+  } catch (error) {
+    console.error('Update reporting currency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,94 @@
+import { Router, type Response } from "express";
+import {
+  emailActionService,
+  EmailActionError,
+  EMAIL_ACTIONS,
+  EMAIL_ACTION_LABELS,
+  type EmailAction
+} from "../services/email-action.service";
+
+const router = Router();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+function renderPage(res: Response, status: number, title: string, message: string, form?: { action: string; button: string }) {
+  res.status(status).set({ 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }).send(`
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta name="robots" content="noindex">
+        <title>${escapeHtml(title)} - SubTracker</title>
+        <style>
+          body { font-family: system-ui; max-width: 480px; margin: 80px auto; padding: 20px; color: #1e293b; }
+          .card { border: 1px solid #e2e8f0; border-radius: 8px; padding: 24px; }
+          h1 { font-size: 20px; margin: 0 0 12px 0; }
+          p { color: #475569; line-height: 1.5; }
+          .btn { padding: 10px 18px; background: #0079F2; color: white; border: none; border-radius: 6px; cursor: pointer; font-size: 15px; }
+          a { color: #0079F2; }
+        </style>
+      </head>
+      <body>
+        <div class="card">
+          <h1>${escapeHtml(title)}</h1>
+          <p>${escapeHtml(message)}</p>
+          ${form ? `
+            <form method="POST" action="${escapeHtml(form.action)}">
+              <button type="submit" class="btn">${escapeHtml(form.button)}</button>
+            </form>
+          ` : ''}
+          <p><a href="${escapeHtml(emailActionService.appUrl())}/dashboard">Open SubTracker</a></p>
+        </div>
+      </body>
+    </html>
+  `);
+}
+
+const isEmailAction = (value: string): value is EmailAction => (EMAIL_ACTIONS as readonly string[]).includes(value);
+
+// Links in reminder emails land here. Nothing changes until the button on the page is pressed,
+// so link scanners and previews that follow the URL can't act on the user's behalf.
+router.get("/:action", async (req, res) => {
+  try {
+    const { action } = req.params;
+    if (!isEmailAction(action)) {
+      return renderPage(res, 404, 'Link not found', 'This link is not one SubTracker sends.');
+    }
+
+    const claims = emailActionService.verifyToken(String(req.query.token ?? ''), action);
+    renderPage(res, 200, EMAIL_ACTION_LABELS[action], await emailActionService.describe(claims), {
+      action: req.originalUrl,
+      button: EMAIL_ACTION_LABELS[action]
+    });
+  } catch (error) {
+    if (error instanceof EmailActionError) {
+      return renderPage(res, 400, 'Link not valid', `${error.message}. Open SubTracker to manage your subscriptions instead.`);
+    }
+    console.error("Email action page error:", error);
+    renderPage(res, 500, 'Something went wrong', 'Please try again later.');
+  }
+});
+
+// The confirmation form, and RFC 8058 one-click unsubscribe: mail clients POST
+// "List-Unsubscribe=One-Click" to the List-Unsubscribe URL without showing a page
+router.post("/:action", async (req, res) => {
+  try {
+    const { action } = req.params;
+    if (!isEmailAction(action)) {
+      return renderPage(res, 404, 'Link not found', 'This link is not one SubTracker sends.');
+    }
+
+    const claims = emailActionService.verifyToken(String(req.query.token ?? ''), action);
+    renderPage(res, 200, 'Done', await emailActionService.perform(claims));
+  } catch (error) {
+    if (error instanceof EmailActionError) {
+      return renderPage(res, 400, 'Link not valid', `${error.message}. Open SubTracker to manage your subscriptions instead.`);
+    }
+    console.error("Email action error:", error);
+    renderPage(res, 500, 'Something went wrong', 'Please try again later.');
+  }
+});
+
+export { router as emailActionsRouter };
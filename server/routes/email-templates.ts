@@ -0,0 +1,213 @@
+import { Router } from 'express';
+import type { EmailTemplate } from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { emailTemplateService, EmailTemplateError } from '../services/email-template.service';
+import {
+  createEmailTemplateSchema,
+  updateEmailTemplateSchema,
+  previewEmailTemplateSchema,
+  selectEmailTemplateSchema
+} from '@shared/email-templates';
+
+export const emailTemplatesRouter = Router();
+
+emailTemplatesRouter.use(requireAuth);
+
+const toResponse = (template: EmailTemplate, req: AuthenticatedRequest) => ({
+  ...template,
+  shared: template.userId === null,
+  editable: emailTemplateService.canEdit(template, req.user!)
+});
+
+// A template the signed-in user may change, or a response has already been sent
+async function findEditableTemplate(req: AuthenticatedRequest, res: any) {
+  const template = await storage.getEmailTemplate(req.params.id);
+  if (!template || !emailTemplateService.canUse(template, req.user!.id)) {
+    res.status(404).json({ error: 'Email template not found' });
+    return undefined;
+  }
+
+  if (!emailTemplateService.canEdit(template, req.user!)) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+
+  return template;
+}
+
+// The user's templates and the shared ones, which one reminders use, and whether the user may share templates
+emailTemplatesRouter.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const templates = await storage.getEmailTemplatesForUser(req.user.id);
+    const preferences = await storage.getUserNotificationPreferences(req.user.id);
+    res.json({
+      templates: templates.map(template => toResponse(template, req)),
+      selectedTemplateId: preferences?.emailTemplateId ?? null,
+      canShare: emailTemplateService.canShare(req.user)
+    });
+  } catch (error) {
+    console.error('Get email templates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+emailTemplatesRouter.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = createEmailTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid email template',
+        details: result.error.errors
+      });
+    }
+
+    const { shared, ...fields } = result.data;
+    if (shared && !emailTemplateService.canShare(req.user)) {
+      return res.status(403).json({ error: 'Only admins can share templates with every user' });
+    }
+
+    const invalid = emailTemplateService.validate(fields.body);
+    if (invalid) {
+      return res.status(400).json({ error: 'Template does not compile', details: invalid });
+    }
+
+    const template = await storage.createEmailTemplate({ ...fields, userId: shared ? null : req.user.id });
+    res.status(201).json(toResponse(template, req));
+  } catch (error) {
+    console.error('Create email template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Render a saved template, unsaved template text or a built-in style against the user's own subscriptions
+emailTemplatesRouter.post('/preview', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = previewEmailTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid preview request',
+        details: result.error.errors
+      });
+    }
+
+    const { body, templateId, builtIn, subscriptionId, daysBefore } = result.data;
+    const preferences = await storage.getUserNotificationPreferences(req.user.id);
+    const data = await emailTemplateService.previewData(req.user, preferences, subscriptionId, daysBefore);
+    if (!data) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (builtIn) {
+      return res.json({ html: emailTemplateService.renderBuiltIn(builtIn, data) });
+    }
+
+    let source = body;
+    if (templateId) {
+      const template = await storage.getEmailTemplate(templateId);
+      if (!template || !emailTemplateService.canUse(template, req.user.id)) {
+        return res.status(404).json({ error: 'Email template not found' });
+      }
+      source = template.body;
+    }
+
+    res.json({ html: emailTemplateService.renderCustom(source!, data) });
+  } catch (error) {
+    if (error instanceof EmailTemplateError) {
+      return res.status(400).json({ error: 'Template could not be rendered', details: error.message });
+    }
+    console.error('Preview email template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Use a template for reminder emails, or go back to the built-in style with { templateId: null }
+emailTemplatesRouter.put('/selection', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = selectEmailTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid template selection',
+        details: result.error.errors
+      });
+    }
+
+    const { templateId } = result.data;
+    if (templateId) {
+      const template = await storage.getEmailTemplate(templateId);
+      if (!template || !emailTemplateService.canUse(template, req.user.id)) {
+        return res.status(404).json({ error: 'Email template not found' });
+      }
+    }
+
+    const preferences = await storage.setEmailTemplateId(req.user.id, templateId);
+    res.json({ templateId: preferences.emailTemplateId });
+  } catch (error) {
+    console.error('Select email template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+emailTemplatesRouter.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const template = await findEditableTemplate(req, res);
+    if (!template) return;
+
+    const result = updateEmailTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid email template',
+        details: result.error.errors
+      });
+    }
+
+    const invalid = result.data.body !== undefined ? emailTemplateService.validate(result.data.body) : null;
+    if (invalid) {
+      return res.status(400).json({ error: 'Template does not compile', details: invalid });
+    }
+
+    const updated = await storage.updateEmailTemplate(template.id, result.data);
+    res.json(toResponse(updated!, req));
+  } catch (error) {
+    console.error('Update email template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Users who picked the template go back to their built-in style
+emailTemplatesRouter.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const template = await findEditableTemplate(req, res);
+    if (!template) return;
+
+    await storage.deleteEmailTemplate(template.id);
+    res.json({ message: 'Email template deleted successfully' });
+  } catch (error) {
+    console.error('Delete email template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
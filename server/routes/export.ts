@@ -1,27 +1,19 @@
 import { Router } from "express";
 import { storage } from "../storage";
-
-// Extend Express Request to include session
-declare global {
-  namespace Express {
-    interface Request {
-      session?: {
-        user?: {
-          id: string;
-          email: string;
-          name: string;
-        };
-      };
-    }
-  }
-}
+import { requireAuth } from "../middleware/auth";
+import { currencyService } from "../services/currency.service";
+import { toMonthlyCost } from "@shared/recurrence";
+import { accountArchiveService } from "../services/account-archive.service";
 
 const router = Router();
 
+// All routes require an authenticated user
+router.use(requireAuth);
+
 // Export subscriptions to CSV
 router.get("/subscriptions/csv", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const subscriptions = await storage.getUserSubscriptions(userId);
     
     // Define CSV headers
@@ -29,6 +21,7 @@ router.get("/subscriptions/csv", async (req, res) => {
       "Name",
       "Category", 
       "Cost",
+      "Currency",
       "Billing Cycle",
       "Next Billing Date",
       "Status",
@@ -48,6 +41,7 @@ router.get("/subscriptions/csv", async (req, res) => {
       sub.name || "",
       sub.category || "",
       sub.cost || "0",
+      sub.currency || "USD",
       sub.billingCycle || "",
       sub.nextBillingDate ? new Date(sub.nextBillingDate).toISOString().split('T')[0] : "",
       sub.isActive ? "Active" : "Inactive",
@@ -96,7 +90,7 @@ router.get("/subscriptions/csv", async (req, res) => {
 // Export subscription history to CSV
 router.get("/history/csv", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const history = await storage.getSubscriptionHistory(userId);
     
     // Define CSV headers
@@ -159,8 +153,9 @@ router.get("/history/csv", async (req, res) => {
 // Export analytics data to CSV
 router.get("/analytics/csv", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const subscriptions = await storage.getUserSubscriptions(userId);
+    const converter = await currencyService.getConverterForUser(req.user!);
     
     // Calculate category analytics
     const categoryData = subscriptions.reduce((acc, sub) => {
@@ -176,14 +171,7 @@ router.get("/analytics/csv", async (req, res) => {
       
       acc[category].count += 1;
       
-      let monthlyCost = 0;
-      if (sub.billingCycle === 'monthly') {
-        monthlyCost = parseFloat(sub.cost);
-      } else if (sub.billingCycle === 'yearly') {
-        monthlyCost = parseFloat(sub.cost) / 12;
-      } else if (sub.billingCycle === 'weekly') {
-        monthlyCost = parseFloat(sub.cost) * 4.33;
-      }
+      const monthlyCost = toMonthlyCost(converter.convert(parseFloat(sub.cost), sub.currency), sub);
       
       acc[category].totalMonthlyCost += monthlyCost;
       acc[category].totalYearlyCost += monthlyCost * 12;
@@ -195,9 +183,9 @@ router.get("/analytics/csv", async (req, res) => {
     const headers = [
       "Category",
       "Subscription Count", 
-      "Total Monthly Cost",
-      "Total Yearly Cost",
-      "Average Cost Per Subscription"
+      `Total Monthly Cost (${converter.reportingCurrency})`,
+      `Total Yearly Cost (${converter.reportingCurrency})`,
+      `Average Cost Per Subscription (${converter.reportingCurrency})`
     ];
     
     // Convert analytics to CSV rows
@@ -232,4 +220,25 @@ router.get("/analytics/csv", async (req, res) => {
   }
 });
 
+// Export the whole account as a JSON archive (see shared/account-archive.ts); import it with POST /api/import
+router.get("/account", async (req, res) => {
+  try {
+    const archive = await accountArchiveService.exportAccount(req.user!);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const filename = `subtracker_account_${timestamp}.json`;
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(JSON.stringify(archive, null, 2));
+
+  } catch (error) {
+    console.error("Export account error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to export account"
+    });
+  }
+});
+
 export { router as exportRouter };
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { googleCalendarService } from '../services/google-calendar.service';
 import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
 
 export const googleAuthRouter = Router();
 
+googleAuthRouter.use(requireAuth);
+
 // GET /api/auth/google/calendar - Start OAuth flow
 googleAuthRouter.get('/calendar', async (req, res) => {
   try {
@@ -34,7 +37,7 @@ googleAuthRouter.get('/callback', async (req, res) => {
       });
     }
 
-    const userId = req.session?.user?.id || "dev-user-1"; // Mock user for development
+    const userId = req.user!.id;
     const tokens = await googleCalendarService.getTokens(code as string);
     
     // Update user notification preferences with Google Calendar tokens
@@ -66,7 +69,7 @@ googleAuthRouter.get('/callback', async (req, res) => {
 // POST /api/auth/google/refresh - Refresh Google Calendar token
 googleAuthRouter.post('/refresh', async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "dev-user-1"; // Mock user for development
+    const userId = req.user!.id;
     const preferences = await storage.getUserNotificationPreferences(userId);
     
     if (!preferences?.googleRefreshToken) {
@@ -100,7 +103,7 @@ googleAuthRouter.post('/refresh', async (req, res) => {
 // DELETE /api/auth/google/disconnect - Disconnect Google Calendar
 googleAuthRouter.delete('/disconnect', async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "dev-user-1"; // Mock user for development
+    const userId = req.user!.id;
     
     // Clear Google Calendar credentials
     await storage.updateUserNotificationPreferences(userId, {
@@ -0,0 +1,124 @@
+import { Router } from "express";
+import { requireAuth, type AuthenticatedRequest } from "../middleware/auth";
+import { storage } from "../storage";
+import { accountArchiveService } from "../services/account-archive.service";
+import { statementImportService, StatementParseError } from "../services/statement-import.service";
+import { ACCOUNT_ARCHIVE_VERSION, accountArchiveSchema, importRequestSchema } from "@shared/account-archive";
+import { analyzeStatementSchema, applyStatementSchema } from "@shared/statement-import";
+
+const router = Router();
+
+router.use(requireAuth);
+
+/**
+ * Import an account archive from GET /api/export/account.
+ * Body: { archive, mode: 'merge' | 'replace' (default merge), dryRun: boolean }
+ */
+router.post("/", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const request = importRequestSchema.safeParse(req.body);
+    if (!request.success) {
+      return res.status(400).json({
+        error: 'Invalid import request',
+        details: request.error.errors
+      });
+    }
+
+    const version = (request.data.archive as { schemaVersion?: unknown } | null)?.schemaVersion;
+    if (version !== ACCOUNT_ARCHIVE_VERSION) {
+      return res.status(400).json({
+        error: `Unsupported archive schema version ${JSON.stringify(version ?? null)} (expected ${ACCOUNT_ARCHIVE_VERSION})`
+      });
+    }
+
+    const archive = accountArchiveSchema.safeParse(request.data.archive);
+    if (!archive.success) {
+      return res.status(400).json({
+        error: 'Invalid archive',
+        details: archive.error.errors
+      });
+    }
+
+    const { mode, dryRun } = request.data;
+    const report = await accountArchiveService.importAccount(req.user, archive.data, mode, dryRun);
+    res.json(report);
+  } catch (error) {
+    console.error("Import account error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Find recurring charges in a bank or credit-card statement. Nothing is saved.
+ * Body: { format: 'csv' | 'ofx', content, mapping?, currency? }
+ */
+router.post("/statement/analyze", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = analyzeStatementSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid statement',
+        details: result.error.errors
+      });
+    }
+
+    const { format, content, mapping, currency } = result.data;
+    const analysis = await statementImportService.analyzeStatement(
+      req.user, format, content, mapping, currency ?? req.user.reportingCurrency
+    );
+    res.json(analysis);
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Analyze statement error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create subscriptions from reviewed statement charges, or record them as payments on existing ones.
+ * Body: { charges: [{ action: 'create', name, cost, ..., transactions } | { action: 'match', subscriptionId, transactions }] }
+ */
+router.post("/statement/apply", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = applyStatementSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid statement import',
+        details: result.error.errors
+      });
+    }
+
+    for (const charge of result.data.charges) {
+      if (charge.action !== 'match') continue;
+      const subscription = await storage.getSubscription(charge.subscriptionId);
+      if (!subscription) {
+        return res.status(404).json({ error: 'Subscription not found' });
+      }
+      if (subscription.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+    }
+
+    const applied = await statementImportService.applyCharges(req.user, result.data);
+    res.status(201).json(applied);
+  } catch (error) {
+    console.error("Apply statement error:", error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as importRouter };
@@ -2,32 +2,15 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
 import { insertNotificationSchema } from '@shared/schema';
+import { requireAuth } from '../middleware/auth';
 import { analyzeSubscriptions, generateSubscriptionSummary, calculateSubscriptionSummary, suggestCategory } from '../geminiService';
+import { currencyService } from '../services/currency.service';
 import { checkTrialExpiries, generateTrialExpiryNotifications, processExpiredTrials } from '../trialService';
 
 const notificationsRouter = Router();
 
-// Session-based authentication middleware (same as used in apiKeys.ts)
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  // In production: require either session/JWT or API key authentication
-  if (process.env.NODE_ENV === 'production') {
-    // TODO: Add real session/JWT authentication here
-    // For now, fall back to API key authentication only
-    const { authenticateApiKey } = await import('../middleware/auth');
-    return authenticateApiKey(req, res, next);
-  }
-  
-  // Development only: simulate a logged-in user for testing
-  req.user = {
-    id: 'dev-user-1',
-    email: 'test@example.com', 
-    name: 'Test User'
-  };
-  next();
-}
-
 // Apply session-based authentication to all notification routes
-notificationsRouter.use(trySessionOrApiKey);
+notificationsRouter.use(requireAuth);
 
 // Get all notifications for user
 notificationsRouter.get('/', async (req: any, res) => {
@@ -157,12 +140,7 @@ notificationsRouter.post('/insights/generate', async (req: any, res) => {
     console.log('All subscriptions for insights:', subscriptions);
     console.log('Checking isActive values:', subscriptions.map(sub => ({ id: sub.id, name: sub.name, isActive: sub.isActive, type: typeof sub.isActive })));
     
-    // Filter for active subscriptions (handle both numeric and boolean values)
-    const activeSubscriptions = subscriptions.filter(sub => {
-      // Convert to boolean to handle different types
-      const isActive = sub.isActive;
-      return Boolean(isActive && isActive !== 0 && (typeof isActive !== 'string' || isActive !== '0'));
-    });
+    const activeSubscriptions = subscriptions.filter(sub => sub.isActive);
     
     console.log('Active subscriptions found:', activeSubscriptions.length);
 
@@ -179,7 +157,7 @@ notificationsRouter.post('/insights/generate', async (req: any, res) => {
     }
 
     // Generate AI insights
-    const insights = await analyzeSubscriptions(activeSubscriptions);
+    const insights = await analyzeSubscriptions(activeSubscriptions, req.user.id);
     
     // Create notifications from insights
     const createdNotifications = [];
@@ -200,7 +178,11 @@ notificationsRouter.post('/insights/generate', async (req: any, res) => {
       message: 'AI insights generated successfully',
       insights: insights.length,
       notifications: createdNotifications,
-      summary: await generateSubscriptionSummary(activeSubscriptions)
+      summary: await generateSubscriptionSummary(
+        activeSubscriptions,
+        req.user.id,
+        await currencyService.getConverterForUser(req.user)
+      )
     });
   } catch (error) {
     console.error('Generate insights web error:', error);
@@ -224,7 +206,7 @@ notificationsRouter.post('/insights/suggest-category', async (req: any, res) =>
     }
 
     const { name, description } = categorySuggestionSchema.parse(req.body);
-    const suggestedCategory = await suggestCategory(name, description);
+    const suggestedCategory = await suggestCategory(name, description, req.user.id);
     
     res.json({
       name,
@@ -252,10 +234,7 @@ notificationsRouter.get('/insights/latest', async (req: any, res) => {
 
     // Get user's active subscriptions for summary
     const subscriptions = await storage.getSubscriptionsByUserId(req.user.id);
-    const activeSubscriptions = subscriptions.filter(sub => {
-      const isActive = sub.isActive;
-      return Boolean(isActive && isActive !== 0 && (typeof isActive !== 'string' || isActive !== '0'));
-    });
+    const activeSubscriptions = subscriptions.filter(sub => sub.isActive);
 
     // Get recent AI-generated notifications (insights)
     const notifications = await storage.getNotificationsByUserId(req.user.id);
@@ -272,7 +251,8 @@ notificationsRouter.get('/insights/latest', async (req: any, res) => {
       }));
 
     // Generate summary
-    const summary = calculateSubscriptionSummary(subscriptions);
+    const converter = await currencyService.getConverterForUser(req.user);
+    const summary = calculateSubscriptionSummary(subscriptions, converter);
 
     res.json({
       message: 'Latest insights retrieved',
@@ -337,10 +317,7 @@ notificationsRouter.get('/trials/status', async (req: any, res) => {
     const expiryChecks = await checkTrialExpiries(req.user.id);
     const subscriptions = await storage.getSubscriptionsByUserId(req.user.id);
     
-    const trialSubscriptions = subscriptions.filter(sub => {
-      const isActive = Boolean(sub.isActive && sub.isActive !== 0 && (typeof sub.isActive !== 'string' || sub.isActive !== '0'));
-      return isActive && sub.isTrial;
-    });
+    const trialSubscriptions = subscriptions.filter(sub => sub.isActive && sub.isTrial);
 
     res.json({
       totalTrials: trialSubscriptions.length,
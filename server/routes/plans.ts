@@ -1,47 +1,7 @@
 import { Router } from "express";
 import { z } from "zod";
 import { storage } from "../storage";
-import { authenticateApiKey } from "../middleware/auth";
-import type { AuthenticatedRequest } from "../middleware/auth";
-
-// Session authentication middleware that allows both session and API key auth
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  try {
-    // First try session authentication
-    if (req.session?.userId) {
-      const user = await storage.getUser(req.session.userId);
-      if (user) {
-        req.user = user;
-        return next();
-      }
-    }
-
-    // Development fallback - create a stub user
-    if (process.env.NODE_ENV === 'development') {
-      let user = await storage.getUser('1');
-      if (!user) {
-        // Create the development user in the database
-        user = await storage.createUser({
-          email: 'test@example.com',
-          name: 'Test User',
-          password: 'dev-password-hash',
-          subscriptionStatus: 'trial',
-          planId: null,
-          trialEndsAt: null
-        });
-        console.log('Created development user:', user.id);
-      }
-      req.user = user;
-      return next();
-    }
-
-    // Fallback to API key authentication if session auth fails
-    return authenticateApiKey(req, res, next);
-  } catch (error) {
-    console.error('Auth middleware error:', error);
-    return res.status(500).json({ error: 'Authentication error' });
-  }
-}
+import { requireAuth, type AuthenticatedRequest } from "../middleware/auth";
 
 const plansRouter = Router();
 
@@ -88,7 +48,7 @@ const updatePlanSchema = z.object({
   planId: z.string().min(1, 'Plan ID is required'),
 });
 
-plansRouter.post('/upgrade', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+plansRouter.post('/upgrade', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -155,7 +115,7 @@ plansRouter.post('/upgrade', trySessionOrApiKey, async (req: AuthenticatedReques
 });
 
 // Cancel subscription (downgrade to free/trial)
-plansRouter.post('/cancel', trySessionOrApiKey, async (req: AuthenticatedRequest, res) => {
+plansRouter.post('/cancel', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
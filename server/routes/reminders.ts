@@ -1,36 +1,30 @@
 import { Router } from "express";
 import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
 import {
   insertUserNotificationPreferencesSchema,
   updateUserNotificationPreferencesSchema,
   insertSubscriptionReminderSchema,
+  SERVER_MANAGED_PREFERENCE_FIELDS,
 } from "@shared/schema";
 import { z } from "zod";
 import { EmailService } from "../services/email.service";
+import { digestService } from "../services/digest.service";
+import { whatsappService } from "../services/whatsapp.service";
 import { storeApiKey } from '../routes/userExternalApiKeys';
-
-// Extend Express Request to include session
-declare global {
-  namespace Express {
-    interface Request {
-      session?: {
-        user?: {
-          id: string;
-          email: string;
-          name: string;
-        };
-      };
-    }
-  }
-}
+import { secretVault } from "../services/secret-vault.service";
+import { CHAT_CHANNELS, CHAT_CHANNEL_FIELDS, chatWebhookUrlError } from "@shared/chat-channels";
 
 const router = Router();
+
+// All routes require an authenticated user
+router.use(requireAuth);
 const emailService = new EmailService();
 
 // Get user notification preferences
 router.get("/preferences", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const preferences = await storage.getUserNotificationPreferences(userId);
     
     res.json({
@@ -46,9 +40,17 @@ router.get("/preferences", async (req, res) => {
         browserNotificationEnabled: true,
         whatsappEnabled: false,
         whatsappNumber: null,
+        slackEnabled: false,
+        discordEnabled: false,
+        teamsEnabled: false,
+        telegramEnabled: false,
         reminderDaysBefore: [7, 3, 1],
         reminderTime: "09:00",
-        timezone: "UTC"
+        timezone: "UTC",
+        quietHoursEnabled: false,
+        quietHoursStart: "22:00",
+        quietHoursEnd: "07:00",
+        digestFrequency: "off"
       }
     });
   } catch (error) {
@@ -63,8 +65,36 @@ router.get("/preferences", async (req, res) => {
 // Update user notification preferences
 router.put("/preferences", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const updateData = updateUserNotificationPreferencesSchema.parse(req.body);
+
+    // Encrypted columns are only ever written by the vault, never taken from the client. The
+    // Telegram chat is only linked through the bot (see /api/telegram) and WhatsApp numbers are
+    // verified through /api/whatsapp/verification.
+    for (const field of SERVER_MANAGED_PREFERENCE_FIELDS) {
+      delete updateData[field];
+    }
+    if (typeof req.body.smtpPassword === 'string' && req.body.smtpPassword.trim() !== '') {
+      updateData.smtpPasswordEncrypted = secretVault.encrypt(req.body.smtpPassword);
+    }
+    if (typeof req.body.whatsappAccessToken === 'string' && req.body.whatsappAccessToken.trim() !== '') {
+      updateData.whatsappAccessTokenEncrypted = secretVault.encrypt(req.body.whatsappAccessToken.trim());
+    }
+    // Chat apps: slackWebhookUrl, discordWebhookUrl, teamsWebhookUrl. Absent keeps the saved URL;
+    // null or '' removes it.
+    for (const channel of CHAT_CHANNELS) {
+      const column = CHAT_CHANNEL_FIELDS[channel].webhookUrl;
+      const webhookUrl = req.body[`${channel}WebhookUrl`];
+      if (webhookUrl === null || (typeof webhookUrl === 'string' && webhookUrl.trim() === '')) {
+        updateData[column] = null;
+      } else if (typeof webhookUrl === 'string') {
+        const invalid = chatWebhookUrlError(channel, webhookUrl);
+        if (invalid) {
+          return res.status(400).json({ success: false, error: invalid });
+        }
+        updateData[column] = secretVault.encrypt(webhookUrl.trim());
+      }
+    }
     
     // Handle Resend API key storage using userExternalApiKeys system
     if (req.body.resendApiKey && req.body.resendApiKey.trim() !== '') {
@@ -72,9 +102,6 @@ router.put("/preferences", async (req, res) => {
         // Store the API key using the userExternalApiKeys system
         await storeApiKey(userId, 'resend', req.body.resendApiKey);
         console.log('Resend API key stored successfully in userExternalApiKeys');
-        
-        // Don't store the key in the preferences table
-        delete updateData.resendApiKeyEncrypted;
       } catch (error) {
         console.error('Failed to store Resend API key:', error);
         return res.status(400).json({
@@ -84,7 +111,13 @@ router.put("/preferences", async (req, res) => {
       }
     }
     
-    const updatedPreferences = await storage.updateUserNotificationPreferences(userId, updateData);
+    let updatedPreferences = await storage.updateUserNotificationPreferences(userId, updateData);
+    // A changed WhatsApp number has to be verified again before replies from it are acted on
+    const verifiedNumber = updatedPreferences?.whatsappVerifiedNumber;
+    if (verifiedNumber && (!updatedPreferences?.whatsappNumber ||
+        whatsappService.formatPhoneNumber(updatedPreferences.whatsappNumber) !== verifiedNumber)) {
+      updatedPreferences = await storage.setWhatsAppVerifiedNumber(userId, null);
+    }
     
     res.json({
       success: true,
@@ -110,7 +143,7 @@ router.put("/preferences", async (req, res) => {
 // Get upcoming reminders for user
 router.get("/upcoming", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const reminders = await storage.getUpcomingReminders(userId);
     
     res.json({
@@ -129,7 +162,7 @@ router.get("/upcoming", async (req, res) => {
 // Schedule reminder for a subscription
 router.post("/schedule", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const reminderData = insertSubscriptionReminderSchema.parse(req.body);
     
     const reminder = await storage.createSubscriptionReminder({
@@ -161,7 +194,7 @@ router.post("/schedule", async (req, res) => {
 // Cancel a scheduled reminder
 router.delete("/:reminderId", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const { reminderId } = req.params;
     
     await storage.deleteSubscriptionReminder(reminderId, userId);
@@ -179,10 +212,43 @@ router.delete("/:reminderId", async (req, res) => {
   }
 });
 
+// Preview the next spending digest (?frequency=weekly|monthly, defaulting to the user's choice or weekly)
+router.get("/digest/preview", async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    const requested = req.query.frequency ?? (preferences?.digestFrequency !== "off" ? preferences?.digestFrequency : undefined) ?? "weekly";
+
+    if (requested !== "weekly" && requested !== "monthly") {
+      return res.status(400).json({
+        success: false,
+        error: "Digest frequency must be weekly or monthly"
+      });
+    }
+
+    const digest = await digestService.nextDigest(req.user!, preferences, requested);
+    const { subject, html } = emailService.renderSpendingDigest(digest, userId);
+
+    res.json({
+      success: true,
+      subject,
+      html,
+      periodStart: digest.periodStart,
+      periodEnd: digest.periodEnd
+    });
+  } catch (error) {
+    console.error("Preview spending digest error:", error);
+    res.status(500).json({ 
+      success: false, 
+      error: "Failed to preview spending digest" 
+    });
+  }
+});
+
 // Test email reminder endpoint
 router.post("/test-email", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "dev-user-1"; // Mock user for development
+    const userId = req.user!.id;
     
     // Get user preferences and subscriptions
     const preferences = await storage.getUserNotificationPreferences(userId);
@@ -218,6 +284,7 @@ router.post("/test-email", async (req, res) => {
     const result = await emailService.sendSubscriptionReminder(
       preferences,
       {
+        id: testSubscription.id,
         name: testSubscription.name,
         cost: testSubscription.cost,
         nextBillingDate: testSubscription.nextBillingDate,
@@ -1,19 +1,33 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
-import { insertSubscriptionSchema } from '@shared/schema';
+import { insertSubscriptionSchema, subscriptionActiveFlagSchema } from '@shared/schema';
+import { currencyCodeSchema } from '@shared/currency';
+import { BILLING_CYCLE_VALUES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from '@shared/recurrence';
+import { requireAuth } from '../middleware/auth';
+import { renewalService } from '../services/renewal.service';
+import { cancellationService } from '../services/cancellation.service';
+import { pauseService } from '../services/pause.service';
+import { priceChangeService } from '../services/price-change.service';
+import { auditService } from '../services/audit.service';
+import { calendarSyncService } from '../services/calendar-sync.service';
+import { defaultCancelBy, isCancellationConfirmed } from '@shared/cancellation';
 
 // Web-specific subscription schema that accepts string dates from HTML forms
 const webSubscriptionSchema = z.object({
   name: z.string().min(1),
   cost: z.string().min(1), // Keep as string for storage compatibility
-  billingCycle: z.string().min(1),
+  currency: currencyCodeSchema.default('USD'),
+  billingCycle: z.enum(BILLING_CYCLE_VALUES),
+  // Only used when billingCycle is 'custom'
+  customCycleCount: z.preprocess((val) => val === '' || val === null ? undefined : val, z.coerce.number().int().min(1).optional()),
+  customCycleUnit: z.enum(CUSTOM_CYCLE_UNITS).optional(),
   category: z.string().min(1),
   nextBillingDate: z.coerce.date(), // Coerce string to Date
   description: z.string().optional().default(''),
   email: z.string().email().optional().or(z.literal('')),
   paymentStatus: z.enum(['paid', 'pending', 'failed', 'overdue']).default('paid'),
-  isActive: z.coerce.number().int().min(0).max(1).default(1), // Coerce to integer
+  isActive: subscriptionActiveFlagSchema.default(true),
   // Trial fields
   isTrial: z.coerce.boolean().optional().default(false),
   trialDays: z.coerce.number().int().min(0).optional(),
@@ -22,35 +36,28 @@ const webSubscriptionSchema = z.object({
   // Payment card fields
   cardLast4: z.string().optional(),
   bankName: z.string().optional(),
-});
+}).superRefine(refineCustomCycle);
+
+// Pause and cancellation fields only change through their own endpoints below
+const updateSubscriptionSchema = insertSubscriptionSchema.omit({
+  pausedAt: true,
+  resumeAt: true,
+  cancellationStatus: true,
+  cancelBy: true,
+  cancelledAt: true
+}).partial().extend({
+  currency: currencyCodeSchema.optional(),
+  billingCycle: z.enum(BILLING_CYCLE_VALUES).optional(),
+  customCycleUnit: z.enum(CUSTOM_CYCLE_UNITS).nullable().optional(),
+  isActive: subscriptionActiveFlagSchema.optional(),
+  // When a cost change takes effect (defaults to now); recorded on the price_change history event
+  priceEffectiveDate: z.preprocess((val) => val === '' || val === null ? undefined : val, z.coerce.date().optional())
+}).superRefine(refineCustomCycle);
 
 export const subscriptionsRouter = Router();
 
-// Session authentication middleware that allows both session and API key auth
-async function trySessionOrApiKey(req: any, res: any, next: any) {
-  try {
-    // First try session authentication
-    if (req.session?.userId) {
-      req.user = { id: req.session.userId };
-      return next();
-    }
-
-    // Development fallback - create a stub user
-    if (process.env.NODE_ENV === 'development') {
-      req.user = { id: 'dev-user-1' };
-      return next();
-    }
-
-    // Production: require proper authentication
-    return res.status(401).json({ error: 'Authentication required' });
-  } catch (error) {
-    console.error('Auth middleware error:', error);
-    return res.status(500).json({ error: 'Authentication error' });
-  }
-}
-
-// Apply session authentication middleware
-subscriptionsRouter.use(trySessionOrApiKey);
+// Apply shared session / API key authentication
+subscriptionsRouter.use(requireAuth);
 
 // Get all subscriptions for authenticated user
 subscriptionsRouter.get('/', async (req: any, res) => {
@@ -97,17 +104,9 @@ subscriptionsRouter.post('/', async (req: any, res) => {
     console.log('Created subscription:', subscription);
 
     // Create history entry for subscription creation
-    await storage.createSubscriptionHistoryEntry({
-      userId: req.user.id,
-      subscriptionId: subscription.id,
-      eventType: 'created',
-      paymentStatus: null,
-      amount: null,
-      currency: 'USD',
-      paymentMethod: null,
-      description: `Subscription "${subscription.name}" was created with cost $${subscription.cost}/${subscription.billingCycle}`,
-      eventDate: new Date()
-    });
+    await auditService.recordCreated(subscription,
+      `Subscription "${subscription.name}" was created with cost ${subscription.cost} ${subscription.currency}/${subscription.billingCycle}`);
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscription.id);
 
     res.status(201).json(subscription);
   } catch (error) {
@@ -135,7 +134,7 @@ subscriptionsRouter.put('/:id', async (req: any, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const result = insertSubscriptionSchema.partial().safeParse(req.body);
+    const result = updateSubscriptionSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ 
         error: 'Invalid subscription data',
@@ -143,24 +142,18 @@ subscriptionsRouter.put('/:id', async (req: any, res) => {
       });
     }
 
-    const updatedSubscription = await storage.updateSubscription(subscriptionId, result.data);
+    const { priceEffectiveDate, ...updates } = result.data;
+    const updatedSubscription = await storage.updateSubscription(subscriptionId, updates);
     
     if (!updatedSubscription) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    // Create history entry for subscription update
-    await storage.createSubscriptionHistoryEntry({
-      userId: req.user.id,
-      subscriptionId: subscriptionId,
-      eventType: 'updated',
-      paymentStatus: null,
-      amount: null,
-      currency: 'USD',
-      paymentMethod: null,
-      description: `Subscription "${updatedSubscription.name}" was updated`,
-      eventDate: new Date()
-    });
+    await priceChangeService.recordPriceChange(existingSubscription, updatedSubscription, priceEffectiveDate);
+
+    // Create history entry with the changed fields
+    await auditService.recordUpdate(existingSubscription, updatedSubscription);
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscriptionId);
 
     res.json(updatedSubscription);
   } catch (error) {
@@ -189,17 +182,7 @@ subscriptionsRouter.delete('/:id', async (req: any, res) => {
     }
 
     // Create history entry before deletion
-    await storage.createSubscriptionHistoryEntry({
-      userId: req.user.id,
-      subscriptionId: subscriptionId,
-      eventType: 'deleted',
-      paymentStatus: null,
-      amount: null,
-      currency: 'USD',
-      paymentMethod: null,
-      description: `Subscription "${existingSubscription.name}" was deleted`,
-      eventDate: new Date()
-    });
+    await auditService.recordDeleted(existingSubscription);
 
     const deleted = await storage.deleteSubscription(subscriptionId);
     
@@ -207,6 +190,9 @@ subscriptionsRouter.delete('/:id', async (req: any, res) => {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
+    // Removes its Google Calendar events
+    await calendarSyncService.queueSubscriptionSync(req.user.id, subscriptionId);
+
     res.json({ message: 'Subscription deleted successfully' });
   } catch (error) {
     console.error('Delete subscription web error:', error);
@@ -241,6 +227,279 @@ subscriptionsRouter.get('/:id/history', async (req: any, res) => {
   }
 });
 
+// Restore a subscription to the snapshot stored on one of its history entries
+subscriptionsRouter.post('/:id/history/:entryId/restore', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const entry = await storage.getSubscriptionHistoryEntry(req.params.entryId);
+    if (!entry || entry.subscriptionId !== existingSubscription.id) {
+      return res.status(404).json({ error: 'History entry not found' });
+    }
+
+    if (!entry.snapshot) {
+      return res.status(409).json({ error: 'This history entry has no snapshot to restore' });
+    }
+
+    const subscription = await auditService.restoreSnapshot(existingSubscription, entry);
+    if (!subscription) {
+      return res.status(409).json({ error: 'This history entry has no snapshot to restore' });
+    }
+
+    res.json(subscription);
+  } catch (error) {
+    console.error('Restore subscription error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark whether a renewal charge went through (flags the subscription pending/overdue)
+const chargeStatusSchema = z.object({
+  status: z.enum(['paid', 'pending', 'failed'])
+});
+
+subscriptionsRouter.put('/:id/payments/:historyId', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = chargeStatusSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ 
+        error: 'Invalid payment status',
+        details: result.error.errors 
+      });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const entry = await storage.getSubscriptionHistoryEntry(req.params.historyId);
+    if (!entry || entry.subscriptionId !== existingSubscription.id || entry.eventType !== 'payment') {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const subscription = await renewalService.setChargeStatus(existingSubscription, entry, result.data.status);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Update payment status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pause a subscription, optionally until an automatic resume date
+const pauseSubscriptionSchema = z.object({
+  resumeAt: z.preprocess((val) => val === '' || val === null ? undefined : val, z.coerce.date().optional())
+});
+
+subscriptionsRouter.post('/:id/pause', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = pauseSubscriptionSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ 
+        error: 'Invalid pause data',
+        details: result.error.errors 
+      });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!existingSubscription.isActive || isCancellationConfirmed(existingSubscription)) {
+      return res.status(409).json({ error: 'Only active subscriptions can be paused' });
+    }
+
+    const resumeAt = result.data.resumeAt ?? null;
+    if (resumeAt && resumeAt.getTime() <= Date.now()) {
+      return res.status(400).json({ error: 'Resume date must be in the future' });
+    }
+
+    const subscription = await pauseService.pauseSubscription(existingSubscription, resumeAt);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Pause subscription error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Resume a paused (or otherwise inactive) subscription now
+subscriptionsRouter.post('/:id/resume', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (existingSubscription.isActive || isCancellationConfirmed(existingSubscription)) {
+      return res.status(409).json({ error: 'Subscription is not paused' });
+    }
+
+    const subscription = await pauseService.resumeSubscription(existingSubscription);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Resume subscription error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Plan a cancellation: remind the user to cancel before the cancel-by date (defaults to the day before renewal)
+const planCancellationSchema = z.object({
+  cancelBy: z.preprocess((val) => val === '' || val === null ? undefined : val, z.coerce.date().optional())
+});
+
+subscriptionsRouter.post('/:id/cancellation', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = planCancellationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ 
+        error: 'Invalid cancellation data',
+        details: result.error.errors 
+      });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!existingSubscription.isActive || isCancellationConfirmed(existingSubscription)) {
+      return res.status(409).json({ error: 'Subscription is already cancelled or inactive' });
+    }
+
+    const nextBillingDate = new Date(existingSubscription.nextBillingDate);
+    const cancelBy = result.data.cancelBy ?? defaultCancelBy(nextBillingDate);
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    if (cancelBy.getTime() >= nextBillingDate.getTime() || cancelBy.getTime() < today.getTime()) {
+      return res.status(400).json({ error: 'Cancel-by date must be between today and the next renewal' });
+    }
+
+    const subscription = await cancellationService.planCancellation(existingSubscription, cancelBy);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Plan cancellation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Confirm the subscription was cancelled with the provider
+const confirmCancellationSchema = z.object({
+  effective: z.enum(['end_of_period', 'immediately']).default('end_of_period')
+});
+
+subscriptionsRouter.post('/:id/cancellation/confirm', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = confirmCancellationSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ 
+        error: 'Invalid cancellation data',
+        details: result.error.errors 
+      });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!existingSubscription.isActive || isCancellationConfirmed(existingSubscription)) {
+      return res.status(409).json({ error: 'Subscription is already cancelled or inactive' });
+    }
+
+    const subscription = await cancellationService.confirmCancellation(existingSubscription, result.data.effective);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Confirm cancellation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Withdraw a planned cancellation, or undo a confirmed one before the paid period ends
+subscriptionsRouter.delete('/:id/cancellation', async (req: any, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    // Verify ownership
+    const existingSubscription = await storage.getSubscription(req.params.id);
+    if (!existingSubscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    if (existingSubscription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (existingSubscription.cancellationStatus !== 'planned' && existingSubscription.cancellationStatus !== 'active_until_end') {
+      return res.status(409).json({ error: 'No cancellation to withdraw' });
+    }
+
+    const subscription = await cancellationService.withdrawCancellation(existingSubscription);
+    res.json(subscription);
+  } catch (error) {
+    console.error('Withdraw cancellation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get all subscription history for a user
 subscriptionsRouter.get('/history/all', async (req: any, res) => {
   try {
@@ -279,8 +538,10 @@ subscriptionsRouter.get('/history/all', async (req: any, res) => {
         subscriptionId: entry.subscriptionId,
         subscriptionName,
         action: entry.eventType,
-        oldValue: null,
-        newValue: entry.amount ? `$${entry.amount}` : null,
+        oldValue: entry.previousAmount ? `${entry.previousAmount} ${entry.previousCurrency || entry.currency || 'USD'}` : null,
+        newValue: entry.amount ? `${entry.amount} ${entry.currency || 'USD'}` : null,
+        changes: auditService.getChanges(entry),
+        restorable: !!entry.snapshot && !!entry.subscriptionId && subscriptionName !== 'Unknown Subscription',
         createdAt: entry.createdAt || entry.eventDate
       };
     }));
@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { telegramService } from "../services/telegram.service";
+
+/**
+ * Updates from each user's Telegram bot: the /start link code, commands and reminder buttons.
+ * Unauthenticated; Telegram sends the secret registered with setWebhook in X-Telegram-Bot-Api-Secret-Token.
+ */
+export const telegramWebhookRouter = Router();
+
+telegramWebhookRouter.post('/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const token = await telegramService.getBotToken(userId);
+    if (!token || !telegramService.isValidWebhookSecret(userId, token, req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+      return res.status(401).json({ error: 'Invalid secret token' });
+    }
+
+    await telegramService.handleUpdate(userId, token, req.body);
+    res.status(200).json({ received: true });
+  } catch (error) {
+    console.error('Telegram webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
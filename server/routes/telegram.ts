@@ -0,0 +1,93 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
+import { telegramService, TelegramError } from "../services/telegram.service";
+
+export const telegramRouter = Router();
+
+telegramRouter.use(requireAuth);
+
+const connectBotSchema = z.object({
+  botToken: z.string().trim().min(1)
+});
+
+// Whether a bot is connected and a chat linked. The token itself is never returned.
+telegramRouter.get('/', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    const expiresAt = preferences?.telegramLinkCodeExpiresAt;
+    res.json({
+      botConnected: !!(await storage.getUserExternalApiKey(userId, 'telegram')),
+      chatLinked: !!preferences?.telegramChatId,
+      enabled: preferences?.telegramEnabled ?? false,
+      linkPending: !!preferences?.telegramLinkCode && !!expiresAt && new Date(expiresAt).getTime() > Date.now()
+    });
+  } catch (error) {
+    console.error('Get Telegram status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Save a bot token from @BotFather: checked with Telegram, stored encrypted, webhook registered
+telegramRouter.put('/bot', async (req, res) => {
+  try {
+    const result = connectBotSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid bot token',
+        details: result.error.errors
+      });
+    }
+
+    const bot = await telegramService.connectBot(req.user!.id, result.data.botToken);
+    res.json({ botUsername: bot.username });
+  } catch (error) {
+    if (error instanceof TelegramError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Connect Telegram bot error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+telegramRouter.delete('/bot', async (req, res) => {
+  try {
+    await telegramService.disconnectBot(req.user!.id);
+    res.json({ message: 'Telegram bot disconnected' });
+  } catch (error) {
+    console.error('Disconnect Telegram bot error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A one-time deep link that links the chat it is opened in. Earlier links stop working.
+telegramRouter.post('/link', async (req, res) => {
+  try {
+    const link = await telegramService.createLink(req.user!.id);
+    res.status(201).json(link);
+  } catch (error) {
+    if (error instanceof TelegramError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create Telegram link error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unlink the chat but keep the bot, e.g. to link a different chat
+telegramRouter.delete('/link', async (req, res) => {
+  try {
+    await storage.updateUserNotificationPreferences(req.user!.id, {
+      telegramEnabled: false,
+      telegramChatId: null,
+      telegramLinkCode: null,
+      telegramLinkCodeExpiresAt: null
+    });
+    res.json({ message: 'Telegram chat unlinked' });
+  } catch (error) {
+    console.error('Unlink Telegram chat error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -3,14 +3,21 @@ import { emailService } from "../services/email.service";
 import { whatsappService } from "../services/whatsapp.service";
 import { googleCalendarService } from "../services/google-calendar.service";
 import { notificationService } from "../services/notification.service";
+import { chatWebhookService } from "../services/chat-webhook.service";
+import { telegramService } from "../services/telegram.service";
+import { storage } from "../storage";
+import { CHAT_CHANNELS, CHAT_CHANNEL_LABELS } from "@shared/chat-channels";
+import { requireAuth } from "../middleware/auth";
 
 const testConnectionsRouter = Router();
 
+testConnectionsRouter.use(requireAuth);
+
 // Test email connection
 testConnectionsRouter.post("/email", async (req, res) => {
   try {
     const preferences = req.body;
-    const result = await emailService.testConnection(preferences);
+    const result = await emailService.testConnection(preferences, req.user!.id);
     
     res.json({
       success: result.success,
@@ -63,10 +70,52 @@ testConnectionsRouter.post("/google-calendar", async (req, res) => {
   }
 });
 
+// Test Slack, Discord and Microsoft Teams webhooks (/slack, /discord, /teams). Posts to the
+// webhookUrl in the body, or to the saved URL when none is given.
+for (const channel of CHAT_CHANNELS) {
+  testConnectionsRouter.post(`/${channel}`, async (req, res) => {
+    try {
+      const preferences = await storage.getUserNotificationPreferences(req.user!.id);
+      const webhookUrl = typeof req.body.webhookUrl === 'string' ? req.body.webhookUrl : undefined;
+      const result = await chatWebhookService.testConnection(channel, preferences, webhookUrl);
+
+      res.json({
+        success: result.success,
+        message: result.message
+      });
+    } catch (error) {
+      console.error(`${CHAT_CHANNEL_LABELS[channel]} connection test error:`, error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : `${CHAT_CHANNEL_LABELS[channel]} connection test failed`
+      });
+    }
+  });
+}
+
+// Test Telegram: sends a message from the saved bot to the linked chat
+testConnectionsRouter.post("/telegram", async (req, res) => {
+  try {
+    const preferences = await storage.getUserNotificationPreferences(req.user!.id);
+    const result = await telegramService.testConnection(req.user!.id, preferences);
+
+    res.json({
+      success: result.success,
+      message: result.message
+    });
+  } catch (error) {
+    console.error("Telegram connection test error:", error);
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : "Telegram connection test failed"
+    });
+  }
+});
+
 // Test all connections for a user
 testConnectionsRouter.post("/all", async (req, res) => {
   try {
-    const userId = req.session?.user?.id || "1"; // Mock user for development
+    const userId = req.user!.id;
     const preferences = req.body;
     
     const results = await notificationService.testAllNotifications(userId, preferences);
@@ -1,74 +1,18 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { insertUserExternalApiKeySchema } from "@shared/schema";
+import { requireAuth } from "../middleware/auth";
 import { z } from "zod";
-import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { secretVault } from "../services/secret-vault.service";
 
 export const userExternalApiKeysRouter = Router();
 
-// Get encryption key from environment (should be 32 bytes for AES-256)
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY;
-
-if (!ENCRYPTION_KEY) {
-  console.error('CRITICAL SECURITY ERROR: ENCRYPTION_KEY environment variable is not set!');
-  console.error('API keys cannot be securely encrypted without a proper encryption key.');
-  console.error('Please set ENCRYPTION_KEY to a secure 32-byte random string.');
-  throw new Error('ENCRYPTION_KEY environment variable is required for secure API key storage');
-}
-
-// Proper AES-256-GCM encryption for API keys
-function encryptKey(key: string): string {
-  try {
-    const iv = randomBytes(12); // 12 bytes for GCM
-    const cipher = createCipheriv('aes-256-gcm', Buffer.from(ENCRYPTION_KEY.slice(0, 32)), iv);
-    
-    let encrypted = cipher.update(key, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    const authTag = cipher.getAuthTag();
-    
-    // Combine IV + encrypted data + auth tag
-    return iv.toString('hex') + ':' + encrypted + ':' + authTag.toString('hex');
-  } catch (error) {
-    console.error('Encryption failed:', error);
-    throw new Error('Failed to encrypt API key');
-  }
-}
-
-function decryptKey(encryptedKey: string): string {
-  try {
-    const parts = encryptedKey.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted key format');
-    }
-    
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-    const authTag = Buffer.from(parts[2], 'hex');
-    
-    // Validate authentication tag length (must be 16 bytes for AES-256-GCM)
-    if (authTag.length !== 16) {
-      throw new Error('Invalid authentication tag length');
-    }
-    
-    const decipher = createDecipheriv('aes-256-gcm', Buffer.from(ENCRYPTION_KEY.slice(0, 32)), iv, { authTagLength: 16 });
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
-  } catch (error) {
-    console.error('Decryption failed:', error);
-    throw new Error('Failed to decrypt API key');
-  }
-}
+userExternalApiKeysRouter.use(requireAuth);
 
 // Get all external API keys for the current user
 userExternalApiKeysRouter.get("/", async (req, res) => {
   try {
-    // In a real app, get userId from authenticated session
-    const userId = "dev-user-1"; // Mock user ID for development
+    const userId = req.user!.id;
     
     const apiKeys = await storage.getUserExternalApiKeys(userId);
     
@@ -90,7 +34,7 @@ userExternalApiKeysRouter.get("/", async (req, res) => {
 userExternalApiKeysRouter.get("/:service", async (req, res) => {
   try {
     const { service } = req.params;
-    const userId = "dev-user-1"; // Mock user ID for development
+    const userId = req.user!.id;
     
     const apiKey = await storage.getUserExternalApiKey(userId, service);
     
@@ -113,12 +57,12 @@ userExternalApiKeysRouter.get("/:service", async (req, res) => {
 // Create or update an external API key
 userExternalApiKeysRouter.post("/", async (req, res) => {
   try {
-    const userId = "dev-user-1"; // Mock user ID for development
+    const userId = req.user!.id;
     
     const validatedData = insertUserExternalApiKeySchema.parse({
       ...req.body,
       userId,
-      keyValue: encryptKey(req.body.keyValue) // Encrypt the key before storing
+      keyValue: secretVault.encrypt(req.body.keyValue) // Encrypt the key before storing
     });
     
     // Check if key already exists for this service
@@ -156,7 +100,7 @@ userExternalApiKeysRouter.post("/", async (req, res) => {
 userExternalApiKeysRouter.delete("/:service", async (req, res) => {
   try {
     const { service } = req.params;
-    const userId = "dev-user-1"; // Mock user ID for development
+    const userId = req.user!.id;
     
     const success = await storage.deleteUserExternalApiKey(userId, service);
     
@@ -178,7 +122,7 @@ export async function getDecryptedApiKey(userId: string, service: string): Promi
     if (!apiKey || !apiKey.keyValue) {
       return null;
     }
-    return decryptKey(apiKey.keyValue);
+    return secretVault.decrypt(apiKey.keyValue);
   } catch (error) {
     console.error(`Error getting decrypted API key for ${service}:`, error);
     return null;
@@ -188,7 +132,7 @@ export async function getDecryptedApiKey(userId: string, service: string): Promi
 // Helper function to store API keys from other parts of the application
 export async function storeApiKey(userId: string, service: string, keyValue: string) {
   try {
-    const encryptedKey = encryptKey(keyValue);
+    const encryptedKey = secretVault.encrypt(keyValue);
     
     // Check if key already exists for this service
     const existingKey = await storage.getUserExternalApiKey(userId, service);
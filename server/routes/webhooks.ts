@@ -0,0 +1,174 @@
+import { Router } from 'express';
+import { storage } from '../storage';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { webhookService } from '../services/webhook.service';
+import { UnsafeUrlError } from '../utils/publicUrl';
+import { createWebhookEndpointSchema, updateWebhookEndpointSchema } from '@shared/webhooks';
+
+export const webhooksRouter = Router();
+
+webhooksRouter.use(requireAuth);
+
+// The signed-in user's endpoint, or a response has already been sent
+async function findEndpoint(req: AuthenticatedRequest, res: any) {
+  const endpoint = await storage.getWebhookEndpoint(req.params.id);
+  if (!endpoint) {
+    res.status(404).json({ error: 'Webhook endpoint not found' });
+    return undefined;
+  }
+
+  if (endpoint.userId !== req.user!.id) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+
+  return endpoint;
+}
+
+// List endpoints (secrets are never returned after creation)
+webhooksRouter.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const endpoints = await storage.getWebhookEndpointsByUserId(req.user.id);
+    res.json(endpoints.map(endpoint => webhookService.toPublic(endpoint)));
+  } catch (error) {
+    console.error('Get webhook endpoints error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Register an endpoint; the response carries the signing secret, shown only this once
+webhooksRouter.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = createWebhookEndpointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid webhook endpoint',
+        details: result.error.errors
+      });
+    }
+
+    res.status(201).json(await webhookService.createEndpoint(req.user.id, result.data));
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create webhook endpoint error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change the URL, description or events, or switch the endpoint off and on
+webhooksRouter.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = updateWebhookEndpointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid webhook endpoint',
+        details: result.error.errors
+      });
+    }
+
+    const endpoint = await findEndpoint(req, res);
+    if (!endpoint) return;
+
+    res.json(await webhookService.updateEndpoint(endpoint, result.data));
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update webhook endpoint error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace the signing secret
+webhooksRouter.post('/:id/secret', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const endpoint = await findEndpoint(req, res);
+    if (!endpoint) return;
+
+    res.json({ secret: await webhookService.rotateSecret(endpoint) });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove an endpoint and its delivery log
+webhooksRouter.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const endpoint = await findEndpoint(req, res);
+    if (!endpoint) return;
+
+    await storage.deleteWebhookEndpoint(endpoint.id);
+    res.json({ message: 'Webhook endpoint deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook endpoint error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recent deliveries, newest first
+webhooksRouter.get('/:id/deliveries', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const endpoint = await findEndpoint(req, res);
+    if (!endpoint) return;
+
+    const deliveries = await storage.getWebhookDeliveries(endpoint.id);
+    res.json(deliveries.map(delivery => webhookService.toPublicDelivery(delivery)));
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a logged delivery again
+webhooksRouter.post('/:id/deliveries/:deliveryId/redeliver', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const endpoint = await findEndpoint(req, res);
+    if (!endpoint) return;
+
+    const delivery = await storage.getWebhookDelivery(req.params.deliveryId);
+    if (!delivery || delivery.endpointId !== endpoint.id) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    if (!endpoint.isActive) {
+      return res.status(409).json({ error: 'Turn the endpoint back on to redeliver' });
+    }
+
+    const redelivered = await webhookService.redeliver(delivery);
+    res.status(202).json(redelivered && webhookService.toPublicDelivery(redelivered));
+  } catch (error) {
+    console.error('Redeliver webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { whatsappService } from "../services/whatsapp.service";
+
+/**
+ * The WhatsApp Business webhook: delivery statuses for reminders and replies from users.
+ * Unauthenticated; POSTs must be signed with the app secret.
+ */
+export const whatsappWebhookRouter = Router();
+
+// Subscription check when the webhook is set up in the Meta app dashboard
+whatsappWebhookRouter.get('/', (req, res) => {
+  try {
+    const challenge = whatsappService.verifyWebhook(
+      req.query['hub.mode'],
+      req.query['hub.verify_token'],
+      req.query['hub.challenge']
+    );
+    if (challenge === null) {
+      return res.status(403).json({ error: 'Invalid verify token' });
+    }
+
+    res.status(200).type('text/plain').send(challenge);
+  } catch (error) {
+    console.error('WhatsApp webhook verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+whatsappWebhookRouter.post('/', async (req, res) => {
+  try {
+    if (!process.env.WHATSAPP_APP_SECRET) {
+      return res.status(503).json({ error: 'WhatsApp webhook is not configured' });
+    }
+
+    // The body arrives unparsed (express.raw() is mounted for this path in server/index.ts)
+    const rawBody = req.body;
+    if (!Buffer.isBuffer(rawBody) || !whatsappService.isValidSignature(rawBody, req.get('X-Hub-Signature-256'))) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
+
+    await whatsappService.handleWebhook(payload);
+    res.status(200).json({ received: true });
+  } catch (error) {
+    console.error('WhatsApp webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
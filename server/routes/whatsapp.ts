@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { whatsappService, WhatsAppVerificationError } from "../services/whatsapp.service";
+
+export const whatsappRouter = Router();
+
+whatsappRouter.use(requireAuth);
+
+const confirmVerificationSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code')
+});
+
+// Send a code to the saved WhatsApp number; replies from it are only acted on once it's confirmed
+whatsappRouter.post('/verification', async (req, res) => {
+  try {
+    const verification = await whatsappService.startNumberVerification(req.user!.id);
+    res.status(201).json(verification);
+  } catch (error) {
+    if (error instanceof WhatsAppVerificationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Start WhatsApp verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+whatsappRouter.post('/verification/confirm', async (req, res) => {
+  try {
+    const result = confirmVerificationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid verification code',
+        details: result.error.errors
+      });
+    }
+
+    const preferences = await whatsappService.confirmNumberVerification(req.user!.id, result.data.code);
+    res.json({ verifiedNumber: preferences.whatsappVerifiedNumber });
+  } catch (error) {
+    if (error instanceof WhatsAppVerificationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Confirm WhatsApp verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,261 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import {
+  updateUserNotificationPreferencesSchema, SERVER_MANAGED_PREFERENCE_FIELDS,
+  type User, type Subscription, type SubscriptionHistory, type SubscriptionReminder, type Notification
+} from '@shared/schema';
+import {
+  ACCOUNT_ARCHIVE_VERSION, REDACTED_PREFERENCE_FIELDS,
+  type AccountArchive, type ArchivedSubscription, type ImportMode, type ImportReport
+} from '@shared/account-archive';
+import { diffSubscription, NON_RESTORABLE_FIELDS, type AuditedField } from '@shared/subscription-audit';
+import { BILLING_SCHEDULE_FIELDS } from '@shared/recurrence';
+import { auditService } from './audit.service';
+import { calendarSyncService } from './calendar-sync.service';
+
+// Columns that belong to the row rather than the data; dropped on export
+const omit = <T extends object, K extends keyof T>(row: T, keys: readonly K[]): Omit<T, K> => {
+  const copy = { ...row };
+  for (const key of keys) delete copy[key];
+  return copy;
+};
+
+const historyKey = (h: Pick<SubscriptionHistory, 'eventType' | 'eventDate' | 'description'>) =>
+  `${h.eventType}|${new Date(h.eventDate).toISOString()}|${h.description}`;
+const reminderKey = (r: Pick<SubscriptionReminder, 'reminderType' | 'daysBefore' | 'scheduledFor'>) =>
+  `${r.reminderType}|${r.daysBefore}|${new Date(r.scheduledFor).toISOString()}`;
+const notificationKey = (n: Pick<Notification, 'type' | 'title' | 'message'>) => `${n.type}|${n.title}|${n.message}`;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Per-user JSON archives (shared/account-archive.ts) for account export and import
+ */
+export class AccountArchiveService {
+  async exportAccount(user: User) {
+    const [subscriptions, history, reminders, notifications, preferences, apiKeys] = await Promise.all([
+      storage.getSubscriptionsByUserId(user.id),
+      storage.getSubscriptionHistoryByUserId(user.id),
+      storage.getUserReminderStats(user.id),
+      storage.getNotificationsByUserId(user.id),
+      storage.getUserNotificationPreferences(user.id),
+      storage.getApiKeysByUserId(user.id)
+    ]);
+
+    const redactedPreferences = preferences
+      ? Object.fromEntries(Object.entries(omit(preferences, ['id', 'userId', 'createdAt', 'updatedAt']))
+          .map(([key, value]) => [key, (REDACTED_PREFERENCE_FIELDS as readonly string[]).includes(key) ? null : value]))
+      : null;
+
+    return {
+      schemaVersion: ACCOUNT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      account: { email: user.email, name: user.name, reportingCurrency: user.reportingCurrency },
+      subscriptions: subscriptions.map(s => omit(s, ['userId'])),
+      history: history.map(h => omit(h, ['id', 'userId', 'createdAt'])),
+      reminders: reminders.map(r => omit(r, ['id', 'userId', 'createdAt'])),
+      notifications: notifications.map(n => omit(n, ['id', 'userId'])),
+      notificationPreferences: redactedPreferences,
+      redactedFields: preferences ? [...REDACTED_PREFERENCE_FIELDS] : [],
+      apiKeys: apiKeys.map(k => ({
+        name: k.name,
+        keyPrefix: k.keyPrefix,
+        isActive: k.isActive,
+        lastUsedAt: k.lastUsedAt,
+        expiresAt: k.expiresAt,
+        createdAt: k.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Import an archive into a user's account. `merge` matches subscriptions by name, updates
+   * the ones that differ and skips history, reminders and notifications already present;
+   * `replace` deletes the account's subscriptions, history, reminders and notifications first.
+   * With dryRun nothing is written and the report says what would change.
+   */
+  async importAccount(user: User, archive: AccountArchive, mode: ImportMode, dryRun: boolean): Promise<ImportReport> {
+    const report: ImportReport = {
+      mode,
+      dryRun,
+      schemaVersion: archive.schemaVersion,
+      subscriptions: { create: [], update: [], unchanged: [], delete: [] },
+      history: { create: 0, skip: 0, delete: 0 },
+      reminders: { create: 0, skip: 0, delete: 0 },
+      notifications: { create: 0, skip: 0, delete: 0 },
+      notificationPreferences: { action: 'unchanged', fields: [] },
+      apiKeys: { skip: archive.apiKeys.length },
+      warnings: []
+    };
+    if (archive.apiKeys.length > 0) {
+      report.warnings.push(`${archive.apiKeys.length} API keys were not imported: keys are never exported, create new ones instead`);
+    }
+
+    const [existingSubscriptions, existingHistory, existingReminders, existingNotifications] = mode === 'merge'
+      ? await Promise.all([
+          storage.getSubscriptionsByUserId(user.id),
+          storage.getSubscriptionHistoryByUserId(user.id),
+          storage.getUserReminderStats(user.id),
+          storage.getNotificationsByUserId(user.id)
+        ])
+      : [[], [], [], []];
+
+    if (mode === 'replace') {
+      await this.clearAccount(user, report, dryRun);
+    }
+
+    // Archive subscription id -> id in this account (existing match or newly created row)
+    const subscriptionIds = new Map<string, string>();
+    const matched = new Set<string>();
+
+    for (const archived of archive.subscriptions) {
+      const existing = existingSubscriptions.find(s => !matched.has(s.id) && sameName(s.name, archived.name));
+      if (existing) {
+        matched.add(existing.id);
+        subscriptionIds.set(archived.id, existing.id);
+        await this.mergeSubscription(existing, archived, report, dryRun);
+      } else {
+        report.subscriptions.create.push(archived.name);
+        const id = dryRun ? randomUUID() : (await this.createSubscription(user, archived)).id;
+        subscriptionIds.set(archived.id, id);
+      }
+    }
+
+    // History of subscriptions deleted before the export still belongs together
+    const linkedId = (archivedId: string) => {
+      if (!subscriptionIds.has(archivedId)) subscriptionIds.set(archivedId, randomUUID());
+      return subscriptionIds.get(archivedId)!;
+    };
+
+    const historyPresent = new Set(existingHistory.map(h => `${h.subscriptionId}|${historyKey(h)}`));
+    // Oldest first, so the newest-first timelines keep their order
+    const history = [...archive.history].sort((a, b) => a.eventDate.getTime() - b.eventDate.getTime());
+    for (const entry of history) {
+      const subscriptionId = linkedId(entry.subscriptionId);
+      if (historyPresent.has(`${subscriptionId}|${historyKey(entry)}`)) {
+        report.history.skip++;
+        continue;
+      }
+      report.history.create++;
+      if (!dryRun) {
+        await storage.createSubscriptionHistoryEntry({ ...entry, userId: user.id, subscriptionId });
+      }
+    }
+
+    const remindersPresent = new Set(existingReminders.map(r => `${r.subscriptionId}|${reminderKey(r)}`));
+    for (const reminder of archive.reminders) {
+      const subscriptionId = linkedId(reminder.subscriptionId);
+      if (remindersPresent.has(`${subscriptionId}|${reminderKey(reminder)}`)) {
+        report.reminders.skip++;
+        continue;
+      }
+      report.reminders.create++;
+      if (!dryRun) {
+        await storage.createSubscriptionReminder({ ...reminder, userId: user.id, subscriptionId });
+      }
+    }
+
+    const notificationsPresent = new Set(existingNotifications.map(notificationKey));
+    const notifications = [...archive.notifications]
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    for (const { createdAt, ...notification } of notifications) {
+      if (notificationsPresent.has(notificationKey(notification))) {
+        report.notifications.skip++;
+        continue;
+      }
+      report.notifications.create++;
+      if (!dryRun) {
+        await storage.createNotification({
+          ...notification,
+          userId: user.id,
+          subscriptionId: notification.subscriptionId ? subscriptionIds.get(notification.subscriptionId) ?? null : null
+        });
+      }
+    }
+
+    await this.importPreferences(user, archive, report, dryRun);
+    return report;
+  }
+
+  private async clearAccount(user: User, report: ImportReport, dryRun: boolean) {
+    const [subscriptions, history, reminders, notifications] = await Promise.all([
+      storage.getSubscriptionsByUserId(user.id),
+      storage.getSubscriptionHistoryByUserId(user.id),
+      storage.getUserReminderStats(user.id),
+      storage.getNotificationsByUserId(user.id)
+    ]);
+
+    report.subscriptions.delete = subscriptions.map(s => s.name);
+    report.history.delete = history.length;
+    report.reminders.delete = reminders.length;
+    report.notifications.delete = notifications.length;
+    if (dryRun) return;
+
+    for (const subscription of subscriptions) {
+      await storage.deleteSubscriptionReminders(subscription.id);
+      await storage.deleteSubscription(subscription.id);
+      await calendarSyncService.queueSubscriptionSync(user.id, subscription.id);
+    }
+    await storage.deleteSubscriptionHistoryByUserId(user.id);
+    await storage.deleteNotificationsByUserId(user.id);
+  }
+
+  private async createSubscription(user: User, archived: ArchivedSubscription): Promise<Subscription> {
+    const { id, createdAt, ...fields } = archived;
+    const subscription = await storage.createSubscription({ ...fields, userId: user.id });
+    await calendarSyncService.queueSubscriptionSync(user.id, subscription.id);
+    return subscription;
+  }
+
+  // Pause and cancellation state is left alone: it has its own workflow and history events
+  private async mergeSubscription(existing: Subscription, archived: ArchivedSubscription, report: ImportReport, dryRun: boolean) {
+    const fields = (Object.keys(diffSubscription(existing, archived)) as AuditedField[])
+      .filter(field => !NON_RESTORABLE_FIELDS.includes(field));
+    if (fields.length === 0) {
+      report.subscriptions.unchanged.push(existing.name);
+      return;
+    }
+
+    report.subscriptions.update.push({ name: existing.name, fields });
+    if (dryRun) return;
+
+    const updates = Object.fromEntries(fields.map(field => [field, archived[field] ?? null]));
+    // A restored schedule keeps counting from the archive's anchor
+    if (archived.billingAnchorDate && fields.some(field => (BILLING_SCHEDULE_FIELDS as readonly string[]).includes(field))) {
+      updates.billingAnchorDate = archived.billingAnchorDate;
+    }
+    const updated = await storage.updateSubscription(existing.id, updates);
+    if (updated) {
+      await auditService.recordUpdate(existing, updated, 'updated', `Subscription "${updated.name}" was updated from an account import`);
+      await calendarSyncService.queueSubscriptionSync(updated.userId, updated.id);
+    }
+  }
+
+  private async importPreferences(user: User, archive: AccountArchive, report: ImportReport, dryRun: boolean) {
+    if (!archive.notificationPreferences) return;
+
+    // The same fields the settings form can't write, plus the ones exports leave out
+    const skipped: readonly string[] = [...SERVER_MANAGED_PREFERENCE_FIELDS, ...REDACTED_PREFERENCE_FIELDS];
+    const importable = Object.fromEntries(Object.entries(archive.notificationPreferences)
+      .filter(([key]) => !skipped.includes(key)));
+    const result = updateUserNotificationPreferencesSchema.strip().safeParse(importable);
+    if (!result.success) {
+      report.warnings.push(`Notification preferences were not imported: ${result.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join(', ')}`);
+      return;
+    }
+
+    const existing = await storage.getUserNotificationPreferences(user.id);
+    const changed = Object.entries(result.data).filter(([key, value]) =>
+      value !== undefined && JSON.stringify(existing?.[key as keyof typeof existing] ?? null) !== JSON.stringify(value));
+    report.notificationPreferences = {
+      action: !existing ? 'create' : changed.length > 0 ? 'update' : 'unchanged',
+      fields: changed.map(([key]) => key)
+    };
+
+    if (!dryRun && changed.length > 0) {
+      await storage.updateUserNotificationPreferences(user.id, Object.fromEntries(changed));
+    }
+  }
+}
+
+export const accountArchiveService = new AccountArchiveService();
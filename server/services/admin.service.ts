@@ -256,7 +256,10 @@ export class AdminService {
             id: subscriptions.id,
             name: subscriptions.name,
             cost: subscriptions.cost,
+            currency: subscriptions.currency,
             billingCycle: subscriptions.billingCycle,
+            customCycleCount: subscriptions.customCycleCount,
+            customCycleUnit: subscriptions.customCycleUnit,
             category: subscriptions.category,
             nextBillingDate: subscriptions.nextBillingDate,
             isActive: subscriptions.isActive,
@@ -0,0 +1,117 @@
+import type { Subscription, SubscriptionHistory } from '@shared/schema';
+import { getRecurrence, nextOccurrence } from '@shared/recurrence';
+import {
+  diffSubscription,
+  formatAuditedField,
+  parseAuditJson,
+  snapshotToUpdates,
+  subscriptionSnapshot,
+  type SubscriptionChanges,
+  type SubscriptionSnapshot
+} from '@shared/subscription-audit';
+import { storage } from '../storage';
+import { priceChangeService } from './price-change.service';
+import { calendarSyncService } from './calendar-sync.service';
+import { webhookService } from './webhook.service';
+
+export class AuditService {
+
+  /**
+   * Record the creation of a subscription with a snapshot it can later be restored to
+   */
+  async recordCreated(subscription: Subscription, description: string) {
+    if (!subscription.userId) return;
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      eventType: 'created',
+      paymentStatus: null,
+      amount: null,
+      currency: subscription.currency,
+      paymentMethod: null,
+      description,
+      snapshot: JSON.stringify(subscriptionSnapshot(subscription)),
+      eventDate: new Date()
+    });
+    await webhookService.emit(subscription.userId, 'subscription.created', { subscription });
+  }
+
+  /**
+   * Record the deletion of a subscription; call before deleting it
+   */
+  async recordDeleted(subscription: Subscription) {
+    if (!subscription.userId) return;
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      eventType: 'deleted',
+      paymentStatus: null,
+      amount: null,
+      currency: subscription.currency,
+      paymentMethod: null,
+      description: `Subscription "${subscription.name}" was deleted`,
+      eventDate: new Date()
+    });
+    await webhookService.emit(subscription.userId, 'subscription.deleted', { subscription });
+  }
+
+  /**
+   * Record an edit as an 'updated' event carrying the field diff. Edits that change nothing are not recorded.
+   */
+  async recordUpdate(before: Subscription, after: Subscription, eventType: 'updated' | 'restored' = 'updated', description?: string) {
+    if (!after.userId) return;
+
+    const changes = diffSubscription(before, after);
+    const fields = Object.keys(changes);
+    if (fields.length === 0 && eventType === 'updated') return;
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: after.userId,
+      subscriptionId: after.id,
+      eventType,
+      paymentStatus: null,
+      amount: null,
+      currency: after.currency,
+      paymentMethod: null,
+      description: description ?? `Subscription "${after.name}" was updated: ${fields.map(formatAuditedField).join(', ')}`,
+      changes: JSON.stringify(changes),
+      snapshot: JSON.stringify(subscriptionSnapshot(after)),
+      eventDate: new Date()
+    });
+    await webhookService.emit(after.userId, 'subscription.updated', { subscription: after, change: eventType, changes });
+  }
+
+  /**
+   * Restore a subscription to the snapshot stored on one of its history entries.
+   * A billing date that has since passed is rolled forward to its next occurrence.
+   */
+  async restoreSnapshot(subscription: Subscription, entry: SubscriptionHistory, now: Date = new Date()): Promise<Subscription | undefined> {
+    const snapshot = parseAuditJson<SubscriptionSnapshot>(entry.snapshot);
+    if (!snapshot) return undefined;
+
+    const updates = snapshotToUpdates(snapshot) as Partial<Subscription>;
+    if (updates.nextBillingDate) {
+      const today = new Date(now.toISOString().slice(0, 10));
+      updates.nextBillingDate = nextOccurrence(updates.nextBillingDate, getRecurrence({ ...subscription, ...updates }), today);
+    }
+
+    const restored = await storage.updateSubscription(subscription.id, updates);
+    if (!restored) return undefined;
+
+    await priceChangeService.recordPriceChange(subscription, restored, now);
+    await this.recordUpdate(subscription, restored, 'restored',
+      `Subscription "${restored.name}" was restored to its state from ${new Date(entry.eventDate).toISOString().slice(0, 10)}`);
+    await calendarSyncService.queueSubscriptionSync(restored.userId, restored.id);
+
+    return restored;
+  }
+
+  /** The stored diff of a history entry, if it has one */
+  getChanges(entry: SubscriptionHistory): SubscriptionChanges | null {
+    return parseAuditJson<SubscriptionChanges>(entry.changes);
+  }
+}
+
+export const auditService = new AuditService();
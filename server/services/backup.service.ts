@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { getTableColumns } from 'drizzle-orm';
+import { storage, postgresTables, type IStorage, type StorageTableName, type TableSnapshot } from '../storage';
+import { storageConfig } from '../db';
+import { latestMigrationVersion } from '../db/migrate';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const DAY = 24 * 60 * 60 * 1000;
+const BACKUP_FORMAT = 'subtracker-backup';
+const BACKUP_FORMAT_VERSION = 1;
+// subtracker-backup-2026-01-31T02-00-00-000Z.json.gz (an ISO timestamp with ':' and '.' replaced)
+const BACKUP_FILE_PATTERN = /^subtracker-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json\.gz$/;
+
+export interface BackupFile {
+  fileName: string;
+  createdAt: Date;
+  sizeBytes: number;
+}
+
+interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: string | null; // latest migration applied when the backup was taken
+  createdAt: string;
+  driver: string;
+  rowCounts: Record<string, number>;
+  tables: TableSnapshot;
+}
+
+export interface RetentionPolicy {
+  keepDays: number; // backups older than this are pruned...
+  keepMin: number; // ...except the newest keepMin, whatever their age
+}
+
+/**
+ * Versioned, gzipped JSON snapshots of every table in a local directory (BACKUP_DIR, default ./backups)
+ */
+export class BackupService {
+  get directory(): string {
+    return path.resolve(process.env.BACKUP_DIR || 'backups');
+  }
+
+  get retention(): RetentionPolicy {
+    return {
+      keepDays: parseInt(process.env.BACKUP_RETENTION_DAYS || '30', 10),
+      keepMin: parseInt(process.env.BACKUP_RETENTION_MIN_COUNT || '7', 10)
+    };
+  }
+
+  async createBackup(source: IStorage = storage): Promise<BackupFile & { rowCounts: Record<string, number> }> {
+    const createdAt = new Date();
+    const tables = await source.snapshotTables();
+    const rowCounts = Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length]));
+    const document: BackupDocument = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: latestMigrationVersion(),
+      createdAt: createdAt.toISOString(),
+      driver: storageConfig.driver,
+      rowCounts,
+      tables
+    };
+
+    const fileName = `${BACKUP_FORMAT}-${createdAt.toISOString().replace(/[:.]/g, '-')}.json.gz`;
+    const filePath = path.join(this.directory, fileName);
+    const compressed = await gzipAsync(JSON.stringify(document));
+
+    // Write then rename so a crash never leaves a truncated backup behind
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${filePath}.partial`, compressed);
+    await fs.rename(`${filePath}.partial`, filePath);
+
+    return { fileName, createdAt, sizeBytes: compressed.length, rowCounts };
+  }
+
+  /** Newest first */
+  async listBackups(): Promise<BackupFile[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const backups: BackupFile[] = [];
+    for (const fileName of entries) {
+      const createdAt = this.parseCreatedAt(fileName);
+      if (!createdAt) continue;
+      const { size } = await fs.stat(path.join(this.directory, fileName));
+      backups.push({ fileName, createdAt, sizeBytes: size });
+    }
+    return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getLastBackup(): Promise<BackupFile | undefined> {
+    return (await this.listBackups())[0];
+  }
+
+  /** Percentage of the backup volume in use (the working directory's until the first backup) */
+  async getDiskUsagePercentage(): Promise<number | null> {
+    try {
+      const directory = await fs.access(this.directory).then(() => this.directory, () => process.cwd());
+      const { blocks, bfree } = await fs.statfs(directory);
+      return blocks > 0 ? Math.round(((blocks - bfree) / blocks) * 100) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Absolute path of a backup in the backup directory; undefined for any other file name */
+  resolveBackupPath(fileName: string): string | undefined {
+    return this.parseCreatedAt(fileName) ? path.join(this.directory, fileName) : undefined;
+  }
+
+  /**
+   * Load a backup file (from anywhere on disk) into an empty database
+   */
+  async restoreBackup(filePath: string, target: IStorage = storage): Promise<Record<string, number>> {
+    const document = JSON.parse((await gunzipAsync(await fs.readFile(filePath))).toString('utf8')) as BackupDocument;
+
+    if (document.format !== BACKUP_FORMAT || document.formatVersion !== BACKUP_FORMAT_VERSION) {
+      throw new Error(`${path.basename(filePath)} is not a version ${BACKUP_FORMAT_VERSION} SubTracker backup`);
+    }
+    const currentVersion = latestMigrationVersion();
+    if (document.schemaVersion && (!currentVersion || document.schemaVersion > currentVersion)) {
+      throw new Error(`Backup was taken at schema version ${document.schemaVersion}, newer than this build (${currentVersion ?? 'none'})`);
+    }
+
+    const tables = {} as TableSnapshot;
+    for (const name of Object.keys(postgresTables) as StorageTableName[]) {
+      tables[name] = (document.tables[name] ?? []).map(row => this.reviveRow(name, row));
+    }
+    await target.restoreTables(tables);
+    return document.rowCounts;
+  }
+
+  /**
+   * Delete backups outside the retention policy. Returns the deleted file names.
+   */
+  async pruneBackups(policy: RetentionPolicy = this.retention, now = new Date()): Promise<string[]> {
+    const cutoff = now.getTime() - policy.keepDays * DAY;
+    const expired = (await this.listBackups())
+      .slice(policy.keepMin)
+      .filter(backup => backup.createdAt.getTime() < cutoff);
+
+    for (const backup of expired) {
+      await fs.unlink(path.join(this.directory, backup.fileName));
+    }
+    return expired.map(backup => backup.fileName);
+  }
+
+  // Scheduled 'system.backup' job
+  async runScheduledBackup() {
+    const backup = await this.createBackup();
+    const pruned = await this.pruneBackups();
+    console.log(`Created backup ${backup.fileName}${pruned.length > 0 ? `, pruned ${pruned.length} old backups` : ''}`);
+  }
+
+  private parseCreatedAt(fileName: string): Date | undefined {
+    const match = BACKUP_FILE_PATTERN.exec(fileName);
+    if (!match) return undefined;
+    const [, date, hours, minutes, seconds, ms] = match;
+    return new Date(`${date}T${hours}:${minutes}:${seconds}.${ms}Z`);
+  }
+
+  // JSON turns timestamps into ISO strings; turn them back into Dates for the insert
+  private reviveRow(table: StorageTableName, row: Record<string, unknown>): Record<string, unknown> {
+    const revived = { ...row };
+    for (const [key, column] of Object.entries(getTableColumns(postgresTables[table]))) {
+      if (column.columnType === 'PgTimestamp' && typeof revived[key] === 'string') {
+        revived[key] = new Date(revived[key] as string);
+      }
+    }
+    return revived;
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,171 @@
+import { randomBytes } from 'crypto';
+import type { Subscription, UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { formatBillingCycle, getRecurrence, occurrencesBetween } from '@shared/recurrence';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { localDateKey, parseTimeOfDay } from '@shared/timezone';
+import { storage } from '../storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_HORIZON_DAYS = 366;
+const DEFAULT_REMINDER_DAYS = [7, 3, 1];
+const PRODUCT_ID = '-//SubTracker//Subscription Renewals//EN';
+
+type FeedPreferences = Pick<UserNotificationPreferences, 'reminderDaysBefore' | 'reminderTime' | 'timezone'>;
+
+interface FeedEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD in the user's timezone
+  summary: string;
+  description: string;
+}
+
+// RFC 5545 3.3.11: backslash, semicolon, comma and newlines are escaped in TEXT values
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 3.1: lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+const icsDate = (dateKey: string) => dateKey.replace(/-/g, '');
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Signed duration, e.g. -P1DT15H for "15 hours before the day before"
+function icsDuration(minutes: number): string {
+  if (minutes === 0) return 'PT0M';
+  let rest = Math.abs(minutes);
+  const days = Math.floor(rest / 1440);
+  rest -= days * 1440;
+  const hours = Math.floor(rest / 60);
+  const mins = rest % 60;
+  const time = hours || mins ? `T${hours ? `${hours}H` : ''}${mins ? `${mins}M` : ''}` : '';
+  return `${minutes < 0 ? '-' : ''}P${days ? `${days}D` : ''}${time}`;
+}
+
+/**
+ * Per-user iCalendar feeds (GET /api/calendar/:token.ics) for calendar apps that subscribe by URL
+ */
+export class CalendarFeedService {
+  /** Create or replace the user's feed token; the old feed URL stops working */
+  async regenerateToken(userId: string): Promise<string> {
+    const token = randomBytes(24).toString('base64url');
+    await storage.setCalendarFeedToken(userId, token);
+    return token;
+  }
+
+  async revokeToken(userId: string): Promise<void> {
+    await storage.setCalendarFeedToken(userId, null);
+  }
+
+  /** The feed for a token, or undefined when no user has that token */
+  async getFeed(token: string, appUrl: string, now: Date = new Date()): Promise<string | undefined> {
+    const preferences = await storage.getUserNotificationPreferencesByCalendarToken(token);
+    if (!preferences) return undefined;
+
+    const subscriptions = await storage.getSubscriptionsByUserId(preferences.userId);
+    return this.buildCalendar(subscriptions, preferences, appUrl, now);
+  }
+
+  /**
+   * Renewals over the next year and upcoming trial ends as all-day events, each with an alarm at the
+   * user's reminder time on every one of their reminder days
+   */
+  buildCalendar(subscriptions: Subscription[], preferences: FeedPreferences, appUrl: string, now: Date = new Date()): string {
+    const timeZone = preferences.timezone || 'UTC';
+    const horizon = new Date(now.getTime() + FEED_HORIZON_DAYS * DAY_MS);
+    const events: FeedEvent[] = [];
+
+    for (const subscription of subscriptions) {
+      if (!subscription.isActive) continue;
+      const amount = formatMoney(subscription.cost, subscription.currency);
+
+      // A confirmed cancellation ends the subscription at its next billing date instead of renewing
+      if (!isCancellationConfirmed(subscription)) {
+        const renewals = occurrencesBetween(new Date(subscription.nextBillingDate), getRecurrence(subscription), now, horizon);
+        for (const renewal of renewals) {
+          const date = localDateKey(renewal, timeZone);
+          events.push({
+            uid: `renewal-${subscription.id}-${icsDate(date)}@subtracker`,
+            date,
+            summary: `${subscription.name} renews (${amount})`,
+            description: `${subscription.name} renews for ${amount} (${formatBillingCycle(subscription)}).\n\nManage your subscriptions at ${appUrl}/dashboard`
+          });
+        }
+      }
+
+      if (subscription.isTrial && subscription.trialEndDate && new Date(subscription.trialEndDate).getTime() >= now.getTime()) {
+        const date = localDateKey(new Date(subscription.trialEndDate), timeZone);
+        events.push({
+          uid: `trial-end-${subscription.id}@subtracker`,
+          date,
+          summary: `${subscription.name} trial ends`,
+          description: `The free trial of ${subscription.name} ends. Cancel before then to avoid being charged ${amount}.\n\nManage your subscriptions at ${appUrl}/dashboard`
+        });
+      }
+    }
+
+    events.sort((a, b) => a.date.localeCompare(b.date) || a.summary.localeCompare(b.summary));
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:SubTracker renewals',
+      `X-WR-TIMEZONE:${timeZone}`,
+      // How often subscribed calendars should re-fetch the feed
+      'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+      'X-PUBLISHED-TTL:PT6H',
+      ...events.flatMap(event => this.eventLines(event, preferences, now)),
+      'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  private eventLines(event: FeedEvent, preferences: FeedPreferences, now: Date): string[] {
+    const nextDay = new Date(Date.parse(`${event.date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+    const reminderTime = parseTimeOfDay(preferences.reminderTime) ?? { hour: 9, minute: 0 };
+    const reminderDays = preferences.reminderDaysBefore ?? DEFAULT_REMINDER_DAYS;
+
+    // All-day events start at local midnight, so "3 days before at 09:00" is 3 days minus 9 hours before the start
+    const alarms = Array.from(new Set(reminderDays)).filter(days => days >= 0).flatMap(days => [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(days === 0 ? event.summary : `${event.summary} in ${days} day${days === 1 ? '' : 's'}`)}`,
+      `TRIGGER:${icsDuration(reminderTime.hour * 60 + reminderTime.minute - days * 1440)}`,
+      'END:VALARM'
+    ]);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      'TRANSP:TRANSPARENT',
+      ...alarms,
+      'END:VEVENT'
+    ];
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,248 @@
+import type { CalendarEvent, Subscription, UserNotificationPreferences } from '@shared/schema';
+import { getRecurrence, nextOccurrence } from '@shared/recurrence';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { isValidTimeZone, localDateKey } from '@shared/timezone';
+import { storage } from '../storage';
+import { jobQueue } from './job-queue.service';
+import {
+  googleCalendarService,
+  CalendarEventNotFoundError,
+  type GoogleCalendarService,
+  type ReminderEventDetails
+} from './google-calendar.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REMINDER_DAYS = [7, 3, 1];
+
+export interface CalendarSyncResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+type SyncOutcome = 'created' | 'updated' | 'unchanged';
+
+// The reminder event a subscription should have for one of the user's reminder days
+interface TargetEvent {
+  subscription: Subscription;
+  daysBefore: number;
+  renewalDate: Date;
+}
+
+type RemoteEvent = Awaited<ReturnType<GoogleCalendarService['listSubscriptionEvents']>>[number];
+
+const time = (date: Date | string) => new Date(date).getTime();
+const emptyResult = (): CalendarSyncResult => ({ created: 0, updated: 0, unchanged: 0, deleted: 0 });
+
+/**
+ * Keeps the Google Calendar reminder events of connected users in step with their subscriptions.
+ * Every event is recorded in calendar_events against its subscription and reminder day, so edits update
+ * it in place and pauses, cancellations and deletions remove it; the daily reconciliation repairs events
+ * that were changed or deleted in the calendar itself.
+ */
+export class CalendarSyncService {
+  constructor(private calendar: GoogleCalendarService = googleCalendarService) {}
+
+  isConnected(preferences: UserNotificationPreferences | undefined): preferences is UserNotificationPreferences {
+    return !!(preferences?.googleCalendarEnabled && preferences.googleAccessToken);
+  }
+
+  /**
+   * Queue a 'calendar.sync.subscription' job after a subscription was created, edited, paused, resumed,
+   * cancelled or deleted. Users without Google Calendar connected are skipped.
+   */
+  async queueSubscriptionSync(userId: string | null, subscriptionId: string) {
+    if (!userId) return;
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    if (!this.isConnected(preferences)) return;
+
+    await jobQueue.enqueue('calendar.sync.subscription', { userId, subscriptionId });
+  }
+
+  /**
+   * Create, update or remove one subscription's events to match its current state. A subscription
+   * that no longer exists (or is paused or cancelled) has its upcoming events deleted.
+   */
+  async syncSubscription(userId: string, subscriptionId: string, now: Date = new Date()): Promise<CalendarSyncResult> {
+    const result = emptyResult();
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    if (!this.isConnected(preferences)) return result;
+
+    const subscription = await storage.getSubscription(subscriptionId);
+    const targets = subscription && subscription.userId === userId ? this.targetEvents(subscription, preferences, now) : [];
+    const stored = await storage.getCalendarEventsBySubscriptionId(subscriptionId);
+
+    for (const event of stored) {
+      if (targets.some(target => target.daysBefore === event.daysBefore)) continue;
+      await this.removeEvent(preferences, event, now);
+      result.deleted++;
+    }
+
+    for (const target of targets) {
+      const { outcome } = await this.writeEvent(preferences, target, stored.find(e => e.daysBefore === target.daysBefore), now);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Make sure the event for a reminder exists and is current, for the 'calendar' reminder channel.
+   * `subscription.nextBillingDate` is the renewal being reminded about.
+   */
+  async syncReminderEvent(preferences: UserNotificationPreferences, subscription: Subscription, daysBefore: number, now: Date = new Date()) {
+    const [existing] = (await storage.getCalendarEventsBySubscriptionId(subscription.id)).filter(e => e.daysBefore === daysBefore);
+    return await this.writeEvent(preferences, { subscription, daysBefore, renewalDate: new Date(subscription.nextBillingDate) }, existing, now);
+  }
+
+  /**
+   * Bring all of a user's reminder events in line with their subscriptions: recreate events deleted
+   * from the calendar, rewrite ones that were edited there, and delete events nothing maps to
+   * (left behind by earlier versions or by failed deletes).
+   */
+  async reconcileUser(userId: string, now: Date = new Date()): Promise<CalendarSyncResult> {
+    const result = emptyResult();
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    if (!this.isConnected(preferences)) return result;
+
+    const remoteEvents = await this.calendar.listSubscriptionEvents(preferences);
+    const remote = new Map(remoteEvents.filter(event => event.id).map(event => [event.id!, event]));
+    const subscriptions = await storage.getUserSubscriptions(userId);
+    const stored = await storage.getCalendarEventsByUserId(userId);
+    const targets = subscriptions.flatMap(subscription => this.targetEvents(subscription, preferences, now));
+    const storedFor = (target: TargetEvent) =>
+      stored.find(e => e.subscriptionId === target.subscription.id && e.daysBefore === target.daysBefore);
+
+    for (const event of stored) {
+      if (targets.some(target => storedFor(target) === event)) continue;
+      await this.removeEvent(preferences, event, now);
+      result.deleted++;
+    }
+
+    for (const target of targets) {
+      const { outcome } = await this.writeEvent(preferences, target, storedFor(target), now, remote);
+      result[outcome]++;
+    }
+
+    const mapped = new Set((await storage.getCalendarEventsByUserId(userId)).map(event => event.eventId));
+    for (const event of Array.from(remote.values())) {
+      if (mapped.has(event.id!) || !event.startTime || time(event.startTime) <= now.getTime()) continue;
+      await this.calendar.deleteReminderEvent(preferences, event.id!);
+      result.deleted++;
+    }
+
+    return result;
+  }
+
+  /**
+   * The next reminder event for each of the user's reminder days whose day has not passed yet.
+   * Paused, ended and confirmed-cancelled subscriptions have none.
+   */
+  private targetEvents(subscription: Subscription, preferences: UserNotificationPreferences, now: Date): TargetEvent[] {
+    if (!subscription.isActive || isCancellationConfirmed(subscription)) return [];
+
+    // Billing dates are calendar dates (stored at UTC midnight), so "today" is the user's local date expressed the same way
+    const timeZone = isValidTimeZone(preferences.timezone) ? preferences.timezone : 'UTC';
+    const today = time(`${localDateKey(now, timeZone)}T00:00:00Z`);
+    const reminderDays = Array.from(new Set(preferences.reminderDaysBefore ?? DEFAULT_REMINDER_DAYS)).filter(days => days >= 0);
+
+    return reminderDays.map(daysBefore => ({
+      subscription,
+      daysBefore,
+      renewalDate: nextOccurrence(new Date(subscription.nextBillingDate), getRecurrence(subscription), new Date(today + daysBefore * DAY_MS))
+    }));
+  }
+
+  /**
+   * Update the stored event for a target in place, or create it when there is none, it was deleted from
+   * the calendar, or it belongs to an earlier renewal and has already started (it is kept as a record).
+   * With `remote` (the calendar's upcoming events) events that already match are left alone.
+   */
+  private async writeEvent(
+    preferences: UserNotificationPreferences,
+    target: TargetEvent,
+    existing: CalendarEvent | undefined,
+    now: Date,
+    remote?: Map<string, RemoteEvent>
+  ): Promise<{ outcome: SyncOutcome; event: CalendarEvent }> {
+    const calendarId = preferences.googleCalendarId || 'primary';
+    const details = this.eventDetails(target);
+
+    // The user picked another calendar since the event was created
+    if (existing && existing.calendarId !== calendarId) {
+      await this.removeEvent(preferences, existing, now);
+      existing = undefined;
+    }
+
+    if (existing) {
+      const started = time(existing.startsAt) <= now.getTime();
+      const sameRenewal = time(existing.renewalDate) === target.renewalDate.getTime();
+
+      if (!started || sameRenewal) {
+        const remoteEvent = remote?.get(existing.eventId);
+        if (remote && (started || (remoteEvent && this.matches(remoteEvent, preferences, details, target.daysBefore)))) {
+          return { outcome: 'unchanged', event: existing };
+        }
+
+        // Listed calendars without the event had it deleted by hand; otherwise the update reports it
+        if (!remote || remoteEvent) {
+          try {
+            await this.calendar.updateReminderEvent(preferences, existing.eventId, details, target.daysBefore);
+            return { outcome: 'updated', event: await this.saveEvent(preferences, target, existing.eventId) };
+          } catch (error) {
+            if (!(error instanceof CalendarEventNotFoundError)) throw error;
+          }
+        }
+      }
+    }
+
+    const created = await this.calendar.createReminderEvent(preferences, details, target.daysBefore);
+    if (!created.eventId) {
+      throw new Error('Google Calendar did not return an event id');
+    }
+    return { outcome: 'created', event: await this.saveEvent(preferences, target, created.eventId) };
+  }
+
+  /**
+   * Delete an event that has not started yet from its calendar and forget it. Past reminders stay in the calendar.
+   */
+  private async removeEvent(preferences: UserNotificationPreferences, event: CalendarEvent, now: Date) {
+    if (time(event.startsAt) > now.getTime()) {
+      await this.calendar.deleteReminderEvent({ ...preferences, googleCalendarId: event.calendarId }, event.eventId);
+    }
+    await storage.deleteCalendarEvent(event.id);
+  }
+
+  private matches(event: RemoteEvent, preferences: UserNotificationPreferences, details: ReminderEventDetails, daysBefore: number): boolean {
+    const expected = this.calendar.buildReminderEvent(preferences, details, daysBefore);
+    return event.summary === expected.summary &&
+      event.description === expected.description &&
+      !!event.startTime && time(event.startTime) === time(expected.start!.dateTime!);
+  }
+
+  private async saveEvent(preferences: UserNotificationPreferences, target: TargetEvent, eventId: string) {
+    return await storage.saveCalendarEvent({
+      userId: preferences.userId,
+      subscriptionId: target.subscription.id,
+      daysBefore: target.daysBefore,
+      calendarId: preferences.googleCalendarId || 'primary',
+      eventId,
+      renewalDate: target.renewalDate,
+      startsAt: this.calendar.reminderStartTime(preferences, target.renewalDate, target.daysBefore)
+    });
+  }
+
+  private eventDetails({ subscription, renewalDate }: TargetEvent): ReminderEventDetails {
+    return {
+      id: subscription.id,
+      name: subscription.name,
+      cost: subscription.cost,
+      currency: subscription.currency,
+      nextBillingDate: renewalDate,
+      description: subscription.description || undefined
+    };
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService();
@@ -0,0 +1,106 @@
+import type { Subscription } from '@shared/schema';
+import { formatCancellationStatus } from '@shared/cancellation';
+import { storage } from '../storage';
+import { calendarSyncService } from './calendar-sync.service';
+import { webhookService } from './webhook.service';
+
+export type CancellationEffective = 'end_of_period' | 'immediately';
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export class CancellationService {
+
+  /**
+   * Record that the user intends to cancel before `cancelBy` (or move the deadline of an existing plan)
+   */
+  async planCancellation(subscription: Subscription, cancelBy: Date): Promise<Subscription | undefined> {
+    const updated = await storage.updateSubscription(subscription.id, {
+      cancellationStatus: 'planned',
+      cancelBy
+    });
+
+    await this.recordEvent(subscription, 'cancellation_planned',
+      `Cancellation of "${subscription.name}" planned before ${formatDate(cancelBy)}`);
+
+    return updated;
+  }
+
+  /**
+   * Record that the subscription was cancelled with the provider. It stays active until the
+   * end of the paid period unless it was cancelled immediately (or the period has already ended).
+   */
+  async confirmCancellation(subscription: Subscription, effective: CancellationEffective, now: Date = new Date()): Promise<Subscription | undefined> {
+    const periodEnd = new Date(subscription.nextBillingDate);
+    const endsNow = effective === 'immediately' || periodEnd.getTime() <= now.getTime();
+
+    const updated = await storage.updateSubscription(subscription.id, {
+      cancellationStatus: endsNow ? 'cancelled' : 'active_until_end',
+      cancelBy: null,
+      cancelledAt: now,
+      ...(endsNow ? { isActive: false } : {})
+    });
+
+    await this.recordEvent(subscription, 'cancel', endsNow
+      ? `Subscription "${subscription.name}" was cancelled`
+      : `Subscription "${subscription.name}" was cancelled and stays active until ${formatDate(periodEnd)}`);
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscription.id);
+
+    return updated;
+  }
+
+  /**
+   * Drop a planned cancellation, or undo a confirmed one whose paid period has not ended yet
+   */
+  async withdrawCancellation(subscription: Subscription): Promise<Subscription | undefined> {
+    const updated = await storage.updateSubscription(subscription.id, {
+      cancellationStatus: null,
+      cancelBy: null,
+      cancelledAt: null
+    });
+
+    await this.recordEvent(subscription, 'cancellation_withdrawn',
+      `${formatCancellationStatus(subscription.cancellationStatus)} for "${subscription.name}" was withdrawn`);
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscription.id);
+
+    return updated;
+  }
+
+  /**
+   * End a subscription whose paid period ran out after a confirmed cancellation (called by renewals)
+   */
+  async endSubscription(subscription: Subscription): Promise<Subscription | undefined> {
+    const updated = await storage.updateSubscription(subscription.id, {
+      cancellationStatus: 'cancelled',
+      isActive: false
+    });
+
+    await this.recordEvent(subscription, 'ended',
+      `Subscription "${subscription.name}" ended after its final paid period`, new Date(subscription.nextBillingDate));
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscription.id);
+
+    return updated;
+  }
+
+  private async recordEvent(subscription: Subscription, eventType: string, description: string, eventDate: Date = new Date()) {
+    if (!subscription.userId) return;
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      eventType,
+      paymentStatus: null,
+      amount: null,
+      currency: subscription.currency,
+      paymentMethod: null,
+      description,
+      eventDate
+    });
+    await webhookService.emit(subscription.userId, 'subscription.updated', {
+      subscription: await storage.getSubscription(subscription.id) ?? subscription,
+      change: eventType,
+      description
+    });
+  }
+}
+
+export const cancellationService = new CancellationService();
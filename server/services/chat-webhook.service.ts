@@ -0,0 +1,171 @@
+import { UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import {
+  CHAT_CHANNEL_FIELDS,
+  CHAT_CHANNEL_LABELS,
+  chatWebhookUrlError,
+  type ChatChannel
+} from '@shared/chat-channels';
+import { secretVault } from './secret-vault.service';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface ChatReminderDetails {
+  name: string;
+  cost: string;
+  currency?: string;
+  nextBillingDate: Date;
+  description?: string;
+}
+
+/** A message before it is shaped for a particular app */
+interface ChatMessage {
+  title: string;
+  text: string;
+  facts: { name: string; value: string }[];
+  urgency: 'low' | 'normal' | 'high';
+}
+
+type ChatMessageFormatter = (message: ChatMessage) => unknown;
+
+const URGENCY_EMOJI: Record<ChatMessage['urgency'], string> = { low: '🔔', normal: '⚠️', high: '🚨' };
+const DISCORD_COLORS: Record<ChatMessage['urgency'], number> = { low: 0x3b82f6, normal: 0xf59e0b, high: 0xef4444 };
+const TEAMS_COLORS: Record<ChatMessage['urgency'], string> = { low: 'accent', normal: 'warning', high: 'attention' };
+
+// One formatter per channel: Slack Block Kit, a Discord embed, a Teams Adaptive Card.
+// A new chat app needs an entry in shared/chat-channels.ts, its preference columns and a formatter here.
+const FORMATTERS: Record<ChatChannel, ChatMessageFormatter> = {
+  slack: (message) => ({
+    // Shown in notifications and by clients that can't render blocks
+    text: `${URGENCY_EMOJI[message.urgency]} ${message.title}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: `${URGENCY_EMOJI[message.urgency]} ${message.title}`, emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: message.text } },
+      ...(message.facts.length > 0 ? [{
+        type: 'section',
+        fields: message.facts.map(fact => ({ type: 'mrkdwn', text: `*${fact.name}*\n${fact.value}` }))
+      }] : []),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: 'Sent by SubTracker' }] }
+    ]
+  }),
+
+  discord: (message) => ({
+    username: 'SubTracker',
+    embeds: [{
+      title: `${URGENCY_EMOJI[message.urgency]} ${message.title}`,
+      description: message.text,
+      color: DISCORD_COLORS[message.urgency],
+      fields: message.facts.map(fact => ({ name: fact.name, value: fact.value, inline: true })),
+      footer: { text: 'SubTracker' },
+      timestamp: new Date().toISOString()
+    }]
+  }),
+
+  teams: (message) => ({
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: message.title, size: 'Large', weight: 'Bolder', color: TEAMS_COLORS[message.urgency], wrap: true },
+          { type: 'TextBlock', text: message.text, wrap: true },
+          ...(message.facts.length > 0 ? [{
+            type: 'FactSet',
+            facts: message.facts.map(fact => ({ title: fact.name, value: fact.value }))
+          }] : [])
+        ]
+      }
+    }]
+  })
+};
+
+/**
+ * Slack, Discord and Microsoft Teams reminders, posted to the incoming-webhook URL the user saved
+ */
+export class ChatWebhookService {
+
+  /** The channel's saved webhook URL, decrypted, or null if none is saved */
+  getWebhookUrl(channel: ChatChannel, preferences: UserNotificationPreferences): string | null {
+    const encrypted = preferences[CHAT_CHANNEL_FIELDS[channel].webhookUrl];
+    return encrypted ? secretVault.decrypt(encrypted) : null;
+  }
+
+  isConfigured(channel: ChatChannel, preferences: UserNotificationPreferences): boolean {
+    return preferences[CHAT_CHANNEL_FIELDS[channel].enabled] && !!preferences[CHAT_CHANNEL_FIELDS[channel].webhookUrl];
+  }
+
+  async sendSubscriptionReminder(
+    channel: ChatChannel,
+    preferences: UserNotificationPreferences,
+    subscription: ChatReminderDetails,
+    daysBefore: number
+  ) {
+    const webhookUrl = this.getWebhookUrl(channel, preferences);
+    if (!preferences[CHAT_CHANNEL_FIELDS[channel].enabled] || !webhookUrl) {
+      throw new Error(`${CHAT_CHANNEL_LABELS[channel]} notifications not enabled or webhook URL not configured`);
+    }
+
+    const renewalDate = new Date(subscription.nextBillingDate).toISOString().slice(0, 10);
+    const timeFrame = daysBefore === 0 ? 'today' : daysBefore === 1 ? 'tomorrow' : `in ${daysBefore} days`;
+    await this.post(channel, webhookUrl, {
+      title: `${subscription.name} renews ${timeFrame}`,
+      text: subscription.description || 'Cancel it before then if you no longer need it.',
+      facts: [
+        { name: 'Amount', value: formatMoney(subscription.cost, subscription.currency) },
+        { name: 'Renewal date', value: renewalDate }
+      ],
+      urgency: daysBefore <= 1 ? 'high' : daysBefore <= 3 ? 'normal' : 'low'
+    });
+
+    return { status: 'sent', timestamp: new Date() };
+  }
+
+  /**
+   * Post a test message. Uses `webhookUrl` when given (a URL typed in but not saved yet), the saved URL otherwise.
+   */
+  async testConnection(channel: ChatChannel, preferences: UserNotificationPreferences | undefined, webhookUrl?: string) {
+    const label = CHAT_CHANNEL_LABELS[channel];
+    try {
+      const url = webhookUrl?.trim() || (preferences && this.getWebhookUrl(channel, preferences));
+      if (!url) {
+        return { success: false, message: `Enter your ${label} webhook URL first` };
+      }
+
+      await this.post(channel, url, {
+        title: 'SubTracker is connected',
+        text: 'Subscription renewal reminders will be posted here.',
+        facts: [],
+        urgency: 'low'
+      });
+      return { success: true, message: `Test message posted to ${label}` };
+    } catch (error) {
+      console.error(`${label} connection test failed:`, error);
+      return { success: false, message: error instanceof Error ? error.message : `${label} connection test failed` };
+    }
+  }
+
+  private async post(channel: ChatChannel, url: string, message: ChatMessage) {
+    // Saved URLs are validated too, but they can also arrive from a restored backup
+    const invalid = chatWebhookUrlError(channel, url);
+    if (invalid) throw new Error(invalid);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(FORMATTERS[channel](message)),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 200);
+      throw new Error(`${CHAT_CHANNEL_LABELS[channel]} responded with HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+  }
+}
+
+export const chatWebhookService = new ChatWebhookService();
@@ -0,0 +1,142 @@
+import {
+  BASE_CURRENCY,
+  createCurrencyConverter,
+  isValidCurrencyCode,
+  normalizeCurrencyCode,
+  type CurrencyConverter,
+  type ExchangeRates
+} from '@shared/currency';
+import type { ExchangeRate } from '@shared/schema';
+import { storage } from '../storage';
+
+export type RatesFileFormat = 'json' | 'csv';
+
+export class CurrencyService {
+
+  /**
+   * Load all stored exchange rates as a currency -> rate map (units per 1 USD)
+   */
+  async getRates(): Promise<ExchangeRates> {
+    const rows = await storage.getExchangeRates();
+    return rows.reduce((acc, row) => {
+      acc[row.currency] = parseFloat(row.rate);
+      return acc;
+    }, {} as ExchangeRates);
+  }
+
+  /**
+   * Build a converter into the given user's reporting currency
+   */
+  async getConverterForUser(user: { reportingCurrency?: string | null }): Promise<CurrencyConverter> {
+    const rates = await this.getRates();
+    return createCurrencyConverter(rates, normalizeCurrencyCode(user.reportingCurrency));
+  }
+
+  /**
+   * Create or update a single exchange rate
+   */
+  async setRate(currency: string, rate: number, updatedBy?: string, source: 'manual' | 'import' = 'manual'): Promise<ExchangeRate> {
+    const code = normalizeCurrencyCode(currency);
+    if (!isValidCurrencyCode(code)) {
+      throw new Error(`Invalid currency code: ${currency}`);
+    }
+    if (code === BASE_CURRENCY) {
+      throw new Error(`${BASE_CURRENCY} is the base currency and always has a rate of 1`);
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid rate for ${code}: must be a positive number`);
+    }
+
+    return await storage.upsertExchangeRate({
+      currency: code,
+      rate: rate.toString(),
+      source,
+      updatedBy: updatedBy ?? null
+    });
+  }
+
+  /**
+   * Parse an exchange-rate file. Accepts:
+   * - JSON: { "EUR": 0.92, ... } or { "base": "EUR", "rates": { "USD": 1.08, ... } }
+   * - CSV: "currency,rate" lines (header row optional)
+   * Rates quoted against another base are rebased onto USD.
+   */
+  parseRatesFile(content: string, format: RatesFileFormat): ExchangeRates {
+    let base = BASE_CURRENCY;
+    let raw: Record<string, unknown>;
+
+    if (format === 'json') {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        throw new Error('Rates file is not valid JSON');
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Rates file must contain a JSON object');
+      }
+      if (parsed.rates && typeof parsed.rates === 'object') {
+        base = normalizeCurrencyCode(parsed.base);
+        raw = parsed.rates;
+      } else {
+        raw = parsed;
+      }
+    } else {
+      raw = {};
+      const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+      lines.forEach((line, index) => {
+        const [currency, rate] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+        if (index === 0 && isNaN(parseFloat(rate))) return; // header row
+        if (!currency || rate === undefined) {
+          throw new Error(`Invalid CSV line ${index + 1}: expected "currency,rate"`);
+        }
+        raw[currency] = rate;
+      });
+    }
+
+    const rates: ExchangeRates = {};
+    for (const [currency, value] of Object.entries(raw)) {
+      const code = normalizeCurrencyCode(currency);
+      const rate = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!isValidCurrencyCode(code)) {
+        throw new Error(`Invalid currency code: ${currency}`);
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new Error(`Invalid rate for ${code}: must be a positive number`);
+      }
+      rates[code] = rate;
+    }
+
+    if (base !== BASE_CURRENCY) {
+      const baseRate = rates[BASE_CURRENCY];
+      if (!baseRate) {
+        throw new Error(`Rates quoted in ${base} must include a ${BASE_CURRENCY} rate`);
+      }
+      rates[base] = 1;
+      for (const code of Object.keys(rates)) {
+        rates[code] = rates[code] / baseRate;
+      }
+    }
+
+    delete rates[BASE_CURRENCY];
+
+    if (Object.keys(rates).length === 0) {
+      throw new Error('Rates file does not contain any exchange rates');
+    }
+
+    return rates;
+  }
+
+  /**
+   * Save a parsed set of rates, marking them as imported
+   */
+  async importRates(rates: ExchangeRates, updatedBy?: string): Promise<ExchangeRate[]> {
+    const saved: ExchangeRate[] = [];
+    for (const [currency, rate] of Object.entries(rates)) {
+      saved.push(await this.setRate(currency, rate, updatedBy, 'import'));
+    }
+    return saved;
+  }
+}
+
+export const currencyService = new CurrencyService();
@@ -0,0 +1,218 @@
+import type { User, UserNotificationPreferences } from '@shared/schema';
+import { digestPeriod, isDigestDay, nextDigestDay, type DigestFrequency } from '@shared/digest';
+import { getRecurrence, occurrencesBetween, toMonthlyCost } from '@shared/recurrence';
+import { isValidTimeZone, localDateKey, parseTimeOfDay, zonedTimeToUtc } from '@shared/timezone';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { storage } from '../storage';
+import { currencyService } from './currency.service';
+import { emailService } from './email.service';
+import { jobQueue } from './job-queue.service';
+
+export type ScheduledDigestFrequency = Exclude<DigestFrequency, 'off'>;
+
+export interface DigestJobPayload {
+  userId: string;
+  frequency: ScheduledDigestFrequency;
+  periodStart: string; // YYYY-MM-DD digest day, in the user's timezone
+}
+
+/**
+ * Everything a spending digest reports on. Totals are in the user's reporting currency; individual
+ * renewals and price changes keep their own currency.
+ */
+export interface SpendingDigest {
+  frequency: ScheduledDigestFrequency;
+  periodName: 'week' | 'month';
+  periodLabel: string; // "the week of March 2, 2026" or "March 2026"
+  periodStart: Date;
+  periodEnd: Date; // last day of the period
+  currency: string;
+  renewals: { subscriptionId: string; name: string; date: Date; cost: string; currency: string }[];
+  trials: { subscriptionId: string; name: string; endsOn: Date; cost: string; currency: string }[];
+  upcomingTotal: number; // renewals due in the period
+  previousTotal: number; // payments recorded in the period before
+  change: { amount: number; percent: number | null; increased: boolean; decreased: boolean };
+  biggestCategory: { name: string; monthlyTotal: number; share: number } | null;
+  priceChanges: {
+    subscriptionId: string;
+    name: string;
+    previousAmount: string;
+    previousCurrency: string | null;
+    amount: string;
+    currency: string | null;
+    effectiveDate: Date;
+    increase: boolean;
+  }[];
+  missingRates: string[];
+}
+
+// The digests scan runs hourly; queue digests due before the next run (with some overlap)
+const DIGEST_SCAN_LOOKAHEAD_MS = 90 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inPeriod = (date: Date | string, start: Date, end: Date) =>
+  new Date(date).getTime() >= start.getTime() && new Date(date).getTime() < end.getTime();
+
+/**
+ * Weekly and monthly spending digest emails: what renews next, trials ending, spend compared with
+ * the last period, the biggest category and recent price changes
+ */
+export class DigestService {
+
+  /**
+   * Queue today's digest for every opted-in user whose reminder time falls before the next scan
+   * (the 'digests.scan' job)
+   */
+  async processDueDigests() {
+    const users = await storage.getAllUsersWithPreferences();
+    const now = new Date();
+    let queued = 0;
+
+    for (const user of users) {
+      const { digestFrequency: frequency, emailEnabled, emailAddress } = user.preferences;
+      if ((frequency !== 'weekly' && frequency !== 'monthly') || !emailEnabled || !emailAddress) continue;
+
+      const { timeZone, reminderTime } = this.getUserSchedule(user.preferences);
+      const today = localDateKey(now, timeZone);
+      if (!isDigestDay(frequency, today)) continue;
+
+      const [year, month, day] = today.split('-').map(Number);
+      const sendAt = zonedTimeToUtc(year, month, day, reminderTime, timeZone);
+      if (sendAt.getTime() > now.getTime() + DIGEST_SCAN_LOOKAHEAD_MS) continue;
+
+      const payload: DigestJobPayload = { userId: user.id, frequency, periodStart: today };
+      const job = await jobQueue.enqueue('digest.send', { ...payload }, {
+        idempotencyKey: `digest:${user.id}:${frequency}:${today}`,
+        runAt: sendAt
+      });
+      if (job) queued++;
+    }
+
+    console.log(`Queued ${queued} spending digests`);
+  }
+
+  /**
+   * Build and email a digest queued by the digests scan (the 'digest.send' job)
+   */
+  async sendQueuedDigest(payload: DigestJobPayload) {
+    const { userId, frequency, periodStart } = payload;
+    const user = await storage.getUser(userId);
+    const preferences = await storage.getUserNotificationPreferences(userId);
+
+    // Digest switched off or changed, or email turned off, since it was queued
+    if (!user || !preferences || preferences.digestFrequency !== frequency || !preferences.emailEnabled || !preferences.emailAddress) {
+      return;
+    }
+
+    const digest = await this.buildDigest(user, frequency, periodStart);
+    await emailService.sendSpendingDigest(preferences, digest, userId);
+    console.log(`Sent ${frequency} spending digest for ${periodStart} to user ${userId}`);
+  }
+
+  /**
+   * The next digest the user would get: the one sent today if today is a digest day, otherwise the
+   * next Monday or 1st of the month in their timezone
+   */
+  async nextDigest(user: User, preferences: UserNotificationPreferences | undefined, frequency: ScheduledDigestFrequency): Promise<SpendingDigest> {
+    const timeZone = preferences ? this.getUserSchedule(preferences).timeZone : 'UTC';
+    return this.buildDigest(user, frequency, nextDigestDay(frequency, localDateKey(new Date(), timeZone)));
+  }
+
+  /**
+   * The digest sent on `day` (a Monday or the 1st, YYYY-MM-DD), covering the period starting that day
+   */
+  async buildDigest(user: User, frequency: ScheduledDigestFrequency, day: string): Promise<SpendingDigest> {
+    const period = digestPeriod(frequency, day);
+    const lastDay = new Date(period.end.getTime() - DAY_MS);
+    const [subscriptions, history, converter] = await Promise.all([
+      storage.getUserSubscriptions(user.id),
+      storage.getSubscriptionHistoryByUserId(user.id),
+      currencyService.getConverterForUser(user)
+    ]);
+    const namesById = new Map(subscriptions.map(sub => [sub.id, sub.name]));
+    // Cancelled with the provider: it won't renew, so it doesn't count towards what's coming up
+    const renewing = subscriptions.filter(sub => sub.isActive && !isCancellationConfirmed(sub));
+
+    const renewals = renewing
+      .flatMap(sub => occurrencesBetween(new Date(sub.nextBillingDate), getRecurrence(sub), period.start, lastDay)
+        .map(date => ({ subscriptionId: sub.id, name: sub.name, date, cost: sub.cost, currency: sub.currency })))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const trials = renewing
+      .filter(sub => sub.isTrial && sub.trialEndDate && inPeriod(sub.trialEndDate, period.start, period.end))
+      .map(sub => ({ subscriptionId: sub.id, name: sub.name, endsOn: new Date(sub.trialEndDate!), cost: sub.cost, currency: sub.currency }))
+      .sort((a, b) => a.endsOn.getTime() - b.endsOn.getTime());
+
+    const upcomingTotal = renewals.reduce((sum, renewal) => sum + converter.convert(parseFloat(renewal.cost), renewal.currency), 0);
+    const previousTotal = history
+      .filter(entry => entry.eventType === 'payment' && entry.paymentStatus === 'paid' && entry.amount &&
+        inPeriod(entry.eventDate, period.previousStart, period.start))
+      .reduce((sum, entry) => sum + converter.convert(parseFloat(entry.amount!), entry.currency), 0);
+    const difference = upcomingTotal - previousTotal;
+
+    // By average monthly cost, so yearly plans count as much as they really cost
+    const byCategory = new Map<string, number>();
+    for (const sub of renewing) {
+      const monthly = toMonthlyCost(converter.convert(parseFloat(sub.cost), sub.currency), sub);
+      byCategory.set(sub.category, (byCategory.get(sub.category) ?? 0) + monthly);
+    }
+    const monthlyTotal = Array.from(byCategory.values()).reduce((sum, amount) => sum + amount, 0);
+    const [biggest] = Array.from(byCategory.entries()).sort((a, b) => b[1] - a[1]);
+
+    const priceChanges = history
+      .filter(entry => entry.eventType === 'price_change' && inPeriod(entry.eventDate, period.previousStart, period.start))
+      .map(entry => {
+        const previousCurrency = entry.previousCurrency ?? entry.currency;
+        return {
+          subscriptionId: entry.subscriptionId,
+          name: namesById.get(entry.subscriptionId) ?? entry.description.match(/"([^"]+)"/)?.[1] ?? 'Unknown Subscription',
+          previousAmount: entry.previousAmount ?? '0',
+          previousCurrency,
+          amount: entry.amount ?? '0',
+          currency: entry.currency,
+          effectiveDate: new Date(entry.eventDate),
+          increase: converter.convert(parseFloat(entry.amount ?? '0'), entry.currency) >
+            converter.convert(parseFloat(entry.previousAmount ?? '0'), previousCurrency)
+        };
+      })
+      .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+    return {
+      frequency,
+      periodName: frequency === 'weekly' ? 'week' : 'month',
+      periodLabel: frequency === 'weekly'
+        ? `the week of ${period.start.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`
+        : period.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+      periodStart: period.start,
+      periodEnd: lastDay,
+      currency: converter.reportingCurrency,
+      renewals,
+      trials,
+      upcomingTotal,
+      previousTotal,
+      change: {
+        amount: Math.abs(difference),
+        percent: previousTotal > 0 ? Math.round(Math.abs(difference) / previousTotal * 100) : null,
+        increased: difference >= 0.005,
+        decreased: difference <= -0.005
+      },
+      biggestCategory: biggest && monthlyTotal > 0
+        ? { name: biggest[0], monthlyTotal: biggest[1], share: Math.round(biggest[1] / monthlyTotal * 100) }
+        : null,
+      priceChanges,
+      missingRates: converter.missingRates()
+    };
+  }
+
+  /**
+   * A user's timezone and local reminder time, falling back to UTC / 09:00 if either is invalid
+   */
+  private getUserSchedule(preferences: UserNotificationPreferences) {
+    return {
+      timeZone: isValidTimeZone(preferences.timezone) ? preferences.timezone : 'UTC',
+      reminderTime: parseTimeOfDay(preferences.reminderTime) ?? { hour: 9, minute: 0 }
+    };
+  }
+}
+
+export const digestService = new DigestService();
@@ -0,0 +1,279 @@
+import type { Subscription } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { calendarDaysBetween } from '@shared/recurrence';
+import { isValidTimeZone, localDateKey } from '@shared/timezone';
+import { storage } from '../storage';
+import { secretVault } from './secret-vault.service';
+import { jobQueue } from './job-queue.service';
+import { cancellationService } from './cancellation.service';
+import type { ReminderChannel, ReminderJobPayload } from './notification.service';
+
+export const EMAIL_ACTIONS = ['unsubscribe', 'snooze', 'paid', 'cancelled'] as const;
+export type EmailAction = (typeof EMAIL_ACTIONS)[number];
+
+/** What a signed link lets its holder do. Subscription actions carry the reminder they came from. */
+export interface EmailActionClaims {
+  action: EmailAction;
+  userId: string;
+  subscriptionId?: string;
+  renewalDate?: string; // YYYY-MM-DD
+  daysBefore?: number;
+  expiresAt: number; // unix seconds
+}
+
+export interface EmailActionLinks {
+  unsubscribeUrl: string;
+  snoozeUrl: string | null; // null on the renewal day, when there is nothing left to snooze
+  paidUrl: string;
+  cancelledUrl: string;
+}
+
+/**
+ * Where an action came from when it isn't a signed email link, e.g. a WhatsApp reply. A snooze
+ * re-sends the reminder on the same channel.
+ */
+export interface ActionSource {
+  channel: ReminderChannel;
+  snoozeDays?: number;
+  description: string; // e.g. "a WhatsApp reply", for the history entry a payment creates
+}
+
+const EMAIL_SOURCE: ActionSource = { channel: 'email', description: 'a reminder email' };
+
+export class EmailActionError extends Error {}
+
+const SIGNING_PURPOSE = 'email-action';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Unsubscribe links live in every email, and mail clients show the List-Unsubscribe button for weeks
+const UNSUBSCRIBE_LINK_TTL_MS = 60 * DAY_MS;
+// Subscription actions stay usable for a little while after the renewal they are about
+const SUBSCRIPTION_LINK_GRACE_MS = 7 * DAY_MS;
+const SNOOZE_DAYS = 3;
+
+export const EMAIL_ACTION_LABELS: Record<EmailAction, string> = {
+  unsubscribe: 'Unsubscribe from email reminders',
+  snooze: `Snooze this reminder ${SNOOZE_DAYS} days`,
+  paid: 'Mark as paid',
+  cancelled: 'I cancelled this'
+};
+
+/**
+ * Signed, expiring links in reminder emails that act without signing in. A token is
+ *
+ *   <base64url JSON claims>.<keyId>.<mac>
+ *
+ * signed with the secret vault keyring. The links only ever open a confirmation page; the
+ * action runs on POST, so mail scanners that prefetch links can't trigger it.
+ */
+export class EmailActionService {
+
+  appUrl(): string {
+    return process.env.BASE_URL || 'http://localhost:5000';
+  }
+
+  createToken(claims: EmailActionClaims): string {
+    const payload = Buffer.from(JSON.stringify({
+      a: claims.action,
+      u: claims.userId,
+      s: claims.subscriptionId,
+      r: claims.renewalDate,
+      d: claims.daysBefore,
+      exp: claims.expiresAt
+    })).toString('base64url');
+    return `${payload}.${secretVault.sign(SIGNING_PURPOSE, payload)}`;
+  }
+
+  /**
+   * The claims of a token issued for `action`. Throws EmailActionError if it is malformed, tampered with or expired.
+   */
+  verifyToken(token: string, action: EmailAction, now: Date = new Date()): EmailActionClaims {
+    const separator = token.indexOf('.');
+    const payload = token.slice(0, separator);
+    if (separator <= 0 || !secretVault.verify(SIGNING_PURPOSE, payload, token.slice(separator + 1))) {
+      throw new EmailActionError('This link is not valid');
+    }
+
+    // A payload that doesn't parse is no more valid than one with a bad signature
+    let raw: any;
+    try {
+      raw = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      raw = null;
+    }
+    if (!raw || typeof raw !== 'object' || raw.a !== action) {
+      throw new EmailActionError('This link is not valid');
+    }
+    if (typeof raw.exp !== 'number' || raw.exp * 1000 < now.getTime()) {
+      throw new EmailActionError('This link has expired');
+    }
+
+    return {
+      action: raw.a,
+      userId: raw.u,
+      subscriptionId: raw.s,
+      renewalDate: raw.r,
+      daysBefore: raw.d,
+      expiresAt: raw.exp
+    };
+  }
+
+  url(claims: EmailActionClaims): string {
+    return `${this.appUrl()}/api/email-actions/${claims.action}?token=${this.createToken(claims)}`;
+  }
+
+  unsubscribeUrl(userId: string, now: Date = new Date()): string {
+    return this.url({ action: 'unsubscribe', userId, expiresAt: toUnixSeconds(now.getTime() + UNSUBSCRIBE_LINK_TTL_MS) });
+  }
+
+  /** Links for a renewal reminder about `renewalDate`, sent `daysBefore` days ahead */
+  reminderLinks(userId: string, subscriptionId: string, renewalDate: Date, daysBefore: number, now: Date = new Date()): EmailActionLinks {
+    const claims = {
+      userId,
+      subscriptionId,
+      renewalDate: renewalDate.toISOString().slice(0, 10),
+      daysBefore,
+      expiresAt: toUnixSeconds(renewalDate.getTime() + SUBSCRIPTION_LINK_GRACE_MS)
+    };
+    return {
+      unsubscribeUrl: this.unsubscribeUrl(userId, now),
+      snoozeUrl: daysBefore > 0 ? this.url({ ...claims, action: 'snooze' }) : null,
+      paidUrl: this.url({ ...claims, action: 'paid' }),
+      cancelledUrl: this.url({ ...claims, action: 'cancelled' })
+    };
+  }
+
+  /** One sentence for the confirmation page describing what the action will do */
+  async describe(claims: EmailActionClaims): Promise<string> {
+    if (claims.action === 'unsubscribe') {
+      return 'You will stop receiving subscription reminders by email. Other reminder channels are not affected.';
+    }
+
+    const subscription = await this.getSubscription(claims);
+    const amount = formatMoney(subscription.cost, subscription.currency);
+    switch (claims.action) {
+      case 'snooze':
+        return `We will remind you about ${subscription.name} again in ${Math.min(SNOOZE_DAYS, claims.daysBefore ?? 0)} days.`;
+      case 'paid':
+        return `The ${amount} renewal of ${subscription.name} on ${claims.renewalDate} will be recorded as paid.`;
+      case 'cancelled':
+        return `${subscription.name} will be marked as cancelled. It stays active until ${claims.renewalDate} and will not renew.`;
+    }
+  }
+
+  /**
+   * Carry out a verified action. Returns the message shown to the user; repeating an action is harmless.
+   */
+  async perform(claims: EmailActionClaims, now: Date = new Date(), source: ActionSource = EMAIL_SOURCE): Promise<string> {
+    if (claims.action === 'unsubscribe') {
+      await storage.updateUserNotificationPreferences(claims.userId, { emailEnabled: false });
+      return 'You have been unsubscribed from email reminders. You can turn them back on in Settings.';
+    }
+
+    const subscription = await this.getSubscription(claims);
+    switch (claims.action) {
+      case 'snooze':
+        return await this.snooze(subscription, claims, now, source);
+      case 'paid':
+        return await this.markPaid(subscription, claims, source);
+      case 'cancelled':
+        if (!isCancellationConfirmed(subscription)) {
+          await cancellationService.confirmCancellation(subscription, 'end_of_period', now);
+        }
+        return `${subscription.name} is marked as cancelled. You won't get further renewal reminders for it.`;
+    }
+  }
+
+  /**
+   * Carry out an action on a subscription's upcoming renewal, for chat replies and buttons that
+   * name the subscription rather than carry a signed link. Days until the renewal are counted in
+   * the user's timezone.
+   */
+  async performOnNextRenewal(
+    action: Exclude<EmailAction, 'unsubscribe'>,
+    userId: string,
+    subscription: Subscription,
+    timeZone: string,
+    source: ActionSource,
+    now: Date = new Date()
+  ): Promise<string> {
+    const today = new Date(`${localDateKey(now, isValidTimeZone(timeZone) ? timeZone : 'UTC')}T00:00:00Z`);
+    const renewal = new Date(subscription.nextBillingDate);
+    return await this.perform({
+      action,
+      userId,
+      subscriptionId: subscription.id,
+      renewalDate: renewal.toISOString().slice(0, 10),
+      daysBefore: Math.max(0, calendarDaysBetween(today, renewal)),
+      expiresAt: 0
+    }, now, source);
+  }
+
+  /** Whether a payment has already been recorded for the renewal on `renewalDate` (YYYY-MM-DD) */
+  async isRenewalPaid(subscriptionId: string, renewalDate: string): Promise<boolean> {
+    const history = await storage.getSubscriptionHistory(subscriptionId);
+    return history.some(entry =>
+      entry.eventType === 'payment' &&
+      entry.paymentStatus === 'paid' &&
+      new Date(entry.eventDate).toISOString().slice(0, 10) === renewalDate
+    );
+  }
+
+  private async snooze(subscription: Subscription, claims: EmailActionClaims, now: Date, source: ActionSource): Promise<string> {
+    const daysBefore = claims.daysBefore ?? 0;
+    if (!subscription.isActive) {
+      return `${subscription.name} is no longer active, so there is nothing to remind you about.`;
+    }
+    if (daysBefore <= 0) {
+      return `${subscription.name} renews today, so there is nothing left to snooze.`;
+    }
+
+    // Never snooze past the renewal itself: the last reminder lands on the day
+    const delayDays = Math.min(source.snoozeDays ?? SNOOZE_DAYS, daysBefore);
+    const payload: ReminderJobPayload = {
+      userId: claims.userId,
+      subscriptionId: subscription.id,
+      channel: source.channel,
+      daysBefore: daysBefore - delayDays,
+      renewalDate: new Date(`${claims.renewalDate}T00:00:00.000Z`).toISOString()
+    };
+    await jobQueue.enqueue('reminder.send', { ...payload }, {
+      idempotencyKey: `reminder.snooze:${subscription.id}:${source.channel}:${claims.renewalDate}:${daysBefore}:${delayDays}`,
+      runAt: new Date(now.getTime() + delayDays * DAY_MS)
+    });
+    return `Snoozed. We will remind you about ${subscription.name} again in ${delayDays} ${delayDays === 1 ? 'day' : 'days'}.`;
+  }
+
+  private async markPaid(subscription: Subscription, claims: EmailActionClaims, source: ActionSource): Promise<string> {
+    const amount = formatMoney(subscription.cost, subscription.currency);
+    if (!(await this.isRenewalPaid(subscription.id, claims.renewalDate!))) {
+      // The renewal job sees this entry and doesn't record a second payment for the same date
+      await storage.createSubscriptionHistoryEntry({
+        userId: claims.userId,
+        subscriptionId: subscription.id,
+        eventType: 'payment',
+        paymentStatus: 'paid',
+        amount: subscription.cost,
+        currency: subscription.currency,
+        paymentMethod: subscription.cardLast4 ? 'card' : null,
+        description: `Payment of ${amount} for "${subscription.name}" marked as paid from ${source.description}`,
+        eventDate: new Date(`${claims.renewalDate}T00:00:00.000Z`)
+      });
+    }
+    return `The ${amount} renewal of ${subscription.name} on ${claims.renewalDate} is recorded as paid.`;
+  }
+
+  private async getSubscription(claims: EmailActionClaims): Promise<Subscription> {
+    const subscription = claims.subscriptionId ? await storage.getSubscription(claims.subscriptionId) : undefined;
+    if (!subscription || subscription.userId !== claims.userId || !claims.renewalDate) {
+      throw new EmailActionError('This subscription no longer exists');
+    }
+    return subscription;
+  }
+}
+
+function toUnixSeconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
+
+export const emailActionService = new EmailActionService();
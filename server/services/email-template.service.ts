@@ -0,0 +1,219 @@
+import Handlebars from 'handlebars';
+import fs from 'fs';
+import path from 'path';
+import type { EmailTemplate, Subscription, User, UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { BUILT_IN_EMAIL_TEMPLATES } from '@shared/email-templates';
+import { storage } from '../storage';
+import { emailActionService, type EmailActionLinks } from './email-action.service';
+import type { SpendingDigest } from './digest.service';
+
+const TEMPLATE_DIR = path.resolve(process.cwd(), 'server', 'templates', 'email');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The variables every reminder template is rendered with (listed for users in shared/email-templates.ts) */
+export interface ReminderTemplateData {
+  subscription: { name: string; cost: string; currency?: string; nextBillingDate: Date; description?: string; category: string };
+  daysBefore: number;
+  appUrl: string;
+  unsubscribeUrl: string;
+  includeActionButtons: boolean;
+  actions: EmailActionLinks;
+}
+
+/** The spending digest, built by the digest service, with the links the email needs */
+export interface DigestTemplateData extends SpendingDigest {
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+export class EmailTemplateError extends Error {}
+
+export const timeframeFor = (daysBefore: number) =>
+  daysBefore === 0 ? 'today' : daysBefore === 1 ? 'tomorrow' : `in ${daysBefore} days`;
+
+// Handlebars passes its options object as the last argument, so optional parameters are
+// type-checked rather than trusted
+function registerFormattingHelpers(engine: typeof Handlebars) {
+  engine.registerHelper('formatCurrency', (amount: string | number, currency: unknown) =>
+    formatMoney(amount, typeof currency === 'string' ? currency : undefined));
+  engine.registerHelper('formatDate', (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }));
+  engine.registerHelper('timeframe', (daysBefore: number) => timeframeFor(daysBefore));
+}
+
+// The built-in templates in server/templates/email also get the styling helpers
+const builtInEngine = Handlebars.create();
+registerFormattingHelpers(builtInEngine);
+builtInEngine.registerHelper('urgencyColor', (daysBefore: number) =>
+  daysBefore <= 1 ? '#dc2626' : daysBefore <= 3 ? '#f59e0b' : '#0079f2');
+builtInEngine.registerHelper('urgencyEmoji', (daysBefore: number) =>
+  daysBefore <= 1 ? '🚨' : daysBefore <= 3 ? '⚠️' : '🔔');
+builtInEngine.registerHelper('currentYear', () => new Date().getFullYear());
+
+const builtInTemplates = new Map<string, HandlebarsTemplateDelegate>();
+
+// User templates get their own engine with the formatting helpers only. knownHelpersOnly makes
+// any other helper a compile error; Handlebars already refuses prototype property access.
+const sandbox = Handlebars.create();
+registerFormattingHelpers(sandbox);
+sandbox.unregisterHelper('log');
+const SANDBOX_COMPILE_OPTIONS: CompileOptions = {
+  knownHelpers: { formatCurrency: true, formatDate: true, timeframe: true, log: false },
+  knownHelpersOnly: true
+};
+
+/** Collects the constructs user templates may not use */
+class SandboxViolations extends Handlebars.Visitor {
+  found = new Set<string>();
+
+  PartialStatement(partial: hbs.AST.PartialStatement) {
+    this.found.add('partials');
+    super.PartialStatement(partial);
+  }
+
+  PartialBlockStatement(partial: hbs.AST.PartialBlockStatement) {
+    this.found.add('partials');
+    super.PartialBlockStatement(partial);
+  }
+
+  Decorator(decorator: hbs.AST.Decorator) {
+    this.found.add('decorators');
+    super.Decorator(decorator);
+  }
+
+  DecoratorBlock(decorator: hbs.AST.DecoratorBlock) {
+    this.found.add('decorators');
+    super.DecoratorBlock(decorator);
+  }
+}
+
+/**
+ * Reminder email rendering: the built-in styles, and templates users write and store
+ */
+export class EmailTemplateService {
+
+  /** Why a user template can't be used, or null if it compiles within the sandbox */
+  validate(body: string): string | null {
+    try {
+      const violations = new SandboxViolations();
+      violations.accept(sandbox.parse(body));
+      if (violations.found.size > 0) {
+        return `Templates can't use ${Array.from(violations.found).join(' or ')}`;
+      }
+
+      sandbox.precompile(body, SANDBOX_COMPILE_OPTIONS);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Template does not compile';
+    }
+  }
+
+  /** Render a user template. Throws EmailTemplateError if it doesn't validate or fails while rendering. */
+  renderCustom(body: string, data: ReminderTemplateData): string {
+    const invalid = this.validate(body);
+    if (invalid) throw new EmailTemplateError(invalid);
+
+    try {
+      return sandbox.compile(body, SANDBOX_COMPILE_OPTIONS)(data);
+    } catch (error) {
+      throw new EmailTemplateError(error instanceof Error ? error.message : 'Template failed to render');
+    }
+  }
+
+  renderBuiltIn(style: string, data: ReminderTemplateData): string {
+    const name = (BUILT_IN_EMAIL_TEMPLATES as readonly string[]).includes(style) ? style : 'professional';
+    return this.builtInTemplate(name)(data);
+  }
+
+  /** The weekly or monthly spending digest (server/templates/email/digest.hbs) */
+  renderDigest(data: DigestTemplateData): string {
+    return this.builtInTemplate('digest')(data);
+  }
+
+  /**
+   * Render a reminder with the user's chosen template. A custom template that is gone, no longer
+   * shared with them or fails to render falls back to their built-in style, so the reminder still goes out.
+   */
+  async renderReminder(userId: string, preferences: UserNotificationPreferences, data: ReminderTemplateData): Promise<string> {
+    const fallback = preferences.emailTemplate || 'professional';
+    if (!preferences.emailTemplateId) return this.renderBuiltIn(fallback, data);
+
+    try {
+      const template = await storage.getEmailTemplate(preferences.emailTemplateId);
+      if (!template || !this.canUse(template, userId)) {
+        throw new EmailTemplateError(`Email template ${preferences.emailTemplateId} is not available`);
+      }
+      return this.renderCustom(template.body, data);
+    } catch (error) {
+      console.error(`Custom email template failed for user ${userId}, using "${fallback}":`, error instanceof Error ? error.message : error);
+      return this.renderBuiltIn(fallback, data);
+    }
+  }
+
+  /**
+   * Template variables for a preview: the chosen subscription, or the user's next renewal, or an
+   * example if they have none. Action links are placeholders that don't carry a valid token.
+   */
+  async previewData(user: User, preferences: UserNotificationPreferences | undefined, subscriptionId: string | undefined, daysBefore: number): Promise<ReminderTemplateData | undefined> {
+    let subscription: Pick<Subscription, 'name' | 'cost' | 'currency' | 'nextBillingDate' | 'description' | 'category'> | undefined;
+    if (subscriptionId) {
+      const chosen = await storage.getSubscription(subscriptionId);
+      if (!chosen || chosen.userId !== user.id) return undefined;
+      subscription = chosen;
+    } else {
+      subscription = (await storage.getSubscriptionsByUserId(user.id))
+        .filter(s => s.isActive)
+        .sort((a, b) => new Date(a.nextBillingDate).getTime() - new Date(b.nextBillingDate).getTime())[0];
+    }
+    subscription ??= {
+      name: 'Example Streaming',
+      cost: '9.99',
+      currency: 'USD',
+      nextBillingDate: new Date(Date.now() + daysBefore * DAY_MS),
+      description: null,
+      category: 'Entertainment'
+    };
+
+    const appUrl = emailActionService.appUrl();
+    const placeholder = (action: string) => `${appUrl}/api/email-actions/${action}?token=preview`;
+    return {
+      subscription: { ...subscription, description: subscription.description ?? undefined },
+      daysBefore,
+      appUrl,
+      unsubscribeUrl: placeholder('unsubscribe'),
+      includeActionButtons: preferences?.includeActionButtons ?? true,
+      actions: {
+        unsubscribeUrl: placeholder('unsubscribe'),
+        snoozeUrl: daysBefore > 0 ? placeholder('snooze') : null,
+        paidUrl: placeholder('paid'),
+        cancelledUrl: placeholder('cancelled')
+      }
+    };
+  }
+
+  private builtInTemplate(name: string): HandlebarsTemplateDelegate {
+    let template = builtInTemplates.get(name);
+    if (!template) {
+      template = builtInEngine.compile(fs.readFileSync(path.join(TEMPLATE_DIR, `${name}.hbs`), 'utf8'));
+      builtInTemplates.set(name, template);
+    }
+    return template;
+  }
+
+  /** Users can use their own templates and shared ones */
+  canUse(template: EmailTemplate, userId: string): boolean {
+    return template.userId === null || template.userId === userId;
+  }
+
+  /** Only admins can share templates with every user, and change shared ones */
+  canShare(user: User): boolean {
+    return user.role === 'admin' || user.role === 'super_admin';
+  }
+
+  canEdit(template: EmailTemplate, user: User): boolean {
+    return template.userId === null ? this.canShare(user) : template.userId === user.id;
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
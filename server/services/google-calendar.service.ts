@@ -1,11 +1,45 @@
 import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { isValidTimeZone, parseTimeOfDay, zonedTimeToUtc } from '@shared/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Private extended property marking the events this app manages
+const REMINDER_EVENT_TYPE = 'subscription_renewal';
+
+/** Builds the Calendar API client for an authorized OAuth client; replaced with a fake in tests */
+export type CalendarClientFactory = (auth: OAuth2Client) => calendar_v3.Calendar;
+
+export interface ReminderEventDetails {
+  id: string;
+  name: string;
+  cost: string;
+  currency?: string;
+  nextBillingDate: Date;
+  description?: string;
+}
+
+/** The event was deleted from the calendar (or never existed) */
+export class CalendarEventNotFoundError extends Error {
+  constructor(public eventId: string) {
+    super(`Calendar event ${eventId} not found`);
+    this.name = 'CalendarEventNotFoundError';
+  }
+}
+
+// The Calendar API answers 404 for unknown events and 410 for deleted ones
+function isEventGone(error: unknown): boolean {
+  const status = (error as { response?: { status?: number }; code?: number | string })?.response?.status
+    ?? Number((error as { code?: number | string })?.code);
+  return status === 404 || status === 410;
+}
 
 export class GoogleCalendarService {
   private oauth2Client: OAuth2Client;
   
-  constructor() {
+  constructor(private createClient: CalendarClientFactory = auth => google.calendar({ version: 'v3', auth })) {
     this.oauth2Client = new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET,
@@ -71,7 +105,7 @@ export class GoogleCalendarService {
       expiry_date: preferences.googleTokenExpiry?.getTime()
     });
 
-    return google.calendar({ version: 'v3', auth: this.oauth2Client });
+    return this.createClient(this.oauth2Client);
   }
 
   /**
@@ -95,66 +129,73 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * When the reminder for `renewalDate` starts: the user's reminder time, in their timezone,
+   * `daysBefore` days ahead of the renewal
+   */
+  reminderStartTime(preferences: UserNotificationPreferences, renewalDate: Date, daysBefore: number): Date {
+    const day = new Date(new Date(renewalDate).getTime() - daysBefore * DAY_MS);
+    const timeZone = isValidTimeZone(preferences.timezone) ? preferences.timezone : 'UTC';
+    const time = parseTimeOfDay(preferences.reminderTime) ?? { hour: 9, minute: 0 };
+    return zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), time, timeZone);
+  }
+
+  /**
+   * The event written for a subscription's reminder; also what reconciliation compares calendar events against
+   */
+  buildReminderEvent(
+    preferences: UserNotificationPreferences,
+    subscription: ReminderEventDetails,
+    daysBefore: number
+  ): calendar_v3.Schema$Event {
+    const reminderDate = this.reminderStartTime(preferences, subscription.nextBillingDate, daysBefore);
+
+    // Create event end time (1 hour later)
+    const endTime = new Date(reminderDate.getTime() + 60 * 60 * 1000);
+
+    return {
+      summary: `💳 ${subscription.name} - Subscription Renewal Reminder`,
+      description: this.createEventDescription(subscription, daysBefore),
+      start: {
+        dateTime: reminderDate.toISOString(),
+        timeZone: preferences.timezone || 'UTC'
+      },
+      end: {
+        dateTime: endTime.toISOString(),
+        timeZone: preferences.timezone || 'UTC'
+      },
+      reminders: {
+        useDefault: false,
+        overrides: [
+          { method: 'popup', minutes: 15 },
+          { method: 'email', minutes: 60 }
+        ]
+      },
+      colorId: '11', // Red color for subscription reminders
+      extendedProperties: {
+        private: {
+          subscriptionId: subscription.id,
+          reminderType: REMINDER_EVENT_TYPE,
+          daysBefore: daysBefore.toString()
+        }
+      }
+    };
+  }
+
   /**
    * Create a subscription renewal reminder event in Google Calendar
    */
   async createReminderEvent(
     preferences: UserNotificationPreferences,
-    subscription: {
-      name: string;
-      cost: string;
-      nextBillingDate: Date;
-      description?: string;
-    },
+    subscription: ReminderEventDetails,
     daysBefore: number
   ) {
     try {
       const calendar = this.createCalendarClient(preferences);
-      
-      // Calculate reminder date
-      const reminderDate = new Date(subscription.nextBillingDate);
-      reminderDate.setDate(reminderDate.getDate() - daysBefore);
-      
-      // Set reminder time based on user preferences
-      const [hours, minutes] = (preferences.reminderTime || '09:00').split(':');
-      reminderDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-      
-      // Create event end time (1 hour later)
-      const endTime = new Date(reminderDate);
-      endTime.setHours(endTime.getHours() + 1);
-
-      const event: calendar_v3.Schema$Event = {
-        summary: `💳 ${subscription.name} - Subscription Renewal Reminder`,
-        description: this.createEventDescription(subscription, daysBefore),
-        start: {
-          dateTime: reminderDate.toISOString(),
-          timeZone: preferences.timezone || 'UTC'
-        },
-        end: {
-          dateTime: endTime.toISOString(),
-          timeZone: preferences.timezone || 'UTC'
-        },
-        reminders: {
-          useDefault: false,
-          overrides: [
-            { method: 'popup', minutes: 15 },
-            { method: 'email', minutes: 60 }
-          ]
-        },
-        colorId: '11', // Red color for subscription reminders
-        extendedProperties: {
-          private: {
-            subscriptionId: subscription.name.toLowerCase().replace(/\s+/g, '-'),
-            reminderType: 'subscription_renewal',
-            daysBefore: daysBefore.toString()
-          }
-        }
-      };
-
       const calendarId = preferences.googleCalendarId || 'primary';
       const response = await calendar.events.insert({
         calendarId,
-        requestBody: event
+        requestBody: this.buildReminderEvent(preferences, subscription, daysBefore)
       });
 
       return {
@@ -172,26 +213,20 @@ export class GoogleCalendarService {
   /**
    * Create event description with subscription details
    */
-  private createEventDescription(
-    subscription: {
-      name: string;
-      cost: string;
-      nextBillingDate: Date;
-      description?: string;
-    },
-    daysBefore: number
-  ): string {
-    const renewalDate = subscription.nextBillingDate.toLocaleDateString('en-US', {
+  private createEventDescription(subscription: ReminderEventDetails, daysBefore: number): string {
+    // Billing dates are calendar dates stored at UTC midnight
+    const renewalDate = new Date(subscription.nextBillingDate).toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone: 'UTC'
     });
 
     return `🔔 Subscription Renewal Reminder
 
 💳 Service: ${subscription.name}
-💰 Amount: $${subscription.cost}
+💰 Amount: ${formatMoney(subscription.cost, subscription.currency)}
 📅 Renewal Date: ${renewalDate}
 ⏰ Reminder: ${daysBefore} days before renewal
 
@@ -207,50 +242,23 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
   }
 
   /**
-   * Update an existing calendar event
+   * Update an existing calendar event. Throws CalendarEventNotFoundError if it was deleted from the calendar.
    */
   async updateReminderEvent(
     preferences: UserNotificationPreferences,
     eventId: string,
-    subscription: {
-      name: string;
-      cost: string;
-      nextBillingDate: Date;
-      description?: string;
-    },
+    subscription: ReminderEventDetails,
     daysBefore: number
   ) {
     try {
       const calendar = this.createCalendarClient(preferences);
       const calendarId = preferences.googleCalendarId || 'primary';
-      
-      // Calculate new reminder date
-      const reminderDate = new Date(subscription.nextBillingDate);
-      reminderDate.setDate(reminderDate.getDate() - daysBefore);
-      
-      const [hours, minutes] = (preferences.reminderTime || '09:00').split(':');
-      reminderDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-      
-      const endTime = new Date(reminderDate);
-      endTime.setHours(endTime.getHours() + 1);
-
-      const event: calendar_v3.Schema$Event = {
-        summary: `💳 ${subscription.name} - Subscription Renewal Reminder`,
-        description: this.createEventDescription(subscription, daysBefore),
-        start: {
-          dateTime: reminderDate.toISOString(),
-          timeZone: preferences.timezone || 'UTC'
-        },
-        end: {
-          dateTime: endTime.toISOString(),
-          timeZone: preferences.timezone || 'UTC'
-        }
-      };
 
+      // A full update, so the event keeps its reminders and subscription properties
       const response = await calendar.events.update({
         calendarId,
         eventId,
-        requestBody: event
+        requestBody: this.buildReminderEvent(preferences, subscription, daysBefore)
       });
 
       return {
@@ -259,6 +267,7 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
         startTime: response.data.start?.dateTime
       };
     } catch (error) {
+      if (isEventGone(error)) throw new CalendarEventNotFoundError(eventId);
       console.error('Error updating Google Calendar event:', error);
       const message = error instanceof Error ? error.message : 'Unknown error occurred';
       throw new Error(`Failed to update calendar reminder: ${message}`);
@@ -266,7 +275,7 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
   }
 
   /**
-   * Delete a calendar event
+   * Delete a calendar event. Returns false if it was already gone.
    */
   async deleteReminderEvent(preferences: UserNotificationPreferences, eventId: string) {
     try {
@@ -280,6 +289,7 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
 
       return true;
     } catch (error) {
+      if (isEventGone(error)) return false;
       console.error('Error deleting Google Calendar event:', error);
       const message = error instanceof Error ? error.message : 'Unknown error occurred';
       throw new Error(`Failed to delete calendar reminder: ${message}`);
@@ -287,23 +297,30 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
   }
 
   /**
-   * List subscription reminder events from calendar
+   * List upcoming subscription reminder events created by this app
    */
   async listSubscriptionEvents(preferences: UserNotificationPreferences) {
     try {
       const calendar = this.createCalendarClient(preferences);
       const calendarId = preferences.googleCalendarId || 'primary';
-      
-      const response = await calendar.events.list({
-        calendarId,
-        q: 'Subscription Renewal Reminder',
-        timeMin: new Date().toISOString(),
-        maxResults: 50,
-        orderBy: 'startTime',
-        singleEvents: true
-      });
+      const items: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
 
-      return response.data.items?.map(event => ({
+      do {
+        const response = await calendar.events.list({
+          calendarId,
+          privateExtendedProperty: [`reminderType=${REMINDER_EVENT_TYPE}`],
+          timeMin: new Date().toISOString(),
+          maxResults: 250,
+          orderBy: 'startTime',
+          singleEvents: true,
+          pageToken
+        });
+        items.push(...(response.data.items ?? []));
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+
+      return items.map(event => ({
         id: event.id,
         summary: event.summary,
         description: event.description,
@@ -312,7 +329,7 @@ Manage all your subscriptions at your Subscription Tracker dashboard.`;
         htmlLink: event.htmlLink,
         subscriptionId: event.extendedProperties?.private?.subscriptionId,
         daysBefore: event.extendedProperties?.private?.daysBefore
-      })) || [];
+      }));
     } catch (error) {
       console.error('Error listing subscription events:', error);
       throw new Error('Failed to retrieve subscription events');
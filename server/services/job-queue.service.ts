@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import os from 'os';
+import type { Job } from '@shared/schema';
+import { storage } from '../storage';
+
+export type JobHandler = (payload: any, job: Job) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  idempotencyKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+interface JobDefinition {
+  handler: JobHandler;
+  maxAttempts: number;
+}
+
+interface RecurringJob {
+  name: string;
+  intervalMs: number;
+  offsetMs: number;
+}
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const SCHEDULE_TICK_MS = 60 * 1000;
+const LEASE_MS = 5 * 60 * 1000;
+const MAX_JOBS_PER_POLL = 25;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export class JobQueueService {
+  private handlers = new Map<string, JobDefinition>();
+  private recurring: RecurringJob[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private polling = false;
+  readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  // How long a claimed job stays ours without word from us; renewed while its handler runs
+  readonly leaseMs: number;
+
+  constructor(options: { leaseMs?: number } = {}) {
+    this.leaseMs = options.leaseMs ?? LEASE_MS;
+  }
+
+  /**
+   * Register the handler for a named job
+   */
+  register(name: string, handler: JobHandler, options: { maxAttempts?: number } = {}) {
+    this.handlers.set(name, { handler, maxAttempts: options.maxAttempts ?? 5 });
+  }
+
+  /**
+   * Run a named job once per interval window (aligned to UTC), offset into the window if needed.
+   * Every instance schedules it, but the per-window idempotency key lets only one copy in.
+   */
+  every(name: string, intervalMs: number, options: { offsetMs?: number } = {}) {
+    this.recurring.push({ name, intervalMs, offsetMs: options.offsetMs ?? 0 });
+  }
+
+  /**
+   * Add a job to the queue. Returns undefined if the idempotency key was already used.
+   */
+  async enqueue(name: string, payload: Record<string, unknown> = {}, options: EnqueueOptions = {}): Promise<Job | undefined> {
+    return await storage.enqueueJob({
+      name,
+      payload: JSON.stringify(payload),
+      idempotencyKey: options.idempotencyKey ?? null,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? this.handlers.get(name)?.maxAttempts ?? 5
+    });
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m, ... capped at one hour
+   */
+  retryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  private async enqueueRecurring(now: Date) {
+    for (const job of this.recurring) {
+      const windowStart = Math.floor(now.getTime() / job.intervalMs) * job.intervalMs;
+      await this.enqueue(job.name, {}, {
+        idempotencyKey: `${job.name}:${new Date(windowStart).toISOString()}`,
+        runAt: new Date(windowStart + job.offsetMs)
+      });
+    }
+  }
+
+  private async runJob(job: Job) {
+    const definition = this.handlers.get(job.name);
+    // Keep the lease while the handler runs, so a slow job isn't claimed again by another worker
+    const leaseRenewal = setInterval(() => {
+      storage.renewJobLease(job.id, this.workerId, this.leaseMs).catch(error => {
+        console.error(`Error renewing the lease on job ${job.name} (${job.id}):`, error);
+      });
+    }, this.leaseMs / 3);
+
+    try {
+      if (!definition) {
+        throw new Error(`No handler registered for job "${job.name}"`);
+      }
+      await definition.handler(JSON.parse(job.payload), job);
+      await storage.completeJob(job.id, this.workerId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = definition && job.attempts < job.maxAttempts
+        ? new Date(Date.now() + this.retryDelay(job.attempts))
+        : null;
+
+      console.error(`Job ${job.name} (${job.id}) failed on attempt ${job.attempts}/${job.maxAttempts}:`, message);
+      if (!retryAt) {
+        console.error(`Job ${job.name} (${job.id}) moved to dead-letter queue`);
+      }
+      await storage.failJob(job.id, this.workerId, message, retryAt);
+    } finally {
+      clearInterval(leaseRenewal);
+    }
+  }
+
+  /**
+   * Claim and run due jobs until the queue is drained (or the per-poll limit is reached)
+   */
+  async runDueJobs() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (let processed = 0; processed < MAX_JOBS_PER_POLL; processed++) {
+        const job = await storage.claimNextJob(this.workerId, this.leaseMs);
+        if (!job) break;
+        await this.runJob(job);
+      }
+    } catch (error) {
+      console.error('Error polling job queue:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Start scheduling recurring jobs and polling for work
+   */
+  start() {
+    if (this.timers.length > 0) return;
+
+    const scheduleTick = () => {
+      this.enqueueRecurring(new Date()).catch(error => {
+        console.error('Error scheduling recurring jobs:', error);
+      });
+    };
+
+    this.timers.push(
+      setInterval(scheduleTick, SCHEDULE_TICK_MS),
+      setInterval(() => this.runDueJobs(), POLL_INTERVAL_MS),
+      setTimeout(scheduleTick, 5000) // 5 seconds after startup
+    );
+
+    console.log(`Job queue started (worker ${this.workerId})`);
+  }
+
+  stop() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -1,11 +1,175 @@
-import { UserNotificationPreferences, Subscription, SubscriptionReminder, InsertSubscriptionReminder } from '@shared/schema';
+import { UserNotificationPreferences, Subscription, SubscriptionReminder, InsertSubscriptionReminder, Job } from '@shared/schema';
 import { googleCalendarService } from './google-calendar.service';
+import { calendarSyncService } from './calendar-sync.service';
 import { whatsappService } from './whatsapp.service';
 import { emailService } from './email.service';
+import { emailActionService } from './email-action.service';
+import { chatWebhookService } from './chat-webhook.service';
+import { telegramService } from './telegram.service';
+import { jobQueue } from './job-queue.service';
+import { webhookService } from './webhook.service';
 import { storage } from '../storage';
+import { addCycles, getRecurrence, occurrencesBetween } from '@shared/recurrence';
+import { isValidTimeZone, isWithinQuietHours, localDateKey, parseTimeOfDay, quietHoursEndAfter, zonedTimeToUtc } from '@shared/timezone';
+import { formatMoney } from '@shared/currency';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { CHAT_CHANNELS, CHAT_CHANNEL_LABELS, isChatChannel, type ChatChannel } from '@shared/chat-channels';
+
+export type ReminderChannel = 'email' | 'whatsapp' | 'calendar' | 'browser' | 'telegram' | ChatChannel;
+
+export interface ReminderJobPayload {
+  userId: string;
+  subscriptionId: string;
+  channel: ReminderChannel;
+  daysBefore: number;
+  renewalDate: string; // ISO date of the renewal being reminded about
+}
+
+export interface CancellationReminderJobPayload {
+  userId: string;
+  subscriptionId: string;
+  channel: ReminderChannel;
+  daysBefore: number;
+  cancelBy: string; // ISO date of the cancel-by deadline being reminded about
+}
+
+const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  calendar: 'Google Calendar',
+  browser: 'Browser',
+  telegram: 'Telegram',
+  ...CHAT_CHANNEL_LABELS
+};
+
+// Channels that are held back during a user's quiet hours
+const QUIET_HOURS_CHANNELS: ReminderChannel[] = ['whatsapp', 'browser', 'telegram', ...CHAT_CHANNELS];
+
+// Planned cancellations get louder as the cancel-by date approaches: more channels and higher priority
+const CANCELLATION_REMINDER_STAGES: { daysBefore: number; channels: ReminderChannel[]; priority: string }[] = [
+  { daysBefore: 7, channels: ['browser'], priority: 'normal' },
+  { daysBefore: 3, channels: ['browser', 'email'], priority: 'high' },
+  { daysBefore: 1, channels: ['browser', 'email', 'whatsapp'], priority: 'urgent' },
+  { daysBefore: 0, channels: ['browser', 'email', 'whatsapp'], priority: 'urgent' }
+];
+
+// The reminders scan runs hourly; queue anything due before the next run (with some overlap)
+const REMINDER_SCAN_LOOKAHEAD_MS = 90 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class NotificationService {
   
+  /**
+   * Channels a user has enabled and fully configured for reminders
+   */
+  getReminderChannels(preferences: UserNotificationPreferences): ReminderChannel[] {
+    const channels: ReminderChannel[] = [];
+    if (preferences.emailEnabled && preferences.emailAddress) channels.push('email');
+    if (preferences.whatsappEnabled && preferences.whatsappNumber) channels.push('whatsapp');
+    if (preferences.googleCalendarEnabled && preferences.googleAccessToken) channels.push('calendar');
+    if (preferences.browserNotificationEnabled) channels.push('browser');
+    for (const channel of CHAT_CHANNELS) {
+      if (chatWebhookService.isConfigured(channel, preferences)) channels.push(channel);
+    }
+    if (telegramService.isConfigured(preferences)) channels.push('telegram');
+    return channels;
+  }
+
+  /**
+   * Send a reminder over a single channel and log the attempt. Throws on failure so queued sends are retried.
+   */
+  async sendChannelReminder(
+    channel: ReminderChannel,
+    userId: string,
+    subscription: Subscription,
+    preferences: UserNotificationPreferences,
+    daysBefore: number,
+    allUserSubscriptions?: Subscription[]
+  ) {
+    const details = {
+      name: subscription.name,
+      cost: subscription.cost,
+      currency: subscription.currency,
+      nextBillingDate: subscription.nextBillingDate,
+      description: subscription.description || undefined
+    };
+
+    try {
+      let result: any;
+      let message: string;
+
+      if (channel === 'email') {
+        result = await emailService.sendSubscriptionReminder(
+          preferences,
+          { ...details, id: subscription.id, category: subscription.category },
+          daysBefore,
+          allUserSubscriptions,
+          userId
+        );
+        message = `Email reminder sent to ${preferences.emailAddress}`;
+      } else if (channel === 'whatsapp') {
+        result = await whatsappService.sendSubscriptionReminder(preferences, { ...details, id: subscription.id }, daysBefore);
+        message = `WhatsApp reminder sent to ${preferences.whatsappNumber}`;
+      } else if (channel === 'calendar') {
+        // Updates the event already created for this reminder day rather than adding another
+        const { outcome, event } = await calendarSyncService.syncReminderEvent(preferences, subscription, daysBefore);
+        result = { eventId: event.eventId };
+        message = `Calendar event ${outcome === 'created' ? 'created' : 'updated'}: ${event.eventId}`;
+      } else if (channel === 'telegram') {
+        result = await telegramService.sendSubscriptionReminder(userId, preferences, { ...details, id: subscription.id }, daysBefore);
+        message = 'Telegram reminder sent';
+      } else if (isChatChannel(channel)) {
+        result = await chatWebhookService.sendSubscriptionReminder(channel, preferences, details, daysBefore);
+        message = `${CHAT_CHANNEL_LABELS[channel]} reminder posted`;
+      } else {
+        // Browser reminders are in-app notifications picked up by the notification center
+        result = await storage.createNotification({
+          userId,
+          type: 'subscription_reminder',
+          title: daysBefore === 1 ? `${subscription.name} renews tomorrow` : `${subscription.name} renews in ${daysBefore} days`,
+          message: `${formatMoney(subscription.cost, subscription.currency)} will be charged on ${new Date(subscription.nextBillingDate).toISOString().slice(0, 10)}.`,
+          priority: daysBefore <= 1 ? 'high' : 'normal',
+          subscriptionId: subscription.id,
+          data: JSON.stringify({ daysBefore, renewalDate: subscription.nextBillingDate })
+        });
+        message = 'Browser notification created';
+      }
+
+      await this.logReminder({
+        userId,
+        subscriptionId: subscription.id,
+        reminderType: channel,
+        scheduledFor: new Date(),
+        sentAt: new Date(),
+        status: 'sent',
+        daysBefore,
+        message,
+        // WhatsApp delivery statuses and replies refer back to the message by this id
+        externalMessageId: channel === 'whatsapp' ? result?.messageId : undefined
+      });
+
+      // Sent once per reminder day, however many channels the reminder went out on
+      const renewalDate = new Date(subscription.nextBillingDate).toISOString().slice(0, 10);
+      await webhookService.emit(userId, 'renewal.upcoming', { subscription, renewalDate, daysBefore }, {
+        dedupeKey: `${subscription.id}:${renewalDate}:${daysBefore}`
+      });
+
+      return result;
+    } catch (error) {
+      await this.logReminder({
+        userId,
+        subscriptionId: subscription.id,
+        reminderType: channel,
+        scheduledFor: new Date(),
+        status: 'failed',
+        daysBefore,
+        message: `${REMINDER_CHANNEL_LABELS[channel]} reminder failed`,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   /**
    * Send all types of reminders for a subscription
    */
@@ -20,141 +184,166 @@ export class NotificationService {
       email: null as any,
       whatsapp: null as any,
       googleCalendar: null as any,
+      browser: null as any,
+      slack: null as any,
+      discord: null as any,
+      teams: null as any,
+      telegram: null as any,
       errors: [] as string[]
     };
 
-    // Send email reminder if enabled
-    if (preferences.emailEnabled && preferences.emailAddress) {
+    for (const channel of this.getReminderChannels(preferences)) {
       try {
-        results.email = await emailService.sendSubscriptionReminder(
-          preferences,
-          {
-            name: subscription.name,
-            cost: subscription.cost,
-            nextBillingDate: subscription.nextBillingDate,
-            description: subscription.description || undefined,
-            category: subscription.category
-          },
-          daysBefore,
-          allUserSubscriptions
-        );
-
-        // Log successful email reminder
-        await this.logReminder({
-          userId,
-          subscriptionId: subscription.id,
-          reminderType: 'email',
-          scheduledFor: new Date(),
-          sentAt: new Date(),
-          status: 'sent',
-          daysBefore,
-          message: `Email reminder sent to ${preferences.emailAddress}`
-        });
+        const result = await this.sendChannelReminder(channel, userId, subscription, preferences, daysBefore, allUserSubscriptions);
+        results[channel === 'calendar' ? 'googleCalendar' : channel] = result;
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        results.errors.push(`Email: ${message}`);
-        
-        // Log failed email reminder
-        await this.logReminder({
-          userId,
-          subscriptionId: subscription.id,
-          reminderType: 'email',
-          scheduledFor: new Date(),
-          status: 'failed',
-          daysBefore,
-          message: `Email reminder failed`,
-          errorMessage: message
-        });
+        results.errors.push(`${REMINDER_CHANNEL_LABELS[channel]}: ${message}`);
       }
     }
 
-    // Send WhatsApp reminder if enabled
-    if (preferences.whatsappEnabled && preferences.whatsappNumber) {
-      try {
-        results.whatsapp = await whatsappService.sendSubscriptionReminder(
-          preferences,
-          {
-            name: subscription.name,
-            cost: subscription.cost,
-            nextBillingDate: subscription.nextBillingDate,
-            description: subscription.description || undefined
-          },
-          daysBefore
-        );
+    return results;
+  }
 
-        // Log successful WhatsApp reminder
-        await this.logReminder({
-          userId,
-          subscriptionId: subscription.id,
-          reminderType: 'whatsapp',
-          scheduledFor: new Date(),
-          sentAt: new Date(),
-          status: 'sent',
-          daysBefore,
-          message: `WhatsApp reminder sent to ${preferences.whatsappNumber}`
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        results.errors.push(`WhatsApp: ${message}`);
-        
-        // Log failed WhatsApp reminder
-        await this.logReminder({
-          userId,
-          subscriptionId: subscription.id,
-          reminderType: 'whatsapp',
-          scheduledFor: new Date(),
-          status: 'failed',
-          daysBefore,
-          message: `WhatsApp reminder failed`,
-          errorMessage: message
-        });
-      }
+  /**
+   * Deliver a reminder queued by the reminders scan (the 'reminder.send' job)
+   */
+  async sendQueuedReminder(payload: ReminderJobPayload, job: Job) {
+    const { userId, subscriptionId, channel, daysBefore, renewalDate } = payload;
+    const subscription = await storage.getSubscription(subscriptionId);
+    const preferences = await storage.getUserNotificationPreferences(userId);
+
+    // Subscription removed or paused, or channel switched off, since the reminder was queued
+    if (!subscription || !subscription.isActive || !preferences || !this.getReminderChannels(preferences).includes(channel)) {
+      return;
     }
 
-    // Create Google Calendar reminder if enabled
-    if (preferences.googleCalendarEnabled && preferences.googleAccessToken) {
-      try {
-        results.googleCalendar = await googleCalendarService.createReminderEvent(
-          preferences,
-          {
-            name: subscription.name,
-            cost: subscription.cost,
-            nextBillingDate: subscription.nextBillingDate,
-            description: subscription.description || undefined
-          },
-          daysBefore
-        );
+    // Cancelled with the provider, or marked as paid from an earlier reminder email
+    if (isCancellationConfirmed(subscription) ||
+        await emailActionService.isRenewalPaid(subscriptionId, new Date(renewalDate).toISOString().slice(0, 10))) {
+      return;
+    }
 
-        // Log successful calendar reminder
-        await this.logReminder({
-          userId,
-          subscriptionId: subscription.id,
-          reminderType: 'calendar',
-          scheduledFor: new Date(),
-          sentAt: new Date(),
-          status: 'sent',
-          daysBefore,
-          message: `Calendar event created: ${results.googleCalendar.eventId}`
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        results.errors.push(`Google Calendar: ${message}`);
-        
-        // Log failed calendar reminder
-        await this.logReminder({
+    if (await this.holdForQuietHours(job, payload, preferences)) return;
+
+    const allUserSubscriptions = channel === 'email' ? await storage.getUserSubscriptions(userId) : undefined;
+    await this.sendChannelReminder(
+      channel,
+      userId,
+      { ...subscription, nextBillingDate: new Date(renewalDate) },
+      preferences,
+      daysBefore,
+      allUserSubscriptions
+    );
+  }
+
+  /**
+   * Send a cancel-by reminder over a single channel and log the attempt. Throws on failure so queued sends are retried.
+   */
+  async sendCancellationReminder(
+    channel: ReminderChannel,
+    userId: string,
+    subscription: Subscription,
+    preferences: UserNotificationPreferences,
+    daysBefore: number
+  ) {
+    const cancelBy = new Date(subscription.cancelBy!);
+    const details = {
+      name: subscription.name,
+      cost: subscription.cost,
+      currency: subscription.currency,
+      nextBillingDate: subscription.nextBillingDate,
+      cancelBy
+    };
+
+    try {
+      let result: any;
+      let message: string;
+
+      if (channel === 'email') {
+        result = await emailService.sendCancellationReminder(preferences, { ...details, id: subscription.id }, daysBefore, userId);
+        message = `Cancellation reminder emailed to ${preferences.emailAddress}`;
+      } else if (channel === 'whatsapp') {
+        result = await whatsappService.sendCancellationReminder(preferences, details, daysBefore);
+        message = `Cancellation reminder sent to ${preferences.whatsappNumber}`;
+      } else if (channel === 'browser') {
+        const stage = CANCELLATION_REMINDER_STAGES.find(s => s.daysBefore === daysBefore);
+        result = await storage.createNotification({
           userId,
+          type: 'cancellation_reminder',
+          title: daysBefore === 0 ? `Cancel ${subscription.name} today` : `Cancel ${subscription.name} within ${daysBefore === 1 ? '1 day' : `${daysBefore} days`}`,
+          message: `You planned to cancel before ${cancelBy.toISOString().slice(0, 10)}, or it renews for ${formatMoney(subscription.cost, subscription.currency)}.`,
+          priority: stage?.priority ?? 'normal',
           subscriptionId: subscription.id,
-          reminderType: 'calendar',
-          scheduledFor: new Date(),
-          status: 'failed',
-          daysBefore,
-          message: `Calendar reminder failed`,
-          errorMessage: message
+          data: JSON.stringify({ daysBefore, cancelBy: subscription.cancelBy })
         });
+        message = 'Browser cancellation reminder created';
+      } else {
+        throw new Error(`${REMINDER_CHANNEL_LABELS[channel]} does not support cancellation reminders`);
       }
+
+      await this.logReminder({
+        userId,
+        subscriptionId: subscription.id,
+        reminderType: channel,
+        scheduledFor: new Date(),
+        sentAt: new Date(),
+        status: 'sent',
+        daysBefore,
+        message,
+        externalMessageId: channel === 'whatsapp' ? result?.messageId : undefined
+      });
+
+      return result;
+    } catch (error) {
+      await this.logReminder({
+        userId,
+        subscriptionId: subscription.id,
+        reminderType: channel,
+        scheduledFor: new Date(),
+        status: 'failed',
+        daysBefore,
+        message: `${REMINDER_CHANNEL_LABELS[channel]} cancellation reminder failed`,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
     }
+  }
 
-    return results;
+  /**
+   * Deliver a cancel-by reminder queued by the reminders scan (the 'cancellation.remind' job)
+   */
+  async sendQueuedCancellationReminder(payload: CancellationReminderJobPayload, job: Job) {
+    const { userId, subscriptionId, channel, daysBefore, cancelBy } = payload;
+    const subscription = await storage.getSubscription(subscriptionId);
+    const preferences = await storage.getUserNotificationPreferences(userId);
+
+    // Plan withdrawn, confirmed or moved, or channel switched off, since the reminder was queued
+    if (!subscription || subscription.cancellationStatus !== 'planned' || !subscription.cancelBy ||
+        new Date(subscription.cancelBy).getTime() !== new Date(cancelBy).getTime() ||
+        !preferences || !this.getReminderChannels(preferences).includes(channel)) {
+      return;
+    }
+
+    if (await this.holdForQuietHours(job, payload, preferences)) return;
+
+    await this.sendCancellationReminder(channel, userId, subscription, preferences, daysBefore);
+  }
+
+  /**
+   * Re-queue a job for when quiet hours end if they are in force now for its channel.
+   * Quiet hours may have been switched on (or a retry may have landed in them) since it was queued.
+   */
+  private async holdForQuietHours(job: Job, payload: { channel: ReminderChannel }, preferences: UserNotificationPreferences): Promise<boolean> {
+    const heldUntil = this.quietHoursEndFor(payload.channel, preferences, new Date());
+    if (!heldUntil) return false;
+
+    await jobQueue.enqueue(job.name, { ...payload }, {
+      idempotencyKey: `${job.idempotencyKey ?? job.id}:held`,
+      runAt: heldUntil
+    });
+    console.log(`Holding ${job.name} job ${job.id} until quiet hours end at ${heldUntil.toISOString()}`);
+    return true;
   }
 
   /**
@@ -163,18 +352,14 @@ export class NotificationService {
   async processScheduledReminders() {
     console.log('Processing scheduled reminders...');
     
-    try {
-      // Get all users with notification preferences
-      const users = await storage.getAllUsersWithPreferences();
-      
-      for (const user of users) {
-        await this.processUserReminders(user);
-      }
-      
-      console.log(`Processed reminders for ${users.length} users`);
-    } catch (error) {
-      console.error('Error processing scheduled reminders:', error);
+    // Get all users with notification preferences
+    const users = await storage.getAllUsersWithPreferences();
+    
+    for (const user of users) {
+      await this.processUserReminders(user);
     }
+    
+    console.log(`Processed reminders for ${users.length} users`);
   }
 
   /**
@@ -184,35 +369,62 @@ export class NotificationService {
     try {
       const subscriptions = await storage.getUserSubscriptions(user.id);
       const now = new Date();
+      const { timeZone, reminderTime } = this.getUserSchedule(user.preferences);
+      const reminderDays = user.preferences.reminderDaysBefore || [7, 3, 1];
+
+      // Billing dates are calendar dates (stored at UTC midnight), so "today" is the user's local
+      // date expressed the same way
+      const today = localDateKey(now, timeZone);
+      const todayAsBillingDate = new Date(`${today}T00:00:00Z`);
+      const horizon = new Date(todayAsBillingDate.getTime() + (Math.max(...reminderDays, 0) + 1) * DAY_MS);
       
       for (const subscription of subscriptions) {
         // Skip inactive subscriptions
         if (!subscription.isActive) continue;
+
+        if (subscription.cancellationStatus === 'planned' && subscription.cancelBy) {
+          await this.queueCancellationReminders(user, subscription, now);
+        }
+
+        // Cancelled with the provider: it will not renew, so there is nothing to remind about
+        if (isCancellationConfirmed(subscription)) continue;
         
-        const renewalDate = new Date(subscription.nextBillingDate);
-        const daysUntilRenewal = Math.ceil((renewalDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        // Check if we should send reminders for this subscription
-        const reminderDays = user.preferences.reminderDaysBefore || [7, 3, 1];
+        const recurrence = getRecurrence(subscription);
+        const renewalDates = occurrencesBetween(new Date(subscription.nextBillingDate), recurrence, todayAsBillingDate, horizon);
         
-        for (const daysBefore of reminderDays) {
-          if (daysUntilRenewal === daysBefore) {
-            // Check if we've already sent a reminder for this day
+        for (const renewalDate of renewalDates) {
+          for (const daysBefore of reminderDays) {
+            // Deliver at the user's reminder time on the local day `daysBefore` days ahead of the renewal
+            const sendDay = new Date(renewalDate.getTime() - daysBefore * DAY_MS);
+            const sendDayKey = sendDay.toISOString().slice(0, 10);
+            const sendAt = zonedTimeToUtc(sendDay.getUTCFullYear(), sendDay.getUTCMonth() + 1, sendDay.getUTCDate(), reminderTime, timeZone);
+            
+            // Not due before the next scan, or a past day (already handled or missed)
+            if (sendDayKey < today || sendAt.getTime() > now.getTime() + REMINDER_SCAN_LOOKAHEAD_MS) continue;
+            
+            // Check if we've already sent a reminder for this day in the current billing period
             const existingReminder = await storage.getReminderForSubscriptionAndDay(
               subscription.id, 
-              daysBefore
+              daysBefore,
+              addCycles(renewalDate, recurrence, -1)
             );
+            if (existingReminder) continue;
             
-            if (!existingReminder) {
-              console.log(`Sending ${daysBefore}-day reminder for ${subscription.name} to user ${user.id}`);
-              
-              await this.sendSubscriptionReminders(
-                user.id,
-                subscription,
-                user.preferences,
+            console.log(`Queueing ${daysBefore}-day reminder for ${subscription.name} to user ${user.id} at ${sendAt.toISOString()}`);
+            
+            // One job per reminder, channel and day, so each channel retries on its own
+            for (const channel of this.getReminderChannels(user.preferences)) {
+              const payload: ReminderJobPayload = {
+                userId: user.id,
+                subscriptionId: subscription.id,
+                channel,
                 daysBefore,
-                subscriptions
-              );
+                renewalDate: renewalDate.toISOString()
+              };
+              await jobQueue.enqueue('reminder.send', { ...payload }, {
+                idempotencyKey: `reminder:${subscription.id}:${channel}:${daysBefore}:${sendDayKey}`,
+                runAt: this.quietHoursEndFor(channel, user.preferences, sendAt) ?? sendAt
+              });
             }
           }
         }
@@ -222,6 +434,62 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Queue the escalating reminders for a planned cancellation that fall due before the next scan
+   */
+  private async queueCancellationReminders(user: { id: string; preferences: UserNotificationPreferences }, subscription: Subscription, now: Date) {
+    const { timeZone, reminderTime } = this.getUserSchedule(user.preferences);
+    const today = localDateKey(now, timeZone);
+    const cancelBy = new Date(subscription.cancelBy!);
+    const enabledChannels = this.getReminderChannels(user.preferences);
+
+    for (const stage of CANCELLATION_REMINDER_STAGES) {
+      const sendDay = new Date(cancelBy.getTime() - stage.daysBefore * DAY_MS);
+      const sendDayKey = sendDay.toISOString().slice(0, 10);
+      const sendAt = zonedTimeToUtc(sendDay.getUTCFullYear(), sendDay.getUTCMonth() + 1, sendDay.getUTCDate(), reminderTime, timeZone);
+
+      if (sendDayKey < today || sendAt.getTime() > now.getTime() + REMINDER_SCAN_LOOKAHEAD_MS) continue;
+
+      for (const channel of stage.channels.filter(c => enabledChannels.includes(c))) {
+        const payload: CancellationReminderJobPayload = {
+          userId: user.id,
+          subscriptionId: subscription.id,
+          channel,
+          daysBefore: stage.daysBefore,
+          cancelBy: cancelBy.toISOString()
+        };
+        await jobQueue.enqueue('cancellation.remind', { ...payload }, {
+          idempotencyKey: `cancellation:${subscription.id}:${channel}:${stage.daysBefore}:${cancelBy.toISOString().slice(0, 10)}`,
+          runAt: this.quietHoursEndFor(channel, user.preferences, sendAt) ?? sendAt
+        });
+      }
+    }
+  }
+
+  /**
+   * A user's timezone and local reminder time, falling back to UTC / 09:00 if either is invalid
+   */
+  private getUserSchedule(preferences: UserNotificationPreferences) {
+    return {
+      timeZone: isValidTimeZone(preferences.timezone) ? preferences.timezone : 'UTC',
+      reminderTime: parseTimeOfDay(preferences.reminderTime) ?? { hour: 9, minute: 0 }
+    };
+  }
+
+  /**
+   * When `at` falls in the user's quiet hours and the channel respects them, the time they end
+   */
+  private quietHoursEndFor(channel: ReminderChannel, preferences: UserNotificationPreferences, at: Date): Date | null {
+    if (!preferences.quietHoursEnabled || !QUIET_HOURS_CHANNELS.includes(channel)) return null;
+
+    const start = parseTimeOfDay(preferences.quietHoursStart);
+    const end = parseTimeOfDay(preferences.quietHoursEnd);
+    const { timeZone } = this.getUserSchedule(preferences);
+    if (!start || !end || !isWithinQuietHours(at, timeZone, start, end)) return null;
+
+    return quietHoursEndAfter(at, timeZone, end);
+  }
+
   /**
    * Log a reminder attempt to the database
    */
@@ -231,6 +499,15 @@ export class NotificationService {
     } catch (error) {
       console.error('Error logging reminder:', error);
     }
+
+    if (reminderData.status === 'sent') {
+      await webhookService.emit(reminderData.userId, 'reminder.sent', {
+        subscriptionId: reminderData.subscriptionId,
+        channel: reminderData.reminderType,
+        daysBefore: reminderData.daysBefore,
+        message: reminderData.message
+      });
+    }
   }
 
   /**
@@ -240,13 +517,17 @@ export class NotificationService {
     const results = {
       email: { success: false, message: '' },
       whatsapp: { success: false, message: '' },
-      googleCalendar: { success: false, message: '' }
+      googleCalendar: { success: false, message: '' },
+      slack: { success: false, message: '' },
+      discord: { success: false, message: '' },
+      teams: { success: false, message: '' },
+      telegram: { success: false, message: '' }
     };
 
     // Test email connection
     if (preferences.emailEnabled) {
       try {
-        results.email = await emailService.testConnection(preferences);
+        results.email = await emailService.testConnection(preferences, userId);
       } catch (error) {
         results.email = { 
           success: false, 
@@ -279,95 +560,18 @@ export class NotificationService {
       }
     }
 
-    return results;
-  }
-
-  /**
-   * Update subscription reminders when subscription changes
-   */
-  async updateSubscriptionReminders(
-    userId: string,
-    subscription: Subscription,
-    preferences: UserNotificationPreferences,
-    oldSubscription?: Subscription
-  ) {
-    // If Google Calendar is enabled and subscription date changed, update calendar events
-    if (preferences.googleCalendarEnabled && preferences.googleAccessToken) {
-      try {
-        // Get existing calendar events for this subscription
-        const events = await googleCalendarService.listSubscriptionEvents(preferences);
-        const subscriptionEvents = events.filter(event => 
-          event.subscriptionId === subscription.name.toLowerCase().replace(/\s+/g, '-')
-        );
-
-        // Update or create calendar events for each reminder day
-        const reminderDays = preferences.reminderDaysBefore || [7, 3, 1];
-        
-        for (const daysBefore of reminderDays) {
-          const existingEvent = subscriptionEvents.find(event => 
-            event.daysBefore === daysBefore.toString()
-          );
-
-          if (existingEvent) {
-            // Update existing event
-            await googleCalendarService.updateReminderEvent(
-              preferences,
-              existingEvent.id!,
-              {
-                name: subscription.name,
-                cost: subscription.cost,
-                nextBillingDate: subscription.nextBillingDate,
-                description: subscription.description || undefined
-              },
-              daysBefore
-            );
-          } else {
-            // Create new event
-            await googleCalendarService.createReminderEvent(
-              preferences,
-              {
-                name: subscription.name,
-                cost: subscription.cost,
-                nextBillingDate: subscription.nextBillingDate,
-                description: subscription.description || undefined
-              },
-              daysBefore
-            );
-          }
-        }
-      } catch (error) {
-        console.error('Error updating calendar reminders:', error);
+    // Test chat app webhooks (testConnection reports its own failures)
+    for (const channel of CHAT_CHANNELS) {
+      if (chatWebhookService.isConfigured(channel, preferences)) {
+        results[channel] = await chatWebhookService.testConnection(channel, preferences);
       }
     }
-  }
-
-  /**
-   * Delete subscription reminders when subscription is removed
-   */
-  async deleteSubscriptionReminders(
-    subscriptionId: string,
-    preferences: UserNotificationPreferences
-  ) {
-    try {
-      // Delete from database
-      await storage.deleteSubscriptionReminders(subscriptionId);
-
-      // Delete from Google Calendar if enabled
-      if (preferences.googleCalendarEnabled && preferences.googleAccessToken) {
-        const events = await googleCalendarService.listSubscriptionEvents(preferences);
-        const subscriptionEvents = events.filter(event => 
-          event.subscriptionId === subscriptionId.toLowerCase().replace(/\s+/g, '-')
-        );
 
-        for (const event of subscriptionEvents) {
-          if (event.id) {
-            await googleCalendarService.deleteReminderEvent(preferences, event.id);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error deleting subscription reminders:', error);
+    if (telegramService.isConfigured(preferences)) {
+      results.telegram = await telegramService.testConnection(userId, preferences);
     }
+
+    return results;
   }
 
   /**
@@ -382,7 +586,11 @@ export class NotificationService {
       byType: {
         email: stats.filter(s => s.reminderType === 'email').length,
         whatsapp: stats.filter(s => s.reminderType === 'whatsapp').length,
-        calendar: stats.filter(s => s.reminderType === 'calendar').length
+        calendar: stats.filter(s => s.reminderType === 'calendar').length,
+        slack: stats.filter(s => s.reminderType === 'slack').length,
+        discord: stats.filter(s => s.reminderType === 'discord').length,
+        teams: stats.filter(s => s.reminderType === 'teams').length,
+        telegram: stats.filter(s => s.reminderType === 'telegram').length
       },
       last30Days: stats.filter(s => {
         const thirtyDaysAgo = new Date();
@@ -393,20 +601,30 @@ export class NotificationService {
   }
 
   /**
-   * Schedule reminders processing (to be called by cron job)
+   * Queue a calendar sync for every user with Google Calendar connected (the 'calendar.sync' job)
    */
-  startReminderScheduler() {
-    // Process reminders every hour
-    setInterval(() => {
-      this.processScheduledReminders();
-    }, 60 * 60 * 1000); // 1 hour
-
-    // Initial processing
-    setTimeout(() => {
-      this.processScheduledReminders();
-    }, 5000); // 5 seconds after startup
-    
-    console.log('Reminder scheduler started');
+  async queueCalendarSyncs() {
+    const users = await storage.getAllUsersWithPreferences();
+    const today = new Date().toISOString().slice(0, 10);
+    let queued = 0;
+
+    for (const user of users) {
+      if (!this.getReminderChannels(user.preferences).includes('calendar')) continue;
+      await jobQueue.enqueue('calendar.sync.user', { userId: user.id }, {
+        idempotencyKey: `calendar.sync.user:${user.id}:${today}`
+      });
+      queued++;
+    }
+
+    console.log(`Queued calendar sync for ${queued} users`);
+  }
+
+  /**
+   * Bring a user's Google Calendar reminder events in line with their upcoming renewals
+   */
+  async syncUserCalendar(userId: string) {
+    const result = await calendarSyncService.reconcileUser(userId);
+    console.log(`Calendar sync for user ${userId}: ${result.created} created, ${result.updated} updated, ${result.deleted} deleted`);
   }
 }
 
@@ -0,0 +1,102 @@
+import type { Subscription } from '@shared/schema';
+import { billingAnchor, calendarDaysBetween, getRecurrence, nextOccurrence } from '@shared/recurrence';
+import { storage } from '../storage';
+import { calendarSyncService } from './calendar-sync.service';
+import { webhookService } from './webhook.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export class PauseService {
+
+  /**
+   * Pause a subscription, optionally resuming it automatically on `resumeAt`
+   */
+  async pauseSubscription(subscription: Subscription, resumeAt: Date | null, now: Date = new Date()): Promise<Subscription | undefined> {
+    const updated = await storage.updateSubscription(subscription.id, {
+      isActive: false,
+      pausedAt: now,
+      resumeAt
+    });
+
+    await this.recordEvent(subscription, 'pause', resumeAt
+      ? `Subscription "${subscription.name}" was paused until ${formatDate(resumeAt)}`
+      : `Subscription "${subscription.name}" was paused`, now);
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscription.id);
+
+    return updated;
+  }
+
+  /**
+   * Resume a subscription. The billing schedule moves forward by the length of the pause
+   * (and never stays in the past), so the paused days are not charged. The schedule's anchor
+   * moves, not the billing date, which may be a month-end clamped short.
+   */
+  async resumeSubscription(subscription: Subscription, now: Date = new Date()): Promise<Subscription | undefined> {
+    const pausedDays = subscription.pausedAt ? Math.max(0, calendarDaysBetween(new Date(subscription.pausedAt), now)) : 0;
+    const billingAnchorDate = new Date(billingAnchor(subscription).getTime() + pausedDays * DAY_MS);
+    const today = new Date(formatDate(now));
+    const nextBillingDate = nextOccurrence(billingAnchorDate, getRecurrence(subscription), today);
+
+    // A planned cancellation keeps the same lead time before the renewal
+    const cancelBy = subscription.cancellationStatus === 'planned' && subscription.cancelBy
+      ? new Date(new Date(subscription.cancelBy).getTime() + (nextBillingDate.getTime() - new Date(subscription.nextBillingDate).getTime()))
+      : subscription.cancelBy;
+
+    const updated = await storage.updateSubscription(subscription.id, {
+      isActive: true,
+      pausedAt: null,
+      resumeAt: null,
+      nextBillingDate,
+      billingAnchorDate,
+      cancelBy
+    });
+
+    await this.recordEvent(subscription, 'resume',
+      `Subscription "${subscription.name}" was resumed; next billing date ${formatDate(nextBillingDate)}`, now);
+    await calendarSyncService.queueSubscriptionSync(subscription.userId, subscription.id);
+
+    return updated;
+  }
+
+  /**
+   * Resume every paused subscription whose resume date has arrived
+   */
+  async processDueResumes(now: Date = new Date()) {
+    const dueSubscriptions = await storage.getSubscriptionsDueToResume(now);
+
+    for (const subscription of dueSubscriptions) {
+      try {
+        await this.resumeSubscription(subscription, now);
+      } catch (error) {
+        console.error(`Error resuming subscription ${subscription.id}:`, error);
+      }
+    }
+
+    console.log(`Resumed ${dueSubscriptions.length} paused subscriptions`);
+  }
+
+  private async recordEvent(subscription: Subscription, eventType: string, description: string, eventDate: Date) {
+    if (!subscription.userId) return;
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      eventType,
+      paymentStatus: null,
+      amount: null,
+      currency: subscription.currency,
+      paymentMethod: null,
+      description,
+      eventDate
+    });
+    await webhookService.emit(subscription.userId, 'subscription.updated', {
+      subscription: await storage.getSubscription(subscription.id) ?? subscription,
+      change: eventType,
+      description
+    });
+  }
+}
+
+export const pauseService = new PauseService();
@@ -0,0 +1,57 @@
+import type { Subscription } from '@shared/schema';
+import { createCurrencyConverter, formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { currencyService } from './currency.service';
+
+export class PriceChangeService {
+
+  /**
+   * Record a change of price as a 'price_change' history event. Increases also raise a cost alert.
+   */
+  async recordPriceChange(before: Subscription, after: Subscription, effectiveDate: Date = new Date()) {
+    if (!after.userId) return;
+    if (parseFloat(before.cost) === parseFloat(after.cost) && before.currency === after.currency) return;
+
+    const oldPrice = formatMoney(before.cost, before.currency);
+    const newPrice = formatMoney(after.cost, after.currency);
+
+    await storage.createSubscriptionHistoryEntry({
+      userId: after.userId,
+      subscriptionId: after.id,
+      eventType: 'price_change',
+      paymentStatus: null,
+      amount: after.cost,
+      currency: after.currency,
+      previousAmount: before.cost,
+      previousCurrency: before.currency,
+      paymentMethod: null,
+      description: `Price of "${after.name}" changed from ${oldPrice} to ${newPrice}`,
+      eventDate: effectiveDate
+    });
+
+    // Compare in the new currency when the currency changed as well
+    const converter = createCurrencyConverter(await currencyService.getRates(), after.currency);
+    const oldAmount = converter.convert(parseFloat(before.cost), before.currency);
+    const newAmount = parseFloat(after.cost);
+    if (newAmount <= oldAmount) return;
+
+    const percent = oldAmount > 0 ? ((newAmount - oldAmount) / oldAmount) * 100 : null;
+    await storage.createNotification({
+      userId: after.userId,
+      type: 'cost_alert',
+      title: `${after.name} price increase`,
+      message: `${after.name} went up from ${oldPrice} to ${newPrice}${percent !== null ? ` (+${percent.toFixed(1)}%)` : ''}, effective ${effectiveDate.toISOString().slice(0, 10)}.`,
+      priority: 'high',
+      subscriptionId: after.id,
+      data: JSON.stringify({
+        previousAmount: before.cost,
+        previousCurrency: before.currency,
+        amount: after.cost,
+        currency: after.currency,
+        effectiveDate
+      })
+    });
+  }
+}
+
+export const priceChangeService = new PriceChangeService();
@@ -0,0 +1,133 @@
+import type { Subscription, SubscriptionHistory } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { billingAnchor, getRecurrence, nextOccurrence, occurrencesBetween } from '@shared/recurrence';
+import { isCancellationConfirmed } from '@shared/cancellation';
+import { storage } from '../storage';
+import { cancellationService } from './cancellation.service';
+import { webhookService } from './webhook.service';
+
+export type ChargeStatus = 'paid' | 'pending' | 'failed';
+
+export class RenewalService {
+
+  /**
+   * Roll every due subscription forward to its next billing date,
+   * recording a renewal and a payment for each cycle that has passed.
+   * Subscriptions cancelled until the end of their period are ended instead.
+   */
+  async processDueRenewals(now: Date = new Date()) {
+    console.log('Processing due renewals...');
+
+    const dueSubscriptions = await storage.getDueSubscriptions(now);
+    let renewed = 0;
+
+    for (const subscription of dueSubscriptions) {
+      try {
+        if (await this.renewSubscription(subscription, now)) renewed++;
+      } catch (error) {
+        console.error(`Error renewing subscription ${subscription.id}:`, error);
+      }
+    }
+
+    console.log(`Renewed ${renewed} of ${dueSubscriptions.length} due subscriptions`);
+  }
+
+  /**
+   * Advance a single subscription past `now`. Returns false if another run got there first.
+   */
+  private async renewSubscription(subscription: Subscription, now: Date): Promise<boolean> {
+    if (!subscription.userId) return false;
+
+    // Cancelled with the provider: the paid period is over, so nothing renews
+    if (isCancellationConfirmed(subscription)) {
+      return Boolean(await cancellationService.endSubscription(subscription));
+    }
+
+    // Later dates come from the schedule's anchor, not from the billing date, which may be a
+    // month-end clamped short (a Jan 31 subscription bills Feb 28, then Mar 31)
+    const billingDate = new Date(subscription.nextBillingDate);
+    const anchor = billingAnchor(subscription);
+    const recurrence = getRecurrence(subscription);
+    const chargeDates = [billingDate, ...occurrencesBetween(anchor, recurrence, new Date(billingDate.getTime() + 1), now)];
+    const nextBillingDate = nextOccurrence(anchor, recurrence, new Date(now.getTime() + 1));
+
+    const advanced = await storage.advanceSubscriptionBillingDate(subscription.id, billingDate, nextBillingDate);
+    if (!advanced) return false;
+
+    // A planned cancellation missed its deadline; keep the plan, with the same lead time before the new renewal
+    if (subscription.cancellationStatus === 'planned' && subscription.cancelBy) {
+      const leadTimeMs = billingDate.getTime() - new Date(subscription.cancelBy).getTime();
+      await storage.updateSubscription(subscription.id, {
+        cancelBy: new Date(nextBillingDate.getTime() - leadTimeMs)
+      });
+    }
+
+    const amount = formatMoney(subscription.cost, subscription.currency);
+    // Payments the user already recorded, e.g. with "Mark as paid" in a reminder email
+    const paidDays = new Set((await storage.getSubscriptionHistory(subscription.id))
+      .filter(history => history.eventType === 'payment')
+      .map(history => new Date(history.eventDate).toISOString().slice(0, 10)));
+
+    for (const chargeDate of chargeDates) {
+      await storage.createSubscriptionHistoryEntry({
+        userId: subscription.userId,
+        subscriptionId: subscription.id,
+        eventType: 'renewal',
+        paymentStatus: null,
+        amount: subscription.cost,
+        currency: subscription.currency,
+        paymentMethod: null,
+        description: `Subscription "${subscription.name}" renewed for another billing cycle`,
+        eventDate: chargeDate
+      });
+
+      if (paidDays.has(chargeDate.toISOString().slice(0, 10))) continue;
+      await storage.createSubscriptionHistoryEntry({
+        userId: subscription.userId,
+        subscriptionId: subscription.id,
+        eventType: 'payment',
+        paymentStatus: 'paid',
+        amount: subscription.cost,
+        currency: subscription.currency,
+        paymentMethod: subscription.cardLast4 ? 'card' : null,
+        description: `Payment of ${amount} for "${subscription.name}"`,
+        eventDate: chargeDate
+      });
+    }
+
+    await webhookService.emit(subscription.userId, 'subscription.updated', {
+      subscription: await storage.getSubscription(subscription.id) ?? subscription,
+      change: 'renewal',
+      renewals: chargeDates.length
+    });
+
+    return true;
+  }
+
+  /**
+   * Record whether a renewal charge actually went through and re-flag the subscription:
+   * any failed charge makes it 'overdue', otherwise any pending charge makes it 'pending'
+   */
+  async setChargeStatus(subscription: Subscription, entry: SubscriptionHistory, status: ChargeStatus): Promise<Subscription | undefined> {
+    await storage.updateSubscriptionHistoryEntry(entry.id, { paymentStatus: status });
+    if (status === 'failed' && entry.paymentStatus !== 'failed') {
+      await webhookService.emit(subscription.userId, 'payment.failed', {
+        subscription,
+        payment: { ...entry, paymentStatus: status }
+      });
+    }
+
+    const payments = (await storage.getSubscriptionHistory(subscription.id))
+      .filter(history => history.eventType === 'payment');
+
+    const paymentStatus = payments.some(payment => payment.paymentStatus === 'failed')
+      ? 'overdue'
+      : payments.some(payment => payment.paymentStatus === 'pending')
+        ? 'pending'
+        : 'paid';
+
+    return await storage.updateSubscription(subscription.id, { paymentStatus });
+  }
+}
+
+export const renewalService = new RenewalService();
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { storage, type StoredSecret } from '../storage';
+
+/**
+ * Envelope encryption for every credential we store (external API keys, SMTP passwords,
+ * WhatsApp tokens, webhook signing secrets). Each secret is encrypted with its own random
+ * data key, and the data key is wrapped with a key-encryption key (KEK) from the keyring.
+ * Ciphertexts look like
+ *
+ *   v1:<keyId>:<wrapped data key>:<encrypted secret>
+ *
+ * so any configured key can decrypt, while new secrets always use the primary key.
+ *
+ * Keyring configuration:
+ *   ENCRYPTION_KEYS            comma-separated "keyId:secret" pairs, e.g. "2026-10:...,2025-01:..."
+ *   ENCRYPTION_PRIMARY_KEY_ID  key used for new secrets (defaults to the first of ENCRYPTION_KEYS)
+ *   ENCRYPTION_KEY             original single key; registered as "default" and still used to read
+ *                              secrets written before the vault existed
+ *
+ * To rotate: add a new key to ENCRYPTION_KEYS, make it primary, deploy, then run the
+ * 'secrets.reencrypt' job from the admin API. Old keys can be removed once no secret uses them.
+ *
+ * The same keyring signs data we hand out and get back later (email action links). Signatures
+ * carry their key id, so links sent before a rotation keep working until the old key is removed.
+ */
+
+const VERSION = 'v1';
+const LEGACY_KEY_ID = 'legacy';
+const DEFAULT_KEY_ID = 'default';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface SecretRotationResult {
+  scanned: number;
+  rotated: number;
+  skipped: number;
+  failed: number;
+}
+
+export class SecretVault {
+  private keys = new Map<string, Buffer>();
+  private primaryKeyId: string;
+  private legacyKeys: Buffer[] = [];
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    for (const entry of (env.ENCRYPTION_KEYS ?? '').split(',').map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const secret = entry.slice(separator + 1);
+      if (separator <= 0 || !secret || !KEY_ID_PATTERN.test(keyId)) {
+        throw new Error('ENCRYPTION_KEYS must be a comma-separated list of "keyId:secret" pairs');
+      }
+      this.keys.set(keyId, this.deriveKey(keyId, secret));
+    }
+
+    const legacySecret = env.ENCRYPTION_KEY;
+    if (legacySecret) {
+      if (!this.keys.has(DEFAULT_KEY_ID)) {
+        this.keys.set(DEFAULT_KEY_ID, this.deriveKey(DEFAULT_KEY_ID, legacySecret));
+      }
+      // The three derivations used before the vault (email service, external API keys, WhatsApp)
+      this.legacyKeys = [
+        crypto.scryptSync(legacySecret, 'subtracker-salt', 32),
+        Buffer.from(legacySecret.slice(0, 32)),
+        crypto.createHash('sha256').update(legacySecret).digest()
+      ].filter(key => key.length === 32);
+    }
+
+    if (this.keys.size === 0) {
+      console.error('CRITICAL SECURITY ERROR: neither ENCRYPTION_KEYS nor ENCRYPTION_KEY is set!');
+      throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY environment variable is required for secure credential storage');
+    }
+
+    this.primaryKeyId = env.ENCRYPTION_PRIMARY_KEY_ID || this.keys.keys().next().value!;
+    if (!this.keys.has(this.primaryKeyId)) {
+      throw new Error(`ENCRYPTION_PRIMARY_KEY_ID "${this.primaryKeyId}" is not in the keyring`);
+    }
+  }
+
+  /**
+   * Encrypt a secret with a fresh data key wrapped by the primary key
+   */
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(32);
+    const wrapped = this.seal(this.keys.get(this.primaryKeyId)!, dataKey, `${VERSION}:${this.primaryKeyId}`);
+    const payload = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    return [VERSION, this.primaryKeyId, wrapped, payload].join(':');
+  }
+
+  /**
+   * Decrypt a secret written by the vault or by the pre-vault (iv:ciphertext:authTag) code paths
+   */
+  decrypt(ciphertext: string): string {
+    try {
+      const parts = ciphertext.split(':');
+      if (parts[0] === VERSION && parts.length === 4) {
+        const [, keyId, wrapped, payload] = parts;
+        const kek = this.keys.get(keyId);
+        if (!kek) throw new Error(`Unknown encryption key "${keyId}"`);
+        const dataKey = this.open(kek, wrapped, `${VERSION}:${keyId}`);
+        return this.open(dataKey, payload).toString('utf8');
+      }
+      return this.decryptLegacy(parts);
+    } catch (error) {
+      console.error('Decryption failed:', error instanceof Error ? error.message : error);
+      throw new Error('Failed to decrypt secret');
+    }
+  }
+
+  /**
+   * HMAC-SHA256 signature of `data` with the primary key, as `<keyId>.<mac>`. `purpose` separates
+   * signatures for different uses so one can't be replayed as another.
+   */
+  sign(purpose: string, data: string): string {
+    return `${this.primaryKeyId}.${this.mac(this.primaryKeyId, purpose, data)}`;
+  }
+
+  /** Whether `signature` was produced by sign() with the same purpose and data, by any key in the keyring */
+  verify(purpose: string, data: string, signature: string): boolean {
+    const separator = signature.indexOf('.');
+    const keyId = signature.slice(0, separator);
+    if (separator <= 0 || !this.keys.has(keyId)) return false;
+
+    const expected = Buffer.from(this.mac(keyId, purpose, data));
+    const actual = Buffer.from(signature.slice(separator + 1));
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /** The id of the key a ciphertext was written with ('legacy' for pre-vault secrets) */
+  keyIdOf(ciphertext: string): string {
+    const parts = ciphertext.split(':');
+    return parts[0] === VERSION && parts.length === 4 ? parts[1] : LEGACY_KEY_ID;
+  }
+
+  needsRotation(ciphertext: string): boolean {
+    return this.keyIdOf(ciphertext) !== this.primaryKeyId;
+  }
+
+  /** Key ids in the keyring and how many stored secrets use each */
+  async getStatus() {
+    const secrets = await storage.getStoredSecrets();
+    const byKey: Record<string, number> = {};
+    for (const secret of secrets) {
+      const keyId = this.keyIdOf(secret.value);
+      byKey[keyId] = (byKey[keyId] ?? 0) + 1;
+    }
+
+    return {
+      primaryKeyId: this.primaryKeyId,
+      keyIds: Array.from(this.keys.keys()),
+      legacyKeyConfigured: this.legacyKeys.length > 0,
+      totalSecrets: secrets.length,
+      pendingRotation: secrets.filter(secret => this.needsRotation(secret.value)).length,
+      secretsByKey: byKey
+    };
+  }
+
+  /**
+   * Re-encrypt every stored secret that is not on the primary key. Each row is swapped only if
+   * it still holds the value that was read, so a user saving a new credential meanwhile wins.
+   */
+  async reencryptAll(): Promise<SecretRotationResult> {
+    const secrets = await storage.getStoredSecrets();
+    const result: SecretRotationResult = { scanned: secrets.length, rotated: 0, skipped: 0, failed: 0 };
+
+    for (const secret of secrets) {
+      if (!this.needsRotation(secret.value)) continue;
+
+      try {
+        const replaced = await storage.replaceStoredSecret(secret, this.encrypt(this.decrypt(secret.value)));
+        replaced ? result.rotated++ : result.skipped++;
+      } catch (error) {
+        result.failed++;
+        console.error(`Error re-encrypting ${this.describe(secret)}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`Re-encrypted ${result.rotated} of ${result.scanned} secrets to key "${this.primaryKeyId}" (${result.skipped} changed meanwhile, ${result.failed} failed)`);
+    if (result.failed > 0) {
+      // Fail the job so it is retried and, if it keeps failing, shows up in the dead-letter queue
+      throw new Error(`${result.failed} secrets could not be re-encrypted`);
+    }
+    return result;
+  }
+
+  private deriveKey(keyId: string, secret: string): Buffer {
+    return crypto.scryptSync(secret, `subtracker-vault:${keyId}`, 32);
+  }
+
+  // Signing keys are derived from, never equal to, the encryption keys
+  private mac(keyId: string, purpose: string, data: string): string {
+    const key = Buffer.from(crypto.hkdfSync('sha256', this.keys.get(keyId)!, Buffer.alloc(0), `subtracker-sign:${purpose}`, 32));
+    return crypto.createHmac('sha256', key).update(data).digest('base64url');
+  }
+
+  private seal(key: Buffer, data: Buffer, aad?: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    if (aad) cipher.setAAD(Buffer.from(aad));
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  }
+
+  private open(key: Buffer, sealed: string, aad?: string): Buffer {
+    const buffer = Buffer.from(sealed, 'base64url');
+    const iv = buffer.subarray(0, IV_LENGTH);
+    const authTag = buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_LENGTH });
+    if (aad) decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  private decryptLegacy(parts: string[]): string {
+    if (parts.length !== 3) throw new Error('Invalid encrypted secret format');
+
+    const iv = Buffer.from(parts[0], 'hex');
+    const authTag = Buffer.from(parts[2], 'hex');
+    if (authTag.length !== TAG_LENGTH) throw new Error('Invalid authentication tag length');
+
+    // GCM authentication rejects the wrong key, so each derivation can be tried in turn
+    for (const key of this.legacyKeys) {
+      try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_LENGTH });
+        decipher.setAuthTag(authTag);
+        return decipher.update(parts[1], 'hex', 'utf8') + decipher.final('utf8');
+      } catch {
+        // try the next derivation
+      }
+    }
+    throw new Error('No legacy key could decrypt the secret');
+  }
+
+  private describe(secret: StoredSecret): string {
+    return `${secret.table}.${secret.column} (${secret.id})`;
+  }
+}
+
+export const secretVault = new SecretVault();
@@ -0,0 +1,579 @@
+import type { Subscription, User } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { calendarDaysBetween, getRecurrence, nextOccurrence } from '@shared/recurrence';
+import {
+  SUBSCRIPTION_CATEGORIES,
+  type ApplyStatementRequest, type CsvColumnMapping, type RecurringCharge, type StatementAnalysis,
+  type StatementApplyResult, type StatementDateFormat, type StatementFormat, type StatementTransaction
+} from '@shared/statement-import';
+import { storage } from '../storage';
+import { auditService } from './audit.service';
+import { calendarSyncService } from './calendar-sync.service';
+
+/** The statement could not be read; the message is safe to show to the user */
+export class StatementParseError extends Error {}
+
+interface ParsedStatement {
+  columns: string[];
+  mapping: CsvColumnMapping | null;
+  transactions: StatementTransaction[];
+  skippedRows: number;
+}
+
+type Category = (typeof SUBSCRIPTION_CATEGORIES)[number];
+
+// Well-known merchants: matched against the normalized description
+const KNOWN_MERCHANTS: [RegExp, string, Category][] = [
+  [/netflix/, 'Netflix', 'Entertainment'],
+  [/spotify/, 'Spotify', 'Entertainment'],
+  [/disney/, 'Disney+', 'Entertainment'],
+  [/hulu/, 'Hulu', 'Entertainment'],
+  [/hbo|\bmax\b/, 'Max', 'Entertainment'],
+  [/youtube/, 'YouTube Premium', 'Entertainment'],
+  [/prime ?video|amazon ?prime|amzn ?prime/, 'Amazon Prime', 'Entertainment'],
+  [/apple ?tv/, 'Apple TV+', 'Entertainment'],
+  [/apple ?music/, 'Apple Music', 'Entertainment'],
+  [/paramount/, 'Paramount+', 'Entertainment'],
+  [/peacock/, 'Peacock', 'Entertainment'],
+  [/crunchyroll/, 'Crunchyroll', 'Entertainment'],
+  [/audible/, 'Audible', 'Entertainment'],
+  [/deezer/, 'Deezer', 'Entertainment'],
+  [/tidal/, 'Tidal', 'Entertainment'],
+  [/twitch/, 'Twitch', 'Entertainment'],
+  [/icloud/, 'iCloud+', 'Productivity'],
+  [/dropbox/, 'Dropbox', 'Productivity'],
+  [/google ?(one|storage|workspace)|gsuite/, 'Google One', 'Productivity'],
+  [/microsoft|office ?365|msft/, 'Microsoft 365', 'Productivity'],
+  [/adobe/, 'Adobe', 'Productivity'],
+  [/notion/, 'Notion', 'Productivity'],
+  [/slack/, 'Slack', 'Productivity'],
+  [/zoom/, 'Zoom', 'Productivity'],
+  [/github/, 'GitHub', 'Productivity'],
+  [/1password/, '1Password', 'Productivity'],
+  [/evernote/, 'Evernote', 'Productivity'],
+  [/canva/, 'Canva', 'Productivity'],
+  [/figma/, 'Figma', 'Productivity'],
+  [/openai|chatgpt/, 'ChatGPT', 'Productivity'],
+  [/peloton/, 'Peloton', 'Health'],
+  [/strava/, 'Strava', 'Health'],
+  [/headspace/, 'Headspace', 'Health'],
+  [/\bcalm\b/, 'Calm', 'Health'],
+  [/myfitnesspal/, 'MyFitnessPal', 'Health'],
+  [/duolingo/, 'Duolingo', 'Education'],
+  [/coursera/, 'Coursera', 'Education'],
+  [/udemy/, 'Udemy', 'Education'],
+  [/skillshare/, 'Skillshare', 'Education'],
+  [/masterclass/, 'MasterClass', 'Education'],
+  [/xbox/, 'Xbox Game Pass', 'Gaming'],
+  [/playstation|\bpsn\b|sony ?interactive/, 'PlayStation Plus', 'Gaming'],
+  [/nintendo/, 'Nintendo Switch Online', 'Gaming'],
+  [/steam/, 'Steam', 'Gaming'],
+  [/nytimes|new york times/, 'The New York Times', 'News'],
+  [/washington ?post/, 'The Washington Post', 'News'],
+  [/\bwsj\b|wall street journal/, 'The Wall Street Journal', 'News'],
+  [/economist/, 'The Economist', 'News'],
+  [/medium/, 'Medium', 'News'],
+  [/substack/, 'Substack', 'News']
+];
+
+// Fallback category guesses for merchants not in the list above
+const CATEGORY_KEYWORDS: [RegExp, Category][] = [
+  [/gym|fitness|yoga|health|pilates/, 'Health'],
+  [/news|times|journal|magazine|herald|gazette/, 'News'],
+  [/game|gaming/, 'Gaming'],
+  [/learn|academy|school|course|tutor/, 'Education'],
+  [/cloud|software|app|hosting|vpn|domain/, 'Productivity'],
+  [/music|video|stream|tv|cinema|film/, 'Entertainment']
+];
+
+// Words banks put in front of the merchant name
+const DESCRIPTION_PREFIX = /^(pos|card|debit|credit|visa|mastercard|purchase|recurring|contactless|online|payment|to|direct debit|dd|bill|pmt|ach|withdrawal)\b[\s:-]*/;
+// Payment processors that put their own name before a '*'
+const PROCESSOR_PREFIX = /^(paypal|pp|sq|tst|sp|google|goog|fs|2co|pay|apple\.com\/bill)\s*\*/;
+
+// [min, max] median interval in days for each preset cycle; custom cycles fill the gaps
+const CYCLE_INTERVALS: [RecurringCharge['billingCycle'], number, number][] = [
+  ['weekly', 6, 8],
+  ['biweekly', 13, 16],
+  ['monthly', 27, 33],
+  ['quarterly', 84, 97],
+  ['semiannual', 175, 190],
+  ['yearly', 350, 380]
+];
+const AMOUNT_TOLERANCE = 0.15; // price changes and exchange-rate noise
+const MIN_REGULARITY = 0.75; // share of intervals that must fit the cycle
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const utcDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+const titleCase = (text: string) => text.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Finds subscriptions in bank and credit-card statements (CSV or OFX/QFX) and imports the ones the user accepts
+ */
+export class StatementImportService {
+  async analyzeStatement(
+    user: User,
+    format: StatementFormat,
+    content: string,
+    mapping: CsvColumnMapping | undefined,
+    defaultCurrency: string,
+    now: Date = new Date()
+  ): Promise<StatementAnalysis> {
+    const statement = format === 'ofx'
+      ? this.parseOfx(content, defaultCurrency)
+      : this.parseCsv(content, mapping, defaultCurrency);
+
+    const subscriptions = await storage.getSubscriptionsByUserId(user.id);
+    const charges = this.detectRecurringCharges(statement.transactions, now)
+      .map(charge => ({ ...charge, match: this.findMatch(charge, subscriptions) }));
+
+    return {
+      format,
+      columns: statement.columns,
+      mapping: statement.mapping,
+      transactionCount: statement.transactions.length,
+      skippedRows: statement.skippedRows,
+      charges
+    };
+  }
+
+  /**
+   * Create the accepted subscriptions and record each statement charge as a 'payment' history entry.
+   * Every subscription in a 'match' decision must belong to the user (checked by the route).
+   */
+  async applyCharges(user: User, request: ApplyStatementRequest): Promise<StatementApplyResult> {
+    const result: StatementApplyResult = { created: [], matched: [], paymentsSkipped: 0 };
+
+    for (const charge of request.charges) {
+      if (charge.action === 'create') {
+        const { action, transactions, ...fields } = charge;
+        const subscription = await storage.createSubscription({
+          ...fields,
+          customCycleCount: fields.billingCycle === 'custom' ? fields.customCycleCount ?? null : null,
+          customCycleUnit: fields.billingCycle === 'custom' ? fields.customCycleUnit ?? null : null,
+          description: 'Imported from a bank statement',
+          paymentStatus: 'paid',
+          isActive: true,
+          userId: user.id
+        });
+        await auditService.recordCreated(subscription,
+          `Subscription "${subscription.name}" was created from a bank statement with cost ${subscription.cost} ${subscription.currency}/${subscription.billingCycle}`);
+        await calendarSyncService.queueSubscriptionSync(user.id, subscription.id);
+
+        const payments = await this.recordPayments(subscription, transactions, result);
+        result.created.push({ subscriptionId: subscription.id, name: subscription.name, payments });
+      } else {
+        const subscription = await storage.getSubscription(charge.subscriptionId);
+        if (!subscription || subscription.userId !== user.id) continue;
+
+        const payments = await this.recordPayments(subscription, charge.transactions, result);
+        result.matched.push({ subscriptionId: subscription.id, name: subscription.name, payments });
+      }
+    }
+
+    return result;
+  }
+
+  private async recordPayments(
+    subscription: Subscription,
+    transactions: { date: Date; amount: number }[],
+    result: StatementApplyResult
+  ): Promise<number> {
+    const paymentKey = (date: Date, amount: number) => `${date.toISOString().slice(0, 10)}|${amount.toFixed(2)}`;
+    const recorded = new Set((await storage.getSubscriptionHistory(subscription.id))
+      .filter(entry => entry.eventType === 'payment' && entry.amount)
+      .map(entry => paymentKey(new Date(entry.eventDate), parseFloat(entry.amount!))));
+
+    let created = 0;
+    // Oldest first, so the newest-first timelines keep their order
+    for (const { date, amount } of [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+      const key = paymentKey(date, amount);
+      if (recorded.has(key)) {
+        result.paymentsSkipped++;
+        continue;
+      }
+      recorded.add(key);
+
+      await storage.createSubscriptionHistoryEntry({
+        userId: subscription.userId!,
+        subscriptionId: subscription.id,
+        eventType: 'payment',
+        paymentStatus: 'paid',
+        amount: amount.toFixed(2),
+        currency: subscription.currency,
+        paymentMethod: null,
+        description: `Payment of ${formatMoney(amount, subscription.currency)} for "${subscription.name}" (from a bank statement)`,
+        eventDate: date
+      });
+      created++;
+    }
+    return created;
+  }
+
+  parseCsv(content: string, mapping: CsvColumnMapping | undefined, defaultCurrency: string): ParsedStatement {
+    const rows = this.readCsvRows(content);
+    // Some banks put account details above the header row
+    const headerIndex = Math.max(0, rows.findIndex(row => row.length >= 3 && row.some(cell => /date/i.test(cell))));
+    const columns = (rows[headerIndex] ?? []).map(cell => cell.trim());
+    if (columns.length < 2) {
+      throw new StatementParseError('The CSV file has no header row');
+    }
+
+    const resolved = mapping ?? this.guessMapping(columns);
+    for (const column of [resolved.date, resolved.description, resolved.amount, resolved.debit, resolved.credit, resolved.currency]) {
+      if (column && !columns.includes(column)) {
+        throw new StatementParseError(`Column "${column}" is not in the CSV header`);
+      }
+    }
+
+    const index = (column?: string) => column ? columns.indexOf(column) : -1;
+    const dataRows = rows.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim()));
+    const dateFormat = resolved.dateFormat === 'auto'
+      ? this.detectDateFormat(dataRows.map(row => row[index(resolved.date)] ?? ''))
+      : resolved.dateFormat;
+
+    const entries: { date: Date; description: string; amount: number; currency: string }[] = [];
+    let skippedRows = 0;
+    for (const row of dataRows) {
+      const cell = (column?: string) => (index(column) >= 0 ? row[index(column)] ?? '' : '').trim();
+      const date = this.parseDate(cell(resolved.date), dateFormat);
+      let amount: number | null;
+      if (resolved.amount) {
+        amount = this.parseAmount(cell(resolved.amount));
+      } else {
+        // Separate columns: debits are charges whatever their sign; credit rows are read but dropped below
+        const debit = this.parseAmount(cell(resolved.debit));
+        amount = debit ? Math.abs(debit) : this.parseAmount(cell(resolved.credit)) !== null ? 0 : null;
+      }
+
+      if (!date || amount === null) {
+        skippedRows++;
+        continue;
+      }
+      entries.push({ date, description: cell(resolved.description), amount, currency: cell(resolved.currency).toUpperCase() || defaultCurrency });
+    }
+
+    // A single amount column is signed: bank accounts show charges as negative, card statements
+    // usually as positive. Whichever sign is more common is taken to be the charges.
+    const chargesAreNegative = Boolean(resolved.amount) && entries.filter(e => e.amount < 0).length >= entries.filter(e => e.amount > 0).length;
+    const transactions = entries
+      .filter(e => (chargesAreNegative ? e.amount < 0 : e.amount > 0))
+      .map(e => ({ date: e.date.toISOString(), description: e.description, amount: Math.abs(e.amount), currency: e.currency }));
+
+    return { columns, mapping: resolved, transactions, skippedRows };
+  }
+
+  parseOfx(content: string, defaultCurrency: string): ParsedStatement {
+    // OFX 1.x is SGML without closing tags, OFX 2.x is XML; reading up to the next '<' handles both
+    const tag = (text: string, name: string) =>
+      new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(text)?.[1].trim() || undefined;
+    const decode = (text: string) =>
+      text.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+    const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+    if (blocks.length === 0) {
+      throw new StatementParseError('No transactions found in the OFX file');
+    }
+
+    const currency = tag(content, 'CURDEF')?.toUpperCase() || defaultCurrency;
+    const transactions: StatementTransaction[] = [];
+    let skippedRows = 0;
+    for (const block of blocks) {
+      const date = this.parseDate((tag(block, 'DTPOSTED') ?? '').slice(0, 8), 'YMD');
+      const amount = this.parseAmount(tag(block, 'TRNAMT') ?? '');
+      if (!date || amount === null) {
+        skippedRows++;
+        continue;
+      }
+      // OFX amounts are signed from the account holder's side: negative is money out
+      if (amount >= 0) continue;
+      transactions.push({
+        date: date.toISOString(),
+        description: decode(tag(block, 'NAME') ?? tag(block, 'MEMO') ?? ''),
+        amount: -amount,
+        currency
+      });
+    }
+
+    return { columns: [], mapping: null, transactions, skippedRows };
+  }
+
+  /**
+   * Group charges by merchant and keep the groups that repeat at a steady interval with a steady amount
+   */
+  detectRecurringCharges(transactions: StatementTransaction[], now: Date = new Date()): Omit<RecurringCharge, 'match'>[] {
+    const groups = new Map<string, StatementTransaction[]>();
+    for (const transaction of transactions) {
+      const key = this.normalizeMerchant(transaction.description);
+      if (!key) continue;
+      groups.set(key, [...(groups.get(key) ?? []), transaction]);
+    }
+    const statementEnd = transactions.reduce((latest, t) => Math.max(latest, Date.parse(t.date)), 0);
+
+    const charges: Omit<RecurringCharge, 'match'>[] = [];
+    for (const [key, group] of Array.from(groups.entries())) {
+      const whole = this.analyzeSeries(key, group, statementEnd, now);
+      if (whole) {
+        charges.push(whole);
+        continue;
+      }
+
+      // One merchant, several plans (e.g. two app-store subscriptions): try each price on its own
+      const byAmount = new Map<string, StatementTransaction[]>();
+      for (const transaction of group) {
+        const amountKey = transaction.amount.toFixed(2);
+        byAmount.set(amountKey, [...(byAmount.get(amountKey) ?? []), transaction]);
+      }
+      if (byAmount.size < 2) continue;
+      for (const [amountKey, series] of Array.from(byAmount.entries())) {
+        const charge = this.analyzeSeries(`${key}|${amountKey}`, series, statementEnd, now);
+        if (charge) charges.push(charge);
+      }
+    }
+
+    return charges.sort((a, b) => b.confidence - a.confidence || a.merchant.localeCompare(b.merchant));
+  }
+
+  private analyzeSeries(key: string, series: StatementTransaction[], statementEnd: number, now: Date): Omit<RecurringCharge, 'match'> | null {
+    const sorted = [...series].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+    if (sorted.length < 2) return null;
+
+    const dates = sorted.map(t => new Date(t.date));
+    const intervals = dates.slice(1).map((date, i) => calendarDaysBetween(dates[i], date));
+    if (intervals.some(days => days <= 0)) return null;
+
+    const intervalDays = median(intervals);
+    const preset = CYCLE_INTERVALS.find(([, min, max]) => intervalDays >= min && intervalDays <= max);
+    // Two charges prove little on their own; only trust them for the usual cycles
+    if (!preset && sorted.length < 3) return null;
+    if (intervalDays < 5 || intervalDays > 400) return null;
+    if (preset && ['weekly', 'biweekly'].includes(preset[0]) && sorted.length < 3) return null;
+
+    // Month lengths vary, so month-based cycles get a few days of slack either way
+    const tolerance = preset && !['weekly', 'biweekly'].includes(preset[0]) ? 4 : Math.max(1, Math.round(intervalDays * 0.1));
+    const regularity = intervals.filter(days => Math.abs(days - intervalDays) <= tolerance).length / intervals.length;
+    if (regularity < MIN_REGULARITY) return null;
+
+    const amounts = sorted.map(t => t.amount);
+    const typicalAmount = median(amounts);
+    const amountConsistency = amounts.filter(amount => Math.abs(amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE).length / amounts.length;
+    if (amountConsistency < (sorted.length === 2 ? 1 : 0.6)) return null;
+
+    const billingCycle = preset?.[0] ?? 'custom';
+    const customCycleCount = preset ? null : Math.round(intervalDays);
+    const customCycleUnit = preset ? null : 'days' as const;
+    const last = sorted[sorted.length - 1];
+    const lastDate = new Date(last.date);
+    const recurrence = getRecurrence({ billingCycle, customCycleCount, customCycleUnit });
+    const nextBillingDate = nextOccurrence(lastDate, recurrence, new Date(Math.max(now.getTime(), lastDate.getTime() + 1)));
+
+    // No charge for two cycles before the statement ends: probably cancelled already
+    const lapsed = statementEnd - lastDate.getTime() > 2 * intervalDays * 24 * 60 * 60 * 1000;
+    const confidence = regularity * amountConsistency * Math.min(1, sorted.length / 4) * (preset ? 1 : 0.8) * (lapsed ? 0.5 : 1);
+
+    const { merchant, category } = this.describeMerchant(key.split('|')[0]);
+    return {
+      key,
+      merchant,
+      descriptions: Array.from(new Set(sorted.map(t => t.description))),
+      transactions: sorted.map(t => ({ date: t.date, amount: t.amount })),
+      amount: last.amount.toFixed(2),
+      currency: last.currency,
+      billingCycle,
+      customCycleCount,
+      customCycleUnit,
+      intervalDays,
+      confidence: Math.round(confidence * 100) / 100,
+      category,
+      nextBillingDate: nextBillingDate.toISOString()
+    };
+  }
+
+  /**
+   * Reduce a statement description to the merchant: "POS PAYPAL *SPOTIFY 4029357733 LU" -> "spotify"
+   */
+  normalizeMerchant(description: string): string {
+    let text = description.toLowerCase().trim();
+    for (let previous = ''; previous !== text;) {
+      previous = text;
+      text = text.replace(DESCRIPTION_PREFIX, '').replace(PROCESSOR_PREFIX, '').trim();
+    }
+    // "NETFLIX.COM*AB12CD" -> "netflix.com"
+    if (text.includes('*')) text = text.split('*')[0].trim() || text.split('*')[1].trim();
+
+    const words = text
+      .replace(/\bwww\./g, '')
+      .replace(/\.(com|net|org|io|tv|co\.uk|co|de|fr)\b/g, '')
+      .replace(/[^a-z0-9&+ ]/g, ' ')
+      .split(/\s+/)
+      // Reference numbers, dates and phone numbers change from charge to charge
+      .filter(word => word && !/\d{3,}|\d+[a-z]+\d|^\d+$/.test(word));
+    // Trailing state or country code ("... LOS GATOS CA")
+    if (words.length > 1 && words[words.length - 1].length === 2) words.pop();
+    return words.slice(0, 3).join(' ');
+  }
+
+  private describeMerchant(key: string): { merchant: string; category: Category } {
+    const known = KNOWN_MERCHANTS.find(([pattern]) => pattern.test(key));
+    if (known) return { merchant: known[1], category: known[2] };
+    const category = CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(key))?.[1] ?? 'Other';
+    return { merchant: titleCase(key), category };
+  }
+
+  // Same merchant, preferring the subscription with the closest price
+  private findMatch(charge: Omit<RecurringCharge, 'match'>, subscriptions: Subscription[]): RecurringCharge['match'] {
+    const key = charge.key.split('|')[0];
+    const firstWord = key.split(' ')[0];
+    const candidates = subscriptions.filter(subscription => {
+      const name = this.normalizeMerchant(subscription.name);
+      if (!name) return false;
+      return name === key
+        || this.describeMerchant(name).merchant === charge.merchant
+        || (firstWord.length >= 4 && name.split(' ')[0] === firstWord);
+    });
+    if (candidates.length === 0) return null;
+
+    const amount = parseFloat(charge.amount);
+    const best = candidates.sort((a, b) =>
+      Math.abs(parseFloat(a.cost) - amount) - Math.abs(parseFloat(b.cost) - amount))[0];
+    return { subscriptionId: best.id, name: best.name };
+  }
+
+  private guessMapping(columns: string[]): CsvColumnMapping {
+    const used = new Set<string>();
+    const find = (pattern: RegExp) => {
+      const column = columns.find(c => pattern.test(c) && !used.has(c));
+      if (column) used.add(column);
+      return column;
+    };
+
+    const date = find(/date|posted|booked/i);
+    const description = find(/description|payee|merchant|narrative|details|memo|name|reference/i);
+    const debit = find(/debit|withdrawal|paid out|money out|outflow/i);
+    const credit = find(/credit|deposit|paid in|money in|inflow/i);
+    const amount = debit ? undefined : find(/^(?!.*balance).*(amount|value|sum)/i);
+    const currency = find(/currency|ccy/i);
+
+    if (!date || !description || (!amount && !debit)) {
+      throw new StatementParseError('Could not tell which columns hold the date, description and amount; map them by hand');
+    }
+    return { date, description, amount, debit, credit: debit ? credit : undefined, currency, dateFormat: 'auto' };
+  }
+
+  // RFC 4180: quoted fields may contain the delimiter, doubled quotes and line breaks
+  private readCsvRows(content: string): string[][] {
+    const text = content.replace(/^\uFEFF/, '');
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const delimiter = [';', '\t', '|'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  // "-1.234,56", "(12.99)", "$12.99", "12.99-" and "1,234.56" all parse
+  private parseAmount(raw: string): number | null {
+    let text = raw.trim();
+    if (!text) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+      negative = true;
+      text = text.slice(1, -1);
+    }
+    if (text.endsWith('-')) {
+      negative = !negative;
+      text = text.slice(0, -1);
+    }
+    text = text.replace(/[^\d.,+-]/g, '');
+    if (text.startsWith('-')) {
+      negative = !negative;
+      text = text.slice(1);
+    } else if (text.startsWith('+')) {
+      text = text.slice(1);
+    }
+
+    // The last '.' or ',' is the decimal separator when one or two digits follow it
+    const separator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+    const normalized = separator >= 0 && text.length - separator - 1 <= 2
+      ? `${text.slice(0, separator).replace(/[.,]/g, '')}.${text.slice(separator + 1)}`
+      : text.replace(/[.,]/g, '');
+
+    const value = parseFloat(normalized);
+    if (!Number.isFinite(value)) return null;
+    return negative ? -value : value;
+  }
+
+  private parseDate(raw: string, format: Exclude<StatementDateFormat, 'auto'>): Date | null {
+    const text = raw.trim();
+    const ymd = /^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})/.exec(text);
+    if (ymd) return utcDate(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+
+    const parts = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/.exec(text);
+    if (parts) {
+      const [a, b] = [Number(parts[1]), Number(parts[2])];
+      const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+      return format === 'DMY' ? utcDate(year, b, a) : utcDate(year, a, b);
+    }
+
+    // "15 Jan 2026", "Jan 15, 2026"
+    const parsed = new Date(text);
+    if (!text || Number.isNaN(parsed.getTime())) return null;
+    return utcDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+  }
+
+  // 13/01/2026 can only be day-first and 01/13/2026 only month-first; month-first when nothing says
+  private detectDateFormat(values: string[]): Exclude<StatementDateFormat, 'auto'> {
+    for (const value of values) {
+      const parts = /^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}\b/.exec(value.trim());
+      if (!parts) continue;
+      if (Number(parts[1]) > 12) return 'DMY';
+      if (Number(parts[2]) > 12) return 'MDY';
+    }
+    return 'MDY';
+  }
+}
+
+export const statementImportService = new StatementImportService();
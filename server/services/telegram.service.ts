@@ -0,0 +1,318 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { getDecryptedApiKey, storeApiKey } from '../routes/userExternalApiKeys';
+import { emailActionService } from './email-action.service';
+
+// The bot token is kept encrypted with the user's other external API keys under this service name
+export const TELEGRAM_KEY_SERVICE = 'telegram';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const LINK_CODE_TTL_MS = 15 * 60 * 1000;
+const BOT_TOKEN_PATTERN = /^\d+:[A-Za-z0-9_-]{30,}$/;
+
+export class TelegramError extends Error {}
+
+export interface TelegramReminderDetails {
+  id: string;
+  name: string;
+  cost: string;
+  currency?: string;
+  nextBillingDate: Date;
+  description?: string;
+}
+
+/** The bot account behind a token, as returned by getMe */
+export interface TelegramBot {
+  id: number;
+  username: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' })[char]!);
+
+// Reminder buttons carry "<action>:<subscriptionId>:<YYYYMMDD renewal>", well within the 64-byte limit
+const renewalKey = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+function secretsMatch(expected: string, given: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Telegram reminders from a bot the user creates with @BotFather. They link their chat by opening
+ * the bot through a one-time deep link (t.me/<bot>?start=<code>); button presses come back to
+ * /api/telegram/webhook/:userId.
+ */
+export class TelegramService {
+
+  /** Bot API base URL. Point TELEGRAM_API_URL at a local fake Bot API server to test without Telegram. */
+  apiUrl(): string {
+    return (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/+$/, '');
+  }
+
+  async getBotToken(userId: string): Promise<string | null> {
+    return await getDecryptedApiKey(userId, TELEGRAM_KEY_SERVICE);
+  }
+
+  isConfigured(preferences: UserNotificationPreferences): boolean {
+    return preferences.telegramEnabled && !!preferences.telegramChatId;
+  }
+
+  /**
+   * Check a bot token with getMe, point the bot's webhook at this app and save the token.
+   * A different bot than before can't message the chat linked to the old one, so that chat is unlinked.
+   */
+  async connectBot(userId: string, token: string): Promise<TelegramBot> {
+    if (!BOT_TOKEN_PATTERN.test(token)) {
+      throw new TelegramError('Not a Telegram bot token (expected something like 123456789:AAE...)');
+    }
+
+    const bot = await this.call<TelegramBot>(token, 'getMe');
+    await this.call(token, 'setWebhook', {
+      url: this.webhookUrl(userId),
+      secret_token: this.webhookSecret(userId, token),
+      allowed_updates: ['message', 'callback_query']
+    });
+
+    const previous = await this.getBotToken(userId);
+    await storeApiKey(userId, TELEGRAM_KEY_SERVICE, token);
+    if (previous && previous.split(':')[0] !== String(bot.id)) {
+      await storage.updateUserNotificationPreferences(userId, { telegramChatId: null, telegramEnabled: false });
+    }
+    return bot;
+  }
+
+  /** Remove the bot's webhook (best effort), the saved token and the linked chat */
+  async disconnectBot(userId: string) {
+    const token = await this.getBotToken(userId);
+    if (token) {
+      try {
+        await this.call(token, 'deleteWebhook');
+      } catch (error) {
+        console.error(`Failed to remove the Telegram webhook for user ${userId}:`, error);
+      }
+    }
+
+    await storage.deleteUserExternalApiKey(userId, TELEGRAM_KEY_SERVICE);
+    await storage.updateUserNotificationPreferences(userId, {
+      telegramEnabled: false,
+      telegramChatId: null,
+      telegramLinkCode: null,
+      telegramLinkCodeExpiresAt: null
+    });
+  }
+
+  /**
+   * A new one-time link code, replacing any earlier one, and the deep link that sends it to the bot as "/start <code>"
+   */
+  async createLink(userId: string): Promise<{ url: string; code: string; expiresAt: Date }> {
+    const token = await this.getBotToken(userId);
+    if (!token) {
+      throw new TelegramError('Connect your Telegram bot first');
+    }
+
+    const bot = await this.call<TelegramBot>(token, 'getMe');
+    // Deep-link payloads allow A-Z, a-z, 0-9, _ and -
+    const code = randomBytes(16).toString('base64url');
+    const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MS);
+    await storage.updateUserNotificationPreferences(userId, { telegramLinkCode: code, telegramLinkCodeExpiresAt: expiresAt });
+    return { url: `https://t.me/${bot.username}?start=${code}`, code, expiresAt };
+  }
+
+  webhookUrl(userId: string): string {
+    return `${emailActionService.appUrl()}/api/telegram/webhook/${userId}`;
+  }
+
+  /** The secret Telegram sends back in X-Telegram-Bot-Api-Secret-Token, derived from the bot token */
+  webhookSecret(userId: string, token: string): string {
+    return createHmac('sha256', token).update(`telegram-webhook:${userId}`).digest('hex');
+  }
+
+  isValidWebhookSecret(userId: string, token: string, given: string | undefined): boolean {
+    return !!given && secretsMatch(this.webhookSecret(userId, token), given);
+  }
+
+  /**
+   * Handle an update from the user's bot: "/start <code>" links the chat, buttons act on the
+   * subscription, /stop and /start turn reminders off and on
+   */
+  async handleUpdate(userId: string, token: string, update: any) {
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    if (!preferences) return;
+
+    if (update?.callback_query) {
+      await this.handleButton(userId, token, preferences, update.callback_query);
+    } else if (typeof update?.message?.text === 'string') {
+      await this.handleMessage(userId, token, preferences, update.message);
+    }
+  }
+
+  private async handleMessage(userId: string, token: string, preferences: UserNotificationPreferences, message: any) {
+    const chatId = String(message.chat.id);
+    const [command, code] = message.text.trim().split(/\s+/);
+
+    if (command === '/start' && code) {
+      const expiresAt = preferences.telegramLinkCodeExpiresAt;
+      if (!preferences.telegramLinkCode || !expiresAt || new Date(expiresAt).getTime() < Date.now() ||
+          !secretsMatch(preferences.telegramLinkCode, code)) {
+        await this.sendText(token, chatId, 'This link has expired or was already used. Create a new one in your SubTracker settings.');
+        return;
+      }
+
+      await storage.updateUserNotificationPreferences(userId, {
+        telegramChatId: chatId,
+        telegramEnabled: true,
+        telegramLinkCode: null,
+        telegramLinkCodeExpiresAt: null
+      });
+      await this.sendText(token, chatId, '✅ Linked! Subscription renewal reminders will arrive in this chat. Send /stop to pause them.');
+      return;
+    }
+
+    if (chatId !== preferences.telegramChatId) {
+      await this.sendText(token, chatId, 'This chat isn\'t linked to SubTracker. Open the link from your SubTracker settings to connect it.');
+      return;
+    }
+
+    if (command === '/stop') {
+      await storage.updateUserNotificationPreferences(userId, { telegramEnabled: false });
+      await this.sendText(token, chatId, 'Telegram reminders are off. Send /start to turn them back on.');
+    } else if (command === '/start') {
+      await storage.updateUserNotificationPreferences(userId, { telegramEnabled: true });
+      await this.sendText(token, chatId, '✅ Telegram reminders are on.');
+    } else {
+      await this.sendText(token, chatId, 'Use the buttons on a reminder to mark it paid or snooze it. Send /stop to pause reminders and /start to resume them.');
+    }
+  }
+
+  private async handleButton(userId: string, token: string, preferences: UserNotificationPreferences, query: any) {
+    const chatId = String(query.message?.chat?.id ?? '');
+    const linked = !!preferences.telegramChatId && chatId === preferences.telegramChatId;
+    const answer = linked
+      ? await this.runButtonAction(userId, preferences, String(query.data ?? ''))
+      : 'This chat is no longer linked to SubTracker.';
+
+    await this.call(token, 'answerCallbackQuery', { callback_query_id: query.id, text: answer.slice(0, 200) });
+    if (linked) {
+      await this.sendText(token, chatId, answer, query.message?.message_id);
+    }
+  }
+
+  private async runButtonAction(userId: string, preferences: UserNotificationPreferences, data: string): Promise<string> {
+    const [action, subscriptionId, renewal] = data.split(':');
+    if (action !== 'paid' && action !== 'snooze') {
+      return 'This button is no longer supported.';
+    }
+
+    const subscription = subscriptionId ? await storage.getSubscription(subscriptionId) : undefined;
+    if (!subscription || subscription.userId !== userId || !subscription.isActive) {
+      return 'That subscription is no longer active.';
+    }
+    // The button is about the renewal the reminder was sent for, which may have passed since
+    if (renewal !== renewalKey(new Date(subscription.nextBillingDate))) {
+      return `This reminder is out of date. ${subscription.name} next renews on ${new Date(subscription.nextBillingDate).toISOString().slice(0, 10)}.`;
+    }
+
+    return await emailActionService.performOnNextRenewal(action, userId, subscription, preferences.timezone, {
+      channel: 'telegram',
+      description: 'Telegram'
+    });
+  }
+
+  /**
+   * Send a renewal reminder with "Mark paid", "Snooze" and "Open dashboard" buttons
+   */
+  async sendSubscriptionReminder(
+    userId: string,
+    preferences: UserNotificationPreferences,
+    subscription: TelegramReminderDetails,
+    daysBefore: number
+  ) {
+    if (!this.isConfigured(preferences)) {
+      throw new Error('Telegram notifications not enabled or chat not linked');
+    }
+    const token = await this.getBotToken(userId);
+    if (!token) {
+      throw new Error('Telegram bot not configured');
+    }
+
+    const renewal = new Date(subscription.nextBillingDate);
+    const timeFrame = daysBefore === 0 ? 'today' : daysBefore === 1 ? 'tomorrow' : `in ${daysBefore} days`;
+    const text = [
+      `${daysBefore <= 1 ? '🚨' : daysBefore <= 3 ? '⚠️' : '🔔'} <b>${escapeHtml(subscription.name)} renews ${timeFrame}</b>`,
+      '',
+      `💰 ${escapeHtml(formatMoney(subscription.cost, subscription.currency))}`,
+      `📅 ${renewal.toISOString().slice(0, 10)}`,
+      ...(subscription.description ? [`📝 ${escapeHtml(subscription.description)}`] : [])
+    ].join('\n');
+
+    const actions = [
+      { text: '✅ Mark paid', callback_data: `paid:${subscription.id}:${renewalKey(renewal)}` },
+      // Snoozing on the renewal day would be too late
+      ...(daysBefore > 0 ? [{ text: '⏰ Snooze', callback_data: `snooze:${subscription.id}:${renewalKey(renewal)}` }] : [])
+    ];
+    const appUrl = emailActionService.appUrl();
+    // Telegram refuses URL buttons it can't open, such as http://localhost
+    const links = appUrl.startsWith('https://') ? [[{ text: '📊 Open dashboard', url: `${appUrl}/subscriptions` }]] : [];
+
+    const message = await this.call<{ message_id: number }>(token, 'sendMessage', {
+      chat_id: preferences.telegramChatId,
+      text,
+      parse_mode: 'HTML',
+      reply_markup: { inline_keyboard: [actions, ...links] }
+    });
+
+    return {
+      messageId: String(message.message_id),
+      status: 'sent',
+      timestamp: new Date()
+    };
+  }
+
+  async testConnection(userId: string, preferences: UserNotificationPreferences | undefined) {
+    try {
+      const token = await this.getBotToken(userId);
+      if (!token) {
+        return { success: false, message: 'Connect your Telegram bot first' };
+      }
+      if (!preferences?.telegramChatId) {
+        return { success: false, message: 'Open the link from Settings in Telegram to connect your chat first' };
+      }
+
+      await this.sendText(token, preferences.telegramChatId, '✅ SubTracker is connected. Subscription renewal reminders will arrive here.');
+      return { success: true, message: 'Test message sent to Telegram' };
+    } catch (error) {
+      console.error('Telegram connection test failed:', error);
+      return { success: false, message: error instanceof Error ? error.message : 'Telegram connection test failed' };
+    }
+  }
+
+  private async sendText(token: string, chatId: string, text: string, replyToMessageId?: number) {
+    return await this.call(token, 'sendMessage', {
+      chat_id: chatId,
+      text,
+      ...(replyToMessageId ? { reply_parameters: { message_id: replyToMessageId } } : {})
+    });
+  }
+
+  /** Call a Bot API method. Errors carry Telegram's description but never the token. */
+  private async call<T = unknown>(token: string, method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const response = await fetch(`${this.apiUrl()}/bot${token}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    const body = await response.json().catch(() => null) as { ok: boolean; result?: T; description?: string } | null;
+    if (!body?.ok) {
+      throw new TelegramError(`Telegram ${method} failed: ${body?.description ?? `HTTP ${response.status}`}`);
+    }
+    return body.result as T;
+  }
+}
+
+export const telegramService = new TelegramService();
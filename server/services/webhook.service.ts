@@ -0,0 +1,193 @@
+import { createHash, createHmac, randomBytes, randomUUID } from 'crypto';
+import https from 'https';
+import type { Job, WebhookDelivery, WebhookEndpoint } from '@shared/schema';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  type CreateWebhookEndpoint,
+  type UpdateWebhookEndpoint,
+  type WebhookEnvelope,
+  type WebhookEventType
+} from '@shared/webhooks';
+import { storage } from '../storage';
+import { jobQueue } from './job-queue.service';
+import { secretVault } from './secret-vault.service';
+import { assertPublicUrl, publicOnlyLookup } from '../utils/publicUrl';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const USER_AGENT = 'SubTracker-Webhooks/1.0';
+
+export interface WebhookDeliveryJobPayload {
+  deliveryId: string;
+}
+
+export interface EmitOptions {
+  // Events with the same key are delivered once per endpoint, however often they are emitted
+  dedupeKey?: string;
+}
+
+/** An endpoint as the API returns it: everything but the secret */
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, 'secretEncrypted'>;
+
+/** A delivery as the API returns it. Response bodies are not kept; older rows may still have one. */
+export type PublicWebhookDelivery = Omit<WebhookDelivery, 'responseBody'>;
+
+const generateSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+/**
+ * Outbound webhooks: signed JSON POSTs of subscription and reminder events to user-registered
+ * endpoints, delivered by the 'webhook.deliver' job so failures are retried with the queue's backoff
+ */
+export class WebhookService {
+
+  /** Throws UnsafeUrlError when the URL is not https or reaches a private address */
+  async createEndpoint(userId: string, input: CreateWebhookEndpoint): Promise<{ endpoint: PublicWebhookEndpoint; secret: string }> {
+    await assertPublicUrl(input.url);
+    const secret = input.secret ?? generateSecret();
+    const endpoint = await storage.createWebhookEndpoint({
+      userId,
+      url: input.url,
+      description: input.description || null,
+      events: input.events,
+      secretEncrypted: secretVault.encrypt(secret)
+    });
+    return { endpoint: this.toPublic(endpoint), secret };
+  }
+
+  async updateEndpoint(endpoint: WebhookEndpoint, updates: UpdateWebhookEndpoint): Promise<PublicWebhookEndpoint | undefined> {
+    if (updates.url !== undefined) await assertPublicUrl(updates.url);
+    const updated = await storage.updateWebhookEndpoint(endpoint.id, updates);
+    return updated && this.toPublic(updated);
+  }
+
+  /** Replace the signing secret; deliveries signed from now on use the new one */
+  async rotateSecret(endpoint: WebhookEndpoint): Promise<string> {
+    const secret = generateSecret();
+    await storage.updateWebhookEndpoint(endpoint.id, { secretEncrypted: secretVault.encrypt(secret) });
+    return secret;
+  }
+
+  toPublic({ secretEncrypted, ...endpoint }: WebhookEndpoint): PublicWebhookEndpoint {
+    return endpoint;
+  }
+
+  toPublicDelivery({ responseBody, ...delivery }: WebhookDelivery): PublicWebhookDelivery {
+    return delivery;
+  }
+
+  /** The X-SubTracker-Signature header value for a body sent at `timestamp` (unix seconds) */
+  sign(secret: string, body: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  /**
+   * Queue an event for every active endpoint of the user subscribed to its type.
+   * Never throws: a webhook problem must not fail the change that triggered it.
+   */
+  async emit(userId: string | null, type: WebhookEventType, data: Record<string, unknown>, options: EmitOptions = {}) {
+    if (!userId) return;
+
+    try {
+      const endpoints = (await storage.getWebhookEndpointsByUserId(userId))
+        .filter(endpoint => endpoint.isActive && endpoint.events.includes(type));
+      if (endpoints.length === 0) return;
+
+      const eventId = options.dedupeKey
+        ? `evt_${createHash('sha256').update(`${userId}:${type}:${options.dedupeKey}`).digest('hex').slice(0, 32)}`
+        : `evt_${randomUUID().replace(/-/g, '')}`;
+      const envelope: WebhookEnvelope = { id: eventId, type, createdAt: new Date().toISOString(), data };
+      const payload = JSON.stringify(envelope);
+
+      for (const endpoint of endpoints) {
+        if (options.dedupeKey && await storage.getWebhookDeliveryByEvent(endpoint.id, eventId)) continue;
+
+        const delivery = await storage.createWebhookDelivery({ endpointId: endpoint.id, userId, eventId, eventType: type, payload });
+        await jobQueue.enqueue('webhook.deliver', { deliveryId: delivery.id }, {
+          idempotencyKey: `webhook.deliver:${delivery.id}`
+        });
+      }
+    } catch (error) {
+      console.error(`Error queueing ${type} webhook for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Make one delivery attempt and record its outcome (the 'webhook.deliver' job).
+   * Throws on a failed attempt so the queue retries it; after the last attempt the delivery is marked failed.
+   */
+  async deliver(payload: WebhookDeliveryJobPayload, job: Job) {
+    const delivery = await storage.getWebhookDelivery(payload.deliveryId);
+    if (!delivery || delivery.status === 'delivered') return;
+
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+    if (!endpoint || !endpoint.isActive) {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        error: endpoint ? 'Endpoint is disabled' : 'Endpoint was deleted'
+      });
+      return;
+    }
+
+    const attemptedAt = new Date();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked again on every attempt: the URL was public when saved, but DNS can change since
+      await assertPublicUrl(endpoint.url);
+      responseStatus = await this.post(endpoint.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-SubTracker-Event': delivery.eventType,
+        'X-SubTracker-Delivery': delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: this.sign(secretVault.decrypt(endpoint.secretEncrypted), delivery.payload, Math.floor(attemptedAt.getTime() / 1000))
+      }, delivery.payload);
+      // Redirects are not followed: a 3xx counts as a failed attempt
+      if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded with HTTP ${responseStatus}`;
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: !error ? 'delivered' : job.attempts >= job.maxAttempts ? 'failed' : 'pending',
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      responseBody: null,
+      error,
+      lastAttemptAt: attemptedAt,
+      ...(!error ? { deliveredAt: attemptedAt } : {})
+    });
+
+    if (error) throw new Error(error);
+  }
+
+  /**
+   * POST to a checked URL and resolve with the status code. The response body is never read, and
+   * the connection only goes to public addresses (publicOnlyLookup).
+   */
+  private post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = https.request(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        timeout: DELIVERY_TIMEOUT_MS
+      }, (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on('timeout', () => request.destroy(new Error(`No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`)));
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /** Send a logged delivery again, with the same event id, whatever its status */
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const updated = await storage.updateWebhookDelivery(delivery.id, { status: 'pending', error: null });
+    await jobQueue.enqueue('webhook.deliver', { deliveryId: delivery.id });
+    return updated;
+  }
+}
+
+export const webhookService = new WebhookService();
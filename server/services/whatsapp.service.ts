@@ -1,16 +1,96 @@
 import WhatsApp from 'whatsapp';
-import crypto from 'crypto';
-import { UserNotificationPreferences } from '@shared/schema';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { Subscription, UserNotificationPreferences } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { secretVault } from './secret-vault.service';
+import { emailActionService } from './email-action.service';
+
+/** A reply to a reminder, typed or from one of its buttons */
+export type WhatsAppCommand =
+  | { command: 'paid' | 'cancel'; name?: string; subscriptionId?: string }
+  | { command: 'snooze'; days: number; name?: string; subscriptionId?: string }
+  | { command: 'list' | 'stop' | 'start' | 'help' | 'manage' | 'unknown' };
+
+const VERIFICATION_CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_VERIFICATION_ATTEMPTS = 5;
+const VERIFICATION_SIGNING_PURPOSE = 'whatsapp-number-verification';
+
+/** A number verification the user can fix (bad number, wrong or expired code); the message is for them */
+export class WhatsAppVerificationError extends Error {}
+
+const DEFAULT_SNOOZE_DAYS = 3;
+const MAX_SNOOZE_DAYS = 30;
+// Delivery statuses can arrive out of order; a reminder never goes back from read to delivered
+const DELIVERY_STATUS_RANK: Record<string, number> = { sent: 1, delivered: 2, read: 3 };
+
+/**
+ * Parse a typed reply: PAID [name], SNOOZE [days] [name], CANCEL [name], LIST, STOP, START or HELP.
+ * Without a name, PAID, SNOOZE and CANCEL act on the reminder being replied to.
+ */
+export function parseWhatsAppReply(text: string): WhatsAppCommand {
+  const [word = '', ...rest] = text.trim().split(/\s+/);
+  const name = rest.join(' ') || undefined;
+
+  switch (word.toUpperCase()) {
+    case 'PAID':
+      return { command: 'paid', name };
+    case 'SNOOZE': {
+      const days = /^\d+$/.test(rest[0] ?? '') ? parseInt(rest[0], 10) : null;
+      return {
+        command: 'snooze',
+        days: Math.min(Math.max(days ?? DEFAULT_SNOOZE_DAYS, 1), MAX_SNOOZE_DAYS),
+        name: (days === null ? rest : rest.slice(1)).join(' ') || undefined
+      };
+    }
+    case 'CANCEL':
+    case 'CANCELLED':
+      return { command: 'cancel', name };
+    case 'LIST':
+    case 'STATUS':
+      return { command: 'list' };
+    case 'STOP':
+    case 'UNSUBSCRIBE':
+      return { command: 'stop' };
+    case 'START':
+      return { command: 'start' };
+    case 'HELP':
+    case '?':
+      return { command: 'help' };
+    default:
+      return { command: 'unknown' };
+  }
+}
+
+/** Reminder buttons carry "<action>:<subscriptionId>"; older reminders had fixed ids */
+function parseButtonReply(id: string): WhatsAppCommand {
+  const [action, subscriptionId] = id.split(':');
+  switch (action) {
+    case 'paid':
+      return { command: 'paid', subscriptionId };
+    case 'snooze':
+      return { command: 'snooze', days: DEFAULT_SNOOZE_DAYS, subscriptionId };
+    case 'cancelled':
+      return { command: 'cancel', subscriptionId };
+    case 'remind_later':
+      return { command: 'snooze', days: DEFAULT_SNOOZE_DAYS };
+    case 'stop_reminders':
+      return { command: 'stop' };
+    case 'manage_subscription':
+      return { command: 'manage' };
+    default:
+      return { command: 'unknown' };
+  }
+}
+
+function tokensMatch(expected: string, given: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
 
 export class WhatsAppService {
   private wa: WhatsApp | null = null;
-  private encryptionKey: Buffer;
-  
-  constructor() {
-    const rawKey = process.env.ENCRYPTION_KEY || 'fallback-key-change-in-production';
-    // Ensure key is exactly 32 bytes for AES-256-GCM
-    this.encryptionKey = crypto.createHash('sha256').update(rawKey).digest();
-  }
 
   /**
    * Initialize WhatsApp client on demand
@@ -23,130 +103,239 @@ export class WhatsAppService {
   }
 
   /**
-   * Encrypt sensitive data using AES-256-GCM
+   * Answer the platform's subscription check (GET with hub.mode, hub.verify_token and hub.challenge)
+   * against WHATSAPP_WEBHOOK_VERIFY_TOKEN. Returns the challenge to echo back, or null to refuse.
    */
-  private encrypt(text: string): string {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
-    
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    const authTag = cipher.getAuthTag();
-    
-    return `${iv.toString('hex')}:${encrypted}:${authTag.toString('hex')}`;
+  verifyWebhook(mode: unknown, providedToken: unknown, challenge: unknown): string | null {
+    const appToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN;
+    if (!appToken || mode !== 'subscribe' || typeof providedToken !== 'string' || typeof challenge !== 'string') {
+      return null;
+    }
+    return tokensMatch(appToken, providedToken) ? challenge : null;
   }
 
   /**
-   * Decrypt sensitive data
+   * Check the X-Hub-Signature-256 header ("sha256=<hex HMAC of the body>") against WHATSAPP_APP_SECRET
    */
-  private decrypt(encryptedText: string): string {
-    const [ivHex, encrypted, authTagHex] = encryptedText.split(':');
-    
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-    
-    // Validate authentication tag length for AES-256-GCM (must be 16 bytes)
-    if (authTag.length !== 16) {
-      throw new Error('Invalid authentication tag length');
-    }
-    
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv, { authTagLength: 16 });
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+  isValidSignature(rawBody: Buffer, signature: string | undefined): boolean {
+    const secret = process.env.WHATSAPP_APP_SECRET;
+    if (!secret || !signature?.startsWith('sha256=')) return false;
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const given = Buffer.from(signature.slice('sha256='.length), 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected);
   }
 
   /**
-   * Initialize WhatsApp webhook for receiving message statuses
+   * Handle a signed webhook POST: delivery statuses and messages from users
    */
-  initializeWebhook(port: number = 3000) {
-    const wa = this.initializeWhatsApp();
-    wa.webhooks.start((statusCode: number, headers: any, body: any, resp: any, err: any) => {
-      console.log(`WhatsApp Webhook: ${statusCode}`);
-      
-      if (body && body.object === 'whatsapp_business_account') {
-        body.entry?.forEach((entry: any) => {
-          entry.changes?.forEach((change: any) => {
-            if (change.field === 'messages') {
-              this.handleIncomingWebhook(change.value);
-            }
-          });
-        });
+  async handleWebhook(body: any) {
+    if (body?.object !== 'whatsapp_business_account') return;
+
+    for (const entry of body.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        if (change.field === 'messages') {
+          await this.handleIncomingWebhook(change.value);
+        }
       }
-      
-      if (resp) {
-        resp.writeHead(200, { 'Content-Type': 'text/plain' });
-        resp.end('OK');
+    }
+  }
+
+  /**
+   * Handle one 'messages' change. Each status and message is handled on its own, so one failure
+   * doesn't stop the rest.
+   */
+  private async handleIncomingWebhook(data: any) {
+    // Message status updates (sent, delivered, read, failed)
+    for (const status of data?.statuses ?? []) {
+      try {
+        await this.updateReminderStatus(status);
+      } catch (error) {
+        console.error(`Error updating WhatsApp message ${status.id} status:`, error);
       }
-      
-      if (err) {
-        console.error('WhatsApp webhook error:', err);
+    }
+
+    // Replies to reminders, typed or from their buttons
+    for (const message of data?.messages ?? []) {
+      try {
+        await this.handleUserReply(message);
+      } catch (error) {
+        console.error(`Error handling WhatsApp message ${message.id}:`, error);
       }
-    });
+    }
   }
 
   /**
-   * Handle incoming webhook notifications
+   * Record a delivery status on the reminder the message was sent for
    */
-  private handleIncomingWebhook(data: any) {
-    console.log('WhatsApp webhook data:', JSON.stringify(data, null, 2));
-    
-    // Handle message status updates (delivered, read, failed)
-    if (data.statuses) {
-      data.statuses.forEach((status: any) => {
-        console.log(`Message ${status.id} status: ${status.status}`);
-        // Update reminder status in database based on message ID
-        this.updateReminderStatus(status.id, status.status);
+  private async updateReminderStatus(status: any) {
+    const reminder = await storage.getSubscriptionReminderByExternalMessageId(status.id);
+    // Not a reminder, e.g. an answer to a command
+    if (!reminder) return;
+
+    if (status.status === 'failed') {
+      const error = status.errors?.[0];
+      await storage.updateSubscriptionReminder(reminder.id, {
+        status: 'failed',
+        errorMessage: error ? `WhatsApp error ${error.code}: ${error.title ?? error.message ?? 'delivery failed'}` : 'WhatsApp delivery failed'
       });
+    } else if ((DELIVERY_STATUS_RANK[status.status] ?? 0) > (DELIVERY_STATUS_RANK[reminder.status] ?? 0)) {
+      await storage.updateSubscriptionReminder(reminder.id, { status: status.status });
     }
+  }
 
-    // Handle incoming messages (if users reply to reminders)
-    if (data.messages) {
-      data.messages.forEach((message: any) => {
-        console.log(`Received message from ${message.from}: ${message.text?.body}`);
-        // Handle user responses to subscription reminders
-        this.handleUserReply(message);
-      });
+  /**
+   * Act on a user's reply and answer them. The user is the one whose verified WhatsApp number
+   * sent it; messages from any other number are ignored.
+   */
+  private async handleUserReply(message: any) {
+    const from: string = message.from;
+    const user = await this.findUserByNumber(from);
+    // Unknown and unverified numbers get no answer, so strangers can't make the account send messages
+    if (!user) return;
+
+    const buttonId: string | undefined = message.interactive?.button_reply?.id ?? message.button?.payload;
+    const command = buttonId ? parseButtonReply(buttonId) : parseWhatsAppReply(message.text?.body ?? '');
+    const reply = await this.runCommand(user, command, message.context?.id);
+    await this.sendText(from, reply);
+  }
+
+  /**
+   * Carry out a command for a user and return the answer to send them
+   */
+  private async runCommand(user: { id: string; preferences: UserNotificationPreferences }, command: WhatsAppCommand, repliedToMessageId?: string): Promise<string> {
+    switch (command.command) {
+      case 'help':
+        return this.helpText();
+      case 'list':
+        return await this.listSubscriptions(user.id);
+      case 'manage':
+        return `Manage your subscriptions at ${emailActionService.appUrl()}/subscriptions`;
+      case 'stop':
+        await storage.updateUserNotificationPreferences(user.id, { whatsappEnabled: false });
+        return '✅ WhatsApp reminders are off. Reply START to turn them back on.';
+      case 'start':
+        await storage.updateUserNotificationPreferences(user.id, { whatsappEnabled: true });
+        return '✅ WhatsApp reminders are on again.';
+      case 'unknown':
+        return 'Sorry, I didn\'t understand that. Reply HELP to see what you can do.';
     }
+
+    const subscription = await this.findSubscription(user.id, command, repliedToMessageId);
+    if (typeof subscription === 'string') return subscription;
+
+    return await emailActionService.performOnNextRenewal(
+      command.command === 'cancel' ? 'cancelled' : command.command,
+      user.id,
+      subscription,
+      user.preferences.timezone,
+      { channel: 'whatsapp', snoozeDays: command.command === 'snooze' ? command.days : undefined, description: 'a WhatsApp reply' }
+    );
   }
 
   /**
-   * Update reminder status in database
+   * The active subscription a command is about: the one its button or name points to, else the
+   * reminder being replied to, else the latest WhatsApp reminder. A string is the reason none was found.
    */
-  private async updateReminderStatus(messageId: string, status: string) {
-    // This would update the subscriptionReminders table
-    console.log(`Update reminder ${messageId} to status: ${status}`);
+  private async findSubscription(
+    userId: string,
+    command: { name?: string; subscriptionId?: string },
+    repliedToMessageId?: string
+  ): Promise<Subscription | string> {
+    const subscriptions = (await storage.getUserSubscriptions(userId)).filter(sub => sub.isActive);
+
+    if (command.subscriptionId) {
+      return subscriptions.find(sub => sub.id === command.subscriptionId) ?? 'That subscription is no longer active.';
+    }
+
+    if (command.name) {
+      const wanted = command.name.toLowerCase();
+      const exact = subscriptions.filter(sub => sub.name.toLowerCase() === wanted);
+      const matches = exact.length > 0 ? exact : subscriptions.filter(sub => sub.name.toLowerCase().includes(wanted));
+      if (matches.length === 1) return matches[0];
+      if (matches.length === 0) return `You have no active subscription called "${command.name}". Reply LIST to see them.`;
+      return `"${command.name}" matches ${matches.map(sub => sub.name).join(', ')}. Reply with the full name.`;
+    }
+
+    const repliedTo = repliedToMessageId ? await storage.getSubscriptionReminderByExternalMessageId(repliedToMessageId) : undefined;
+    const reminder = repliedTo?.userId === userId
+      ? repliedTo
+      : (await storage.getUserReminderStats(userId)).find(r => r.reminderType === 'whatsapp' && r.status !== 'failed');
+    const subscription = reminder && subscriptions.find(sub => sub.id === reminder.subscriptionId);
+    return subscription ?? 'Which subscription? Add its name, e.g. "PAID Netflix". Reply LIST to see them.';
+  }
+
+  private async listSubscriptions(userId: string): Promise<string> {
+    const subscriptions = (await storage.getUserSubscriptions(userId))
+      .filter(sub => sub.isActive)
+      .sort((a, b) => new Date(a.nextBillingDate).getTime() - new Date(b.nextBillingDate).getTime());
+    if (subscriptions.length === 0) return 'You have no active subscriptions.';
+
+    const lines = subscriptions.map(sub =>
+      `• *${sub.name}* - ${formatMoney(sub.cost, sub.currency)} on ${new Date(sub.nextBillingDate).toISOString().slice(0, 10)}`);
+    return `📋 *Your subscriptions*\n\n${lines.join('\n')}`;
   }
 
   /**
-   * Handle user replies to WhatsApp reminders
+   * The user who verified `number`. Numbers that were only typed into settings never match.
    */
-  private async handleUserReply(message: any) {
-    const userMessage = message.text?.body?.toLowerCase();
-    const userNumber = message.from;
-    
-    // Simple keyword-based responses
-    if (userMessage?.includes('cancel') || userMessage?.includes('unsubscribe')) {
-      await this.sendMessage(userNumber, {
-        type: 'text',
-        text: {
-          body: '✅ You\'ve been unsubscribed from WhatsApp reminders. You can re-enable them in your settings.'
-        }
-      });
-    } else if (userMessage?.includes('help')) {
-      await this.sendHelpMessage(userNumber);
-    } else {
-      await this.sendMessage(userNumber, {
-        type: 'text',
-        text: {
-          body: '👋 Thanks for your message! To manage your subscriptions, visit your dashboard. Reply "HELP" for more options.'
-        }
+  private async findUserByNumber(number: string) {
+    const preferences = await storage.getUserNotificationPreferencesByWhatsAppNumber(this.formatPhoneNumber(number));
+    return preferences ? { id: preferences.userId, preferences } : undefined;
+  }
+
+  /**
+   * Send a one-time code to the user's saved WhatsApp number. Replies from the number are acted on
+   * once the code is confirmed. A new code replaces any earlier one.
+   */
+  async startNumberVerification(userId: string): Promise<{ number: string; expiresAt: Date }> {
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    if (!preferences?.whatsappNumber || !this.validatePhoneNumber(preferences.whatsappNumber)) {
+      throw new WhatsAppVerificationError('Save a WhatsApp number in international format first');
+    }
+
+    const number = this.formatPhoneNumber(preferences.whatsappNumber);
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const expiresAt = new Date(Date.now() + VERIFICATION_CODE_TTL_MS);
+    await storage.updateUserNotificationPreferences(userId, {
+      whatsappVerificationCode: secretVault.sign(VERIFICATION_SIGNING_PURPOSE, `${userId}:${number}:${code}`),
+      whatsappVerificationCodeExpiresAt: expiresAt,
+      whatsappVerificationAttempts: 0
+    });
+    try {
+      await this.sendText(number, `Your Subscription Tracker verification code is ${code}. It expires in 10 minutes.`);
+    } catch {
+      throw new WhatsAppVerificationError('The code could not be sent to this number over WhatsApp');
+    }
+    return { number, expiresAt };
+  }
+
+  /**
+   * Check a code from startNumberVerification against the number it was sent to. Too many wrong
+   * codes use it up.
+   */
+  async confirmNumberVerification(userId: string, code: string): Promise<UserNotificationPreferences> {
+    const preferences = await storage.getUserNotificationPreferences(userId);
+    const expiresAt = preferences?.whatsappVerificationCodeExpiresAt;
+    if (!preferences?.whatsappNumber || !preferences.whatsappVerificationCode || !expiresAt ||
+        new Date(expiresAt).getTime() < Date.now() || preferences.whatsappVerificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+      throw new WhatsAppVerificationError('This code has expired. Send a new one.');
+    }
+
+    // The code was signed for the number it went to, so it fails if the number changed since
+    const number = this.formatPhoneNumber(preferences.whatsappNumber);
+    if (!secretVault.verify(VERIFICATION_SIGNING_PURPOSE, `${userId}:${number}:${code.trim()}`, preferences.whatsappVerificationCode)) {
+      await storage.updateUserNotificationPreferences(userId, {
+        whatsappVerificationAttempts: preferences.whatsappVerificationAttempts + 1
       });
+      throw new WhatsAppVerificationError('That code is not right');
     }
+
+    return await storage.setWhatsAppVerifiedNumber(userId, number);
+  }
+
+  private async sendText(to: string, body: string) {
+    return this.sendMessage(to, { type: 'text', text: { body } });
   }
 
   /**
@@ -176,8 +365,10 @@ export class WhatsAppService {
   async sendSubscriptionReminder(
     preferences: UserNotificationPreferences,
     subscription: {
+      id: string;
       name: string;
       cost: string;
+      currency?: string;
       nextBillingDate: Date;
       description?: string;
     },
@@ -191,7 +382,7 @@ export class WhatsAppService {
       // Decrypt access token
       let accessToken = '';
       if (preferences.whatsappAccessTokenEncrypted) {
-        accessToken = this.decrypt(preferences.whatsappAccessTokenEncrypted);
+        accessToken = secretVault.decrypt(preferences.whatsappAccessTokenEncrypted);
       }
 
       // Configure WhatsApp client with user's credentials
@@ -213,11 +404,12 @@ export class WhatsAppService {
       const result = await this.sendInteractiveReminder(
         preferences.whatsappNumber,
         message,
-        subscription.name
+        subscription.id,
+        daysBefore
       );
 
       return {
-        messageId: (result as any)?.messages?.[0]?.id || 'unknown',
+        messageId: (result as any)?.messages?.[0]?.id || null,
         status: 'sent',
         timestamp: new Date()
       };
@@ -228,6 +420,54 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Send a reminder to cancel a subscription before its cancel-by date via WhatsApp
+   */
+  async sendCancellationReminder(
+    preferences: UserNotificationPreferences,
+    subscription: {
+      name: string;
+      cost: string;
+      currency?: string;
+      nextBillingDate: Date;
+      cancelBy: Date;
+    },
+    daysBefore: number
+  ) {
+    if (!preferences.whatsappEnabled || !preferences.whatsappNumber) {
+      throw new Error('WhatsApp notifications not enabled or number not configured');
+    }
+
+    try {
+      if (!preferences.whatsappPhoneNumberId || !preferences.whatsappAccessTokenEncrypted) {
+        throw new Error('WhatsApp Business API not configured');
+      }
+
+      const deadline = daysBefore === 0 ? 'today' : daysBefore === 1 ? 'by tomorrow' : `within ${daysBefore} days`;
+      const body = `${daysBefore <= 1 ? '🚨' : '⚠️'} *Cancel ${subscription.name} ${deadline}*
+
+You planned to cancel before ${subscription.cancelBy.toISOString().slice(0, 10)}.
+💰 Otherwise it renews for ${formatMoney(subscription.cost, subscription.currency)} on ${new Date(subscription.nextBillingDate).toISOString().slice(0, 10)}.
+
+Confirm the cancellation in your dashboard once it's done.`;
+
+      const result = await this.sendMessage(preferences.whatsappNumber, {
+        type: 'text',
+        text: { body }
+      });
+
+      return {
+        messageId: (result as any)?.messages?.[0]?.id || null,
+        status: 'sent',
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Error sending WhatsApp cancellation reminder:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error(`Failed to send WhatsApp cancellation reminder: ${message}`);
+    }
+  }
+
   /**
    * Create reminder message text
    */
@@ -235,6 +475,7 @@ export class WhatsAppService {
     subscription: {
       name: string;
       cost: string;
+      currency?: string;
       nextBillingDate: Date;
       description?: string;
     },
@@ -247,7 +488,7 @@ export class WhatsAppService {
     return `${urgencyEmoji} *Subscription Renewal Reminder*
 
 💳 *${subscription.name}*
-💰 Amount: $${subscription.cost}
+💰 Amount: ${formatMoney(subscription.cost, subscription.currency)}
 📅 Renewal: ${renewalDate} (${timeFrame})
 
 ${subscription.description ? `📝 ${subscription.description}\n` : ''}
@@ -257,13 +498,20 @@ Take action now:
 • Consider annual billing
 • Cancel if unused
 
-Reply STOP to unsubscribe from reminders.`;
+Reply PAID, SNOOZE 3 or CANCEL about this renewal, LIST for your subscriptions or STOP to unsubscribe.`;
   }
 
   /**
    * Send interactive message with action buttons
    */
-  private async sendInteractiveReminder(to: string, bodyText: string, subscriptionName: string) {
+  private async sendInteractiveReminder(to: string, bodyText: string, subscriptionId: string, daysBefore: number) {
+    const buttons = [
+      { id: `paid:${subscriptionId}`, title: '✅ Paid' },
+      // Snoozing on the renewal day would be too late
+      ...(daysBefore > 0 ? [{ id: `snooze:${subscriptionId}`, title: '⏰ Snooze 3 days' }] : []),
+      { id: `cancelled:${subscriptionId}`, title: '❌ I cancelled' }
+    ];
+
     return this.sendMessage(to, {
       type: 'interactive',
       interactive: {
@@ -272,44 +520,28 @@ Reply STOP to unsubscribe from reminders.`;
           text: bodyText
         },
         action: {
-          buttons: [
-            {
-              type: 'reply',
-              reply: {
-                id: 'manage_subscription',
-                title: '⚙️ Manage'
-              }
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'remind_later',
-                title: '⏰ Remind Later'
-              }
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'stop_reminders',
-                title: '🛑 Stop Reminders'
-              }
-            }
-          ]
+          buttons: buttons.map(reply => ({ type: 'reply', reply }))
         }
       }
     });
   }
 
   /**
-   * Send help message
+   * Help message text
    */
-  private async sendHelpMessage(to: string) {
-    const helpText = `📱 *Subscription Tracker - WhatsApp Help*
+  private helpText(): string {
+    return `📱 *Subscription Tracker - WhatsApp Help*
 
 Available commands:
+• *PAID [name]* - Mark a renewal as paid
+• *SNOOZE 3 [name]* - Remind me again in 3 days
+• *CANCEL [name]* - I cancelled this subscription
+• *LIST* - Show your subscriptions
 • *STOP* - Unsubscribe from reminders
+• *START* - Turn reminders back on
 • *HELP* - Show this help message
-• *STATUS* - Check your subscriptions
+
+Without a name, commands apply to the reminder you reply to.
 
 Features:
 ✅ Renewal reminders
@@ -318,13 +550,6 @@ Features:
 ✅ Spending insights
 
 Visit your dashboard to manage all settings.`;
-
-    return this.sendMessage(to, {
-      type: 'text',
-      text: {
-        body: helpText
-      }
-    });
   }
 
   /**
@@ -360,17 +585,7 @@ Visit your dashboard to manage all settings.`;
    * Encrypt and store WhatsApp access token
    */
   encryptAccessToken(accessToken: string): string {
-    return this.encrypt(accessToken);
-  }
-
-  /**
-   * Setup webhook verification
-   */
-  verifyWebhook(verifyToken: string, challenge: string, providedToken: string): string | null {
-    if (verifyToken === providedToken) {
-      return challenge;
-    }
-    return null;
+    return secretVault.encrypt(accessToken);
   }
 
   /**
@@ -0,0 +1,400 @@
+/**
+ * Storage conformance suite: runs the same IStorage contract checks against every backend.
+ *
+ *   npm run check:storage
+ *
+ * Memory and SQLite (a temporary local file standing in for Turso) always run. Postgres runs
+ * when DATABASE_URL is set; records it creates are removed again afterwards.
+ */
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { StorageConfig } from './db';
+import type { IStorage } from './storage';
+
+// The module-level storage singleton is built from the environment on import
+process.env.STORAGE_DRIVER ??= process.env.DATABASE_URL ? 'postgres' : 'memory';
+const storageModule = import('./storage');
+
+type Check = (storage: IStorage, run: string) => Promise<void>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function createUser(storage: IStorage, run: string, label = 'user') {
+  return await storage.createUser({ email: `${label}-${run}@conformance.test`, name: 'Conformance', password: 'x' });
+}
+
+async function createSubscription(storage: IStorage, userId: string, overrides: Record<string, unknown> = {}) {
+  return await storage.createSubscription({
+    userId,
+    name: 'Conformance Plus',
+    cost: '9.99',
+    currency: 'EUR',
+    billingCycle: 'monthly',
+    category: 'Software',
+    nextBillingDate: new Date(Date.UTC(2030, 0, 15)),
+    ...overrides
+  });
+}
+
+const checks: Record<string, Check> = {
+  async 'users: create, look up, enforce unique email, update and delete'(storage, run) {
+    const user = await createUser(storage, run);
+    assert.equal(typeof user.id, 'string');
+    assert.equal(user.role, 'user');
+    assert.equal(user.isActive, true);
+    assert.ok(user.createdAt instanceof Date);
+    assert.equal(user.trialEndsAt, null);
+
+    assert.equal((await storage.getUser(user.id))?.email, user.email);
+    assert.equal((await storage.getUserByEmail(user.email))?.id, user.id);
+    await assert.rejects(createUser(storage, run));
+
+    const updated = await storage.updateUser(user.id, { name: 'Renamed', isActive: false });
+    assert.equal(updated?.name, 'Renamed');
+    assert.equal(updated?.isActive, false);
+    assert.equal(await storage.updateUser(randomUUID(), { name: 'Nobody' }), undefined);
+
+    assert.equal(await storage.deleteUser(user.id), true);
+    assert.equal(await storage.getUser(user.id), undefined);
+    assert.equal(await storage.deleteUser(user.id), false);
+  },
+
+  async 'subscriptions: defaults, decimal costs and due selection'(storage, run) {
+    const user = await createUser(storage, run);
+    const subscription = await createSubscription(storage, user.id);
+    assert.equal(subscription.cost, '9.99');
+    assert.equal(subscription.isActive, true);
+    assert.equal(subscription.isTrial, false);
+    assert.equal(subscription.paymentStatus, 'paid');
+    assert.equal(subscription.description, null);
+    assert.equal(subscription.nextBillingDate.getTime(), Date.UTC(2030, 0, 15));
+
+    const trial = await createSubscription(storage, user.id, { isTrial: true, nextBillingDate: new Date(Date.UTC(2020, 0, 1)) });
+    const due = await createSubscription(storage, user.id, { nextBillingDate: new Date(Date.UTC(2020, 0, 1)) });
+    await createSubscription(storage, user.id, { isActive: false, nextBillingDate: new Date(Date.UTC(2020, 0, 1)) });
+
+    assert.equal((await storage.getSubscriptionsByUserId(user.id)).length, 4);
+    const dueIds = (await storage.getDueSubscriptions(new Date(Date.UTC(2025, 0, 1)))).map(s => s.id);
+    assert.ok(dueIds.includes(due.id));
+    assert.ok(!dueIds.includes(trial.id));
+    assert.ok(!dueIds.includes(subscription.id));
+
+    // Compare-and-swap: a stale `from` date must not advance the subscription again
+    const next = new Date(Date.UTC(2020, 1, 1));
+    assert.equal((await storage.advanceSubscriptionBillingDate(due.id, due.nextBillingDate, next))?.nextBillingDate.getTime(), next.getTime());
+    assert.equal(await storage.advanceSubscriptionBillingDate(due.id, due.nextBillingDate, next), undefined);
+
+    await storage.updateSubscription(subscription.id, { isActive: false, pausedAt: new Date(), resumeAt: new Date(Date.now() - DAY) });
+    assert.deepEqual((await storage.getSubscriptionsDueToResume(new Date())).filter(s => s.userId === user.id).map(s => s.id), [subscription.id]);
+  },
+
+  async 'history: newest first and price changes since a date'(storage, run) {
+    const user = await createUser(storage, run);
+    const subscription = await createSubscription(storage, user.id);
+    const entry = (eventType: string, eventDate: Date) => storage.createSubscriptionHistoryEntry({
+      userId: user.id, subscriptionId: subscription.id, eventType, description: eventType, eventDate,
+      amount: '12.99', previousAmount: '9.99', currency: 'EUR'
+    });
+
+    await entry('price_change', new Date(Date.now() - 400 * DAY));
+    const recent = await entry('price_change', new Date(Date.now() - 10 * DAY));
+    await entry('updated', new Date());
+
+    const history = await storage.getSubscriptionHistory(subscription.id);
+    assert.equal(history.length, 3);
+    assert.ok(history[0].createdAt.getTime() >= history[2].createdAt.getTime());
+    assert.equal(history.find(h => h.id === recent.id)?.previousAmount, '9.99');
+
+    const changes = await storage.getPriceChangesByUserId(user.id, new Date(Date.now() - 365 * DAY));
+    assert.deepEqual(changes.map(c => c.id), [recent.id]);
+  },
+
+  async 'notifications: unread, mark read and bulk mark read'(storage, run) {
+    const user = await createUser(storage, run);
+    const first = await storage.createNotification({ userId: user.id, type: 'cost_alert', title: 'A', message: 'a' });
+    await storage.createNotification({ userId: user.id, type: 'cost_alert', title: 'B', message: 'b', priority: 'high' });
+    assert.equal(first.isRead, false);
+    assert.equal(first.priority, 'normal');
+
+    assert.equal(await storage.markNotificationAsRead(first.id, randomUUID()), undefined);
+    const read = await storage.markNotificationAsRead(first.id, user.id);
+    assert.equal(read?.isRead, true);
+    assert.ok(read?.readAt instanceof Date);
+
+    assert.equal((await storage.getUnreadNotificationsByUserId(user.id)).length, 1);
+    assert.equal(await storage.markAllNotificationsAsRead(user.id), true);
+    assert.equal(await storage.markAllNotificationsAsRead(user.id), false);
+    assert.equal(await storage.deleteNotificationsByUserId(user.id), true);
+  },
+
+  async 'notification preferences: upsert with array and boolean defaults'(storage, run) {
+    const user = await createUser(storage, run);
+    assert.equal(await storage.getUserNotificationPreferences(user.id), undefined);
+
+    const created = await storage.updateUserNotificationPreferences(user.id, { emailEnabled: false });
+    assert.equal(created?.emailEnabled, false);
+    assert.deepEqual(created?.reminderDaysBefore, [7, 3, 1]);
+    assert.equal(created?.digestFrequency, 'off');
+
+    const updated = await storage.updateUserNotificationPreferences(user.id, { timezone: 'Europe/Paris' });
+    assert.equal(updated?.id, created?.id);
+    assert.equal(updated?.timezone, 'Europe/Paris');
+    assert.equal(updated?.emailEnabled, false);
+
+    const withPreferences = await storage.getAllUsersWithPreferences();
+    assert.ok(withPreferences.some(u => u.id === user.id && u.preferences.id === created?.id));
+  },
+
+  async 'notification preferences: calendar feed token lookup and revoke'(storage, run) {
+    const user = await createUser(storage, run);
+    const enabled = await storage.setCalendarFeedToken(user.id, `feed-${run}`);
+    assert.equal(enabled.appleCalendarEnabled, true);
+    assert.equal((await storage.getUserNotificationPreferencesByCalendarToken(`feed-${run}`))?.userId, user.id);
+
+    const revoked = await storage.setCalendarFeedToken(user.id, null);
+    assert.equal(revoked.id, enabled.id);
+    assert.equal(revoked.appleCalendarEnabled, false);
+    assert.equal(await storage.getUserNotificationPreferencesByCalendarToken(`feed-${run}`), undefined);
+  },
+
+  async 'notification preferences: a verified WhatsApp number belongs to one user'(storage, run) {
+    const first = await createUser(storage, run, 'whatsapp-first');
+    const second = await createUser(storage, run, 'whatsapp-second');
+    const number = `number-${run}`;
+    await storage.updateUserNotificationPreferences(first.id, { whatsappVerificationCode: 'pending', whatsappVerificationAttempts: 2 });
+
+    const verified = await storage.setWhatsAppVerifiedNumber(first.id, number);
+    assert.equal(verified.whatsappVerifiedNumber, number);
+    assert.equal(verified.whatsappVerificationCode, null);
+    assert.equal(verified.whatsappVerificationAttempts, 0);
+    assert.equal((await storage.getUserNotificationPreferencesByWhatsAppNumber(number))?.userId, first.id);
+
+    await storage.setWhatsAppVerifiedNumber(second.id, number);
+    assert.equal((await storage.getUserNotificationPreferencesByWhatsAppNumber(number))?.userId, second.id);
+    assert.equal((await storage.getUserNotificationPreferences(first.id))?.whatsappVerifiedNumber, null);
+
+    await storage.setWhatsAppVerifiedNumber(second.id, null);
+    assert.equal(await storage.getUserNotificationPreferencesByWhatsAppNumber(number), undefined);
+  },
+
+  async 'reminders: look up by provider message id and update status'(storage, run) {
+    const user = await createUser(storage, run);
+    const subscription = await createSubscription(storage, user.id);
+    const messageId = `wamid.${run}`;
+    const reminder = await storage.createSubscriptionReminder({
+      userId: user.id,
+      subscriptionId: subscription.id,
+      reminderType: 'whatsapp',
+      scheduledFor: new Date(),
+      sentAt: new Date(),
+      status: 'sent',
+      daysBefore: 3,
+      message: 'WhatsApp reminder sent',
+      externalMessageId: messageId
+    });
+
+    assert.equal((await storage.getSubscriptionReminderByExternalMessageId(messageId))?.id, reminder.id);
+    assert.equal(await storage.getSubscriptionReminderByExternalMessageId(`${messageId}.other`), undefined);
+
+    const updated = await storage.updateSubscriptionReminder(reminder.id, { status: 'read' });
+    assert.equal(updated?.status, 'read');
+    assert.equal(updated?.externalMessageId, messageId);
+    assert.equal(await storage.updateSubscriptionReminder(randomUUID(), { status: 'read' }), undefined);
+  },
+
+  async 'calendar events: one per subscription and reminder day'(storage, run) {
+    const user = await createUser(storage, run);
+    const event = (daysBefore: number, eventId: string) => ({
+      userId: user.id, subscriptionId: `sub-${run}`, daysBefore, calendarId: 'primary', eventId,
+      renewalDate: new Date('2030-01-10T00:00:00Z'), startsAt: new Date(`2030-01-${String(10 - daysBefore).padStart(2, '0')}T09:00:00Z`)
+    });
+
+    const first = await storage.saveCalendarEvent(event(3, `a-${run}`));
+    const replaced = await storage.saveCalendarEvent(event(3, `b-${run}`));
+    await storage.saveCalendarEvent(event(1, `c-${run}`));
+    assert.equal(replaced.id, first.id);
+    assert.equal(replaced.eventId, `b-${run}`);
+    assert.deepEqual((await storage.getCalendarEventsBySubscriptionId(`sub-${run}`)).map(e => e.daysBefore), [1, 3]);
+    assert.deepEqual((await storage.getCalendarEventsByUserId(user.id)).map(e => e.eventId), [`b-${run}`, `c-${run}`]);
+
+    assert.equal(await storage.deleteCalendarEvent(first.id), true);
+    assert.equal(await storage.deleteCalendarEvent(first.id), false);
+    assert.deepEqual((await storage.getCalendarEventsByUserId(user.id)).map(e => e.eventId), [`c-${run}`]);
+  },
+
+  async 'webhooks: deliveries are logged newest first and pruned once finished'(storage, run) {
+    const user = await createUser(storage, run);
+    const endpoint = await storage.createWebhookEndpoint({
+      userId: user.id, url: `https://example.com/${run}`, secretEncrypted: `secret-${run}`, events: ['subscription.created', 'reminder.sent']
+    });
+    assert.deepEqual(endpoint.events, ['subscription.created', 'reminder.sent']);
+    assert.equal(endpoint.isActive, true);
+    assert.equal((await storage.updateWebhookEndpoint(endpoint.id, { isActive: false }))?.isActive, false);
+
+    const delivery = (eventId: string) => ({ endpointId: endpoint.id, userId: user.id, eventId, eventType: 'reminder.sent', payload: '{}' });
+    const old = await storage.createWebhookDelivery(delivery(`evt-old-${run}`));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const cutoff = new Date();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const recent = await storage.createWebhookDelivery(delivery(`evt-new-${run}`));
+    assert.equal(old.status, 'pending');
+    assert.equal(old.attempts, 0);
+    assert.equal((await storage.getWebhookDeliveryByEvent(endpoint.id, `evt-old-${run}`))?.id, old.id);
+    assert.deepEqual((await storage.getWebhookDeliveries(endpoint.id)).map(d => d.id), [recent.id, old.id]);
+
+    // Pending deliveries are kept until they finish
+    assert.equal(await storage.deleteWebhookDeliveriesBefore(cutoff), 0);
+    await storage.updateWebhookDelivery(old.id, { status: 'delivered', attempts: 1, responseStatus: 200 });
+    assert.equal(await storage.deleteWebhookDeliveriesBefore(cutoff), 1);
+    assert.deepEqual((await storage.getWebhookDeliveries(endpoint.id)).map(d => d.id), [recent.id]);
+
+    assert.equal(await storage.deleteWebhookEndpoint(endpoint.id), true);
+    assert.equal(await storage.getWebhookDelivery(recent.id), undefined);
+    assert.deepEqual(await storage.getWebhookEndpointsByUserId(user.id), []);
+  },
+
+  async 'email templates: users see their own and shared templates, and deleting one unsets it'(storage, run) {
+    const user = await createUser(storage, run);
+    const other = await createUser(storage, run, 'other');
+    const own = await storage.createEmailTemplate({ userId: user.id, name: `own-${run}`, body: '<p>{{subscription.name}}</p>' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const shared = await storage.createEmailTemplate({ userId: null, name: `shared-${run}`, body: '<p>shared</p>' });
+    await storage.createEmailTemplate({ userId: other.id, name: `other-${run}`, body: '<p>other</p>' });
+
+    const visible = (await storage.getEmailTemplatesForUser(user.id)).filter(t => t.name.endsWith(run));
+    assert.deepEqual(visible.map(t => t.name), [`own-${run}`, `shared-${run}`]);
+    assert.equal((await storage.updateEmailTemplate(own.id, { body: '<p>changed</p>' }))?.body, '<p>changed</p>');
+
+    assert.equal((await storage.setEmailTemplateId(user.id, own.id)).emailTemplateId, own.id);
+    assert.equal((await storage.setEmailTemplateId(other.id, shared.id)).emailTemplateId, shared.id);
+    assert.equal(await storage.deleteEmailTemplate(own.id), true);
+    assert.equal(await storage.deleteEmailTemplate(own.id), false);
+    assert.equal((await storage.getUserNotificationPreferences(user.id))?.emailTemplateId, null);
+    assert.equal((await storage.getUserNotificationPreferences(other.id))?.emailTemplateId, shared.id);
+    await storage.deleteEmailTemplate(shared.id);
+  },
+
+  async 'secrets: stored secrets are listed and swapped only if unchanged'(storage, run) {
+    const user = await createUser(storage, run);
+    await storage.createUserExternalApiKey({ userId: user.id, service: 'resend', keyValue: `old-${run}` });
+    await storage.updateUserNotificationPreferences(user.id, { smtpPasswordEncrypted: `smtp-${run}` });
+
+    const secrets = (await storage.getStoredSecrets()).filter(s => s.value.endsWith(run));
+    assert.deepEqual(secrets.map(s => s.column).sort(), ['keyValue', 'smtpPasswordEncrypted']);
+
+    const apiKey = secrets.find(s => s.column === 'keyValue')!;
+    assert.equal(await storage.replaceStoredSecret(apiKey, `new-${run}`), true);
+    assert.equal(await storage.replaceStoredSecret(apiKey, `newer-${run}`), false);
+    assert.equal((await storage.getUserExternalApiKey(user.id, 'resend'))?.keyValue, `new-${run}`);
+  },
+
+  async 'exchange rates: upsert by currency'(storage) {
+    const first = await storage.upsertExchangeRate({ currency: 'XTS', rate: '1.25' });
+    const second = await storage.upsertExchangeRate({ currency: 'XTS', rate: '1.5', source: 'import' });
+    assert.equal(second.id, first.id);
+    assert.equal(parseFloat(second.rate), 1.5);
+    assert.equal(second.source, 'import');
+    assert.equal(await storage.deleteExchangeRate('XTS'), true);
+  },
+
+  async 'job queue: idempotent enqueue, leases, lease renewal, retries and dead letters'(storage, run) {
+    const name = `conformance.${run}`;
+    // Due jobs are claimed oldest first, so ours comes ahead of any real jobs in a shared database
+    const job = await storage.enqueueJob({ name, payload: '{}', idempotencyKey: `${name}:once`, runAt: new Date(0) });
+    assert.equal(job?.status, 'pending');
+    assert.equal(await storage.enqueueJob({ name, payload: '{}', idempotencyKey: `${name}:once` }), undefined);
+
+    const claimed = await storage.claimNextJob(`worker-${run}`, 60 * 1000);
+    assert.equal(claimed?.id, job!.id);
+    assert.equal(claimed?.status, 'running');
+    assert.equal(claimed?.attempts, 1);
+
+    // Only the lease holder can extend the lease
+    assert.equal(await storage.renewJobLease(job!.id, 'another-worker', 10 * 60 * 1000), false);
+    assert.equal(await storage.renewJobLease(job!.id, `worker-${run}`, 10 * 60 * 1000), true);
+    assert.ok(new Date((await storage.getJob(job!.id))!.lockedUntil!).getTime() > new Date(claimed!.lockedUntil!).getTime());
+
+    assert.equal(await storage.completeJob(job!.id, 'another-worker'), false);
+    assert.equal(await storage.failJob(job!.id, `worker-${run}`, 'boom', null), true);
+    assert.equal((await storage.getJob(job!.id))?.status, 'dead');
+    assert.equal((await storage.getJobs({ status: 'dead', name })).length, 1);
+
+    const retried = await storage.retryJob(job!.id);
+    assert.equal(retried?.status, 'pending');
+    assert.equal(retried?.attempts, 0);
+    assert.equal(await storage.retryJob(job!.id), undefined);
+  },
+
+  async 'sessions: look up by token and expire'(storage, run) {
+    const user = await createUser(storage, run);
+    await storage.createUserSession({ userId: user.id, sessionToken: `live-${run}`, expiresAt: new Date(Date.now() + DAY) });
+    await storage.createUserSession({ userId: user.id, sessionToken: `expired-${run}`, expiresAt: new Date(Date.now() - DAY) });
+
+    assert.equal((await storage.getUserSessionByToken(`live-${run}`))?.isImpersonation, false);
+    assert.ok(await storage.deleteExpiredUserSessions() >= 1);
+    assert.equal(await storage.getUserSessionByToken(`expired-${run}`), undefined);
+    assert.equal(await storage.deleteUserSessionsByUserId(user.id), 1);
+  }
+};
+
+async function cleanUp(storage: IStorage) {
+  for (const user of await storage.getAllUsers()) {
+    if (!user.email.endsWith('@conformance.test')) continue;
+    for (const subscription of await storage.getSubscriptionsByUserId(user.id)) {
+      await storage.deleteSubscription(subscription.id);
+    }
+    for (const key of await storage.getUserExternalApiKeys(user.id)) {
+      await storage.deleteUserExternalApiKey(user.id, key.service);
+    }
+    await storage.deleteNotificationsByUserId(user.id);
+    await storage.deleteUserSessionsByUserId(user.id);
+    await storage.deleteUser(user.id);
+  }
+}
+
+async function runSuite(label: string, config: StorageConfig): Promise<number> {
+  const { createStorage, prepareStorage } = await storageModule;
+  await prepareStorage(config);
+  const storage = createStorage(config);
+  let failures = 0;
+
+  console.log(`\n${label}`);
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check(storage, randomUUID().slice(0, 8));
+      console.log(`  ✓ ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${name}`);
+      console.error(error);
+    }
+  }
+
+  await cleanUp(storage);
+  return failures;
+}
+
+async function main() {
+  const sqliteDir = mkdtempSync(path.join(tmpdir(), 'subtracker-conformance-'));
+  let failures = 0;
+
+  try {
+    failures += await runSuite('memory', { driver: 'memory' });
+    failures += await runSuite('sqlite (local file)', { driver: 'sqlite', url: `file:${path.join(sqliteDir, 'conformance.db')}` });
+    if (process.env.DATABASE_URL) {
+      failures += await runSuite('postgres', { driver: 'postgres' });
+    } else {
+      console.log('\npostgres: skipped (DATABASE_URL not set)');
+    }
+  } finally {
+    rmSync(sqliteDir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? '\nAll storage backends conform' : `\n${failures} check(s) failed`);
+  return failures;
+}
+
+main().then(failures => process.exit(failures === 0 ? 0 : 1));
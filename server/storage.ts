@@ -1,6 +1,7 @@
 import { 
   subscriptions, users, apiKeys, plans, notifications, userExternalApiKeys, subscriptionHistory,
-  userNotificationPreferences, subscriptionReminders,
+  userNotificationPreferences, subscriptionReminders, calendarEvents, userSessions, exchangeRates, jobs,
+  adminActivityLogs, adminSettings, webhookEndpoints, webhookDeliveries, emailTemplates,
   type Subscription, type InsertSubscription,
   type User, type InsertUser,
   type ApiKey, type InsertApiKey, type UpdateApiKey,
@@ -9,10 +10,38 @@ import {
   type UserExternalApiKey, type InsertUserExternalApiKey, type UpdateUserExternalApiKey,
   type SubscriptionHistory, type InsertSubscriptionHistory,
   type UserNotificationPreferences, type InsertUserNotificationPreferences, type UpdateUserNotificationPreferences,
-  type SubscriptionReminder, type InsertSubscriptionReminder
+  type SubscriptionReminder, type InsertSubscriptionReminder,
+  type CalendarEvent, type InsertCalendarEvent,
+  type WebhookEndpoint, type InsertWebhookEndpoint,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type EmailTemplate, type InsertEmailTemplate,
+  type UserSession, type InsertUserSession,
+  type ExchangeRate, type InsertExchangeRate,
+  type Job, type InsertJob
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { db as postgresDb, storageConfig as configuredStorage, type StorageConfig } from "./db";
+import { createSqliteDatabase, ensureSqliteSchema } from "./db/turso";
+import * as sqliteTables from "@shared/schema.turso";
+import { MemoryStorage } from "./memory-storage";
+import { BILLING_SCHEDULE_FIELDS, rescheduledAnchor } from "@shared/recurrence";
+import { eq, ne, and, or, desc, lt, gte, lte, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+/** An encrypted credential column value, as read for key rotation */
+export type StoredSecret =
+  | { table: 'user_external_api_keys'; id: string; column: 'keyValue'; value: string }
+  | { table: 'user_notification_preferences'; id: string; column: PreferenceSecretColumn; value: string }
+  | { table: 'webhook_endpoints'; id: string; column: 'secretEncrypted'; value: string };
+
+export const PREFERENCE_SECRET_COLUMNS = [
+  'resendApiKeyEncrypted',
+  'smtpPasswordEncrypted',
+  'whatsappAccessTokenEncrypted',
+  'slackWebhookUrlEncrypted',
+  'discordWebhookUrlEncrypted',
+  'teamsWebhookUrlEncrypted'
+] as const;
+type PreferenceSecretColumn = (typeof PREFERENCE_SECRET_COLUMNS)[number];
 
 export interface IStorage {
   // Subscriptions
@@ -22,6 +51,9 @@ export interface IStorage {
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   updateSubscription(id: string, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined>;
   deleteSubscription(id: string): Promise<boolean>;
+  getDueSubscriptions(asOf: Date): Promise<Subscription[]>;
+  advanceSubscriptionBillingDate(id: string, from: Date, to: Date): Promise<Subscription | undefined>;
+  getSubscriptionsDueToResume(asOf: Date): Promise<Subscription[]>;
 
   // Users
   getAllUsers(): Promise<User[]>;
@@ -66,10 +98,18 @@ export interface IStorage {
   updateUserExternalApiKey(userId: string, service: string, keyValue: string): Promise<UserExternalApiKey | undefined>;
   deleteUserExternalApiKey(userId: string, service: string): Promise<boolean>;
 
+  // Encrypted secrets (key rotation)
+  getStoredSecrets(): Promise<StoredSecret[]>;
+  replaceStoredSecret(secret: StoredSecret, value: string): Promise<boolean>;
+
   // Subscription History
   getSubscriptionHistory(subscriptionId: string): Promise<SubscriptionHistory[]>;
   getSubscriptionHistoryByUserId(userId: string): Promise<SubscriptionHistory[]>;
+  deleteSubscriptionHistoryByUserId(userId: string): Promise<number>;
+  getPriceChangesByUserId(userId: string, since: Date): Promise<SubscriptionHistory[]>;
   createSubscriptionHistoryEntry(historyEntry: InsertSubscriptionHistory): Promise<SubscriptionHistory>;
+  getSubscriptionHistoryEntry(id: string): Promise<SubscriptionHistory | undefined>;
+  updateSubscriptionHistoryEntry(id: string, updates: Partial<InsertSubscriptionHistory>): Promise<SubscriptionHistory | undefined>;
 
   // User Subscriptions (alias for consistency)
   getUserSubscriptions(userId: string): Promise<Subscription[]>;
@@ -78,266 +118,407 @@ export interface IStorage {
   getUserNotificationPreferences(userId: string): Promise<UserNotificationPreferences | undefined>;
   createUserNotificationPreferences(preferences: InsertUserNotificationPreferences): Promise<UserNotificationPreferences>;
   updateUserNotificationPreferences(userId: string, preferences: UpdateUserNotificationPreferences): Promise<UserNotificationPreferences | undefined>;
+  getUserNotificationPreferencesByCalendarToken(token: string): Promise<UserNotificationPreferences | undefined>;
+  // Also switches appleCalendarEnabled on (token) or off (null)
+  setCalendarFeedToken(userId: string, token: string | null): Promise<UserNotificationPreferences>;
+  setEmailTemplateId(userId: string, templateId: string | null): Promise<UserNotificationPreferences>;
+  getUserNotificationPreferencesByWhatsAppNumber(number: string): Promise<UserNotificationPreferences | undefined>;
+  // Also clears the pending verification code. A number is verified for one user at a time: whoever
+  // verified it before loses it.
+  setWhatsAppVerifiedNumber(userId: string, number: string | null): Promise<UserNotificationPreferences>;
 
   // Subscription Reminders
   getUpcomingReminders(userId: string): Promise<SubscriptionReminder[]>;
   createSubscriptionReminder(reminder: InsertSubscriptionReminder): Promise<SubscriptionReminder>;
   deleteSubscriptionReminder(reminderId: string, userId: string): Promise<boolean>;
-  getReminderForSubscriptionAndDay(subscriptionId: string, daysBefore: number): Promise<SubscriptionReminder | undefined>;
+  getReminderForSubscriptionAndDay(subscriptionId: string, daysBefore: number, since?: Date): Promise<SubscriptionReminder | undefined>;
   deleteSubscriptionReminders(subscriptionId: string): Promise<boolean>;
   getUserReminderStats(userId: string): Promise<SubscriptionReminder[]>;
+  getSubscriptionReminderByExternalMessageId(messageId: string): Promise<SubscriptionReminder | undefined>;
+  updateSubscriptionReminder(id: string, updates: Partial<InsertSubscriptionReminder>): Promise<SubscriptionReminder | undefined>;
   getAllUsersWithPreferences(): Promise<Array<{id: string; preferences: UserNotificationPreferences}>>;
+
+  // Google Calendar events created for reminders
+  getCalendarEventsByUserId(userId: string): Promise<CalendarEvent[]>;
+  getCalendarEventsBySubscriptionId(subscriptionId: string): Promise<CalendarEvent[]>;
+  // One event per subscription and reminder day; replaces the stored event for that pair
+  saveCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent>;
+  deleteCalendarEvent(id: string): Promise<boolean>;
+
+  // User Sessions
+  createUserSession(session: InsertUserSession): Promise<UserSession>;
+  getUserSessionByToken(sessionToken: string): Promise<UserSession | undefined>;
+  getUserSessionsByUserId(userId: string): Promise<UserSession[]>;
+  deleteUserSession(sessionToken: string): Promise<boolean>;
+  deleteUserSessionsByUserId(userId: string): Promise<number>;
+  deleteExpiredUserSessions(): Promise<number>;
+
+  // Exchange Rates
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  getExchangeRate(currency: string): Promise<ExchangeRate | undefined>;
+  upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+  deleteExchangeRate(currency: string): Promise<boolean>;
+
+  // Job Queue
+  enqueueJob(job: InsertJob): Promise<Job | undefined>;
+  claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined>;
+  renewJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  completeJob(id: string, workerId: string): Promise<boolean>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filter?: { status?: string; name?: string; limit?: number }): Promise<Job[]>;
+  retryJob(id: string): Promise<Job | undefined>;
+  deleteCompletedJobs(before: Date): Promise<number>;
+
+  // Webhooks
+  getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, updates: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  // Also deletes the endpoint's delivery log
+  deleteWebhookEndpoint(id: string): Promise<boolean>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveryByEvent(endpointId: string, eventId: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: string, limit?: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  deleteWebhookDeliveriesBefore(before: Date): Promise<number>;
+
+  // Email templates
+  // The user's own templates and the ones shared with every user
+  getEmailTemplatesForUser(userId: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(id: string): Promise<EmailTemplate | undefined>;
+  createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  updateEmailTemplate(id: string, updates: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined>;
+  // Also unsets it wherever it is the chosen template
+  deleteEmailTemplate(id: string): Promise<boolean>;
+
+  // Backup and restore
+  checkConnection(): Promise<void>;
+  snapshotTables(): Promise<TableSnapshot>;
+  restoreTables(snapshot: TableSnapshot): Promise<void>;
 }
 
+/** The Postgres tables; SQLite storage is given the generated equivalents from schema.turso.ts */
+export const postgresTables = {
+  subscriptions, users, apiKeys, plans, notifications, userExternalApiKeys, subscriptionHistory,
+  userNotificationPreferences, subscriptionReminders, calendarEvents, userSessions, exchangeRates, jobs,
+  adminActivityLogs, adminSettings, webhookEndpoints, webhookDeliveries, emailTemplates
+};
+
+export type StorageTables = typeof postgresTables;
+
+export type StorageTableName = keyof StorageTables;
+
+/** Every row of every table, keyed by table; what backups contain */
+export type TableSnapshot = Record<StorageTableName, Record<string, unknown>[]>;
+
+const RESTORE_BATCH_SIZE = 100;
+
+export type StorageDialect = 'postgres' | 'sqlite';
+
+/**
+ * Drizzle-backed storage for Postgres (node-postgres) and SQLite/libSQL (Turso or a local file).
+ * Queries are written once against the Postgres table types; the SQLite tables have the same
+ * property names and row types, so only the few dialect-specific statements branch.
+ */
 export class DatabaseStorage implements IStorage {
+  constructor(
+    private db: typeof postgresDb,
+    private tables: StorageTables = postgresTables,
+    private dialect: StorageDialect = 'postgres'
+  ) {}
+
+  // node-postgres reports rowCount, libSQL reports rowsAffected
+  private affectedRows(result: unknown): number {
+    const { rowCount, rowsAffected } = result as { rowCount?: number | null; rowsAffected?: number };
+    return rowCount ?? rowsAffected ?? 0;
+  }
+
   // Subscription methods
   async getAllSubscriptions(): Promise<Subscription[]> {
-    return await db.select().from(subscriptions);
+    return await this.db.select().from(this.tables.subscriptions);
   }
 
   async getSubscriptionsByUserId(userId: string): Promise<Subscription[]> {
-    return await db.select().from(subscriptions).where(eq(subscriptions.userId, userId));
+    return await this.db.select().from(this.tables.subscriptions).where(eq(this.tables.subscriptions.userId, userId));
   }
 
   async getSubscription(id: string): Promise<Subscription | undefined> {
-    const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    const [subscription] = await this.db.select().from(this.tables.subscriptions).where(eq(this.tables.subscriptions.id, id));
     return subscription || undefined;
   }
 
   async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
-    const [subscription] = await db
-      .insert(subscriptions)
+    const [subscription] = await this.db
+      .insert(this.tables.subscriptions)
       .values({
         ...insertSubscription,
         description: insertSubscription.description ?? null,
-        isActive: insertSubscription.isActive ?? 1,
+        isActive: insertSubscription.isActive ?? true,
+        billingAnchorDate: insertSubscription.billingAnchorDate ?? insertSubscription.nextBillingDate,
       })
       .returning();
     return subscription;
   }
 
   async updateSubscription(id: string, updates: Partial<InsertSubscription>): Promise<Subscription | undefined> {
-    const [subscription] = await db
-      .update(subscriptions)
+    // A new billing date or cycle starts the schedule again from the billing date
+    if (updates.billingAnchorDate === undefined && BILLING_SCHEDULE_FIELDS.some(field => updates[field] !== undefined)) {
+      const current = await this.getSubscription(id);
+      const billingAnchorDate = current && rescheduledAnchor(current, updates);
+      if (billingAnchorDate) updates = { ...updates, billingAnchorDate };
+    }
+
+    const [subscription] = await this.db
+      .update(this.tables.subscriptions)
       .set(updates)
-      .where(eq(subscriptions.id, id))
+      .where(eq(this.tables.subscriptions.id, id))
       .returning();
     return subscription || undefined;
   }
 
   async deleteSubscription(id: string): Promise<boolean> {
-    const result = await db.delete(subscriptions).where(eq(subscriptions.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.subscriptions).where(eq(this.tables.subscriptions.id, id));
+    return this.affectedRows(result) > 0;
+  }
+
+  // Active, non-trial this.tables.subscriptions whose billing date has passed
+  async getDueSubscriptions(asOf: Date): Promise<Subscription[]> {
+    return await this.db.select().from(this.tables.subscriptions)
+      .where(and(
+        eq(this.tables.subscriptions.isActive, true),
+        eq(this.tables.subscriptions.isTrial, false),
+        lte(this.tables.subscriptions.nextBillingDate, asOf)
+      ));
+  }
+
+  // Only advances if the billing date is still `from`, so concurrent runs cannot renew twice
+  async advanceSubscriptionBillingDate(id: string, from: Date, to: Date): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .update(this.tables.subscriptions)
+      .set({ nextBillingDate: to })
+      .where(and(eq(this.tables.subscriptions.id, id), eq(this.tables.subscriptions.nextBillingDate, from)))
+      .returning();
+    return subscription || undefined;
+  }
+
+  async getSubscriptionsDueToResume(asOf: Date): Promise<Subscription[]> {
+    return await this.db.select().from(this.tables.subscriptions)
+      .where(and(
+        isNotNull(this.tables.subscriptions.pausedAt),
+        lte(this.tables.subscriptions.resumeAt, asOf)
+      ));
   }
 
   // User methods
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+    return await this.db.select().from(this.tables.users);
   }
 
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.id, id));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(this.tables.users).where(eq(this.tables.users.email, email));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
+    const [user] = await this.db
+      .insert(this.tables.users)
       .values(insertUser)
       .returning();
     return user;
   }
 
   async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
+    const [user] = await this.db
+      .update(this.tables.users)
       .set(updates)
-      .where(eq(users.id, id))
+      .where(eq(this.tables.users.id, id))
       .returning();
     return user || undefined;
   }
 
   async deleteUser(id: string): Promise<boolean> {
-    const result = await db.delete(users).where(eq(users.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.users).where(eq(this.tables.users.id, id));
+    return this.affectedRows(result) > 0;
   }
 
   // API Key methods
   async getApiKeysByUserId(userId: string): Promise<ApiKey[]> {
-    return await db.select().from(apiKeys).where(eq(apiKeys.userId, userId));
+    return await this.db.select().from(this.tables.apiKeys).where(eq(this.tables.apiKeys.userId, userId));
   }
 
   async getApiKey(id: string): Promise<ApiKey | undefined> {
-    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    const [apiKey] = await this.db.select().from(this.tables.apiKeys).where(eq(this.tables.apiKeys.id, id));
     return apiKey || undefined;
   }
 
   async getApiKeyByKeyHash(keyHash: string): Promise<ApiKey | undefined> {
-    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    const [apiKey] = await this.db.select().from(this.tables.apiKeys).where(eq(this.tables.apiKeys.keyHash, keyHash));
     return apiKey || undefined;
   }
 
   async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
-    const [apiKey] = await db
-      .insert(apiKeys)
+    const [apiKey] = await this.db
+      .insert(this.tables.apiKeys)
       .values(insertApiKey)
       .returning();
     return apiKey;
   }
 
   async updateApiKey(id: string, updates: UpdateApiKey): Promise<ApiKey | undefined> {
-    const [apiKey] = await db
-      .update(apiKeys)
+    const [apiKey] = await this.db
+      .update(this.tables.apiKeys)
       .set(updates)
-      .where(eq(apiKeys.id, id))
+      .where(eq(this.tables.apiKeys.id, id))
       .returning();
     return apiKey || undefined;
   }
 
   async deleteApiKey(id: string): Promise<boolean> {
-    const result = await db.delete(apiKeys).where(eq(apiKeys.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.apiKeys).where(eq(this.tables.apiKeys.id, id));
+    return this.affectedRows(result) > 0;
   }
 
   async getAllApiKeys(): Promise<ApiKey[]> {
-    return await db.select().from(apiKeys);
+    return await this.db.select().from(this.tables.apiKeys);
   }
 
   // Plan methods
   async getAllPlans(): Promise<Plan[]> {
-    return await db.select().from(plans);
+    return await this.db.select().from(this.tables.plans);
   }
 
   async getActivePlans(): Promise<Plan[]> {
-    return await db.select().from(plans).where(eq(plans.isActive, true));
+    return await this.db.select().from(this.tables.plans).where(eq(this.tables.plans.isActive, true));
   }
 
   async getPlan(id: string): Promise<Plan | undefined> {
-    const [plan] = await db.select().from(plans).where(eq(plans.id, id));
+    const [plan] = await this.db.select().from(this.tables.plans).where(eq(this.tables.plans.id, id));
     return plan || undefined;
   }
 
   async createPlan(insertPlan: InsertPlan): Promise<Plan> {
-    const [plan] = await db
-      .insert(plans)
+    const [plan] = await this.db
+      .insert(this.tables.plans)
       .values(insertPlan)
       .returning();
     return plan;
   }
 
   async updatePlan(id: string, updates: Partial<InsertPlan>): Promise<Plan | undefined> {
-    const [plan] = await db
-      .update(plans)
+    const [plan] = await this.db
+      .update(this.tables.plans)
       .set(updates)
-      .where(eq(plans.id, id))
+      .where(eq(this.tables.plans.id, id))
       .returning();
     return plan || undefined;
   }
 
   async deletePlan(id: string): Promise<boolean> {
-    const result = await db.delete(plans).where(eq(plans.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.plans).where(eq(this.tables.plans.id, id));
+    return this.affectedRows(result) > 0;
   }
 
   // Notification methods
   async getNotificationsByUserId(userId: string): Promise<Notification[]> {
-    return await db
+    return await this.db
       .select()
-      .from(notifications)
-      .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt));
+      .from(this.tables.notifications)
+      .where(eq(this.tables.notifications.userId, userId))
+      .orderBy(desc(this.tables.notifications.createdAt));
   }
 
   async getUnreadNotificationsByUserId(userId: string): Promise<Notification[]> {
-    return await db
+    return await this.db
       .select()
-      .from(notifications)
-      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
-      .orderBy(desc(notifications.createdAt));
+      .from(this.tables.notifications)
+      .where(and(eq(this.tables.notifications.userId, userId), eq(this.tables.notifications.isRead, false)))
+      .orderBy(desc(this.tables.notifications.createdAt));
   }
 
   async getNotification(id: string): Promise<Notification | undefined> {
-    const [notification] = await db
+    const [notification] = await this.db
       .select()
-      .from(notifications)
-      .where(eq(notifications.id, id));
+      .from(this.tables.notifications)
+      .where(eq(this.tables.notifications.id, id));
     return notification || undefined;
   }
 
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
-    const [notification] = await db
-      .insert(notifications)
+    const [notification] = await this.db
+      .insert(this.tables.notifications)
       .values(insertNotification)
       .returning();
     return notification;
   }
 
   async updateNotification(id: string, updates: UpdateNotification): Promise<Notification | undefined> {
-    const [notification] = await db
-      .update(notifications)
+    const [notification] = await this.db
+      .update(this.tables.notifications)
       .set(updates)
-      .where(eq(notifications.id, id))
+      .where(eq(this.tables.notifications.id, id))
       .returning();
     return notification || undefined;
   }
 
   async markNotificationAsRead(id: string, userId: string): Promise<Notification | undefined> {
-    const [notification] = await db
-      .update(notifications)
+    const [notification] = await this.db
+      .update(this.tables.notifications)
       .set({ 
         isRead: true,
         readAt: new Date()
       })
-      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .where(and(eq(this.tables.notifications.id, id), eq(this.tables.notifications.userId, userId)))
       .returning();
     return notification || undefined;
   }
 
   async markAllNotificationsAsRead(userId: string): Promise<boolean> {
-    const result = await db
-      .update(notifications)
+    const result = await this.db
+      .update(this.tables.notifications)
       .set({ 
         isRead: true,
         readAt: new Date()
       })
-      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
-    return (result.rowCount ?? 0) > 0;
+      .where(and(eq(this.tables.notifications.userId, userId), eq(this.tables.notifications.isRead, false)));
+    return this.affectedRows(result) > 0;
   }
 
   async deleteNotification(id: string): Promise<boolean> {
-    const result = await db.delete(notifications).where(eq(notifications.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.notifications).where(eq(this.tables.notifications.id, id));
+    return this.affectedRows(result) > 0;
   }
 
   async deleteNotificationsByUserId(userId: string): Promise<boolean> {
-    const result = await db.delete(notifications).where(eq(notifications.userId, userId));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.notifications).where(eq(this.tables.notifications.userId, userId));
+    return this.affectedRows(result) > 0;
   }
 
   // User External API Key methods
   async getUserExternalApiKeys(userId: string): Promise<UserExternalApiKey[]> {
-    return await db
+    return await this.db
       .select()
-      .from(userExternalApiKeys)
-      .where(eq(userExternalApiKeys.userId, userId));
+      .from(this.tables.userExternalApiKeys)
+      .where(eq(this.tables.userExternalApiKeys.userId, userId));
   }
 
   async getUserExternalApiKey(userId: string, service: string): Promise<UserExternalApiKey | undefined> {
-    const [apiKey] = await db
+    const [apiKey] = await this.db
       .select()
-      .from(userExternalApiKeys)
-      .where(and(eq(userExternalApiKeys.userId, userId), eq(userExternalApiKeys.service, service)));
+      .from(this.tables.userExternalApiKeys)
+      .where(and(eq(this.tables.userExternalApiKeys.userId, userId), eq(this.tables.userExternalApiKeys.service, service)));
     return apiKey || undefined;
   }
 
   async createUserExternalApiKey(insertApiKey: InsertUserExternalApiKey): Promise<UserExternalApiKey> {
-    const [apiKey] = await db
-      .insert(userExternalApiKeys)
+    const [apiKey] = await this.db
+      .insert(this.tables.userExternalApiKeys)
       .values({
         ...insertApiKey,
         updatedAt: new Date()
@@ -347,49 +528,137 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserExternalApiKey(userId: string, service: string, keyValue: string): Promise<UserExternalApiKey | undefined> {
-    const [apiKey] = await db
-      .update(userExternalApiKeys)
+    const [apiKey] = await this.db
+      .update(this.tables.userExternalApiKeys)
       .set({ 
         keyValue,
         updatedAt: new Date()
       })
-      .where(and(eq(userExternalApiKeys.userId, userId), eq(userExternalApiKeys.service, service)))
+      .where(and(eq(this.tables.userExternalApiKeys.userId, userId), eq(this.tables.userExternalApiKeys.service, service)))
       .returning();
     return apiKey || undefined;
   }
 
   async deleteUserExternalApiKey(userId: string, service: string): Promise<boolean> {
-    const result = await db
-      .delete(userExternalApiKeys)
-      .where(and(eq(userExternalApiKeys.userId, userId), eq(userExternalApiKeys.service, service)));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db
+      .delete(this.tables.userExternalApiKeys)
+      .where(and(eq(this.tables.userExternalApiKeys.userId, userId), eq(this.tables.userExternalApiKeys.service, service)));
+    return this.affectedRows(result) > 0;
+  }
+
+  async getStoredSecrets(): Promise<StoredSecret[]> {
+    const secrets: StoredSecret[] = [];
+
+    const externalKeys = await this.db
+      .select({ id: this.tables.userExternalApiKeys.id, keyValue: this.tables.userExternalApiKeys.keyValue })
+      .from(this.tables.userExternalApiKeys);
+    for (const apiKey of externalKeys) {
+      secrets.push({ table: 'user_external_api_keys', id: apiKey.id, column: 'keyValue', value: apiKey.keyValue });
+    }
+
+    const preferences = await this.db
+      .select()
+      .from(this.tables.userNotificationPreferences)
+      .where(or(...PREFERENCE_SECRET_COLUMNS.map(column => isNotNull(this.tables.userNotificationPreferences[column]))));
+    for (const row of preferences) {
+      for (const column of PREFERENCE_SECRET_COLUMNS) {
+        const value = row[column];
+        if (value) secrets.push({ table: 'user_notification_preferences', id: row.id, column, value });
+      }
+    }
+
+    const endpoints = await this.db
+      .select({ id: this.tables.webhookEndpoints.id, secretEncrypted: this.tables.webhookEndpoints.secretEncrypted })
+      .from(this.tables.webhookEndpoints);
+    for (const endpoint of endpoints) {
+      secrets.push({ table: 'webhook_endpoints', id: endpoint.id, column: 'secretEncrypted', value: endpoint.secretEncrypted });
+    }
+
+    return secrets;
+  }
+
+  async replaceStoredSecret(secret: StoredSecret, value: string): Promise<boolean> {
+    // Only swap if the row still holds the value that was read
+    if (secret.table === 'user_external_api_keys') {
+      const result = await this.db
+        .update(this.tables.userExternalApiKeys)
+        .set({ keyValue: value, updatedAt: new Date() })
+        .where(and(eq(this.tables.userExternalApiKeys.id, secret.id), eq(this.tables.userExternalApiKeys.keyValue, secret.value)));
+      return this.affectedRows(result) > 0;
+    }
+
+    if (secret.table === 'webhook_endpoints') {
+      const result = await this.db
+        .update(this.tables.webhookEndpoints)
+        .set({ secretEncrypted: value, updatedAt: new Date() })
+        .where(and(eq(this.tables.webhookEndpoints.id, secret.id), eq(this.tables.webhookEndpoints.secretEncrypted, secret.value)));
+      return this.affectedRows(result) > 0;
+    }
+
+    const result = await this.db
+      .update(this.tables.userNotificationPreferences)
+      .set({ [secret.column]: value })
+      .where(and(eq(this.tables.userNotificationPreferences.id, secret.id), eq(this.tables.userNotificationPreferences[secret.column], secret.value)));
+    return this.affectedRows(result) > 0;
   }
 
   // Subscription History methods
   async getSubscriptionHistory(subscriptionId: string): Promise<SubscriptionHistory[]> {
-    return await db
+    return await this.db
       .select()
-      .from(subscriptionHistory)
-      .where(eq(subscriptionHistory.subscriptionId, subscriptionId))
-      .orderBy(desc(subscriptionHistory.createdAt));
+      .from(this.tables.subscriptionHistory)
+      .where(eq(this.tables.subscriptionHistory.subscriptionId, subscriptionId))
+      .orderBy(desc(this.tables.subscriptionHistory.createdAt));
   }
 
   async getSubscriptionHistoryByUserId(userId: string): Promise<SubscriptionHistory[]> {
-    return await db
+    return await this.db
       .select()
-      .from(subscriptionHistory)
-      .where(eq(subscriptionHistory.userId, userId))
-      .orderBy(desc(subscriptionHistory.createdAt));
+      .from(this.tables.subscriptionHistory)
+      .where(eq(this.tables.subscriptionHistory.userId, userId))
+      .orderBy(desc(this.tables.subscriptionHistory.createdAt));
+  }
+
+  async deleteSubscriptionHistoryByUserId(userId: string): Promise<number> {
+    const result = await this.db.delete(this.tables.subscriptionHistory)
+      .where(eq(this.tables.subscriptionHistory.userId, userId));
+    return this.affectedRows(result);
+  }
+
+  async getPriceChangesByUserId(userId: string, since: Date): Promise<SubscriptionHistory[]> {
+    return await this.db
+      .select()
+      .from(this.tables.subscriptionHistory)
+      .where(and(
+        eq(this.tables.subscriptionHistory.userId, userId),
+        eq(this.tables.subscriptionHistory.eventType, 'price_change'),
+        gte(this.tables.subscriptionHistory.eventDate, since)
+      ))
+      .orderBy(desc(this.tables.subscriptionHistory.eventDate));
   }
 
   async createSubscriptionHistoryEntry(historyEntry: InsertSubscriptionHistory): Promise<SubscriptionHistory> {
-    const [entry] = await db
-      .insert(subscriptionHistory)
+    const [entry] = await this.db
+      .insert(this.tables.subscriptionHistory)
       .values(historyEntry)
       .returning();
     return entry;
   }
 
+  async getSubscriptionHistoryEntry(id: string): Promise<SubscriptionHistory | undefined> {
+    const [entry] = await this.db.select().from(this.tables.subscriptionHistory).where(eq(this.tables.subscriptionHistory.id, id));
+    return entry || undefined;
+  }
+
+  async updateSubscriptionHistoryEntry(id: string, updates: Partial<InsertSubscriptionHistory>): Promise<SubscriptionHistory | undefined> {
+    const [entry] = await this.db
+      .update(this.tables.subscriptionHistory)
+      .set(updates)
+      .where(eq(this.tables.subscriptionHistory.id, id))
+      .returning();
+    return entry || undefined;
+  }
+
   // User Subscriptions (alias method)
   async getUserSubscriptions(userId: string): Promise<Subscription[]> {
     return await this.getSubscriptionsByUserId(userId);
@@ -397,22 +666,35 @@ export class DatabaseStorage implements IStorage {
 
   // User Notification Preferences methods
   async getUserNotificationPreferences(userId: string): Promise<UserNotificationPreferences | undefined> {
-    const [preferences] = await db
+    const [preferences] = await this.db
       .select()
-      .from(userNotificationPreferences)
-      .where(eq(userNotificationPreferences.userId, userId))
+      .from(this.tables.userNotificationPreferences)
+      .where(eq(this.tables.userNotificationPreferences.userId, userId))
       .limit(1);
     return preferences || undefined;
   }
 
   async createUserNotificationPreferences(preferences: InsertUserNotificationPreferences): Promise<UserNotificationPreferences> {
-    const [created] = await db
-      .insert(userNotificationPreferences)
+    const [created] = await this.db
+      .insert(this.tables.userNotificationPreferences)
       .values(preferences)
       .returning();
     return created;
   }
 
+  async setEmailTemplateId(userId: string, templateId: string | null): Promise<UserNotificationPreferences> {
+    if (!await this.getUserNotificationPreferences(userId)) {
+      return await this.createUserNotificationPreferences({ userId, emailTemplateId: templateId });
+    }
+
+    const [updated] = await this.db
+      .update(this.tables.userNotificationPreferences)
+      .set({ emailTemplateId: templateId, updatedAt: new Date() })
+      .where(eq(this.tables.userNotificationPreferences.userId, userId))
+      .returning();
+    return updated;
+  }
+
   async updateUserNotificationPreferences(userId: string, preferences: UpdateUserNotificationPreferences): Promise<UserNotificationPreferences | undefined> {
     // First check if preferences exist
     const existing = await this.getUserNotificationPreferences(userId);
@@ -427,81 +709,160 @@ export class DatabaseStorage implements IStorage {
     }
     
     // Update existing preferences
-    const [updated] = await db
-      .update(userNotificationPreferences)
+    const [updated] = await this.db
+      .update(this.tables.userNotificationPreferences)
       .set({
         ...preferences,
         updatedAt: new Date()
       })
-      .where(eq(userNotificationPreferences.userId, userId))
+      .where(eq(this.tables.userNotificationPreferences.userId, userId))
       .returning();
     return updated || undefined;
   }
 
+  async getUserNotificationPreferencesByCalendarToken(token: string): Promise<UserNotificationPreferences | undefined> {
+    const [preferences] = await this.db
+      .select()
+      .from(this.tables.userNotificationPreferences)
+      .where(eq(this.tables.userNotificationPreferences.calendarFeedToken, token))
+      .limit(1);
+    return preferences || undefined;
+  }
+
+  async setCalendarFeedToken(userId: string, token: string | null): Promise<UserNotificationPreferences> {
+    const values = { calendarFeedToken: token, appleCalendarEnabled: token !== null };
+    if (!await this.getUserNotificationPreferences(userId)) {
+      return await this.createUserNotificationPreferences({ userId, ...values });
+    }
+
+    const [updated] = await this.db
+      .update(this.tables.userNotificationPreferences)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(this.tables.userNotificationPreferences.userId, userId))
+      .returning();
+    return updated;
+  }
+
+  async getUserNotificationPreferencesByWhatsAppNumber(number: string): Promise<UserNotificationPreferences | undefined> {
+    const [preferences] = await this.db
+      .select()
+      .from(this.tables.userNotificationPreferences)
+      .where(eq(this.tables.userNotificationPreferences.whatsappVerifiedNumber, number))
+      .limit(1);
+    return preferences || undefined;
+  }
+
+  async setWhatsAppVerifiedNumber(userId: string, number: string | null): Promise<UserNotificationPreferences> {
+    const values = {
+      whatsappVerifiedNumber: number,
+      whatsappVerificationCode: null,
+      whatsappVerificationCodeExpiresAt: null,
+      whatsappVerificationAttempts: 0
+    };
+    return await this.db.transaction(async (tx) => {
+      if (number !== null) {
+        await tx
+          .update(this.tables.userNotificationPreferences)
+          .set({ whatsappVerifiedNumber: null, updatedAt: new Date() })
+          .where(and(
+            eq(this.tables.userNotificationPreferences.whatsappVerifiedNumber, number),
+            ne(this.tables.userNotificationPreferences.userId, userId)
+          ));
+      }
+      const [updated] = await tx
+        .update(this.tables.userNotificationPreferences)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(this.tables.userNotificationPreferences.userId, userId))
+        .returning();
+      if (updated) return updated;
+
+      const [created] = await tx
+        .insert(this.tables.userNotificationPreferences)
+        .values({ userId, ...values })
+        .returning();
+      return created;
+    });
+  }
+
   // Subscription Reminders methods
   async getUpcomingReminders(userId: string): Promise<SubscriptionReminder[]> {
     const now = new Date();
-    return await db
+    return await this.db
       .select()
-      .from(subscriptionReminders)
+      .from(this.tables.subscriptionReminders)
       .where(
         and(
-          eq(subscriptionReminders.userId, userId),
-          eq(subscriptionReminders.status, 'pending')
+          eq(this.tables.subscriptionReminders.userId, userId),
+          eq(this.tables.subscriptionReminders.status, 'pending')
         )
       )
-      .orderBy(subscriptionReminders.scheduledFor);
+      .orderBy(this.tables.subscriptionReminders.scheduledFor);
   }
 
   async createSubscriptionReminder(reminder: InsertSubscriptionReminder): Promise<SubscriptionReminder> {
-    const [created] = await db
-      .insert(subscriptionReminders)
+    const [created] = await this.db
+      .insert(this.tables.subscriptionReminders)
       .values(reminder)
       .returning();
     return created;
   }
 
   async deleteSubscriptionReminder(reminderId: string, userId: string): Promise<boolean> {
-    const result = await db
-      .delete(subscriptionReminders)
+    const result = await this.db
+      .delete(this.tables.subscriptionReminders)
       .where(
         and(
-          eq(subscriptionReminders.id, reminderId),
-          eq(subscriptionReminders.userId, userId)
+          eq(this.tables.subscriptionReminders.id, reminderId),
+          eq(this.tables.subscriptionReminders.userId, userId)
         )
       );
-    return (result.rowCount ?? 0) > 0;
+    return this.affectedRows(result) > 0;
   }
 
-  async getReminderForSubscriptionAndDay(subscriptionId: string, daysBefore: number): Promise<SubscriptionReminder | undefined> {
-    const [reminder] = await db.select().from(subscriptionReminders)
+  async getReminderForSubscriptionAndDay(subscriptionId: string, daysBefore: number, since?: Date): Promise<SubscriptionReminder | undefined> {
+    const [reminder] = await this.db.select().from(this.tables.subscriptionReminders)
       .where(and(
-        eq(subscriptionReminders.subscriptionId, subscriptionId),
-        eq(subscriptionReminders.daysBefore, daysBefore)
+        eq(this.tables.subscriptionReminders.subscriptionId, subscriptionId),
+        eq(this.tables.subscriptionReminders.daysBefore, daysBefore),
+        since ? gte(this.tables.subscriptionReminders.createdAt, since) : undefined
       ));
     return reminder || undefined;
   }
 
   async deleteSubscriptionReminders(subscriptionId: string): Promise<boolean> {
-    const result = await db.delete(subscriptionReminders)
-      .where(eq(subscriptionReminders.subscriptionId, subscriptionId));
-    return (result.rowCount ?? 0) > 0;
+    const result = await this.db.delete(this.tables.subscriptionReminders)
+      .where(eq(this.tables.subscriptionReminders.subscriptionId, subscriptionId));
+    return this.affectedRows(result) > 0;
   }
 
   async getUserReminderStats(userId: string): Promise<SubscriptionReminder[]> {
-    return await db.select().from(subscriptionReminders)
-      .where(eq(subscriptionReminders.userId, userId))
-      .orderBy(desc(subscriptionReminders.createdAt));
+    return await this.db.select().from(this.tables.subscriptionReminders)
+      .where(eq(this.tables.subscriptionReminders.userId, userId))
+      .orderBy(desc(this.tables.subscriptionReminders.createdAt));
+  }
+
+  async getSubscriptionReminderByExternalMessageId(messageId: string): Promise<SubscriptionReminder | undefined> {
+    const [reminder] = await this.db.select().from(this.tables.subscriptionReminders)
+      .where(eq(this.tables.subscriptionReminders.externalMessageId, messageId));
+    return reminder || undefined;
+  }
+
+  async updateSubscriptionReminder(id: string, updates: Partial<InsertSubscriptionReminder>): Promise<SubscriptionReminder | undefined> {
+    const [updated] = await this.db.update(this.tables.subscriptionReminders)
+      .set(updates)
+      .where(eq(this.tables.subscriptionReminders.id, id))
+      .returning();
+    return updated || undefined;
   }
 
   async getAllUsersWithPreferences(): Promise<Array<{id: string; preferences: UserNotificationPreferences}>> {
-    // Get all users who have notification preferences set up
-    const usersWithPrefs = await db.select({
-      id: users.id,
-      preferences: userNotificationPreferences
+    // Get all this.tables.users who have notification preferences set up
+    const usersWithPrefs = await this.db.select({
+      id: this.tables.users.id,
+      preferences: this.tables.userNotificationPreferences
     })
-    .from(users)
-    .leftJoin(userNotificationPreferences, eq(users.id, userNotificationPreferences.userId));
+    .from(this.tables.users)
+    .leftJoin(this.tables.userNotificationPreferences, eq(this.tables.users.id, this.tables.userNotificationPreferences.userId));
 
     return usersWithPrefs
       .filter(user => user.preferences !== null)
@@ -510,6 +871,406 @@ export class DatabaseStorage implements IStorage {
         preferences: user.preferences!
       }));
   }
+
+  // Google Calendar event methods
+  async getCalendarEventsByUserId(userId: string): Promise<CalendarEvent[]> {
+    return await this.db.select().from(this.tables.calendarEvents)
+      .where(eq(this.tables.calendarEvents.userId, userId))
+      .orderBy(this.tables.calendarEvents.startsAt);
+  }
+
+  async getCalendarEventsBySubscriptionId(subscriptionId: string): Promise<CalendarEvent[]> {
+    return await this.db.select().from(this.tables.calendarEvents)
+      .where(eq(this.tables.calendarEvents.subscriptionId, subscriptionId))
+      .orderBy(this.tables.calendarEvents.daysBefore);
+  }
+
+  async saveCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent> {
+    const [existing] = await this.db.select().from(this.tables.calendarEvents)
+      .where(and(
+        eq(this.tables.calendarEvents.subscriptionId, event.subscriptionId),
+        eq(this.tables.calendarEvents.daysBefore, event.daysBefore)
+      ));
+    if (!existing) {
+      const [created] = await this.db.insert(this.tables.calendarEvents).values(event).returning();
+      return created;
+    }
+
+    const [updated] = await this.db.update(this.tables.calendarEvents)
+      .set({ ...event, updatedAt: new Date() })
+      .where(eq(this.tables.calendarEvents.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    const result = await this.db.delete(this.tables.calendarEvents).where(eq(this.tables.calendarEvents.id, id));
+    return this.affectedRows(result) > 0;
+  }
+
+  // User Session methods
+  async createUserSession(session: InsertUserSession): Promise<UserSession> {
+    const [created] = await this.db
+      .insert(this.tables.userSessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async getUserSessionByToken(sessionToken: string): Promise<UserSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(this.tables.userSessions)
+      .where(eq(this.tables.userSessions.sessionToken, sessionToken));
+    return session || undefined;
+  }
+
+  async getUserSessionsByUserId(userId: string): Promise<UserSession[]> {
+    return await this.db
+      .select()
+      .from(this.tables.userSessions)
+      .where(eq(this.tables.userSessions.userId, userId))
+      .orderBy(desc(this.tables.userSessions.createdAt));
+  }
+
+  async deleteUserSession(sessionToken: string): Promise<boolean> {
+    const result = await this.db
+      .delete(this.tables.userSessions)
+      .where(eq(this.tables.userSessions.sessionToken, sessionToken));
+    return this.affectedRows(result) > 0;
+  }
+
+  async deleteUserSessionsByUserId(userId: string): Promise<number> {
+    const result = await this.db
+      .delete(this.tables.userSessions)
+      .where(eq(this.tables.userSessions.userId, userId));
+    return this.affectedRows(result);
+  }
+
+  async deleteExpiredUserSessions(): Promise<number> {
+    const result = await this.db
+      .delete(this.tables.userSessions)
+      .where(lt(this.tables.userSessions.expiresAt, new Date()));
+    return this.affectedRows(result);
+  }
+
+  // Exchange Rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await this.db
+      .select()
+      .from(this.tables.exchangeRates)
+      .orderBy(this.tables.exchangeRates.currency);
+  }
+
+  async getExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await this.db
+      .select()
+      .from(this.tables.exchangeRates)
+      .where(eq(this.tables.exchangeRates.currency, currency));
+    return rate || undefined;
+  }
+
+  async upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [saved] = await this.db
+      .insert(this.tables.exchangeRates)
+      .values(rate)
+      .onConflictDoUpdate({
+        target: this.tables.exchangeRates.currency,
+        set: {
+          rate: rate.rate,
+          source: rate.source,
+          updatedBy: rate.updatedBy,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteExchangeRate(currency: string): Promise<boolean> {
+    const result = await this.db
+      .delete(this.tables.exchangeRates)
+      .where(eq(this.tables.exchangeRates.currency, currency));
+    return this.affectedRows(result) > 0;
+  }
+
+  // Job Queue methods
+  // Returns undefined when a job with the same idempotency key already exists
+  async enqueueJob(job: InsertJob): Promise<Job | undefined> {
+    const [created] = await this.db
+      .insert(this.tables.jobs)
+      .values(job)
+      .onConflictDoNothing({ target: this.tables.jobs.idempotencyKey })
+      .returning();
+    return created || undefined;
+  }
+
+  // Atomically lease the oldest runnable job: pending and due, or running with an expired lease
+  async claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const candidate = this.db
+      .select({ id: this.tables.jobs.id })
+      .from(this.tables.jobs)
+      .where(or(
+        and(eq(this.tables.jobs.status, 'pending'), lte(this.tables.jobs.runAt, now)),
+        and(eq(this.tables.jobs.status, 'running'), lt(this.tables.jobs.lockedUntil, now))
+      ))
+      .orderBy(this.tables.jobs.runAt)
+      .limit(1);
+
+    // Postgres: skip rows other workers are claiming. SQLite serializes writers, so the
+    // single UPDATE below is already atomic.
+    const lockedCandidate = this.dialect === 'postgres' ? candidate.for('update', { skipLocked: true }) : candidate;
+
+    const [job] = await this.db
+      .update(this.tables.jobs)
+      .set({
+        status: 'running',
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        attempts: sql`${this.tables.jobs.attempts} + 1`,
+        updatedAt: now
+      })
+      .where(inArray(this.tables.jobs.id, lockedCandidate))
+      .returning();
+    return job || undefined;
+  }
+
+  // Only the worker holding the lease can extend it, complete or fail a job
+  async renewJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const result = await this.db
+      .update(this.tables.jobs)
+      .set({ lockedUntil: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(and(eq(this.tables.jobs.id, id), eq(this.tables.jobs.status, 'running'), eq(this.tables.jobs.lockedBy, workerId)));
+    return this.affectedRows(result) > 0;
+  }
+
+  async completeJob(id: string, workerId: string): Promise<boolean> {
+    const result = await this.db
+      .update(this.tables.jobs)
+      .set({ status: 'completed', completedAt: new Date(), lockedBy: null, lockedUntil: null, updatedAt: new Date() })
+      .where(and(eq(this.tables.jobs.id, id), eq(this.tables.jobs.lockedBy, workerId)));
+    return this.affectedRows(result) > 0;
+  }
+
+  // Reschedules the job at `retryAt`, or moves it to the dead-letter state when retryAt is null
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    const result = await this.db
+      .update(this.tables.jobs)
+      .set({
+        status: retryAt ? 'pending' : 'dead',
+        runAt: retryAt ?? undefined,
+        lastError: error,
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: new Date()
+      })
+      .where(and(eq(this.tables.jobs.id, id), eq(this.tables.jobs.lockedBy, workerId)));
+    return this.affectedRows(result) > 0;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(this.tables.jobs).where(eq(this.tables.jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(filter: { status?: string; name?: string; limit?: number } = {}): Promise<Job[]> {
+    return await this.db
+      .select()
+      .from(this.tables.jobs)
+      .where(and(
+        filter.status ? eq(this.tables.jobs.status, filter.status) : undefined,
+        filter.name ? eq(this.tables.jobs.name, filter.name) : undefined
+      ))
+      .orderBy(desc(this.tables.jobs.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Move a dead-lettered job back into the queue with a fresh set of attempts
+  async retryJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(this.tables.jobs)
+      .set({ status: 'pending', attempts: 0, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(this.tables.jobs.id, id), eq(this.tables.jobs.status, 'dead')))
+      .returning();
+    return job || undefined;
+  }
+
+  async deleteCompletedJobs(before: Date): Promise<number> {
+    const result = await this.db
+      .delete(this.tables.jobs)
+      .where(and(eq(this.tables.jobs.status, 'completed'), lt(this.tables.jobs.completedAt, before)));
+    return this.affectedRows(result);
+  }
+
+  // Webhook methods
+  async getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    return await this.db.select().from(this.tables.webhookEndpoints)
+      .where(eq(this.tables.webhookEndpoints.userId, userId))
+      .orderBy(this.tables.webhookEndpoints.createdAt);
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db.select().from(this.tables.webhookEndpoints).where(eq(this.tables.webhookEndpoints.id, id));
+    return endpoint || undefined;
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [created] = await this.db.insert(this.tables.webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async updateWebhookEndpoint(id: string, updates: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await this.db.update(this.tables.webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(this.tables.webhookEndpoints.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    await this.db.delete(this.tables.webhookDeliveries).where(eq(this.tables.webhookDeliveries.endpointId, id));
+    const result = await this.db.delete(this.tables.webhookEndpoints).where(eq(this.tables.webhookEndpoints.id, id));
+    return this.affectedRows(result) > 0;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await this.db.insert(this.tables.webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(this.tables.webhookDeliveries).where(eq(this.tables.webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveryByEvent(endpointId: string, eventId: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(this.tables.webhookDeliveries)
+      .where(and(eq(this.tables.webhookDeliveries.endpointId, endpointId), eq(this.tables.webhookDeliveries.eventId, eventId)));
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return await this.db.select().from(this.tables.webhookDeliveries)
+      .where(eq(this.tables.webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(this.tables.webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await this.db.update(this.tables.webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(this.tables.webhookDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date): Promise<number> {
+    const result = await this.db.delete(this.tables.webhookDeliveries)
+      .where(and(inArray(this.tables.webhookDeliveries.status, ['delivered', 'failed']), lt(this.tables.webhookDeliveries.createdAt, before)));
+    return this.affectedRows(result);
+  }
+
+  // Email template methods
+  async getEmailTemplatesForUser(userId: string): Promise<EmailTemplate[]> {
+    return await this.db.select().from(this.tables.emailTemplates)
+      .where(or(eq(this.tables.emailTemplates.userId, userId), isNull(this.tables.emailTemplates.userId)))
+      .orderBy(this.tables.emailTemplates.createdAt);
+  }
+
+  async getEmailTemplate(id: string): Promise<EmailTemplate | undefined> {
+    const [template] = await this.db.select().from(this.tables.emailTemplates).where(eq(this.tables.emailTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [created] = await this.db.insert(this.tables.emailTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateEmailTemplate(id: string, updates: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    const [updated] = await this.db.update(this.tables.emailTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(this.tables.emailTemplates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteEmailTemplate(id: string): Promise<boolean> {
+    await this.db.update(this.tables.userNotificationPreferences)
+      .set({ emailTemplateId: null, updatedAt: new Date() })
+      .where(eq(this.tables.userNotificationPreferences.emailTemplateId, id));
+    const result = await this.db.delete(this.tables.emailTemplates).where(eq(this.tables.emailTemplates.id, id));
+    return this.affectedRows(result) > 0;
+  }
+
+  // Backup and restore
+  async checkConnection(): Promise<void> {
+    await this.db.select({ id: this.tables.plans.id }).from(this.tables.plans).limit(1);
+  }
+
+  // Read every table in one transaction so the snapshot is consistent across tables
+  async snapshotTables(): Promise<TableSnapshot> {
+    return await this.db.transaction(async (tx) => {
+      const snapshot = {} as TableSnapshot;
+      for (const name of Object.keys(this.tables) as StorageTableName[]) {
+        snapshot[name] = await tx.select().from(this.tables[name] as PgTable);
+      }
+      return snapshot;
+    }, this.dialect === 'postgres' ? { isolationLevel: 'repeatable read', accessMode: 'read only' } : undefined);
+  }
+
+  // Only into an empty database: restored rows keep their ids, so merging could collide
+  async restoreTables(snapshot: TableSnapshot): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const names = Object.keys(this.tables) as StorageTableName[];
+      for (const name of names) {
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)` }).from(this.tables[name] as PgTable);
+        if (Number(count) > 0) {
+          throw new Error(`Cannot restore into a database that already has data (${name} has ${count} rows)`);
+        }
+      }
+
+      for (const name of names) {
+        const rows = snapshot[name] ?? [];
+        for (let i = 0; i < rows.length; i += RESTORE_BATCH_SIZE) {
+          await tx.insert(this.tables[name] as PgTable).values(rows.slice(i, i + RESTORE_BATCH_SIZE));
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Storage for a backend configuration (see storageConfigFromEnv in db.ts)
+ */
+export function createStorage(config: StorageConfig = configuredStorage): IStorage {
+  switch (config.driver) {
+    case 'sqlite': {
+      const { db } = createSqliteDatabase(config);
+      // Same property names and row types as the Postgres tables (see shared/schema-dialects.ts)
+      return new DatabaseStorage(db as unknown as typeof postgresDb, sqliteTables as unknown as StorageTables, 'sqlite');
+    }
+    case 'memory':
+      return new MemoryStorage();
+    case 'postgres':
+      return new DatabaseStorage(postgresDb);
+  }
+}
+
+/**
+ * Create any missing SQLite tables before first use. Postgres is managed with drizzle-kit.
+ */
+export async function prepareStorage(config: StorageConfig = configuredStorage) {
+  if (config.driver !== 'sqlite') return;
+
+  const { client } = createSqliteDatabase(config);
+  try {
+    await ensureSqliteSchema(client);
+  } finally {
+    client.close();
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
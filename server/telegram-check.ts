@@ -0,0 +1,231 @@
+/**
+ * Telegram channel check: runs the bot flow end to end against a local fake Bot API server.
+ *
+ *   npm run check:telegram
+ *
+ * The fake server answers the Bot API methods the app calls and records them; updates are
+ * POSTed to the app's webhook route the way Telegram delivers them. Uses memory storage and
+ * never talks to Telegram.
+ */
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+const BOT_TOKEN = `123456789:${randomBytes(24).toString('base64url')}`;
+const BOT_USERNAME = 'subtracker_check_bot';
+const CHAT_ID = 4242;
+const DAY = 24 * 60 * 60 * 1000;
+
+interface BotApiCall {
+  method: string;
+  params: any;
+}
+
+/** A stand-in for https://api.telegram.org that knows one bot */
+function startFakeBotApi(calls: BotApiCall[]): Promise<http.Server> {
+  let nextMessageId = 1;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const match = /^\/bot([^/]+)\/(\w+)$/.exec(req.url ?? '');
+      const reply = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+      };
+      if (!match || match[1] !== BOT_TOKEN) {
+        return reply(401, { ok: false, error_code: 401, description: 'Unauthorized' });
+      }
+
+      const [, , method] = match;
+      const params = body ? JSON.parse(body) : {};
+      calls.push({ method, params });
+      switch (method) {
+        case 'getMe':
+          return reply(200, { ok: true, result: { id: 123456789, is_bot: true, first_name: 'SubTracker', username: BOT_USERNAME } });
+        case 'setWebhook':
+        case 'deleteWebhook':
+        case 'answerCallbackQuery':
+          return reply(200, { ok: true, result: true });
+        case 'sendMessage':
+          return reply(200, { ok: true, result: { message_id: nextMessageId++, chat: { id: params.chat_id }, text: params.text } });
+        default:
+          return reply(404, { ok: false, error_code: 404, description: 'Not Found' });
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function listen(app: express.Express): Promise<http.Server> {
+  return new Promise(resolve => {
+    const server = app.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+const urlOf = (server: http.Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+async function main() {
+  const calls: BotApiCall[] = [];
+  const botApi = await startFakeBotApi(calls);
+
+  // Services read their configuration from the environment when imported
+  process.env.STORAGE_DRIVER = 'memory';
+  process.env.TELEGRAM_API_URL = urlOf(botApi);
+  process.env.BASE_URL = 'https://subtracker.example';
+  process.env.ENCRYPTION_KEY ??= randomBytes(32).toString('hex');
+
+  const { storage } = await import('./storage');
+  const { telegramService } = await import('./services/telegram.service');
+  const { notificationService } = await import('./services/notification.service');
+  const { telegramWebhookRouter } = await import('./routes/telegram-webhook');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/telegram/webhook', telegramWebhookRouter);
+  const appServer = await listen(app);
+
+  const user = await storage.createUser({ email: 'telegram@check.test', name: 'Telegram Check', password: 'x' });
+  const subscription = await storage.createSubscription({
+    userId: user.id,
+    name: 'Check Streaming',
+    cost: '12.99',
+    currency: 'USD',
+    billingCycle: 'monthly',
+    category: 'Entertainment',
+    nextBillingDate: new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate()) + 5 * DAY)
+  });
+  let updateId = 1;
+  const deliver = (update: object, secret = telegramService.webhookSecret(user.id, BOT_TOKEN)) =>
+    fetch(`${urlOf(appServer)}/api/telegram/webhook/${user.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': secret },
+      body: JSON.stringify({ update_id: updateId++, ...update })
+    });
+  const message = (text: string, chatId = CHAT_ID) => ({
+    message: { message_id: updateId, chat: { id: chatId, type: 'private' }, date: Math.floor(Date.now() / 1000), text }
+  });
+  const lastCall = (method: string) => calls.filter(call => call.method === method).at(-1);
+  let reminderButtons: { text: string; callback_data?: string; url?: string }[] = [];
+
+  const checks: Record<string, () => Promise<void>> = {
+    async 'rejects a malformed bot token'() {
+      await assert.rejects(telegramService.connectBot(user.id, 'not-a-token'), /Not a Telegram bot token/);
+    },
+
+    async 'connecting stores the token encrypted and registers the webhook'() {
+      const bot = await telegramService.connectBot(user.id, BOT_TOKEN);
+      assert.equal(bot.username, BOT_USERNAME);
+
+      const stored = await storage.getUserExternalApiKey(user.id, 'telegram');
+      assert.ok(stored && stored.keyValue !== BOT_TOKEN, 'token is stored encrypted');
+      assert.equal(await telegramService.getBotToken(user.id), BOT_TOKEN);
+
+      const webhook = lastCall('setWebhook')?.params;
+      assert.equal(webhook.url, `https://subtracker.example/api/telegram/webhook/${user.id}`);
+      assert.equal(webhook.secret_token, telegramService.webhookSecret(user.id, BOT_TOKEN));
+    },
+
+    async 'the webhook refuses updates without the secret'() {
+      assert.equal((await deliver(message('/start'), 'wrong')).status, 401);
+    },
+
+    async 'a /start code links the chat, once'() {
+      const link = await telegramService.createLink(user.id);
+      assert.equal(link.url, `https://t.me/${BOT_USERNAME}?start=${link.code}`);
+
+      assert.equal((await deliver(message(`/start ${link.code}`))).status, 200);
+      const preferences = await storage.getUserNotificationPreferences(user.id);
+      assert.equal(preferences?.telegramChatId, String(CHAT_ID));
+      assert.equal(preferences?.telegramEnabled, true);
+      assert.equal(preferences?.telegramLinkCode, null);
+
+      await deliver(message(`/start ${link.code}`, CHAT_ID + 1));
+      assert.match(lastCall('sendMessage')?.params.text, /expired or was already used/);
+      assert.equal((await storage.getUserNotificationPreferences(user.id))?.telegramChatId, String(CHAT_ID));
+    },
+
+    async 'reminders carry Mark paid, Snooze and Open dashboard buttons'() {
+      const preferences = (await storage.getUserNotificationPreferences(user.id))!;
+      assert.ok(notificationService.getReminderChannels(preferences).includes('telegram'));
+
+      await notificationService.sendChannelReminder('telegram', user.id, subscription, preferences, 5);
+      const sent = lastCall('sendMessage')!.params;
+      assert.equal(sent.chat_id, String(CHAT_ID));
+      assert.match(sent.text, /Check Streaming/);
+
+      reminderButtons = sent.reply_markup.inline_keyboard.flat();
+      assert.deepEqual(reminderButtons.map(button => button.text), ['✅ Mark paid', '⏰ Snooze', '📊 Open dashboard']);
+      assert.equal(reminderButtons[2].url, 'https://subtracker.example/subscriptions');
+
+      const logged = await storage.getUserReminderStats(user.id);
+      assert.ok(logged.some(reminder => reminder.reminderType === 'telegram' && reminder.status === 'sent'));
+    },
+
+    async 'Mark paid records the payment and answers the button'() {
+      await deliver({
+        callback_query: { id: 'cb-paid', from: { id: CHAT_ID }, message: { message_id: 1, chat: { id: CHAT_ID } }, data: reminderButtons[0].callback_data }
+      });
+
+      const history = await storage.getSubscriptionHistory(subscription.id);
+      assert.ok(history.some(entry => entry.eventType === 'payment' && entry.description.includes('Telegram')));
+      assert.equal(lastCall('answerCallbackQuery')?.params.callback_query_id, 'cb-paid');
+      assert.match(lastCall('answerCallbackQuery')?.params.text, /recorded as paid/);
+    },
+
+    async 'Snooze queues the reminder again on Telegram'() {
+      await deliver({
+        callback_query: { id: 'cb-snooze', from: { id: CHAT_ID }, message: { message_id: 1, chat: { id: CHAT_ID } }, data: reminderButtons[1].callback_data }
+      });
+
+      const jobs = await storage.getJobs({ name: 'reminder.send' });
+      assert.ok(jobs.some(job => JSON.parse(job.payload).channel === 'telegram' && JSON.parse(job.payload).daysBefore === 2));
+      assert.match(lastCall('answerCallbackQuery')?.params.text, /Snoozed/);
+    },
+
+    async 'buttons pressed in another chat do nothing'() {
+      const paymentsBefore = (await storage.getSubscriptionHistory(subscription.id)).length;
+      await deliver({
+        callback_query: { id: 'cb-other', from: { id: 1 }, message: { message_id: 1, chat: { id: 1 } }, data: reminderButtons[0].callback_data }
+      });
+      assert.equal((await storage.getSubscriptionHistory(subscription.id)).length, paymentsBefore);
+      assert.match(lastCall('answerCallbackQuery')?.params.text, /no longer linked/);
+    },
+
+    async '/stop turns reminders off'() {
+      await deliver(message('/stop'));
+      assert.equal((await storage.getUserNotificationPreferences(user.id))?.telegramEnabled, false);
+    },
+
+    async 'disconnecting removes the token and the linked chat'() {
+      await telegramService.disconnectBot(user.id);
+      assert.equal(await storage.getUserExternalApiKey(user.id, 'telegram'), undefined);
+      assert.equal((await storage.getUserNotificationPreferences(user.id))?.telegramChatId, null);
+      assert.ok(lastCall('deleteWebhook'));
+    }
+  };
+
+  // Each check builds on the ones before it
+  let failures = 0;
+  try {
+    for (const [name, check] of Object.entries(checks)) {
+      try {
+        await check();
+        console.log(`  ✓ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`  ✗ ${name}`);
+        console.error(error);
+      }
+    }
+  } finally {
+    appServer.close();
+    botApi.close();
+  }
+
+  console.log(failures === 0 ? '\nTelegram channel works against the fake Bot API' : `\n${failures} check(s) failed`);
+  return failures;
+}
+
+main().then(failures => process.exit(failures === 0 ? 0 : 1));
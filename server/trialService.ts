@@ -1,6 +1,9 @@
 import { differenceInDays, addDays, isBefore, isAfter } from 'date-fns';
 import { storage } from './storage';
 import { type Subscription } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { addCycles, getRecurrence, nextOccurrence } from '@shared/recurrence';
+import { webhookService } from './services/webhook.service';
 
 export interface TrialExpiryCheck {
   subscription: Subscription;
@@ -17,10 +20,7 @@ export async function checkTrialExpiries(userId: string): Promise<TrialExpiryChe
     const subscriptions = await storage.getSubscriptionsByUserId(userId);
     
     // Filter for active subscriptions that have trial data
-    const trialSubscriptions = subscriptions.filter(sub => {
-      const isActive = Boolean(sub.isActive && sub.isActive !== 0 && (typeof sub.isActive !== 'string' || sub.isActive !== '0'));
-      return isActive && sub.isTrial && sub.trialDays && sub.trialDays > 0;
-    });
+    const trialSubscriptions = subscriptions.filter(sub => sub.isActive && sub.isTrial && sub.trialDays && sub.trialDays > 0);
 
     console.log(`Found ${trialSubscriptions.length} trial subscriptions for user ${userId}`);
 
@@ -136,6 +136,13 @@ export async function generateTrialExpiryNotifications(userId: string): Promise<
 
         console.log(`Created trial expiry notification for ${subscription.name} (${daysUntilExpiry} days)`);
       }
+
+      if (daysUntilExpiry >= 0) {
+        // Once per day left, like the notification
+        await webhookService.emit(userId, 'trial.ending', { subscription, daysUntilExpiry }, {
+          dedupeKey: `${subscription.id}:${subscription.trialEndDate ? new Date(subscription.trialEndDate).toISOString() : ''}:${daysUntilExpiry}`
+        });
+      }
     }
   } catch (error) {
     console.error('Error generating trial expiry notifications:', error);
@@ -165,15 +172,18 @@ export async function processExpiredTrials(userId: string): Promise<void> {
         console.log(`Processing auto-payment for ${subscription.name} with card ending in ${subscription.cardLast4}`);
         
         // Update subscription to remove trial status and set next billing date
-        const nextBillingDate = new Date();
-        nextBillingDate.setMonth(nextBillingDate.getMonth() + 1); // Set next billing to 1 month from now
+        // Billing is anchored on the trial end date; bill again on the next cycle after today
+        const now = new Date();
+        const trialEnd = subscription.trialEndDate ? new Date(subscription.trialEndDate) : now;
+        const recurrence = getRecurrence(subscription);
+        const nextBillingDate = nextOccurrence(addCycles(trialEnd, recurrence), recurrence, now);
         
         await storage.updateSubscription(subscription.id, {
           isTrial: false,
           trialDays: null,
           trialStartDate: null,
           trialEndDate: null,
-          nextBillingDate: nextBillingDate.toISOString(),
+          nextBillingDate,
         });
 
         // Check if we've already created a payment notification recently
@@ -191,7 +201,7 @@ export async function processExpiredTrials(userId: string): Promise<void> {
             userId,
             type: 'payment_processed',
             title: `Payment processed for ${subscription.name}`,
-            message: `Your payment method ending in ${subscription.cardLast4} was charged $${subscription.cost} for ${subscription.name}. Your subscription is now active.`,
+            message: `Your payment method ending in ${subscription.cardLast4} was charged ${formatMoney(subscription.cost, subscription.currency)} for ${subscription.name}. Your subscription is now active.`,
             priority: 'normal',
             subscriptionId: subscription.id,
             data: JSON.stringify({
@@ -206,7 +216,7 @@ export async function processExpiredTrials(userId: string): Promise<void> {
         console.log(`No payment method for ${subscription.name} - deactivating subscription`);
         
         await storage.updateSubscription(subscription.id, {
-          isActive: 0, // Deactivate subscription
+          isActive: false, // Deactivate subscription
           isTrial: false, // Remove trial status even without payment
           trialDays: null,
           trialStartDate: null,
@@ -242,4 +252,18 @@ export async function processExpiredTrials(userId: string): Promise<void> {
   } catch (error) {
     console.error('Error processing expired trials:', error);
   }
-}
\ No newline at end of file
+}
+/**
+ * Run expiry notifications and auto-payment for every user with an active trial
+ */
+export async function processAllTrials(): Promise<void> {
+  const trialSubscriptions = (await storage.getAllSubscriptions()).filter(sub => sub.isTrial && sub.userId);
+  const userIds = Array.from(new Set(trialSubscriptions.map(sub => sub.userId!)));
+
+  for (const userId of userIds) {
+    await generateTrialExpiryNotifications(userId);
+    await processExpiredTrials(userId);
+  }
+
+  console.log(`Processed trials for ${userIds.length} users`);
+}
@@ -0,0 +1,82 @@
+import dns from 'dns';
+import net from 'net';
+
+// Addresses a user-supplied URL must not reach: this host, private networks, link-local (including
+// cloud metadata at 169.254.169.254 and fd00:ec2::254) and ranges that are never public
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/** A URL a user asked us to call that isn't allowed; the message is for them */
+export class UnsafeUrlError extends Error {}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is refused outright; a ::ffff:0:0/96 rule in the BlockList
+  // would also match every plain IPv4 address
+  if (family === 6 && /^[0:]*:ffff:/i.test(address)) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that `url` is https and its host resolves only to public addresses. Requests should also
+ * connect with publicOnlyLookup, since the name can resolve differently by then.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError('Not a valid URL');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError('URLs must use https');
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(({ address }) => address);
+    } catch {
+      throw new UnsafeUrlError(`${host} could not be resolved`);
+    }
+  }
+
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) {
+    throw new UnsafeUrlError(`${host} points to a private or reserved address (${blocked})`);
+  }
+}
+
+/**
+ * dns.lookup for http(s).request that refuses names resolving to non-public addresses, so the
+ * connection goes to an address that was checked. IP-literal hosts skip lookup: check those with
+ * assertPublicUrl first.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      return callback(new UnsafeUrlError(`${hostname} points to a private or reserved address (${blocked?.address ?? 'none'})`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,181 @@
+// Account archive: everything one user owns, as exported by GET /api/export/account and
+// accepted by POST /api/import.
+//
+// Schema version 1:
+//   schemaVersion          1
+//   exportedAt             ISO timestamp
+//   account                { email, name, reportingCurrency } - informational, never imported
+//   subscriptions          subscription rows without userId; `id` links the rows below
+//   history                subscription_history rows (subscriptionId refers to subscriptions[].id)
+//   reminders              subscription_reminders rows
+//   notifications          notification rows
+//   notificationPreferences preference row with every credential set to null; the names of the
+//                          redacted fields are listed in `redactedFields`
+//   apiKeys                API key metadata only (name, prefix, status, dates); keys cannot be imported
+//
+// Timestamps are ISO strings and decimals are strings, as in the REST API. Row ids are only
+// used to link rows inside the archive: imports always create rows with new ids.
+
+import { z } from "zod";
+import { subscriptionActiveFlagSchema } from "./schema";
+import { currencyCodeSchema } from "./currency";
+import { BILLING_CYCLE_VALUES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from "./recurrence";
+
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+
+export const IMPORT_MODES = ["merge", "replace"] as const;
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+/** Preference columns that hold credentials; exported as null and never imported */
+export const REDACTED_PREFERENCE_FIELDS = [
+  "resendApiKeyEncrypted",
+  "smtpPasswordEncrypted",
+  "whatsappAccessTokenEncrypted",
+  "whatsappWebhookToken",
+  "whatsappVerifiedNumber",
+  "whatsappVerificationCode",
+  "whatsappVerificationCodeExpiresAt",
+  "slackWebhookUrlEncrypted",
+  "discordWebhookUrlEncrypted",
+  "teamsWebhookUrlEncrypted",
+  "googleAccessToken",
+  "googleRefreshToken",
+  "googleTokenExpiry",
+  "calendarFeedToken",
+  "telegramLinkCode",
+  "telegramLinkCodeExpiresAt",
+] as const;
+
+const date = z.coerce.date();
+// z.coerce.date() would turn null into 1970-01-01
+const nullableDate = z.union([z.null(), z.coerce.date()]).optional();
+const nullableString = z.string().nullable().optional();
+const nullableInt = z.number().int().nullable().optional();
+
+export const archivedSubscriptionSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  cost: z.union([z.string(), z.number()]).transform(String),
+  currency: currencyCodeSchema.default("USD"),
+  billingCycle: z.enum(BILLING_CYCLE_VALUES),
+  customCycleCount: nullableInt,
+  customCycleUnit: z.enum(CUSTOM_CYCLE_UNITS).nullable().optional(),
+  category: z.string(),
+  nextBillingDate: date,
+  billingAnchorDate: nullableDate,
+  description: nullableString,
+  email: nullableString,
+  isActive: subscriptionActiveFlagSchema.default(true),
+  paymentStatus: z.string().default("paid"),
+  isTrial: z.boolean().default(false),
+  trialDays: nullableInt,
+  trialStartDate: nullableDate,
+  trialEndDate: nullableDate,
+  cardLast4: nullableString,
+  bankName: nullableString,
+  pausedAt: nullableDate,
+  resumeAt: nullableDate,
+  cancellationStatus: nullableString,
+  cancelBy: nullableDate,
+  cancelledAt: nullableDate,
+  createdAt: nullableDate,
+}).superRefine(refineCustomCycle);
+
+export const archivedHistoryEntrySchema = z.object({
+  subscriptionId: z.string(),
+  eventType: z.string(),
+  paymentStatus: nullableString,
+  amount: z.union([z.string(), z.number()]).transform(String).nullable().optional(),
+  currency: nullableString,
+  previousAmount: z.union([z.string(), z.number()]).transform(String).nullable().optional(),
+  previousCurrency: nullableString,
+  paymentMethod: nullableString,
+  description: z.string(),
+  changes: nullableString,
+  snapshot: nullableString,
+  eventDate: date,
+});
+
+export const archivedReminderSchema = z.object({
+  subscriptionId: z.string(),
+  reminderType: z.string(),
+  scheduledFor: date,
+  sentAt: nullableDate,
+  status: z.string().default("pending"),
+  daysBefore: z.number().int(),
+  message: z.string(),
+  errorMessage: nullableString,
+});
+
+export const archivedNotificationSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  subscriptionId: nullableString,
+  data: nullableString,
+  isRead: z.boolean().default(false),
+  priority: z.string().default("normal"),
+  createdAt: nullableDate,
+  readAt: nullableDate,
+});
+
+export const archivedApiKeySchema = z.object({
+  name: z.string(),
+  keyPrefix: z.string(),
+  isActive: z.boolean(),
+  lastUsedAt: nullableDate,
+  expiresAt: nullableDate,
+  createdAt: nullableDate,
+});
+
+export const accountArchiveSchema = z.object({
+  schemaVersion: z.literal(ACCOUNT_ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  account: z.object({
+    email: z.string(),
+    name: z.string(),
+    reportingCurrency: z.string(),
+  }).optional(),
+  subscriptions: z.array(archivedSubscriptionSchema).default([]),
+  history: z.array(archivedHistoryEntrySchema).default([]),
+  reminders: z.array(archivedReminderSchema).default([]),
+  notifications: z.array(archivedNotificationSchema).default([]),
+  // Validated against the preferences update schema on import
+  notificationPreferences: z.record(z.unknown()).nullable().default(null),
+  redactedFields: z.array(z.string()).default([]),
+  apiKeys: z.array(archivedApiKeySchema).default([]),
+});
+
+export type AccountArchive = z.infer<typeof accountArchiveSchema>;
+export type ArchivedSubscription = z.infer<typeof archivedSubscriptionSchema>;
+
+export const importRequestSchema = z.object({
+  archive: z.unknown(),
+  mode: z.enum(IMPORT_MODES).default("merge"),
+  dryRun: z.boolean().default(false),
+});
+
+interface ImportCounts {
+  create: number;
+  skip: number; // already present (merge) or not importable
+  delete: number; // existing rows removed (replace)
+}
+
+/** What an import did, or would do when dryRun is set */
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  schemaVersion: number;
+  subscriptions: {
+    create: string[];
+    update: { name: string; fields: string[] }[];
+    unchanged: string[];
+    delete: string[];
+  };
+  history: ImportCounts;
+  reminders: ImportCounts;
+  notifications: ImportCounts;
+  notificationPreferences: { action: "create" | "update" | "unchanged"; fields: string[] };
+  apiKeys: { skip: number };
+  warnings: string[];
+}
@@ -0,0 +1,53 @@
+// Cancellation workflow shared by the server (routes, renewals, reminders) and the client
+// (cards, dashboard stats). A subscription moves from no status -> 'planned' (the user intends
+// to cancel before a cancel-by date) -> 'active_until_end' (cancelled with the provider, still
+// usable until the paid period runs out) -> 'cancelled'. Cancelling immediately skips the middle step.
+import { getRecurrence, occurrencesBetween, type RecurrenceSource } from "./recurrence";
+
+export const CANCELLATION_STATUSES = [
+  { value: "planned", label: "Cancellation planned" },
+  { value: "active_until_end", label: "Cancelled, active until period end" },
+  { value: "cancelled", label: "Cancelled" },
+] as const;
+
+export type CancellationStatus = (typeof CANCELLATION_STATUSES)[number]["value"];
+
+export const CANCELLATION_STATUS_VALUES = CANCELLATION_STATUSES.map((status) => status.value) as [CancellationStatus, ...CancellationStatus[]];
+
+/** The subscription fields the cancellation workflow reads */
+export interface CancellationSource extends RecurrenceSource {
+  cost: string;
+  nextBillingDate: Date | string;
+  cancellationStatus?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatCancellationStatus(status: string | null | undefined): string | null {
+  return CANCELLATION_STATUSES.find((s) => s.value === status)?.label ?? null;
+}
+
+/** Whether the cancellation has been confirmed with the provider (no further charges) */
+export function isCancellationConfirmed(source: Pick<CancellationSource, "cancellationStatus">): boolean {
+  return source.cancellationStatus === "active_until_end" || source.cancellationStatus === "cancelled";
+}
+
+/** Default deadline for a planned cancellation: the day before the next renewal */
+export function defaultCancelBy(nextBillingDate: Date | string): Date {
+  return new Date(new Date(nextBillingDate).getTime() - DAY_MS);
+}
+
+/**
+ * Renewals skipped since the cancellation was confirmed. Once confirmed, a subscription's
+ * next billing date is no longer rolled forward, so it marks the first charge that was avoided.
+ */
+export function skippedRenewals(source: CancellationSource, now: Date = new Date()): Date[] {
+  if (!isCancellationConfirmed(source)) return [];
+  const firstSkipped = new Date(source.nextBillingDate);
+  return occurrencesBetween(firstSkipped, getRecurrence(source), firstSkipped, now);
+}
+
+/** Money saved by cancelling so far, in the subscription's own currency */
+export function savedByCancelling(source: CancellationSource, now: Date = new Date()): number {
+  return skippedRenewals(source, now).length * parseFloat(source.cost);
+}
@@ -0,0 +1,45 @@
+// Chat apps that receive reminders through an incoming-webhook URL the user creates in the app.
+// The URL is the only credential, so it is stored encrypted like the other secrets.
+
+export const CHAT_CHANNELS = ["slack", "discord", "teams"] as const;
+export type ChatChannel = (typeof CHAT_CHANNELS)[number];
+
+export const CHAT_CHANNEL_LABELS: Record<ChatChannel, string> = {
+  slack: "Slack",
+  discord: "Discord",
+  teams: "Microsoft Teams",
+};
+
+/** The userNotificationPreferences columns behind each channel */
+export const CHAT_CHANNEL_FIELDS = {
+  slack: { enabled: "slackEnabled", webhookUrl: "slackWebhookUrlEncrypted" },
+  discord: { enabled: "discordEnabled", webhookUrl: "discordWebhookUrlEncrypted" },
+  teams: { enabled: "teamsEnabled", webhookUrl: "teamsWebhookUrlEncrypted" },
+} as const satisfies Record<ChatChannel, { enabled: string; webhookUrl: string }>;
+
+// Where each app issues webhook URLs. Anything else is refused, so a saved URL can't be
+// pointed at an arbitrary (or internal) host.
+const WEBHOOK_URL_PATTERNS: Record<ChatChannel, RegExp> = {
+  slack: /^https:\/\/hooks\.slack\.com\/(services|workflows|triggers)\//,
+  discord: /^https:\/\/((ptb|canary)\.)?discord(app)?\.com\/api\/webhooks\//,
+  // Office 365 connectors and Power Automate "Post to a channel when a webhook request is received" workflows
+  teams: /^https:\/\/([a-z0-9-]+\.)+(webhook\.office\.com|logic\.azure\.com|api\.powerplatform\.com)(:443)?\//,
+};
+
+export const CHAT_WEBHOOK_URL_EXAMPLES: Record<ChatChannel, string> = {
+  slack: "https://hooks.slack.com/services/T000/B000/XXXX",
+  discord: "https://discord.com/api/webhooks/0000/XXXX",
+  teams: "https://example.webhook.office.com/webhookb2/...",
+};
+
+/** Why a webhook URL can't be used for the channel, or null if it can */
+export function chatWebhookUrlError(channel: ChatChannel, url: string): string | null {
+  if (!WEBHOOK_URL_PATTERNS[channel].test(url.trim())) {
+    return `Not a ${CHAT_CHANNEL_LABELS[channel]} incoming webhook URL (expected something like ${CHAT_WEBHOOK_URL_EXAMPLES[channel]})`;
+  }
+  return null;
+}
+
+export function isChatChannel(value: string): value is ChatChannel {
+  return (CHAT_CHANNELS as readonly string[]).includes(value);
+}
@@ -0,0 +1,99 @@
+// Currency helpers shared by the server (analytics, summaries) and the client (dashboard totals).
+// Exchange rates are stored as "units of currency per 1 unit of BASE_CURRENCY".
+import { z } from "zod";
+
+export const BASE_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES = [
+  { code: "USD", name: "US Dollar" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+  { code: "PKR", name: "Pakistani Rupee" },
+  { code: "INR", name: "Indian Rupee" },
+  { code: "AED", name: "UAE Dirham" },
+  { code: "SAR", name: "Saudi Riyal" },
+  { code: "CAD", name: "Canadian Dollar" },
+  { code: "AUD", name: "Australian Dollar" },
+  { code: "JPY", name: "Japanese Yen" },
+  { code: "CHF", name: "Swiss Franc" },
+  { code: "CNY", name: "Chinese Yuan" },
+] as const;
+
+export type ExchangeRates = Record<string, number>;
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  /** Convert an amount from the given currency into the reporting currency */
+  convert(amount: number, fromCurrency?: string | null): number;
+  /** Currencies seen during conversion that have no exchange rate (amounts were left unconverted) */
+  missingRates(): string[];
+}
+
+export function normalizeCurrencyCode(code: string | null | undefined): string {
+  return (code || BASE_CURRENCY).trim().toUpperCase();
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+// Accepts any casing and normalizes to an upper-case ISO 4217 code
+export const currencyCodeSchema = z
+  .string()
+  .transform((code) => normalizeCurrencyCode(code))
+  .refine(isValidCurrencyCode, { message: "Currency must be a 3-letter ISO 4217 code" });
+
+/** Format an amount with its currency symbol, e.g. "€9.99" or "PKR 1,500.00" */
+export function formatMoney(amount: number | string, currency?: string | null): string {
+  const value = typeof amount === "string" ? parseFloat(amount) || 0 : amount;
+  const code = normalizeCurrencyCode(currency);
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: code }).format(value);
+  } catch {
+    // Unknown ISO code: fall back to "CODE 0.00"
+    return `${code} ${value.toFixed(2)}`;
+  }
+}
+
+function rateFor(currency: string, rates: ExchangeRates): number | undefined {
+  if (currency === BASE_CURRENCY) return 1;
+  const rate = rates[currency];
+  return rate && rate > 0 ? rate : undefined;
+}
+
+/**
+ * Convert an amount between two currencies via the base currency.
+ * Returns null when either currency has no exchange rate.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  const fromCode = normalizeCurrencyCode(from);
+  const toCode = normalizeCurrencyCode(to);
+  if (fromCode === toCode) return amount;
+
+  const fromRate = rateFor(fromCode, rates);
+  const toRate = rateFor(toCode, rates);
+  if (fromRate === undefined || toRate === undefined) return null;
+
+  return (amount / fromRate) * toRate;
+}
+
+export function createCurrencyConverter(rates: ExchangeRates, reportingCurrency: string): CurrencyConverter {
+  const target = normalizeCurrencyCode(reportingCurrency);
+  const missing = new Set<string>();
+
+  return {
+    reportingCurrency: target,
+    convert(amount, fromCurrency) {
+      const from = normalizeCurrencyCode(fromCurrency);
+      const converted = convertAmount(amount, from, target, rates);
+      if (converted === null) {
+        missing.add(rateFor(from, rates) === undefined ? from : target);
+        return amount;
+      }
+      return converted;
+    },
+    missingRates() {
+      return Array.from(missing);
+    },
+  };
+}
@@ -0,0 +1,51 @@
+// Spending digest emails. A weekly digest goes out on Mondays and a monthly one on the 1st, at the
+// user's reminder time in their timezone, and covers the period starting that day.
+// Dates are calendar dates at UTC midnight, the same way billing dates are stored.
+
+export const DIGEST_FREQUENCIES = ["off", "weekly", "monthly"] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DigestPeriod {
+  start: Date; // first day of the period
+  end: Date; // first day of the next period
+  previousStart: Date; // first day of the period before
+}
+
+const asDate = (day: string) => new Date(`${day}T00:00:00Z`);
+
+/** Whether a digest of this frequency is sent on the given local date (YYYY-MM-DD) */
+export function isDigestDay(frequency: DigestFrequency, day: string): boolean {
+  if (frequency === "weekly") return asDate(day).getUTCDay() === 1;
+  if (frequency === "monthly") return asDate(day).getUTCDate() === 1;
+  return false;
+}
+
+/** The first digest day on or after the given local date (YYYY-MM-DD) */
+export function nextDigestDay(frequency: Exclude<DigestFrequency, "off">, day: string): string {
+  const date = asDate(day);
+  if (frequency === "monthly") {
+    const next = date.getUTCDate() === 1 ? date : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    return next.toISOString().slice(0, 10);
+  }
+  const daysToMonday = (8 - date.getUTCDay()) % 7;
+  return new Date(date.getTime() + daysToMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** The period a digest sent on `day` (a digest day, YYYY-MM-DD) covers, and the one before it */
+export function digestPeriod(frequency: Exclude<DigestFrequency, "off">, day: string): DigestPeriod {
+  const start = asDate(day);
+  if (frequency === "monthly") {
+    return {
+      start,
+      end: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)),
+      previousStart: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - 1, 1))
+    };
+  }
+  return {
+    start,
+    end: new Date(start.getTime() + 7 * DAY_MS),
+    previousStart: new Date(start.getTime() - 7 * DAY_MS)
+  };
+}
@@ -0,0 +1,69 @@
+// Reminder email templates written by users (or shared with everyone by an admin). A template is
+// Handlebars HTML rendered with the variables below and only the helpers below: no partials, no
+// other helpers. Output is HTML-escaped unless a template uses {{{triple braces}}}.
+
+import { z } from "zod";
+
+export const BUILT_IN_EMAIL_TEMPLATES = ["professional", "casual", "minimal"] as const;
+export type BuiltInEmailTemplate = (typeof BUILT_IN_EMAIL_TEMPLATES)[number];
+
+export const EMAIL_TEMPLATE_MAX_LENGTH = 50_000;
+
+export const EMAIL_TEMPLATE_HELPERS = [
+  { name: "formatCurrency", usage: "{{formatCurrency subscription.cost subscription.currency}}", description: "An amount with its currency symbol" },
+  { name: "formatDate", usage: "{{formatDate subscription.nextBillingDate}}", description: "A date such as March 5, 2026" },
+  { name: "timeframe", usage: "{{timeframe daysBefore}}", description: "\"today\", \"tomorrow\" or \"in 3 days\"" },
+] as const;
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  { name: "subscription.name", description: "Subscription name" },
+  { name: "subscription.cost", description: "Amount charged at renewal" },
+  { name: "subscription.currency", description: "Currency code, e.g. EUR" },
+  { name: "subscription.nextBillingDate", description: "Renewal date" },
+  { name: "subscription.category", description: "Category" },
+  { name: "subscription.description", description: "Description, if any" },
+  { name: "daysBefore", description: "Days until the renewal" },
+  { name: "appUrl", description: "Link to SubTracker" },
+  { name: "unsubscribeUrl", description: "Link that turns email reminders off" },
+  { name: "includeActionButtons", description: "Whether the user wants action buttons" },
+  { name: "actions.paidUrl", description: "Link that marks this renewal as paid" },
+  { name: "actions.snoozeUrl", description: "Link that snoozes the reminder 3 days (missing on the renewal day)" },
+  { name: "actions.cancelledUrl", description: "Link that marks the subscription as cancelled" },
+] as const;
+
+const templateBodySchema = z.string().min(1, "Template body is required").max(EMAIL_TEMPLATE_MAX_LENGTH);
+
+export const createEmailTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(200).optional(),
+  body: templateBodySchema,
+  // Admins only: make the template available to every user
+  shared: z.boolean().optional(),
+});
+
+export const updateEmailTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  description: z.string().trim().max(200).optional(),
+  body: templateBodySchema.optional(),
+});
+
+export const previewEmailTemplateSchema = z.object({
+  // Unsaved template text; a saved template is previewed with `templateId` instead
+  body: templateBodySchema.optional(),
+  templateId: z.string().optional(),
+  builtIn: z.enum(BUILT_IN_EMAIL_TEMPLATES).optional(),
+  // Defaults to the user's next renewal
+  subscriptionId: z.string().optional(),
+  daysBefore: z.number().int().min(0).max(365).default(3),
+}).refine((data) => [data.body, data.templateId, data.builtIn].filter((v) => v !== undefined).length === 1, {
+  message: "Give exactly one of body, templateId or builtIn",
+});
+
+export const selectEmailTemplateSchema = z.object({
+  // null goes back to the built-in style in notification preferences
+  templateId: z.string().nullable(),
+});
+
+export type CreateEmailTemplate = z.infer<typeof createEmailTemplateSchema>;
+export type UpdateEmailTemplate = z.infer<typeof updateEmailTemplateSchema>;
+export type PreviewEmailTemplate = z.infer<typeof previewEmailTemplateSchema>;
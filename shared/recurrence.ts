@@ -0,0 +1,205 @@
+// Calendar-aware billing recurrence shared by the server (analytics, reminders, trials)
+// and the client (dashboard totals, calendar). All date maths is done in UTC so results
+// do not shift with the host timezone or DST.
+import { z } from "zod";
+
+export const BILLING_CYCLES = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Bi-weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "semiannual", label: "Semi-annual" },
+  { value: "yearly", label: "Yearly" },
+  { value: "custom", label: "Custom" },
+] as const;
+
+export type BillingCycle = (typeof BILLING_CYCLES)[number]["value"];
+
+export const BILLING_CYCLE_VALUES = BILLING_CYCLES.map((cycle) => cycle.value) as [BillingCycle, ...BillingCycle[]];
+
+export const CUSTOM_CYCLE_UNITS = ["days", "months"] as const;
+
+export type RecurrenceUnit = (typeof CUSTOM_CYCLE_UNITS)[number];
+
+export interface Recurrence {
+  unit: RecurrenceUnit;
+  count: number;
+}
+
+/** The subscription fields that describe how often it bills */
+export interface RecurrenceSource {
+  billingCycle: string;
+  customCycleCount?: number | null;
+  customCycleUnit?: string | null;
+}
+
+const PRESET_RECURRENCES: Record<Exclude<BillingCycle, "custom">, Recurrence> = {
+  weekly: { unit: "days", count: 7 },
+  biweekly: { unit: "days", count: 14 },
+  monthly: { unit: "months", count: 1 },
+  quarterly: { unit: "months", count: 3 },
+  semiannual: { unit: "months", count: 6 },
+  yearly: { unit: "months", count: 12 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.2425;
+
+/**
+ * Resolve a subscription's billing cycle into a recurrence rule.
+ * Unknown cycles (and incomplete custom cycles) fall back to monthly.
+ */
+export function getRecurrence(source: RecurrenceSource): Recurrence {
+  if (source.billingCycle === "custom") {
+    const count = source.customCycleCount ?? 0;
+    if (count >= 1 && (CUSTOM_CYCLE_UNITS as readonly string[]).includes(source.customCycleUnit ?? "")) {
+      return { unit: source.customCycleUnit as RecurrenceUnit, count };
+    }
+  }
+  return PRESET_RECURRENCES[source.billingCycle as Exclude<BillingCycle, "custom">] ?? PRESET_RECURRENCES.monthly;
+}
+
+/** Human-readable cycle, e.g. "Quarterly" or "Every 45 days" */
+export function formatBillingCycle(source: RecurrenceSource): string {
+  if (source.billingCycle === "custom") {
+    const { unit, count } = getRecurrence(source);
+    return count === 1 ? `Every ${unit.slice(0, -1)}` : `Every ${count} ${unit}`;
+  }
+  return BILLING_CYCLES.find((cycle) => cycle.value === source.billingCycle)?.label ?? source.billingCycle;
+}
+
+/**
+ * Add whole months, clamping to the last day of the target month
+ * (Jan 31 + 1 month = Feb 28/29). Time of day is preserved.
+ */
+function addMonthsClamped(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDayOfTarget = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDayOfTarget));
+  return result;
+}
+
+/**
+ * Move a date forward (or backward, for negative values) by a number of cycles.
+ */
+export function addCycles(date: Date, recurrence: Recurrence, cycles = 1): Date {
+  if (recurrence.unit === "days") {
+    return new Date(date.getTime() + cycles * recurrence.count * DAY_MS);
+  }
+  return addMonthsClamped(date, cycles * recurrence.count);
+}
+
+/**
+ * The n-th occurrence of a schedule anchored at `anchor` (n = 0 is the anchor itself).
+ * Always computed from the anchor, so a Jan 31 anchor yields Feb 28, Mar 31, Apr 30, ...
+ */
+export function occurrenceAt(anchor: Date, recurrence: Recurrence, n: number): Date {
+  return addCycles(anchor, recurrence, n);
+}
+
+function firstIndexOnOrAfter(anchor: Date, recurrence: Recurrence, from: Date): number {
+  if (anchor.getTime() >= from.getTime()) return 0;
+
+  // Jump close to the target using the average cycle length, then step forward
+  const averageCycleMs = recurrence.unit === "days"
+    ? recurrence.count * DAY_MS
+    : recurrence.count * (DAYS_PER_YEAR / 12) * DAY_MS;
+  let n = Math.max(0, Math.floor((from.getTime() - anchor.getTime()) / averageCycleMs) - 1);
+  while (occurrenceAt(anchor, recurrence, n).getTime() < from.getTime()) n++;
+  return n;
+}
+
+/**
+ * First occurrence on or after `from`. Occurrences before the anchor are never returned.
+ */
+export function nextOccurrence(anchor: Date, recurrence: Recurrence, from: Date = new Date()): Date {
+  return occurrenceAt(anchor, recurrence, firstIndexOnOrAfter(anchor, recurrence, from));
+}
+
+/**
+ * All occurrences within [start, end], in order.
+ */
+export function occurrencesBetween(anchor: Date, recurrence: Recurrence, start: Date, end: Date, limit = 1000): Date[] {
+  const dates: Date[] = [];
+  for (let n = firstIndexOnOrAfter(anchor, recurrence, start); dates.length < limit; n++) {
+    const date = occurrenceAt(anchor, recurrence, n);
+    if (date.getTime() > end.getTime()) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Subscription fields that, when changed, start the billing schedule again */
+export const BILLING_SCHEDULE_FIELDS = ["nextBillingDate", "billingCycle", "customCycleCount", "customCycleUnit"] as const;
+
+/** A subscription's billing schedule: its cycle, its next billing date and what that counts from */
+export interface BillingScheduleSource extends RecurrenceSource {
+  nextBillingDate: Date | string;
+  billingAnchorDate?: Date | string | null;
+}
+
+/**
+ * The date a subscription's occurrences are counted from. Not the latest billing date, which may
+ * have been clamped to the end of a short month.
+ */
+export function billingAnchor(source: BillingScheduleSource): Date {
+  return new Date(source.billingAnchorDate ?? source.nextBillingDate);
+}
+
+/**
+ * The anchor to store when `updates` change the billing date or cycle: the schedule starts again
+ * from the (new) billing date. Undefined when the schedule is unchanged.
+ */
+export function rescheduledAnchor(current: BillingScheduleSource, updates: Partial<BillingScheduleSource>): Date | undefined {
+  const nextBillingDate = updates.nextBillingDate !== undefined ? new Date(updates.nextBillingDate) : undefined;
+  const changed = (nextBillingDate !== undefined && nextBillingDate.getTime() !== new Date(current.nextBillingDate).getTime()) ||
+    (updates.billingCycle !== undefined && updates.billingCycle !== current.billingCycle) ||
+    (updates.customCycleCount !== undefined && updates.customCycleCount !== (current.customCycleCount ?? null)) ||
+    (updates.customCycleUnit !== undefined && updates.customCycleUnit !== (current.customCycleUnit ?? null));
+  return changed ? nextBillingDate ?? new Date(current.nextBillingDate) : undefined;
+}
+
+/** Whole calendar days (UTC) from `from` to `to`; negative when `to` is in the past */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  const fromDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const toDay = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  return Math.round((toDay - fromDay) / DAY_MS);
+}
+
+/** Average number of charges per year */
+export function cyclesPerYear(recurrence: Recurrence): number {
+  return recurrence.unit === "months" ? 12 / recurrence.count : DAYS_PER_YEAR / recurrence.count;
+}
+
+/** Normalize a per-cycle cost to an average monthly cost */
+export function toMonthlyCost(cost: number, source: RecurrenceSource): number {
+  return (cost * cyclesPerYear(getRecurrence(source))) / 12;
+}
+
+/** Normalize a per-cycle cost to a yearly cost */
+export function toYearlyCost(cost: number, source: RecurrenceSource): number {
+  return cost * cyclesPerYear(getRecurrence(source));
+}
+
+/**
+ * Zod refinement for forms and routes: custom cycles need an interval and a unit.
+ */
+export function refineCustomCycle(data: Partial<RecurrenceSource>, ctx: z.RefinementCtx) {
+  if (data.billingCycle !== "custom") return;
+  if (!data.customCycleCount || data.customCycleCount < 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Custom cycles need an interval of at least 1",
+      path: ["customCycleCount"],
+    });
+  }
+  if (!(CUSTOM_CYCLE_UNITS as readonly string[]).includes(data.customCycleUnit ?? "")) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Custom cycles must repeat in days or months",
+      path: ["customCycleUnit"],
+    });
+  }
+}
@@ -0,0 +1,89 @@
+// Everything outside Postgres is derived from the tables in schema.ts, so there is a single
+// schema definition to change. This maps a Postgres table onto an equivalent SQLite/libSQL
+// table (used for Turso and local SQLite files) and resolves column defaults for the
+// in-memory storage, which has no database to apply them.
+import { getTableColumns, is, SQL } from "drizzle-orm";
+import { getTableConfig, type PgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { getTableConfig as getSqliteTableConfig, integer, sqliteTable, text, type SQLiteColumn, type SQLiteTableWithColumns } from "drizzle-orm/sqlite-core";
+
+export type GeneratedSqliteTable = SQLiteTableWithColumns<any>;
+
+/** Text of a SQL default such as now(), gen_random_uuid() or ARRAY[7,3,1] */
+function sqlDefaultText(value: SQL): string {
+  return value.queryChunks
+    .map((chunk: any) => (Array.isArray(chunk?.value) ? chunk.value.join("") : ""))
+    .join("")
+    .trim();
+}
+
+/**
+ * A function producing a column's default value, or undefined if the column has none.
+ * SQL defaults (now(), gen_random_uuid(), ARRAY[...]) are evaluated in JavaScript.
+ */
+export function columnDefault(column: PgColumn): (() => unknown) | undefined {
+  if (column.defaultFn) return column.defaultFn;
+  if (!column.hasDefault) return undefined;
+
+  const value = column.default;
+  if (!is(value, SQL)) return () => value;
+
+  const text = sqlDefaultText(value);
+  if (/^now\(\)$/i.test(text)) return () => new Date();
+  if (/^gen_random_uuid\(\)$/i.test(text)) return () => globalThis.crypto.randomUUID();
+  const array = text.match(/^ARRAY\[(.*)\]$/i);
+  if (array) return () => JSON.parse(`[${array[1]}]`);
+
+  throw new Error(`Unsupported SQL default "${text}" on column ${column.name}`);
+}
+
+function toSqliteColumn(column: PgColumn) {
+  let builder: any;
+  switch (column.columnType) {
+    case "PgTimestamp":
+      builder = integer(column.name, { mode: "timestamp_ms" });
+      break;
+    case "PgBoolean":
+      builder = integer(column.name, { mode: "boolean" });
+      break;
+    case "PgInteger":
+      builder = integer(column.name);
+      break;
+    case "PgArray":
+      builder = text(column.name, { mode: "json" });
+      break;
+    default:
+      // Text, varchar and numeric. Decimals stay strings, as node-postgres returns them.
+      builder = text(column.name);
+  }
+
+  if (column.primary) builder = builder.primaryKey();
+  if (column.notNull && !column.primary) builder = builder.notNull();
+  if (column.isUnique) builder = builder.unique();
+
+  const defaultFn = columnDefault(column);
+  if (defaultFn) builder = builder.$defaultFn(defaultFn);
+
+  return builder;
+}
+
+/** The SQLite/libSQL equivalent of a Postgres table, with the same table, column and property names */
+export function toSqliteTable(table: PgTable): GeneratedSqliteTable {
+  const columns = Object.fromEntries(
+    Object.entries(getTableColumns(table)).map(([key, column]) => [key, toSqliteColumn(column as PgColumn)])
+  );
+  return sqliteTable(getTableConfig(table).name, columns);
+}
+
+/** CREATE TABLE IF NOT EXISTS statements for generated SQLite tables (for local files without drizzle-kit) */
+export function sqliteCreateStatements(tables: Record<string, GeneratedSqliteTable>): string[] {
+  return Object.values(tables).map((table) => {
+    const columns = (Object.values(getTableColumns(table)) as SQLiteColumn[]).map((column) => {
+      const parts = [`"${column.name}"`, column.getSQLType()];
+      if (column.primary) parts.push("PRIMARY KEY");
+      if (column.notNull && !column.primary) parts.push("NOT NULL");
+      if (column.isUnique) parts.push("UNIQUE");
+      return parts.join(" ");
+    });
+    return `CREATE TABLE IF NOT EXISTS "${getSqliteTableConfig(table).name}" (${columns.join(", ")})`;
+  });
+}
@@ -2,6 +2,8 @@ import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, decimal, integer, timestamp, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { timeOfDaySchema, timeZoneSchema } from "./timezone";
+import { DIGEST_FREQUENCIES } from "./digest";
 
 // Users table for authentication and account management
 export const users = pgTable("users", {
@@ -13,6 +15,7 @@ export const users = pgTable("users", {
   planId: varchar("plan_id"),
   trialEndsAt: timestamp("trial_ends_at"),
   subscriptionStatus: text("subscription_status").default("trial").notNull(), // 'trial', 'active', 'expired', 'cancelled'
+  reportingCurrency: text("reporting_currency").default("USD").notNull(), // currency totals and analytics are converted into
   isActive: boolean("is_active").default(true).notNull(),
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
@@ -64,12 +67,18 @@ export const subscriptions = pgTable("subscriptions", {
   userId: varchar("user_id"), // null for demo/public subscriptions
   name: text("name").notNull(),
   cost: decimal("cost", { precision: 10, scale: 2 }).notNull(),
-  billingCycle: text("billing_cycle").notNull(), // 'monthly', 'yearly', 'weekly'
+  currency: text("currency").default("USD").notNull(), // ISO 4217 code the subscription is billed in
+  billingCycle: text("billing_cycle").notNull(), // 'weekly', 'biweekly', 'monthly', 'quarterly', 'semiannual', 'yearly', 'custom'
+  customCycleCount: integer("custom_cycle_count"), // interval length when billingCycle is 'custom'
+  customCycleUnit: text("custom_cycle_unit"), // 'days' or 'months' when billingCycle is 'custom'
   category: text("category").notNull(),
   nextBillingDate: timestamp("next_billing_date").notNull(),
+  // Where the billing schedule counts from, so a date clamped to a short month (Jan 31 -> Feb 28)
+  // doesn't become the new billing day. Null on rows from before it was kept; nextBillingDate stands in.
+  billingAnchorDate: timestamp("billing_anchor_date"),
   description: text("description"),
   email: text("email"), // optional email for subscription notifications
-  isActive: integer("is_active").default(1).notNull(), // 1 for active, 0 for inactive
+  isActive: boolean("is_active").default(true).notNull(), // false while paused or ended (integer 1/0 before migration 0001)
   paymentStatus: text("payment_status").default("paid").notNull(), // 'paid', 'pending', 'failed', 'overdue'
   // Free trial fields
   isTrial: boolean("is_trial").default(false).notNull(),
@@ -79,6 +88,13 @@ export const subscriptions = pgTable("subscriptions", {
   // Payment card fields for reminders and auto-payment
   cardLast4: text("card_last_4"), // last 4 digits of card
   bankName: text("bank_name"), // name of the bank/card issuer
+  // Pausing (isActive is false while paused)
+  pausedAt: timestamp("paused_at"), // when the subscription was paused; null when not paused
+  resumeAt: timestamp("resume_at"), // optional date to resume automatically
+  // Cancellation workflow
+  cancellationStatus: text("cancellation_status"), // null, 'planned', 'active_until_end', 'cancelled'
+  cancelBy: timestamp("cancel_by"), // deadline for a planned cancellation (before the next renewal)
+  cancelledAt: timestamp("cancelled_at"), // when the cancellation was confirmed with the provider
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
 
@@ -87,12 +103,16 @@ export const subscriptionHistory = pgTable("subscription_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   subscriptionId: varchar("subscription_id").notNull(),
-  eventType: text("event_type").notNull(), // 'payment', 'renewal', 'trial_start', 'trial_end', 'pause', 'resume', 'cancel', 'refund'
+  eventType: text("event_type").notNull(), // 'created', 'updated', 'restored', 'payment', 'renewal', 'price_change', 'trial_start', 'trial_end', 'pause', 'resume', 'cancellation_planned', 'cancellation_withdrawn', 'cancel', 'ended', 'refund'
   paymentStatus: text("payment_status"), // 'paid', 'pending', 'failed', 'refunded' - null for non-payment events
-  amount: decimal("amount", { precision: 10, scale: 2 }), // payment amount - null for non-payment events
+  amount: decimal("amount", { precision: 10, scale: 2 }), // payment amount (new price for price changes) - null for other events
   currency: text("currency").default("USD"), // currency code
+  previousAmount: decimal("previous_amount", { precision: 10, scale: 2 }), // old price - price_change events only
+  previousCurrency: text("previous_currency"), // old currency - price_change events only
   paymentMethod: text("payment_method"), // 'card', 'paypal', 'bank_transfer', etc.
   description: text("description").notNull(), // human readable description of the event
+  changes: text("changes"), // JSON diff { field: { from, to } } - 'updated' and 'restored' events only
+  snapshot: text("snapshot"), // JSON of the editable fields after the event - restorable events only
   eventDate: timestamp("event_date").default(sql`now()`).notNull(),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
@@ -118,6 +138,7 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   googleRefreshToken: text("google_refresh_token"), // OAuth refresh token
   googleTokenExpiry: timestamp("google_token_expiry"), // when token expires
   appleCalendarEnabled: boolean("apple_calendar_enabled").default(false).notNull(),
+  calendarFeedToken: text("calendar_feed_token"), // secret in the ICS feed URL (/api/calendar/:token.ics); null when revoked
   // Browser notifications
   chromeExtensionEnabled: boolean("chrome_extension_enabled").default(false).notNull(),
   browserNotificationEnabled: boolean("browser_notification_enabled").default(true).notNull(),
@@ -128,14 +149,40 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   whatsappPhoneNumberId: text("whatsapp_phone_number_id"), // WhatsApp Business Phone Number ID
   whatsappAccessTokenEncrypted: text("whatsapp_access_token_encrypted"), // AES-256-GCM encrypted access token
   whatsappWebhookToken: text("whatsapp_webhook_token"), // webhook verification token
+  // Replies are only taken from a number the user confirmed with a code sent to it. The code is kept
+  // signed (secretVault.sign), never in clear; the number is digits only, as formatPhoneNumber gives it.
+  whatsappVerifiedNumber: text("whatsapp_verified_number").unique(),
+  whatsappVerificationCode: text("whatsapp_verification_code"),
+  whatsappVerificationCodeExpiresAt: timestamp("whatsapp_verification_code_expires_at"),
+  whatsappVerificationAttempts: integer("whatsapp_verification_attempts").default(0).notNull(),
+  // Chat apps, each posted to through an incoming-webhook URL (AES-256-GCM encrypted; see shared/chat-channels.ts)
+  slackEnabled: boolean("slack_enabled").default(false).notNull(),
+  slackWebhookUrlEncrypted: text("slack_webhook_url_encrypted"),
+  discordEnabled: boolean("discord_enabled").default(false).notNull(),
+  discordWebhookUrlEncrypted: text("discord_webhook_url_encrypted"),
+  teamsEnabled: boolean("teams_enabled").default(false).notNull(),
+  teamsWebhookUrlEncrypted: text("teams_webhook_url_encrypted"),
+  // Telegram: sent by the user's own bot (token stored encrypted in user_external_api_keys as 'telegram')
+  // to the chat they linked by opening the bot with a one-time /start code
+  telegramEnabled: boolean("telegram_enabled").default(false).notNull(),
+  telegramChatId: text("telegram_chat_id"),
+  telegramLinkCode: text("telegram_link_code"), // null once used
+  telegramLinkCodeExpiresAt: timestamp("telegram_link_code_expires_at"),
   // Reminder timing preferences
   reminderDaysBefore: integer("reminder_days_before").array().default(sql`ARRAY[7,3,1]`), // remind 7, 3, 1 days before
-  reminderTime: text("reminder_time").default("09:00").notNull(), // HH:MM format
-  timezone: text("timezone").default("UTC").notNull(),
+  reminderTime: text("reminder_time").default("09:00").notNull(), // HH:MM format, in the user's timezone
+  timezone: text("timezone").default("UTC").notNull(), // IANA zone, e.g. 'Europe/London'
+  // Quiet hours: WhatsApp, chat app and browser reminders due in this local window are held until it ends
+  quietHoursEnabled: boolean("quiet_hours_enabled").default(false).notNull(),
+  quietHoursStart: text("quiet_hours_start").default("22:00").notNull(), // HH:MM
+  quietHoursEnd: text("quiet_hours_end").default("07:00").notNull(), // HH:MM
   // Template preferences
   emailTemplate: text("email_template").default("professional").notNull(), // 'professional', 'casual', 'minimal'
+  emailTemplateId: varchar("email_template_id"), // custom template (email_templates) used instead; emailTemplate is the fallback
   includeSpendingSummary: boolean("include_spending_summary").default(true).notNull(),
   includeActionButtons: boolean("include_action_buttons").default(true).notNull(),
+  // Spending digest email: 'off', 'weekly' (Mondays) or 'monthly' (the 1st), sent at reminderTime (see shared/digest.ts)
+  digestFrequency: text("digest_frequency").default("off").notNull(),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
   updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
 });
@@ -145,21 +192,80 @@ export const subscriptionReminders = pgTable("subscription_reminders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   subscriptionId: varchar("subscription_id").notNull(),
-  reminderType: text("reminder_type").notNull(), // 'email', 'calendar', 'whatsapp', 'browser', 'chrome_extension'
+  reminderType: text("reminder_type").notNull(), // 'email', 'calendar', 'whatsapp', 'browser', 'slack', 'discord', 'teams', 'telegram', 'chrome_extension'
   scheduledFor: timestamp("scheduled_for").notNull(),
   sentAt: timestamp("sent_at"),
-  status: text("status").default("pending").notNull(), // 'pending', 'sent', 'failed'
+  status: text("status").default("pending").notNull(), // 'pending', 'sent', 'delivered', 'read', 'failed'
   daysBefore: integer("days_before").notNull(), // how many days before billing date
   message: text("message").notNull(),
   errorMessage: text("error_message"),
+  externalMessageId: text("external_message_id"), // provider's message id (WhatsApp), matched to delivery status webhooks
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
 
+// Google Calendar events created for subscription reminders: one per subscription and reminder day,
+// so edits, pauses and deletions reach the event that was created
+export const calendarEvents = pgTable("calendar_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  subscriptionId: varchar("subscription_id").notNull(),
+  daysBefore: integer("days_before").notNull(),
+  calendarId: text("calendar_id").notNull(), // Google calendar the event lives in
+  eventId: text("event_id").notNull(),
+  renewalDate: timestamp("renewal_date").notNull(), // renewal the event reminds about
+  startsAt: timestamp("starts_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
+// Outbound webhook endpoints registered by users
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  secretEncrypted: text("secret_encrypted").notNull(), // signing secret, encrypted by the secret vault
+  events: text("events").array().notNull(), // subscribed event types (shared/webhooks.ts)
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
+// One event sent (or being sent) to one webhook endpoint, with the outcome of its latest attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  eventId: varchar("event_id").notNull(), // envelope id; the same event is only delivered once per endpoint
+  eventType: text("event_type").notNull(),
+  payload: text("payload").notNull(), // JSON body exactly as sent
+  status: text("status").default("pending").notNull(), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // truncated
+  error: text("error"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
+// Reminder email templates written by users (Handlebars HTML, see shared/email-templates.ts)
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"), // null for templates an admin shared with every user
+  name: text("name").notNull(),
+  description: text("description"),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
 // Notifications for users (subscription alerts, AI insights, Chrome extension sync)
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
-  type: text("type").notNull(), // 'subscription_reminder', 'ai_insight', 'cost_alert', 'renewal_warning', 'chrome_sync'
+  type: text("type").notNull(), // 'subscription_reminder', 'cancellation_reminder', 'ai_insight', 'cost_alert', 'renewal_warning', 'chrome_sync'
   title: text("title").notNull(),
   message: text("message").notNull(),
   subscriptionId: varchar("subscription_id"), // linked subscription if applicable
@@ -213,6 +319,12 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   createdAt: true,
 });
 
+// API clients written against the integer column (before migration 0001) still send 1/0
+export const subscriptionActiveFlagSchema = z.preprocess(
+  (val) => val === 1 || val === 0 ? val === 1 : val,
+  z.boolean()
+);
+
 export const insertSubscriptionHistorySchema = createInsertSchema(subscriptionHistory).omit({
   id: true,
   createdAt: true,
@@ -229,13 +341,71 @@ export const updateUserNotificationPreferencesSchema = createInsertSchema(userNo
   createdAt: true,
   updatedAt: true,
   userId: true,
+  calendarFeedToken: true, // generated by the server only
+  appleCalendarEnabled: true, // follows calendarFeedToken
+  emailTemplateId: true, // chosen through /api/email-templates, which checks the user may use the template
+  whatsappWebhookToken: true, // the webhook is verified against WHATSAPP_WEBHOOK_VERIFY_TOKEN only
+  whatsappVerifiedNumber: true, // set only by confirming a code sent to the number (see /api/whatsapp)
+}).extend({
+  reminderTime: timeOfDaySchema,
+  timezone: timeZoneSchema,
+  quietHoursStart: timeOfDaySchema,
+  quietHoursEnd: timeOfDaySchema,
+  digestFrequency: z.enum(DIGEST_FREQUENCIES),
 }).partial();
 
+/**
+ * Preference columns only the server writes: encrypted secrets, OAuth tokens and the state of
+ * linking Telegram or verifying WhatsApp. Dropped from anything a user sends, whether through the
+ * settings form or an account import.
+ */
+export const SERVER_MANAGED_PREFERENCE_FIELDS = [
+  "resendApiKeyEncrypted",
+  "smtpPasswordEncrypted",
+  "whatsappAccessTokenEncrypted",
+  "slackWebhookUrlEncrypted",
+  "discordWebhookUrlEncrypted",
+  "teamsWebhookUrlEncrypted",
+  "googleAccessToken",
+  "googleRefreshToken",
+  "googleTokenExpiry",
+  "telegramChatId",
+  "telegramLinkCode",
+  "telegramLinkCodeExpiresAt",
+  "whatsappVerificationCode",
+  "whatsappVerificationCodeExpiresAt",
+  "whatsappVerificationAttempts",
+] as const;
+
 export const insertSubscriptionReminderSchema = createInsertSchema(subscriptionReminders).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertCalendarEventSchema = createInsertSchema(calendarEvents).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -286,6 +456,34 @@ export const userSessions = pgTable("user_sessions", {
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
 });
 
+// Exchange rates used to normalize totals into a user's reporting currency
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: text("currency").notNull().unique(), // ISO 4217 code
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // units of this currency per 1 USD
+  source: text("source").default("manual").notNull(), // 'manual', 'import'
+  updatedBy: varchar("updated_by"), // admin user who last changed the rate
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
+// Background job queue shared by every server instance (leased, retried with backoff, dead-lettered)
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // handler name, e.g. 'reminders.scan', 'reminder.send'
+  payload: text("payload").default("{}").notNull(), // JSON string passed to the handler
+  status: text("status").default("pending").notNull(), // 'pending', 'running', 'completed', 'dead'
+  idempotencyKey: text("idempotency_key").unique(), // enqueueing the same key twice is a no-op
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  runAt: timestamp("run_at").default(sql`now()`).notNull(), // not claimed before this time (used for backoff)
+  lockedBy: text("locked_by"), // worker holding the lease
+  lockedUntil: timestamp("locked_until"), // lease expiry; expired leases are reclaimed by other workers
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`).notNull(),
+});
+
 // Insert schemas for admin tables
 export const insertAdminActivityLogSchema = createInsertSchema(adminActivityLogs).omit({
   id: true,
@@ -303,6 +501,17 @@ export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
   createdAt: true,
 });
 
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types for TypeScript
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -331,6 +540,18 @@ export type UpdateUserNotificationPreferences = z.infer<typeof updateUserNotific
 export type SubscriptionReminder = typeof subscriptionReminders.$inferSelect;
 export type InsertSubscriptionReminder = z.infer<typeof insertSubscriptionReminderSchema>;
 
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type UpdateNotification = z.infer<typeof updateNotificationSchema>;
@@ -343,3 +564,9 @@ export type InsertAdminSetting = z.infer<typeof insertAdminSettingSchema>;
 
 export type UserSession = typeof userSessions.$inferSelect;
 export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
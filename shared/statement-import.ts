@@ -0,0 +1,126 @@
+// Bank and credit-card statement import: POST /api/import/statement/analyze parses a CSV or
+// OFX/QFX statement and returns the recurring charges it found; the user reviews them and
+// POST /api/import/statement/apply creates subscriptions or records payments on existing ones.
+// Everything runs on the server without calling out to any external service.
+
+import { z } from "zod";
+import { currencyCodeSchema } from "./currency";
+import { BILLING_CYCLE_VALUES, CUSTOM_CYCLE_UNITS, refineCustomCycle } from "./recurrence";
+
+export const STATEMENT_FORMATS = ["csv", "ofx"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+/** How dates in a CSV are written; 'auto' works it out from the values */
+export const STATEMENT_DATE_FORMATS = ["auto", "YMD", "DMY", "MDY"] as const;
+export type StatementDateFormat = (typeof STATEMENT_DATE_FORMATS)[number];
+
+/** Categories offered by the subscription form, and the ones a guess can land on */
+export const SUBSCRIPTION_CATEGORIES = [
+  "Entertainment",
+  "Productivity",
+  "Health",
+  "Education",
+  "Gaming",
+  "News",
+  "Other",
+] as const;
+
+/**
+ * Which CSV columns (by header) hold what. Charges come either from one signed `amount`
+ * column or from separate `debit` / `credit` columns.
+ */
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  amount: z.string().optional(),
+  debit: z.string().optional(),
+  credit: z.string().optional(),
+  currency: z.string().optional(),
+  dateFormat: z.enum(STATEMENT_DATE_FORMATS).default("auto"),
+}).refine((mapping) => mapping.amount || mapping.debit, {
+  message: "Map either an amount column or a debit column",
+  path: ["amount"],
+});
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+
+export const analyzeStatementSchema = z.object({
+  format: z.enum(STATEMENT_FORMATS),
+  content: z.string().min(1),
+  // CSV only; guessed from the header row when missing
+  mapping: csvColumnMappingSchema.optional(),
+  // Used when the statement does not say; defaults to the user's reporting currency
+  currency: currencyCodeSchema.optional(),
+});
+
+/** One outgoing payment on the statement */
+export interface StatementTransaction {
+  date: string; // ISO timestamp, midnight UTC
+  description: string;
+  amount: number; // positive
+  currency: string;
+}
+
+/** A merchant that charged at a regular interval */
+export interface RecurringCharge {
+  key: string; // normalized merchant, stable across analyses of the same statement
+  merchant: string; // display name
+  descriptions: string[]; // raw statement descriptions that were grouped together
+  transactions: { date: string; amount: number }[]; // oldest first
+  amount: string; // latest charge
+  currency: string;
+  billingCycle: (typeof BILLING_CYCLE_VALUES)[number];
+  customCycleCount: number | null;
+  customCycleUnit: (typeof CUSTOM_CYCLE_UNITS)[number] | null;
+  intervalDays: number; // median days between charges
+  confidence: number; // 0-1
+  category: (typeof SUBSCRIPTION_CATEGORIES)[number];
+  nextBillingDate: string;
+  // Existing subscription this is probably already tracked as
+  match: { subscriptionId: string; name: string } | null;
+}
+
+export interface StatementAnalysis {
+  format: StatementFormat;
+  columns: string[]; // CSV header row; empty for OFX
+  mapping: CsvColumnMapping | null; // mapping the CSV was read with
+  transactionCount: number; // outgoing payments found
+  skippedRows: number; // rows without a readable date or amount
+  charges: RecurringCharge[];
+}
+
+const statementPaymentSchema = z.object({
+  date: z.coerce.date(),
+  amount: z.number().positive(),
+});
+
+const createFromChargeSchema = z.object({
+  action: z.literal("create"),
+  name: z.string().min(1),
+  cost: z.union([z.string(), z.number()]).transform(String),
+  currency: currencyCodeSchema,
+  billingCycle: z.enum(BILLING_CYCLE_VALUES),
+  customCycleCount: z.number().int().min(1).nullable().optional(),
+  customCycleUnit: z.enum(CUSTOM_CYCLE_UNITS).nullable().optional(),
+  category: z.string().min(1),
+  nextBillingDate: z.coerce.date(),
+  transactions: z.array(statementPaymentSchema),
+}).superRefine(refineCustomCycle);
+
+const matchChargeSchema = z.object({
+  action: z.literal("match"),
+  subscriptionId: z.string().min(1),
+  transactions: z.array(statementPaymentSchema),
+});
+
+export const applyStatementSchema = z.object({
+  charges: z.array(z.union([createFromChargeSchema, matchChargeSchema])).min(1),
+});
+
+export type ApplyStatementRequest = z.infer<typeof applyStatementSchema>;
+
+export interface StatementApplyResult {
+  created: { subscriptionId: string; name: string; payments: number }[];
+  matched: { subscriptionId: string; name: string; payments: number }[];
+  paymentsSkipped: number; // already in the subscription's history
+}
@@ -0,0 +1,107 @@
+// Field-level audit trail for subscription edits. Every edit stores the changed fields as a
+// JSON diff ({ field: { from, to } }) together with a snapshot of the editable fields after
+// the edit, so the history timeline can show what changed and a subscription can be
+// restored to any earlier snapshot.
+
+export const AUDITED_FIELDS = [
+  { field: "name", label: "Name" },
+  { field: "cost", label: "Cost" },
+  { field: "currency", label: "Currency" },
+  { field: "billingCycle", label: "Billing cycle" },
+  { field: "customCycleCount", label: "Custom cycle length" },
+  { field: "customCycleUnit", label: "Custom cycle unit" },
+  { field: "category", label: "Category" },
+  { field: "nextBillingDate", label: "Next billing date" },
+  { field: "description", label: "Description" },
+  { field: "email", label: "Email" },
+  { field: "paymentStatus", label: "Payment status" },
+  { field: "isActive", label: "Active" },
+  { field: "isTrial", label: "Free trial" },
+  { field: "trialDays", label: "Trial days" },
+  { field: "trialStartDate", label: "Trial start" },
+  { field: "trialEndDate", label: "Trial end" },
+  { field: "cardLast4", label: "Card" },
+  { field: "bankName", label: "Bank" },
+] as const;
+
+export type AuditedField = (typeof AUDITED_FIELDS)[number]["field"];
+
+/** Fields a restore does not write back; pausing and cancelling own `isActive` */
+export const NON_RESTORABLE_FIELDS: readonly AuditedField[] = ["isActive"];
+
+const DATE_FIELDS: readonly AuditedField[] = ["nextBillingDate", "trialStartDate", "trialEndDate"];
+
+export type AuditValue = string | number | boolean | null;
+
+export type SubscriptionSnapshot = Partial<Record<AuditedField, AuditValue>>;
+
+export type SubscriptionChanges = Partial<Record<AuditedField, { from: AuditValue; to: AuditValue }>>;
+
+type AuditSource = { [K in AuditedField]?: unknown };
+
+function normalizeValue(value: unknown): AuditValue {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
+
+/** The audited fields of a subscription in JSON-safe form */
+export function subscriptionSnapshot(subscription: AuditSource): SubscriptionSnapshot {
+  const snapshot: SubscriptionSnapshot = {};
+  for (const { field } of AUDITED_FIELDS) {
+    snapshot[field] = normalizeValue(subscription[field]);
+  }
+  return snapshot;
+}
+
+/** The audited fields that differ between two versions of a subscription */
+export function diffSubscription(before: AuditSource, after: AuditSource): SubscriptionChanges {
+  const from = subscriptionSnapshot(before);
+  const to = subscriptionSnapshot(after);
+  const changes: SubscriptionChanges = {};
+
+  for (const { field } of AUDITED_FIELDS) {
+    const a = from[field] ?? null;
+    const b = to[field] ?? null;
+    // Decimal columns come back as strings ("10.00" vs "10")
+    const equal = field === "cost" && a !== null && b !== null ? parseFloat(String(a)) === parseFloat(String(b)) : a === b;
+    if (!equal) changes[field] = { from: a, to: b };
+  }
+
+  return changes;
+}
+
+/** Parse a stored JSON column, tolerating null and malformed values */
+export function parseAuditJson<T extends SubscriptionChanges | SubscriptionSnapshot>(value: string | null | undefined): T | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed as T : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Subscription updates that bring it back to a snapshot */
+export function snapshotToUpdates(snapshot: SubscriptionSnapshot): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  for (const { field } of AUDITED_FIELDS) {
+    if (!(field in snapshot) || NON_RESTORABLE_FIELDS.includes(field)) continue;
+    const value = snapshot[field];
+    updates[field] = DATE_FIELDS.includes(field) && typeof value === "string" ? new Date(value) : value;
+  }
+  return updates;
+}
+
+export function formatAuditedField(field: string): string {
+  return AUDITED_FIELDS.find((f) => f.field === field)?.label ?? field;
+}
+
+export function formatAuditValue(field: string, value: AuditValue): string {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (field === "isActive") return value ? "Yes" : "No";
+  if (DATE_FIELDS.includes(field as AuditedField)) return String(value).slice(0, 10);
+  return String(value);
+}
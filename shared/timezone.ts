@@ -0,0 +1,123 @@
+// Timezone helpers shared by the reminder scheduler (server) and the preferences UI (client).
+// Built on Intl only, so IANA zones and their DST rules come from the runtime's tz database.
+import { z } from "zod";
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+export interface ZonedParts extends TimeOfDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Parse "HH:MM" (24-hour); returns null for anything else */
+export function parseTimeOfDay(value: string | null | undefined): TimeOfDay | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value ?? "");
+  return match ? { hour: parseInt(match[1], 10), minute: parseInt(match[2], 10) } : null;
+}
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, { message: "Unknown timezone" });
+
+export const timeOfDaySchema = z.string().refine((value) => parseTimeOfDay(value) !== null, {
+  message: "Time must be in HH:MM (24-hour) format",
+});
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock date and time of an instant in the given zone */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/** Offset of the zone from UTC at the given instant, in milliseconds (e.g. +1h for CET) */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return wallClockAsUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the given local date and time.
+ * During a DST gap (e.g. 02:30 on a spring-forward night) the time is pushed forward by the gap;
+ * during an overlap the earlier of the two instants is used.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, time: TimeOfDay, timeZone: string): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, time.hour, time.minute);
+  // Offsets in force either side of any transition that could affect this wall time
+  const offsetBefore = getTimeZoneOffset(new Date(wallClockAsUtc - DAY_MS / 2), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClockAsUtc + DAY_MS / 2), timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map((offset) => wallClockAsUtc - offset)
+    .filter((candidate) => wallClockAsUtc - getTimeZoneOffset(new Date(candidate), timeZone) === candidate)
+    .sort((a, b) => a - b);
+
+  return new Date(matches.length > 0 ? matches[0] : wallClockAsUtc - offsetBefore);
+}
+
+/** "YYYY-MM-DD" of the instant's calendar date in the given zone */
+export function localDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/**
+ * Whether the local time falls inside a quiet-hours window. Windows may wrap midnight
+ * (22:00-07:00); a window whose start equals its end is treated as empty.
+ */
+export function isWithinQuietHours(date: Date, timeZone: string, start: TimeOfDay, end: TimeOfDay): boolean {
+  const p = getZonedParts(date, timeZone);
+  const now = p.hour * 60 + p.minute;
+  const from = start.hour * 60 + start.minute;
+  const to = end.hour * 60 + end.minute;
+  if (from === to) return false;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/** The next instant (after `date`) at which quiet hours end */
+export function quietHoursEndAfter(date: Date, timeZone: string, end: TimeOfDay): Date {
+  const p = getZonedParts(date, timeZone);
+  for (let offsetDays = 0; offsetDays <= 2; offsetDays++) {
+    const day = new Date(Date.UTC(p.year, p.month - 1, p.day) + offsetDays * DAY_MS);
+    const candidate = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), end, timeZone);
+    if (candidate.getTime() > date.getTime()) return candidate;
+  }
+  return new Date(date.getTime() + DAY_MS);
+}
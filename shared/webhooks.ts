@@ -0,0 +1,69 @@
+// Outbound webhooks: users register endpoints (/api/webhooks) and pick event types. Every
+// delivery is a JSON POST of a WebhookEnvelope with these headers:
+//
+//   X-SubTracker-Event      event type, e.g. "subscription.updated"
+//   X-SubTracker-Delivery   delivery id (a redelivery keeps the id)
+//   X-SubTracker-Signature  t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" keyed with the endpoint secret>
+//
+// Receivers should recompute the signature over the raw body, compare in constant time and
+// reject old timestamps. Non-2xx responses are retried with backoff; the envelope `id` stays
+// the same across retries and redeliveries so receivers can drop duplicates.
+
+import { z } from "zod";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "subscription.created",
+  "subscription.updated",
+  "subscription.deleted",
+  "renewal.upcoming",
+  "trial.ending",
+  "payment.failed",
+  "reminder.sent",
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "subscription.created": "Subscription created",
+  "subscription.updated": "Subscription updated, paused, resumed or cancelled",
+  "subscription.deleted": "Subscription deleted",
+  "renewal.upcoming": "Renewal coming up (when a renewal reminder goes out)",
+  "trial.ending": "Free trial ending",
+  "payment.failed": "Payment marked as failed",
+  "reminder.sent": "Reminder sent on any channel",
+};
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-SubTracker-Signature";
+
+/** The body of every delivery */
+export interface WebhookEnvelope {
+  id: string; // event id
+  type: WebhookEventType;
+  createdAt: string; // ISO timestamp
+  data: Record<string, unknown>;
+}
+
+// The server also refuses URLs that resolve to private addresses, when saving and on every delivery
+const webhookUrlSchema = z.string().trim().url().refine((url) => /^https:\/\//i.test(url), {
+  message: "Webhook URLs must use https",
+});
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, "Pick at least one event"),
+  // Generated when missing
+  secret: z.string().min(16, "Secrets must be at least 16 characters").max(200).optional(),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, "Pick at least one event").optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateWebhookEndpoint = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpoint = z.infer<typeof updateWebhookEndpointSchema>;